@@ -25,6 +25,7 @@ const DashboardCustomers = lazy(() => import("@/pages/DashboardCustomers"));
 const DashboardReports = lazy(() => import("@/pages/DashboardReports"));
 const DashboardBridge = lazy(() => import("@/pages/DashboardBridge"));
 const DashboardSubscriptions = lazy(() => import("@/pages/DashboardSubscriptions"));
+const DashboardProducts = lazy(() => import("@/pages/DashboardProducts"));
 const DashboardPayouts = lazy(() => import("@/pages/DashboardPayouts"));
 const DashboardFees = lazy(() => import("@/pages/DashboardFees"));
 const DashboardIntegrations = lazy(() => import("@/pages/DashboardIntegrations"));
@@ -143,6 +144,15 @@ function Router() {
             </ProtectedRoute>
           </WalletRoute>
         </Route>
+        <Route path="/dashboard/products">
+          <WalletRoute>
+            <ProtectedRoute>
+              <Suspense fallback={<PageLoader />}>
+                <DashboardProducts />
+              </Suspense>
+            </ProtectedRoute>
+          </WalletRoute>
+        </Route>
         <Route path="/dashboard/payouts">
           <WalletRoute>
             <ProtectedRoute>
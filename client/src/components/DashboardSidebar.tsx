@@ -36,6 +36,7 @@ import {
   ArrowDownToLine,
   Percent,
   Plug,
+  Package,
 } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar";
@@ -56,6 +57,7 @@ const mainNavItems = [
   { title: "Transactions", icon: CreditCard, href: "/dashboard/transactions" },
   { title: "Invoices", icon: FileText, href: "/dashboard/invoices" },
   { title: "Subscriptions", icon: Repeat, href: "/dashboard/subscriptions" },
+  { title: "Products", icon: Package, href: "/dashboard/products" },
   { title: "Payouts", icon: ArrowDownToLine, href: "/dashboard/payouts" },
   { title: "Customers", icon: Users, href: "/dashboard/customers" },
   { title: "Balances", icon: Wallet, href: "/dashboard/treasury" },
@@ -37,9 +37,11 @@ interface PaymentsTableProps {
 const statusColors: Record<string, string> = {
   created: "bg-muted/30 text-muted-foreground border-border/30",
   pending: "bg-amber-500/15 text-amber-500 border-amber-500/25",
+  confirming: "bg-sky-500/15 text-sky-500 border-sky-500/25",
   confirmed: "bg-green-500/15 text-green-500 border-green-500/25",
   failed: "bg-red-500/15 text-red-500 border-red-500/25",
   refunded: "bg-orange-500/15 text-orange-500 border-orange-500/25",
+  partially_refunded: "bg-orange-500/15 text-orange-400 border-orange-500/25",
   expired: "bg-red-500/15 text-red-400 border-red-500/25",
 };
 
@@ -224,6 +226,11 @@ export function PaymentsTable({ payments, loading, onRefund, search = "" }: Paym
                             Settles: {payment.settlementCurrency}
                           </Badge>
                         )}
+                        {payment.fxRate && payment.convertedAmount && (
+                          <span className="text-xs text-muted-foreground">
+                            {parseFloat(payment.convertedAmount).toFixed(2)} {payment.settlementCurrency} @ {parseFloat(payment.fxRate)}
+                          </span>
+                        )}
                       </div>
                     </TableCell>
                     <TableCell className="py-3">
@@ -274,7 +281,7 @@ export function PaymentsTable({ payments, loading, onRefund, search = "" }: Paym
                           {payment.status === "confirmed" && (
                             <RecordReceiptMenuItem payment={payment} />
                           )}
-                          {payment.status === "confirmed" && onRefund && (
+                          {(payment.status === "confirmed" || payment.status === "partially_refunded") && onRefund && (
                             <DropdownMenuItem
                               onClick={(e) => {
                                 e.stopPropagation();
@@ -13,6 +13,8 @@ import { useState, useEffect, type ReactNode } from "react";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { queryClient } from "./queryClient";
 import { WalletProviderContextProvider } from "./WalletProviderContext";
+import { getWalletChains, loadRegistryChains } from "./chains";
+import type { Chain } from "viem";
 
 interface LazyRainbowKitProviderProps {
   children: ReactNode;
@@ -36,76 +38,30 @@ export function LazyRainbowKitProvider({ children }: LazyRainbowKitProviderProps
           { WagmiProvider, http },
           { RainbowKitProvider, getDefaultConfig },
           { mainnet, sepolia, base, baseSepolia },
+          registryChains,
         ] = await Promise.all([
           import("wagmi"),
           import("@rainbow-me/rainbowkit"),
           import("wagmi/chains"),
+          loadRegistryChains(),
         ]);
 
         // Import RainbowKit styles
         await import("@rainbow-me/rainbowkit/styles.css");
 
         // Create wagmi config inside the dynamic import to avoid top-level wallet imports
-        const arcTestnet = {
-          id: parseInt(import.meta.env.VITE_ARC_CHAIN_ID || '5042002', 10),
-          name: 'ARC Testnet',
-          nativeCurrency: {
-            decimals: 6,
-            name: 'USDC',
-            symbol: 'USDC',
-          },
-          rpcUrls: {
-            default: {
-              http: [import.meta.env.VITE_ARC_RPC_URL || 'https://rpc.testnet.arc.network'],
-            },
-          },
-          blockExplorers: {
-            default: {
-              name: 'ARC Explorer',
-              url: import.meta.env.VITE_ARC_EXPLORER_URL || 'https://testnet.arcscan.app',
-            },
-          },
-          testnet: true,
-        } as const;
-
-        const arcMainnet = {
-          id: 5042001,
-          name: 'ARC Network',
-          nativeCurrency: {
-            decimals: 6,
-            name: 'USDC',
-            symbol: 'USDC',
-          },
-          rpcUrls: {
-            default: {
-              http: ['https://rpc.arc.network'],
-            },
-          },
-          blockExplorers: {
-            default: {
-              name: 'ARC Explorer',
-              url: 'https://arcscan.app',
-            },
-          },
-          testnet: false,
-        } as const;
+        // Chains come from the server's chain registry (Arc first, so it is the default)
+        const chains = getWalletChains(registryChains, [baseSepolia, base, mainnet, sepolia]) as unknown as readonly [Chain, ...Chain[]];
 
         const projectId = import.meta.env.VITE_WALLETCONNECT_PROJECT_ID;
 
         const wagmiConfig = getDefaultConfig({
           appName: 'ArcPayKit',
           projectId: projectId || '00000000000000000000000000000000',
-          chains: [arcTestnet, arcMainnet, baseSepolia, base, mainnet, sepolia],
+          chains,
           ssr: false,
           autoConnect: false,
-          transports: {
-            [arcTestnet.id]: http(),
-            [arcMainnet.id]: http(),
-            [baseSepolia.id]: http(),
-            [base.id]: http(),
-            [mainnet.id]: http(),
-            [sepolia.id]: http(),
-          },
+          transports: Object.fromEntries(chains.map((chain) => [chain.id, http()])),
         });
 
         // Create the provider component
@@ -2,8 +2,11 @@
  * ARC Testnet Utilities
  */
 
-const ARC_EXPLORER_BASE_URL = import.meta.env.VITE_ARC_EXPLORER_URL || "https://testnet.arcscan.app";
-const ARC_CHAIN_ID = parseInt(import.meta.env.VITE_ARC_CHAIN_ID || "5042002", 10);
+import { defaultChainRegistry, ARC_TESTNET_CHAIN_ID } from "@shared/chains";
+
+const ARC_CHAIN_ID = parseInt(import.meta.env.VITE_ARC_CHAIN_ID || String(ARC_TESTNET_CHAIN_ID), 10);
+const arcChain = defaultChainRegistry.getChain(ARC_CHAIN_ID);
+const ARC_EXPLORER_BASE_URL = import.meta.env.VITE_ARC_EXPLORER_URL || arcChain?.explorerUrl || "https://testnet.arcscan.app";
 
 export function getExplorerLink(txHash: string): string {
   // ArcScan uses format: https://testnet.arcscan.app/tx/{txHash}
@@ -17,11 +20,11 @@ export function getArcChainId(): number {
 }
 
 export function getArcNetworkName(): string {
-  return "ARC Testnet";
+  return arcChain?.name ?? "ARC Testnet";
 }
 
 export function getUsdcTokenAddress(): `0x${string}` {
   // Official ARC Testnet USDC address (native currency)
-  return (import.meta.env.VITE_USDC_TOKEN_ADDRESS || "0x3600000000000000000000000000000000000000") as `0x${string}`;
+  return (import.meta.env.VITE_USDC_TOKEN_ADDRESS || defaultChainRegistry.getToken(ARC_CHAIN_ID, "USDC")?.address || "0x3600000000000000000000000000000000000000") as `0x${string}`;
 }
 
@@ -0,0 +1,68 @@
+/**
+ * Wallet Chains
+ * Chain definitions for wagmi/RainbowKit, built from the chain registry served by GET /api/chains
+ * No wallet libraries are imported here, so it is safe to load eagerly.
+ */
+
+import { defaultChainRegistry, ARC_TESTNET_CHAIN_ID, type PublicChainDefinition } from "@shared/chains";
+import { apiRequest } from "./queryClient";
+
+const ARC_CHAIN_ID = parseInt(import.meta.env.VITE_ARC_CHAIN_ID || String(ARC_TESTNET_CHAIN_ID), 10);
+
+// Built-in chains with their public RPC endpoints, for when the served registry isn't available
+export const BUILT_IN_CHAINS: PublicChainDefinition[] = defaultChainRegistry.chains.map(({ rpcUrl, ...chain }) => ({
+  ...chain,
+  publicRpcUrl: rpcUrl,
+}));
+
+/**
+ * The server's chain registry (including operator additions); the built-in chains if it can't be loaded
+ */
+export async function loadRegistryChains(): Promise<PublicChainDefinition[]> {
+  try {
+    const res = await apiRequest("GET", "/api/chains");
+    const { chains } = (await res.json()) as { chains: PublicChainDefinition[] };
+    return chains;
+  } catch (error) {
+    console.error("Failed to load chain registry, using built-in chains:", error);
+    return BUILT_IN_CHAINS;
+  }
+}
+
+/**
+ * Registry entry in the shape wagmi expects; VITE_ARC_* env vars override the Arc chain's URLs
+ * Returns null for a chain with no public RPC endpoint.
+ */
+export function toWalletChain(chain: PublicChainDefinition) {
+  const isArc = chain.id === ARC_CHAIN_ID;
+  const rpcUrl = (isArc && import.meta.env.VITE_ARC_RPC_URL) || chain.publicRpcUrl;
+  const explorerUrl = (isArc && import.meta.env.VITE_ARC_EXPLORER_URL) || chain.explorerUrl;
+
+  if (!rpcUrl) {
+    return null;
+  }
+
+  return {
+    id: chain.id,
+    name: chain.name,
+    nativeCurrency: chain.nativeCurrency,
+    rpcUrls: {
+      default: { http: [rpcUrl] },
+    },
+    blockExplorers: explorerUrl ? { default: { name: `${chain.name} Explorer`, url: explorerUrl } } : undefined,
+    testnet: chain.testnet,
+  };
+}
+
+/**
+ * Every registry chain, preferring wagmi's own definition when it ships one
+ * (those include multicall and ENS contracts)
+ */
+export function getWalletChains<T extends { id: number }>(
+  registryChains: PublicChainDefinition[],
+  knownChains: readonly T[]
+) {
+  return registryChains
+    .map((chain) => knownChains.find((known) => known.id === chain.id) ?? toWalletChain(chain))
+    .filter((chain) => chain !== null);
+}
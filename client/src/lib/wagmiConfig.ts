@@ -4,54 +4,14 @@
  */
 
 import { getDefaultConfig } from '@rainbow-me/rainbowkit';
-import { http } from 'wagmi';
+import { http, type Transport } from 'wagmi';
 import { mainnet, sepolia, base, baseSepolia } from 'wagmi/chains';
+import type { Chain } from 'viem';
+import { getWalletChains, BUILT_IN_CHAINS } from './chains';
 
-// ARC Testnet configuration
-const arcTestnet = {
-  id: parseInt(import.meta.env.VITE_ARC_CHAIN_ID || '5042002', 10),
-  name: 'ARC Testnet',
-  nativeCurrency: {
-    decimals: 6, // USDC uses 6 decimals
-    name: 'USDC',
-    symbol: 'USDC',
-  },
-  rpcUrls: {
-    default: {
-      http: [import.meta.env.VITE_ARC_RPC_URL || 'https://rpc.testnet.arc.network'],
-    },
-  },
-  blockExplorers: {
-    default: {
-      name: 'ARC Explorer',
-      url: import.meta.env.VITE_ARC_EXPLORER_URL || 'https://testnet.arcscan.app',
-    },
-  },
-  testnet: true,
-} as const;
-
-// ARC Mainnet configuration
-const arcMainnet = {
-  id: 5042001,
-  name: 'ARC Network',
-  nativeCurrency: {
-    decimals: 6,
-    name: 'USDC',
-    symbol: 'USDC',
-  },
-  rpcUrls: {
-    default: {
-      http: ['https://rpc.arc.network'],
-    },
-  },
-  blockExplorers: {
-    default: {
-      name: 'ARC Explorer',
-      url: 'https://arcscan.app',
-    },
-  },
-  testnet: false,
-} as const;
+// Static config with the built-in chains (Arc testnet first, so it is the default);
+// the app's wallet providers load the server's registry instead (LazyRainbowKitProvider)
+const chains = getWalletChains(BUILT_IN_CHAINS, [baseSepolia, base, mainnet, sepolia]) as unknown as readonly [Chain, ...Chain[]];
 
 // Get WalletConnect Project ID
 const projectId = import.meta.env.VITE_WALLETCONNECT_PROJECT_ID;
@@ -67,16 +27,9 @@ if (!projectId) {
 export const wagmiConfig = getDefaultConfig({
   appName: 'ArcPayKit',
   projectId: projectId || '00000000000000000000000000000000',
-  chains: [arcTestnet, arcMainnet, baseSepolia, base, mainnet, sepolia],
+  chains,
   ssr: false,
   autoConnect: false,
-  transports: {
-    [arcTestnet.id]: http(),
-    [arcMainnet.id]: http(),
-    [baseSepolia.id]: http(),
-    [base.id]: http(),
-    [mainnet.id]: http(),
-    [sepolia.id]: http(),
-  },
+  transports: Object.fromEntries(chains.map((chain) => [chain.id, http()])) as Record<number, Transport>,
 });
 
@@ -71,7 +71,7 @@ function CheckoutContent() {
     refetchInterval: (query) => {
       const payment = query.state.data;
       // Only poll if payment is pending and we haven't reached success state
-      if (payment?.status === "pending" && paymentState !== "success") {
+      if ((payment?.status === "pending" || payment?.status === "confirming") && paymentState !== "success") {
         return 5000; // Poll every 5s when pending (reduced frequency)
       }
       // Stop polling if confirmed or failed
@@ -258,7 +258,7 @@ function CheckoutContent() {
     } else if (payment?.status === "failed") {
       setPaymentState("error");
       setSubmittedTxHash(null);
-    } else if (payment?.status === "pending") {
+    } else if (payment?.status === "pending" || payment?.status === "confirming") {
       // Only set to pending if we're not already in success or error state
       if (currentState === "idle" || currentState === "processing") {
         setPaymentState("pending");
@@ -284,7 +284,7 @@ function CheckoutContent() {
       }
 
       // Prevent payment if already processing or pending
-      if (paymentState === "processing" || paymentState === "pending" || payment?.status === "pending") {
+      if (paymentState === "processing" || paymentState === "pending" || payment?.status === "pending" || payment?.status === "confirming") {
         return;
       }
 
@@ -842,7 +842,9 @@ function CheckoutContent() {
                   {paymentState === "pending" && txHash && (
                     <div className="text-center space-y-2">
                       <p className="text-sm text-muted-foreground">
-                        Transaction submitted. Waiting for confirmation...
+                        {payment?.status === "confirming" && payment.requiredConfirmations
+                          ? `Payment received. Waiting for block confirmations (${Math.min(payment.confirmations, payment.requiredConfirmations)} of ${payment.requiredConfirmations})...`
+                          : "Transaction submitted. Waiting for confirmation..."}
                       </p>
                       <a
                         href={getExplorerLink(txHash)}
@@ -16,9 +16,11 @@ function getStatusBadge(status: string) {
   const variants: Record<string, { variant: "default" | "secondary" | "destructive" | "outline"; label: string }> = {
     created: { variant: "outline", label: "Created" },
     pending: { variant: "secondary", label: "Pending" },
+    confirming: { variant: "secondary", label: "Confirming" },
     confirmed: { variant: "default", label: "Confirmed" },
     failed: { variant: "destructive", label: "Failed" },
     refunded: { variant: "outline", label: "Refunded" },
+    partially_refunded: { variant: "outline", label: "Partially Refunded" },
     expired: { variant: "destructive", label: "Expired" },
   };
 
@@ -77,7 +79,12 @@ export default function DashboardPaymentDetails() {
     );
   }
 
-  const canRefund = payment.status === "confirmed" && !payment.isDemo;
+  const canRefund = (payment.status === "confirmed" || payment.status === "partially_refunded") && !payment.isDemo;
+  // Pending refunds also reserve part of the payment
+  const reservedRefunds = refunds
+    .filter((refund) => refund.status !== "failed")
+    .reduce((sum, refund) => sum + parseFloat(refund.amount), 0);
+  const refundableAmount = Math.max(parseFloat(payment.amount) - reservedRefunds, 0);
 
   return (
     <SidebarProvider>
@@ -153,6 +160,14 @@ export default function DashboardPaymentDetails() {
                         </div>
                       </div>
                     )}
+                    {payment.requiredConfirmations != null && (
+                      <div>
+                        <p className="text-sm text-muted-foreground">Confirmations</p>
+                        <p className="text-sm">
+                          {payment.confirmations} / {payment.requiredConfirmations}
+                        </p>
+                      </div>
+                    )}
                     {payment.description && (
                       <div className="col-span-2">
                         <p className="text-sm text-muted-foreground">Description</p>
@@ -201,10 +216,13 @@ export default function DashboardPaymentDetails() {
                         <input
                           type="text"
                           name="amount"
-                          defaultValue={payment.amount}
+                          defaultValue={refundableAmount.toFixed(2)}
                           className="w-full mt-1 px-3 py-2 border rounded-md"
                           required
                         />
+                        <p className="text-xs text-muted-foreground mt-1">
+                          Up to {refundableAmount.toLocaleString("en-US", { minimumFractionDigits: 2 })} {payment.currency} can still be refunded
+                        </p>
                       </div>
                       <div>
                         <label className="text-sm font-medium">Reason (optional)</label>
@@ -264,6 +282,9 @@ export default function DashboardPaymentDetails() {
                           {refund.reason && (
                             <p className="text-sm text-muted-foreground mt-2">{refund.reason}</p>
                           )}
+                          {refund.status === "failed" && refund.failureReason && (
+                            <p className="text-sm text-destructive mt-2">{refund.failureReason}</p>
+                          )}
                         </div>
                       ))}
                     </div>
@@ -0,0 +1,487 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
+import { DashboardSidebar } from "@/components/DashboardSidebar";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { NumberInput } from "@/components/ui/number-input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ThemeToggle } from "@/components/ThemeToggle";
+import { TestModeToggle } from "@/components/TestModeToggle";
+import { StatusIndicator } from "@/components/StatusIndicator";
+import { Plus, Package, Archive, ArchiveRestore, Copy } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { BILLING_INTERVALS, BILLING_INTERVAL_LABELS, MAX_INTERVAL_COUNT, describeInterval, type BillingInterval } from "@shared/billingIntervals";
+
+interface Price {
+  id: string;
+  productId: string;
+  nickname: string | null;
+  type: "one_time" | "recurring";
+  interval: BillingInterval | null;
+  intervalCount: number;
+  unitAmounts: Partial<Record<"USDC" | "EURC", string>>;
+  defaultCurrency: "USDC" | "EURC";
+  active: boolean;
+  createdAt: string;
+}
+
+interface Product {
+  id: string;
+  name: string;
+  description: string | null;
+  active: boolean;
+  prices: Price[];
+  createdAt: string;
+}
+
+function formatPriceAmounts(price: Price) {
+  return Object.entries(price.unitAmounts)
+    .map(([currency, amount]) => `${amount} ${currency}`)
+    .join(" / ");
+}
+
+function formatPriceInterval(price: Price) {
+  if (price.type === "one_time") return "One-time";
+  return `Every ${describeInterval(price.interval ?? "monthly", price.intervalCount)}`;
+}
+
+const emptyPriceForm = {
+  nickname: "",
+  type: "recurring" as "one_time" | "recurring",
+  interval: "monthly" as BillingInterval,
+  intervalCount: 1,
+  usdcAmount: "",
+  eurcAmount: "",
+  defaultCurrency: "USDC" as "USDC" | "EURC",
+};
+
+export default function DashboardProducts() {
+  const { toast } = useToast();
+  const [showArchived, setShowArchived] = useState(false);
+  const [createOpen, setCreateOpen] = useState(false);
+  const [productForm, setProductForm] = useState({ name: "", description: "" });
+  const [priceProduct, setPriceProduct] = useState<Product | null>(null);
+  const [priceForm, setPriceForm] = useState(emptyPriceForm);
+
+  const productsUrl = showArchived ? "/api/products?includeArchived=true" : "/api/products";
+  const { data: products = [], isLoading, refetch } = useQuery<Product[]>({
+    queryKey: [productsUrl],
+  });
+
+  const createProductMutation = useMutation({
+    mutationFn: async (data: { name: string; description?: string }) => {
+      return await apiRequest("POST", "/api/products", data);
+    },
+    onSuccess: () => {
+      toast({ title: "Success", description: "Product created" });
+      setCreateOpen(false);
+      setProductForm({ name: "", description: "" });
+      refetch();
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to create product", variant: "destructive" });
+    },
+  });
+
+  const updateProductMutation = useMutation({
+    mutationFn: async ({ id, active }: { id: string; active: boolean }) => {
+      return await apiRequest("PATCH", `/api/products/${id}`, { active });
+    },
+    onSuccess: (_data, variables) => {
+      toast({ title: "Success", description: variables.active ? "Product restored" : "Product archived" });
+      refetch();
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to update product", variant: "destructive" });
+    },
+  });
+
+  const createPriceMutation = useMutation({
+    mutationFn: async ({ productId, data }: { productId: string; data: any }) => {
+      return await apiRequest("POST", `/api/products/${productId}/prices`, data);
+    },
+    onSuccess: () => {
+      toast({ title: "Success", description: "Price added" });
+      setPriceProduct(null);
+      setPriceForm(emptyPriceForm);
+      refetch();
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to add price", variant: "destructive" });
+    },
+  });
+
+  const updatePriceMutation = useMutation({
+    mutationFn: async ({ id, active }: { id: string; active: boolean }) => {
+      return await apiRequest("PATCH", `/api/prices/${id}`, { active });
+    },
+    onSuccess: (_data, variables) => {
+      toast({
+        title: "Success",
+        description: variables.active ? "Price restored" : "Price archived. Existing subscriptions keep billing.",
+      });
+      refetch();
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to update price", variant: "destructive" });
+    },
+  });
+
+  const handleCreateProduct = () => {
+    if (!productForm.name.trim()) {
+      toast({ title: "Error", description: "Product name is required", variant: "destructive" });
+      return;
+    }
+    createProductMutation.mutate({
+      name: productForm.name.trim(),
+      description: productForm.description.trim() || undefined,
+    });
+  };
+
+  const handleCreatePrice = () => {
+    if (!priceProduct) return;
+
+    const unitAmounts: Record<string, string> = {};
+    if (priceForm.usdcAmount) unitAmounts.USDC = priceForm.usdcAmount;
+    if (priceForm.eurcAmount) unitAmounts.EURC = priceForm.eurcAmount;
+    if (Object.keys(unitAmounts).length === 0) {
+      toast({ title: "Error", description: "Enter an amount in at least one currency", variant: "destructive" });
+      return;
+    }
+    if (!unitAmounts[priceForm.defaultCurrency]) {
+      toast({ title: "Error", description: `Enter a ${priceForm.defaultCurrency} amount for the default currency`, variant: "destructive" });
+      return;
+    }
+
+    createPriceMutation.mutate({
+      productId: priceProduct.id,
+      data: {
+        nickname: priceForm.nickname || undefined,
+        type: priceForm.type,
+        interval: priceForm.type === "recurring" ? priceForm.interval : undefined,
+        intervalCount: priceForm.type === "recurring" ? priceForm.intervalCount : undefined,
+        unitAmounts,
+        defaultCurrency: priceForm.defaultCurrency,
+      },
+    });
+  };
+
+  const copyId = (id: string) => {
+    navigator.clipboard.writeText(id);
+    toast({ title: "Copied", description: "Price ID copied to clipboard" });
+  };
+
+  const style = {
+    "--sidebar-width": "var(--sidebar-width-expanded, 260px)",
+    "--sidebar-width-icon": "var(--sidebar-width-collapsed, 72px)",
+  };
+
+  return (
+    <SidebarProvider style={style as React.CSSProperties}>
+      <div className="flex h-screen w-full">
+        <DashboardSidebar />
+        <div className="flex flex-col flex-1 overflow-hidden">
+          <header
+            className="flex items-center justify-between gap-4 px-6 border-b border-border/50 bg-background/95 backdrop-blur-sm flex-shrink-0"
+            style={{ height: 'var(--app-header-height)' }}
+          >
+            <div className="flex items-center gap-3">
+              <SidebarTrigger className="h-6 w-6" />
+              <h1 className="text-base font-semibold leading-tight">Products</h1>
+            </div>
+            <div className="flex items-center gap-2">
+              <ThemeToggle />
+              <StatusIndicator />
+              <TestModeToggle />
+              <Dialog open={createOpen} onOpenChange={setCreateOpen}>
+                <DialogTrigger asChild>
+                  <Button size="sm" className="h-7 text-xs">
+                    <Plus className="w-3 h-3 mr-1.5" />
+                    Create Product
+                  </Button>
+                </DialogTrigger>
+                <DialogContent className="sm:max-w-[500px]">
+                  <DialogHeader>
+                    <DialogTitle>Create Product</DialogTitle>
+                  </DialogHeader>
+                  <div className="space-y-4 py-2">
+                    <div className="space-y-1.5">
+                      <Label htmlFor="product-name" className="text-sm font-medium">
+                        Name
+                      </Label>
+                      <Input
+                        id="product-name"
+                        value={productForm.name}
+                        onChange={(e) => setProductForm({ ...productForm, name: e.target.value })}
+                        placeholder="Pro plan"
+                        className="h-9"
+                      />
+                    </div>
+                    <div className="space-y-1.5">
+                      <Label htmlFor="product-description" className="text-sm font-normal text-muted-foreground">
+                        Description
+                        <span className="text-xs text-muted-foreground ml-1.5 font-normal">(optional)</span>
+                      </Label>
+                      <Input
+                        id="product-description"
+                        value={productForm.description}
+                        onChange={(e) => setProductForm({ ...productForm, description: e.target.value })}
+                        placeholder="Everything in Basic, plus priority support"
+                        className="h-9"
+                      />
+                    </div>
+                    <Button
+                      onClick={handleCreateProduct}
+                      disabled={createProductMutation.isPending}
+                      className="w-full h-10 font-medium"
+                    >
+                      {createProductMutation.isPending ? "Creating..." : "Create product"}
+                    </Button>
+                  </div>
+                </DialogContent>
+              </Dialog>
+            </div>
+          </header>
+
+          <main className="flex-1 overflow-auto p-4 lg:p-6">
+            <div className="max-w-7xl mx-auto space-y-4">
+              <div className="flex items-center justify-end gap-2">
+                <Switch id="show-archived" checked={showArchived} onCheckedChange={setShowArchived} />
+                <Label htmlFor="show-archived" className="text-sm text-muted-foreground">
+                  Show archived
+                </Label>
+              </div>
+
+              {isLoading ? (
+                <div className="text-center py-12 text-muted-foreground">Loading products...</div>
+              ) : products.length === 0 ? (
+                <div className="text-center py-12 text-muted-foreground">
+                  <Package className="w-12 h-12 mx-auto mb-4 opacity-50" />
+                  <p>No products yet</p>
+                  <p className="text-sm mt-2">Create a product and add prices to use them for subscriptions and payments</p>
+                </div>
+              ) : (
+                <div className="grid gap-4">
+                  {products.map((product) => (
+                    <Card key={product.id}>
+                      <CardHeader>
+                        <div className="flex items-center justify-between gap-2">
+                          <div>
+                            <CardTitle className="text-base">{product.name}</CardTitle>
+                            {product.description && (
+                              <p className="text-sm text-muted-foreground mt-1">{product.description}</p>
+                            )}
+                          </div>
+                          <div className="flex items-center gap-2">
+                            {!product.active && <Badge variant="secondary">archived</Badge>}
+                            {product.active && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => {
+                                  setPriceForm(emptyPriceForm);
+                                  setPriceProduct(product);
+                                }}
+                              >
+                                <Plus className="w-3 h-3 mr-1.5" />
+                                Add Price
+                              </Button>
+                            )}
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => updateProductMutation.mutate({ id: product.id, active: !product.active })}
+                              disabled={updateProductMutation.isPending}
+                            >
+                              {product.active ? <Archive className="w-3 h-3 mr-1.5" /> : <ArchiveRestore className="w-3 h-3 mr-1.5" />}
+                              {product.active ? "Archive" : "Restore"}
+                            </Button>
+                          </div>
+                        </div>
+                      </CardHeader>
+                      <CardContent>
+                        {product.prices.length === 0 ? (
+                          <p className="text-sm text-muted-foreground">No prices yet</p>
+                        ) : (
+                          <div className="divide-y divide-border/50">
+                            {product.prices.map((price) => (
+                              <div key={price.id} className="flex items-center justify-between gap-4 py-2 text-sm">
+                                <div className="min-w-0">
+                                  <p className="font-medium">{formatPriceAmounts(price)}</p>
+                                  <p className="text-xs text-muted-foreground">
+                                    {price.nickname ? `${price.nickname} · ` : ""}
+                                    {formatPriceInterval(price)}
+                                  </p>
+                                </div>
+                                <div className="flex items-center gap-2">
+                                  {!price.active && <Badge variant="secondary">archived</Badge>}
+                                  <Button variant="ghost" size="sm" className="font-mono text-xs" onClick={() => copyId(price.id)}>
+                                    <Copy className="w-3 h-3 mr-1.5" />
+                                    {price.id.slice(0, 8)}
+                                  </Button>
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => updatePriceMutation.mutate({ id: price.id, active: !price.active })}
+                                    disabled={updatePriceMutation.isPending || (!product.active && !price.active)}
+                                  >
+                                    {price.active ? "Archive" : "Restore"}
+                                  </Button>
+                                </div>
+                              </div>
+                            ))}
+                          </div>
+                        )}
+                      </CardContent>
+                    </Card>
+                  ))}
+                </div>
+              )}
+            </div>
+          </main>
+        </div>
+      </div>
+
+      <Dialog open={!!priceProduct} onOpenChange={(open) => !open && setPriceProduct(null)}>
+        <DialogContent className="sm:max-w-[500px]">
+          <DialogHeader>
+            <DialogTitle>Add Price{priceProduct ? ` to ${priceProduct.name}` : ""}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1.5">
+                <Label htmlFor="price-type" className="text-sm font-medium">
+                  Type
+                </Label>
+                <Select value={priceForm.type} onValueChange={(v: any) => setPriceForm({ ...priceForm, type: v })}>
+                  <SelectTrigger id="price-type" className="h-9">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="recurring">Recurring</SelectItem>
+                    <SelectItem value="one_time">One-time</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {priceForm.type === "recurring" && (
+                <div className="space-y-1.5">
+                  <Label htmlFor="price-interval" className="text-sm font-medium">
+                    Billing Interval
+                  </Label>
+                  <div className="flex gap-2">
+                    <Select
+                      value={priceForm.interval}
+                      onValueChange={(v: any) =>
+                        setPriceForm({ ...priceForm, interval: v, intervalCount: Math.min(priceForm.intervalCount, MAX_INTERVAL_COUNT[v as BillingInterval]) })
+                      }
+                    >
+                      <SelectTrigger id="price-interval" className="h-9">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {BILLING_INTERVALS.map((interval) => (
+                          <SelectItem key={interval} value={interval}>
+                            {BILLING_INTERVAL_LABELS[interval]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <NumberInput
+                      id="price-interval-count"
+                      step={1}
+                      min={1}
+                      max={MAX_INTERVAL_COUNT[priceForm.interval]}
+                      value={priceForm.intervalCount.toString()}
+                      onChange={(e) => setPriceForm({ ...priceForm, intervalCount: parseInt(e.target.value) || 1 })}
+                      className="h-9 w-20"
+                      aria-label="Bill every N intervals"
+                    />
+                  </div>
+                </div>
+              )}
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1.5">
+                <Label htmlFor="price-usdc" className="text-sm font-medium">
+                  USDC Amount
+                </Label>
+                <NumberInput
+                  id="price-usdc"
+                  step={0.01}
+                  value={priceForm.usdcAmount}
+                  onChange={(e) => setPriceForm({ ...priceForm, usdcAmount: e.target.value })}
+                  placeholder="99.00"
+                  className="h-9"
+                />
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="price-eurc" className="text-sm font-medium">
+                  EURC Amount
+                  <span className="text-xs text-muted-foreground ml-1.5 font-normal">(optional)</span>
+                </Label>
+                <NumberInput
+                  id="price-eurc"
+                  step={0.01}
+                  value={priceForm.eurcAmount}
+                  onChange={(e) => setPriceForm({ ...priceForm, eurcAmount: e.target.value })}
+                  placeholder="92.00"
+                  className="h-9"
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1.5">
+                <Label htmlFor="price-default-currency" className="text-sm font-normal text-muted-foreground">
+                  Default Currency
+                </Label>
+                <Select value={priceForm.defaultCurrency} onValueChange={(v: any) => setPriceForm({ ...priceForm, defaultCurrency: v })}>
+                  <SelectTrigger id="price-default-currency" className="h-9">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="USDC">USDC</SelectItem>
+                    <SelectItem value="EURC">EURC</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="price-nickname" className="text-sm font-normal text-muted-foreground">
+                  Nickname
+                  <span className="text-xs text-muted-foreground ml-1.5 font-normal">(optional)</span>
+                </Label>
+                <Input
+                  id="price-nickname"
+                  value={priceForm.nickname}
+                  onChange={(e) => setPriceForm({ ...priceForm, nickname: e.target.value })}
+                  placeholder="Pro monthly"
+                  className="h-9"
+                />
+              </div>
+            </div>
+
+            <p className="text-xs text-muted-foreground">
+              Amounts can't be edited later. To change pricing, add a new price and archive this one; existing subscriptions keep their price.
+            </p>
+
+            <Button
+              onClick={handleCreatePrice}
+              disabled={createPriceMutation.isPending}
+              className="w-full h-10 font-medium"
+            >
+              {createPriceMutation.isPending ? "Adding..." : "Add price"}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </SidebarProvider>
+  );
+}
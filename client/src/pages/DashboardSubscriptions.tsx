@@ -14,11 +14,12 @@ import { Separator } from "@/components/ui/separator";
 import { ThemeToggle } from "@/components/ThemeToggle";
 import { TestModeToggle } from "@/components/TestModeToggle";
 import { StatusIndicator } from "@/components/StatusIndicator";
-import { Plus, Repeat, Calendar, Mail, DollarSign, X, ChevronDown, ChevronUp } from "lucide-react";
+import { Plus, Repeat, Calendar, Mail, DollarSign, X, ChevronDown, ChevronUp, ArrowUpDown, Pause, Play } from "lucide-react";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
 import { apiRequest } from "@/lib/queryClient";
 import { useTestMode } from "@/hooks/useTestMode";
 import { useToast } from "@/hooks/use-toast";
+import { BILLING_INTERVALS, BILLING_INTERVAL_LABELS, MAX_INTERVAL_COUNT, MONTH_BASED_INTERVALS, describeInterval, type BillingInterval } from "@shared/billingIntervals";
 
 interface Subscription {
   id: string;
@@ -26,32 +27,103 @@ interface Subscription {
   customerName: string | null;
   amount: string;
   currency: string;
-  interval: "monthly" | "yearly";
-  status: "active" | "paused" | "canceled" | "past_due";
+  interval: BillingInterval;
+  intervalCount: number;
+  status: "active" | "paused" | "canceled" | "past_due" | "trialing";
   nextBillingAt: string;
+  trialEndsAt: string | null;
+  resumeAt: string | null;
+  cancellationReason: string | null;
+  isTest: boolean;
   createdAt: string;
 }
 
+interface ChangePreview {
+  currency: string;
+  previousAmount: string;
+  amount: string;
+  interval: BillingInterval;
+  intervalCount: number;
+  unusedCredit: string;
+  remainingCharge: string;
+  prorationAmount: string;
+  billingCycleReset: boolean;
+  immediateInvoiceAmount: string | null;
+  nextInvoiceAmount: string;
+  nextBillingAt: string;
+}
+
+interface RecurringPrice {
+  id: string;
+  nickname: string | null;
+  type: "one_time" | "recurring";
+  interval: BillingInterval | null;
+  intervalCount: number;
+  unitAmounts: Partial<Record<"USDC" | "EURC", string>>;
+  defaultCurrency: "USDC" | "EURC";
+}
+
+interface CatalogProduct {
+  id: string;
+  name: string;
+  prices: RecurringPrice[];
+}
+
+// Select value for entering an amount by hand instead of picking a catalog price
+const CUSTOM_PRICE = "custom";
+
+const emptyFormData = {
+  customerEmail: "",
+  customerName: "",
+  priceId: CUSTOM_PRICE,
+  amount: "",
+  currency: "USDC",
+  interval: "monthly" as BillingInterval,
+  intervalCount: 1,
+  trialDays: "",
+  billingAnchorDay: "",
+  gracePeriodDays: 7,
+  metadata: "",
+};
+
+const emptyChangeForm = {
+  priceId: CUSTOM_PRICE,
+  amount: "",
+  interval: "monthly" as BillingInterval,
+  intervalCount: 1,
+  prorationBehavior: "next_invoice" as "next_invoice" | "immediate" | "none",
+};
+
 export default function DashboardSubscriptions() {
   const { testMode } = useTestMode();
   const { toast } = useToast();
   const [createOpen, setCreateOpen] = useState(false);
-  const [formData, setFormData] = useState({
-    customerEmail: "",
-    customerName: "",
-    amount: "",
-    currency: "USDC",
-    interval: "monthly" as "monthly" | "yearly",
-    gracePeriodDays: 7,
-    metadata: "",
-  });
+  const [formData, setFormData] = useState(emptyFormData);
   const [showAdvanced, setShowAdvanced] = useState(false);
+  const [changingSub, setChangingSub] = useState<Subscription | null>(null);
+  const [changeForm, setChangeForm] = useState(emptyChangeForm);
+  const [changePreview, setChangePreview] = useState<ChangePreview | null>(null);
+  const [pausingSub, setPausingSub] = useState<Subscription | null>(null);
+  const [resumeDate, setResumeDate] = useState("");
 
   const { data: subscriptions = [], isLoading, refetch } = useQuery<Subscription[]>({
     queryKey: ["/api/subscriptions"],
     enabled: true,
   });
 
+  const { data: products = [] } = useQuery<CatalogProduct[]>({
+    queryKey: ["/api/products"],
+  });
+
+  const recurringPrices = products.flatMap((product) =>
+    product.prices
+      .filter((price) => price.type === "recurring")
+      .map((price) => ({ ...price, productName: product.name }))
+  );
+  const selectedPrice = recurringPrices.find((price) => price.id === formData.priceId);
+  const billingInterval = selectedPrice?.interval ?? formData.interval;
+  const billingIntervalCount = selectedPrice ? selectedPrice.intervalCount : formData.intervalCount;
+
   const createMutation = useMutation({
     mutationFn: async (data: any) => {
       return await apiRequest("POST", "/api/subscriptions", data);
@@ -59,7 +131,7 @@ export default function DashboardSubscriptions() {
     onSuccess: () => {
       toast({ title: "Success", description: "Subscription created" });
       setCreateOpen(false);
-      setFormData({ customerEmail: "", customerName: "", amount: "", currency: "USDC", interval: "monthly", gracePeriodDays: 7, metadata: "" });
+      setFormData(emptyFormData);
       setShowAdvanced(false);
       refetch();
     },
@@ -81,19 +153,111 @@ export default function DashboardSubscriptions() {
     },
   });
 
+  const getChangePayload = () =>
+    changeForm.priceId !== CUSTOM_PRICE
+      ? { priceId: changeForm.priceId, prorationBehavior: changeForm.prorationBehavior }
+      : {
+          amount: changeForm.amount,
+          interval: changeForm.interval,
+          intervalCount: changeForm.intervalCount,
+          prorationBehavior: changeForm.prorationBehavior,
+        };
+
+  const previewChangeMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/subscriptions/${changingSub!.id}/change/preview`, getChangePayload());
+      return (await res.json()) as ChangePreview;
+    },
+    onSuccess: (preview) => setChangePreview(preview),
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to preview change", variant: "destructive" });
+    },
+  });
+
+  const changeMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", `/api/subscriptions/${changingSub!.id}/change`, getChangePayload());
+    },
+    onSuccess: () => {
+      toast({ title: "Success", description: "Subscription plan changed" });
+      setChangingSub(null);
+      refetch();
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to change subscription", variant: "destructive" });
+    },
+  });
+
+  const pauseMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", `/api/subscriptions/${pausingSub!.id}/pause`, {
+        resumeAt: resumeDate ? new Date(resumeDate).toISOString() : undefined,
+      });
+    },
+    onSuccess: () => {
+      toast({ title: "Success", description: "Subscription paused" });
+      setPausingSub(null);
+      refetch();
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to pause subscription", variant: "destructive" });
+    },
+  });
+
+  const resumeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest("POST", `/api/subscriptions/${id}/resume`, {});
+    },
+    onSuccess: () => {
+      toast({ title: "Success", description: "Subscription resumed" });
+      refetch();
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to resume subscription", variant: "destructive" });
+    },
+  });
+
+  const openChangeDialog = (sub: Subscription) => {
+    setChangingSub(sub);
+    setChangeForm({ ...emptyChangeForm, amount: sub.amount, interval: sub.interval, intervalCount: sub.intervalCount });
+    setChangePreview(null);
+  };
+
+  // Any edit invalidates the preview
+  const updateChangeForm = (update: Partial<typeof emptyChangeForm>) => {
+    setChangeForm({ ...changeForm, ...update });
+    setChangePreview(null);
+  };
+
   const handleCreate = () => {
-    if (!formData.customerEmail || !formData.amount) {
+    if (!formData.customerEmail || (!selectedPrice && !formData.amount)) {
       toast({ title: "Error", description: "Please fill in all required fields", variant: "destructive" });
       return;
     }
     // Prepare payload - only include metadata if provided and valid JSON
-    const payload: any = {
-      customerEmail: formData.customerEmail,
-      amount: formData.amount,
-      currency: formData.currency,
-      interval: formData.interval,
-      gracePeriodDays: formData.gracePeriodDays,
-    };
+    const payload: any = selectedPrice
+      ? {
+          customerEmail: formData.customerEmail,
+          priceId: selectedPrice.id,
+          currency: selectedPrice.defaultCurrency,
+          gracePeriodDays: formData.gracePeriodDays,
+        }
+      : {
+          customerEmail: formData.customerEmail,
+          amount: formData.amount,
+          currency: formData.currency,
+          interval: formData.interval,
+          intervalCount: formData.intervalCount,
+          gracePeriodDays: formData.gracePeriodDays,
+        };
+
+    if (formData.trialDays) {
+      payload.trialDays = parseInt(formData.trialDays);
+    }
+
+    if (formData.billingAnchorDay && MONTH_BASED_INTERVALS.includes(billingInterval)) {
+      payload.billingAnchorDay = parseInt(formData.billingAnchorDay);
+    }
     
     if (formData.customerName) {
       payload.customerName = formData.customerName;
@@ -114,17 +278,24 @@ export default function DashboardSubscriptions() {
   };
 
   const getSubscriptionSummary = () => {
+    const intervalText = describeInterval(billingInterval, billingIntervalCount);
+    const firstCharge = formData.trialDays
+      ? `First charge will be created when the ${formData.trialDays}-day trial ends.`
+      : formData.billingAnchorDay && MONTH_BASED_INTERVALS.includes(billingInterval)
+        ? `First charge will be created on day ${formData.billingAnchorDay} of the month.`
+        : "First charge will be created immediately.";
+
+    if (selectedPrice) {
+      const amount = selectedPrice.unitAmounts[selectedPrice.defaultCurrency];
+      return `Customer will be charged ${amount} ${selectedPrice.defaultCurrency} every ${intervalText} for ${selectedPrice.productName}. ${firstCharge}`;
+    }
     if (!formData.amount || !formData.currency || !formData.interval) {
       return null;
     }
-    const intervalText = formData.interval === "monthly" ? "month" : "year";
-    return `Customer will be charged ${formData.amount} ${formData.currency} every ${intervalText}. First charge will be created immediately.`;
+    return `Customer will be charged ${formData.amount} ${formData.currency} every ${intervalText}. ${firstCharge}`;
   };
 
-  const filteredSubscriptions = subscriptions.filter((s) => {
-    // Filter by test mode if needed (subscriptions don't have isTest, so show all for now)
-    return true;
-  });
+  const filteredSubscriptions = subscriptions.filter((s) => s.isTest === testMode);
 
   const style = {
     "--sidebar-width": "var(--sidebar-width-expanded, 260px)",
@@ -176,34 +347,84 @@ export default function DashboardSubscriptions() {
                         />
                       </div>
                       
-                      <div className="space-y-1.5">
-                        <Label htmlFor="amount" className="text-sm font-medium">
-                          Amount
-                        </Label>
-                        <NumberInput
-                          id="amount"
-                          step={0.01}
-                          value={formData.amount}
-                          onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
-                          placeholder="99.00"
-                          className="h-11 text-lg font-medium tracking-tight"
-                        />
-                      </div>
+                      {recurringPrices.length > 0 && (
+                        <div className="space-y-1.5">
+                          <Label htmlFor="price" className="text-sm font-medium">
+                            Price
+                          </Label>
+                          <Select value={formData.priceId} onValueChange={(v) => setFormData({ ...formData, priceId: v })}>
+                            <SelectTrigger id="price" className="h-9">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value={CUSTOM_PRICE}>Custom amount</SelectItem>
+                              {recurringPrices.map((price) => (
+                                <SelectItem key={price.id} value={price.id}>
+                                  {price.productName}
+                                  {price.nickname ? ` (${price.nickname})` : ""}
+                                  {` · ${price.unitAmounts[price.defaultCurrency]} ${price.defaultCurrency} every ${describeInterval(price.interval ?? "monthly", price.intervalCount)}`}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      )}
 
-                      <div className="space-y-1.5">
-                        <Label htmlFor="interval" className="text-sm font-medium">
-                          Billing Interval
-                        </Label>
-                        <Select value={formData.interval} onValueChange={(v: any) => setFormData({ ...formData, interval: v })}>
-                          <SelectTrigger id="interval" className="h-9">
-                            <SelectValue />
-                          </SelectTrigger>
-                          <SelectContent>
-                            <SelectItem value="monthly">Monthly</SelectItem>
-                            <SelectItem value="yearly">Yearly</SelectItem>
-                          </SelectContent>
-                        </Select>
-                      </div>
+                      {!selectedPrice && (
+                        <>
+                          <div className="space-y-1.5">
+                            <Label htmlFor="amount" className="text-sm font-medium">
+                              Amount
+                            </Label>
+                            <NumberInput
+                              id="amount"
+                              step={0.01}
+                              value={formData.amount}
+                              onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+                              placeholder="99.00"
+                              className="h-11 text-lg font-medium tracking-tight"
+                            />
+                          </div>
+
+                          <div className="space-y-1.5">
+                            <Label htmlFor="interval" className="text-sm font-medium">
+                              Billing Interval
+                            </Label>
+                            <div className="flex gap-2">
+                              <Select
+                                value={formData.interval}
+                                onValueChange={(v: any) =>
+                                  setFormData({ ...formData, interval: v, intervalCount: Math.min(formData.intervalCount, MAX_INTERVAL_COUNT[v as BillingInterval]) })
+                                }
+                              >
+                                <SelectTrigger id="interval" className="h-9">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {BILLING_INTERVALS.map((interval) => (
+                                    <SelectItem key={interval} value={interval}>
+                                      {BILLING_INTERVAL_LABELS[interval]}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                              <NumberInput
+                                id="interval-count"
+                                step={1}
+                                min={1}
+                                max={MAX_INTERVAL_COUNT[formData.interval]}
+                                value={formData.intervalCount.toString()}
+                                onChange={(e) => setFormData({ ...formData, intervalCount: parseInt(e.target.value) || 1 })}
+                                className="h-9 w-24"
+                                aria-label="Bill every N intervals"
+                              />
+                            </div>
+                            <p className="text-xs text-muted-foreground">
+                              Every {describeInterval(formData.interval, formData.intervalCount)}
+                            </p>
+                          </div>
+                        </>
+                      )}
                     </div>
 
                     {/* Advanced Section (Collapsed) */}
@@ -215,6 +436,40 @@ export default function DashboardSubscriptions() {
                         </Button>
                       </CollapsibleTrigger>
                       <CollapsibleContent className="space-y-4 pt-4">
+                        <div className="space-y-1.5">
+                          <Label htmlFor="trial-days" className="text-sm font-normal text-muted-foreground">
+                            Trial (days)
+                            <span className="text-xs text-muted-foreground ml-1.5 font-normal">(optional)</span>
+                          </Label>
+                          <NumberInput
+                            id="trial-days"
+                            step={1}
+                            min={1}
+                            max={365}
+                            value={formData.trialDays}
+                            onChange={(e) => setFormData({ ...formData, trialDays: e.target.value })}
+                            placeholder="14"
+                            className="h-9"
+                          />
+                        </div>
+                        {MONTH_BASED_INTERVALS.includes(billingInterval) && (
+                          <div className="space-y-1.5">
+                            <Label htmlFor="anchor-day" className="text-sm font-normal text-muted-foreground">
+                              Billing day of month
+                              <span className="text-xs text-muted-foreground ml-1.5 font-normal">(optional, 1-31; moved to the last day in shorter months)</span>
+                            </Label>
+                            <NumberInput
+                              id="anchor-day"
+                              step={1}
+                              min={1}
+                              max={31}
+                              value={formData.billingAnchorDay}
+                              onChange={(e) => setFormData({ ...formData, billingAnchorDay: e.target.value })}
+                              placeholder="1"
+                              className="h-9"
+                            />
+                          </div>
+                        )}
                         <div className="space-y-1.5">
                           <Label htmlFor="grace-period" className="text-sm font-normal text-muted-foreground">
                             Grace Period (days)
@@ -259,7 +514,7 @@ export default function DashboardSubscriptions() {
                       disabled={createMutation.isPending} 
                       className="w-full h-10 font-medium"
                     >
-                      {createMutation.isPending ? "Starting..." : formData.interval === "monthly" ? "Start monthly billing" : "Start yearly billing"}
+                      {createMutation.isPending ? "Starting..." : formData.trialDays ? "Start trial" : `Start billing every ${describeInterval(billingInterval, billingIntervalCount)}`}
                     </Button>
                   </div>
                 </DialogContent>
@@ -284,7 +539,7 @@ export default function DashboardSubscriptions() {
                       <CardHeader>
                         <div className="flex items-center justify-between">
                           <CardTitle className="text-base">{sub.customerName || sub.customerEmail}</CardTitle>
-                          <Badge variant={sub.status === "active" ? "default" : "secondary"}>
+                          <Badge variant={sub.status === "active" || sub.status === "trialing" ? "default" : "secondary"}>
                             {sub.status}
                           </Badge>
                         </div>
@@ -297,14 +552,55 @@ export default function DashboardSubscriptions() {
                           </div>
                           <div>
                             <p className="text-muted-foreground">Interval</p>
-                            <p className="font-medium capitalize">{sub.interval}</p>
+                            <p className="font-medium">Every {describeInterval(sub.interval, sub.intervalCount)}</p>
                           </div>
                           <div>
                             <p className="text-muted-foreground">Next Billing</p>
                             <p className="font-medium">{new Date(sub.nextBillingAt).toLocaleDateString()}</p>
+                            {sub.status === "trialing" && sub.trialEndsAt && (
+                              <p className="text-xs text-muted-foreground">Trial ends {new Date(sub.trialEndsAt).toLocaleDateString()}</p>
+                            )}
+                            {sub.status === "paused" && (
+                              <p className="text-xs text-muted-foreground">
+                                {sub.resumeAt ? `Resumes ${new Date(sub.resumeAt).toLocaleDateString()}` : "Paused until resumed"}
+                              </p>
+                            )}
+                            {sub.status === "canceled" && sub.cancellationReason === "payment_failed" && (
+                              <p className="text-xs text-muted-foreground">Canceled for non-payment</p>
+                            )}
                           </div>
-                          <div className="flex items-end">
-                            {sub.status === "active" && (
+                          <div className="flex items-end gap-2">
+                            {(sub.status === "active" || sub.status === "trialing") && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => {
+                                  setPausingSub(sub);
+                                  setResumeDate("");
+                                }}
+                              >
+                                <Pause className="w-3 h-3 mr-1.5" />
+                                Pause
+                              </Button>
+                            )}
+                            {sub.status === "paused" && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => resumeMutation.mutate(sub.id)}
+                                disabled={resumeMutation.isPending}
+                              >
+                                <Play className="w-3 h-3 mr-1.5" />
+                                Resume
+                              </Button>
+                            )}
+                            {(sub.status === "active" || sub.status === "trialing") && (
+                              <Button variant="outline" size="sm" onClick={() => openChangeDialog(sub)}>
+                                <ArrowUpDown className="w-3 h-3 mr-1.5" />
+                                Change plan
+                              </Button>
+                            )}
+                            {sub.status !== "canceled" && (
                               <Button
                                 variant="outline"
                                 size="sm"
@@ -324,6 +620,192 @@ export default function DashboardSubscriptions() {
               )}
             </div>
           </main>
+
+          <Dialog open={!!pausingSub} onOpenChange={(open) => !open && setPausingSub(null)}>
+            <DialogContent className="sm:max-w-[420px]">
+              <DialogHeader>
+                <DialogTitle>Pause Subscription</DialogTitle>
+              </DialogHeader>
+              <div className="space-y-4 pt-2">
+                <p className="text-sm text-muted-foreground">
+                  No invoices are created while paused. Periods that pass while paused aren't billed.
+                </p>
+                <div className="space-y-1.5">
+                  <Label htmlFor="resume-date" className="text-sm font-medium">
+                    Resume on
+                    <span className="text-xs text-muted-foreground ml-1.5 font-normal">(optional)</span>
+                  </Label>
+                  <Input
+                    id="resume-date"
+                    type="date"
+                    min={new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString().slice(0, 10)}
+                    value={resumeDate}
+                    onChange={(e) => setResumeDate(e.target.value)}
+                    className="h-9"
+                  />
+                </div>
+                <div className="flex justify-end gap-2 pt-2">
+                  <Button variant="ghost" size="sm" onClick={() => setPausingSub(null)}>
+                    Cancel
+                  </Button>
+                  <Button size="sm" onClick={() => pauseMutation.mutate()} disabled={pauseMutation.isPending}>
+                    {pauseMutation.isPending ? "Pausing..." : "Pause billing"}
+                  </Button>
+                </div>
+              </div>
+            </DialogContent>
+          </Dialog>
+
+          <Dialog open={!!changingSub} onOpenChange={(open) => !open && setChangingSub(null)}>
+            <DialogContent className="sm:max-w-[500px]">
+              <DialogHeader>
+                <DialogTitle>Change Plan</DialogTitle>
+              </DialogHeader>
+              {changingSub && (
+                <div className="space-y-4 pt-2">
+                  <p className="text-sm text-muted-foreground">
+                    Currently {changingSub.amount} {changingSub.currency} every {describeInterval(changingSub.interval, changingSub.intervalCount)}
+                  </p>
+                  {recurringPrices.some((price) => price.unitAmounts[changingSub.currency as "USDC" | "EURC"]) && (
+                    <div className="space-y-1.5">
+                      <Label htmlFor="change-price" className="text-sm font-medium">
+                        Price
+                      </Label>
+                      <Select value={changeForm.priceId} onValueChange={(v) => updateChangeForm({ priceId: v })}>
+                        <SelectTrigger id="change-price" className="h-9">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={CUSTOM_PRICE}>Custom amount</SelectItem>
+                          {recurringPrices
+                            .filter((price) => price.unitAmounts[changingSub.currency as "USDC" | "EURC"])
+                            .map((price) => (
+                              <SelectItem key={price.id} value={price.id}>
+                                {price.productName}
+                                {price.nickname ? ` (${price.nickname})` : ""}
+                                {` · ${price.unitAmounts[changingSub.currency as "USDC" | "EURC"]} ${changingSub.currency} every ${describeInterval(price.interval ?? "monthly", price.intervalCount)}`}
+                              </SelectItem>
+                            ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+                  {changeForm.priceId === CUSTOM_PRICE && (
+                    <div className="grid grid-cols-2 gap-3">
+                      <div className="space-y-1.5">
+                        <Label htmlFor="change-amount" className="text-sm font-medium">
+                          Amount ({changingSub.currency})
+                        </Label>
+                        <NumberInput
+                          id="change-amount"
+                          step={0.01}
+                          value={changeForm.amount}
+                          onChange={(e) => updateChangeForm({ amount: e.target.value })}
+                          className="h-9"
+                        />
+                      </div>
+                      <div className="space-y-1.5">
+                        <Label htmlFor="change-interval" className="text-sm font-medium">
+                          Billing Interval
+                        </Label>
+                        <div className="flex gap-2">
+                          <Select
+                            value={changeForm.interval}
+                            onValueChange={(v: any) =>
+                              updateChangeForm({ interval: v, intervalCount: Math.min(changeForm.intervalCount, MAX_INTERVAL_COUNT[v as BillingInterval]) })
+                            }
+                          >
+                            <SelectTrigger id="change-interval" className="h-9">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {BILLING_INTERVALS.map((interval) => (
+                                <SelectItem key={interval} value={interval}>
+                                  {BILLING_INTERVAL_LABELS[interval]}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <NumberInput
+                            id="change-interval-count"
+                            step={1}
+                            min={1}
+                            max={MAX_INTERVAL_COUNT[changeForm.interval]}
+                            value={changeForm.intervalCount.toString()}
+                            onChange={(e) => updateChangeForm({ intervalCount: parseInt(e.target.value) || 1 })}
+                            className="h-9 w-20"
+                            aria-label="Bill every N intervals"
+                          />
+                        </div>
+                      </div>
+                    </div>
+                  )}
+                  <div className="space-y-1.5">
+                    <Label htmlFor="proration-behavior" className="text-sm font-medium">
+                      Proration
+                    </Label>
+                    <Select value={changeForm.prorationBehavior} onValueChange={(v: any) => updateChangeForm({ prorationBehavior: v })}>
+                      <SelectTrigger id="proration-behavior" className="h-9">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="next_invoice">Add to next invoice</SelectItem>
+                        <SelectItem value="immediate">Invoice the difference now</SelectItem>
+                        <SelectItem value="none">Don't prorate</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  {changePreview && (
+                    <div className="rounded-lg border border-border bg-muted/30 p-3 text-sm space-y-1">
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">Unused time on current plan</span>
+                        <span>-{changePreview.unusedCredit} {changePreview.currency}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">Remaining time on new plan</span>
+                        <span>{changePreview.remainingCharge} {changePreview.currency}</span>
+                      </div>
+                      {changePreview.immediateInvoiceAmount !== null && (
+                        <div className="flex justify-between">
+                          <span className="text-muted-foreground">Invoiced now</span>
+                          <span className="font-medium">{changePreview.immediateInvoiceAmount} {changePreview.currency}</span>
+                        </div>
+                      )}
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">Next invoice ({new Date(changePreview.nextBillingAt).toLocaleDateString()})</span>
+                        <span className="font-medium">{changePreview.nextInvoiceAmount} {changePreview.currency}</span>
+                      </div>
+                      {changePreview.billingCycleReset && (
+                        <p className="text-xs text-muted-foreground pt-1">
+                          The interval changes, so a new billing cycle starts today.
+                        </p>
+                      )}
+                    </div>
+                  )}
+
+                  <div className="flex justify-end gap-2 pt-2">
+                    <Button variant="ghost" size="sm" onClick={() => setChangingSub(null)}>
+                      Cancel
+                    </Button>
+                    {changePreview ? (
+                      <Button size="sm" onClick={() => changeMutation.mutate()} disabled={changeMutation.isPending}>
+                        {changeMutation.isPending ? "Changing..." : "Confirm change"}
+                      </Button>
+                    ) : (
+                      <Button
+                        size="sm"
+                        onClick={() => previewChangeMutation.mutate()}
+                        disabled={previewChangeMutation.isPending || (changeForm.priceId === CUSTOM_PRICE && !changeForm.amount)}
+                      >
+                        {previewChangeMutation.isPending ? "Calculating..." : "Preview proration"}
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              )}
+            </DialogContent>
+          </Dialog>
         </div>
       </div>
     </SidebarProvider>
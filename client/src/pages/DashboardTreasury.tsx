@@ -35,6 +35,15 @@ export default function DashboardTreasury() {
     gcTime: 2 * 60 * 1000, // 2 minutes
   });
 
+  // Available vs. pending per mode, derived from the ledger
+  const { data: ledgerBalance, refetch: refetchLedgerBalance } = useQuery<
+    Record<"live" | "test", Array<{ currency: string; available: string; pending: string; total: string }>>
+  >({
+    queryKey: ["/api/balance"],
+    staleTime: 10 * 1000,
+    gcTime: 2 * 60 * 1000,
+  });
+
   // Filter payments by test mode
   const filteredPayments = payments.filter((p) => 
     p.isTest === testMode || p.isTest === undefined
@@ -53,11 +62,16 @@ export default function DashboardTreasury() {
   const displayBalance = availableBalance > 0 ? availableBalance : calculatedBalance;
   const incomingBalance = pendingPayments.reduce((sum, p) => sum + parseFloat(p.amount), 0);
 
+  const usdcLedgerBalance = ledgerBalance?.[testMode ? "test" : "live"].find((b) => b.currency === "USDC");
+  const usdcAvailable = usdcLedgerBalance ? parseFloat(usdcLedgerBalance.available) : displayBalance;
+  const usdcPending = usdcLedgerBalance ? parseFloat(usdcLedgerBalance.pending) : 0;
+
   const handleRebalance = async () => {
     setIsRebalancing(true);
     try {
       await apiRequest("POST", "/api/treasury/rebalance", {});
       await refetchBalances();
+      await refetchLedgerBalance();
       await refetchPayments();
     } catch (error) {
       console.error("Failed to rebalance:", error);
@@ -119,10 +133,14 @@ export default function DashboardTreasury() {
                     <div className="text-4xl font-bold mb-4">
                       ${displayBalance.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
                     </div>
-                    <div className="grid grid-cols-2 gap-4 text-sm">
+                    <div className="grid grid-cols-3 gap-4 text-sm">
                       <div>
                         <p className="text-muted-foreground">Available</p>
-                        <p className="font-medium">${displayBalance.toLocaleString("en-US", { minimumFractionDigits: 2 })}</p>
+                        <p className="font-medium">${usdcAvailable.toLocaleString("en-US", { minimumFractionDigits: 2 })}</p>
+                      </div>
+                      <div>
+                        <p className="text-muted-foreground">Pending</p>
+                        <p className="font-medium">${usdcPending.toLocaleString("en-US", { minimumFractionDigits: 2 })}</p>
                       </div>
                       <div>
                         <p className="text-muted-foreground">Incoming</p>
@@ -23,19 +23,16 @@ import {
   CollapsibleTrigger,
 } from "@/components/ui/collapsible";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
-import { Loader2, Plus, Trash2, ExternalLink, Webhook, Key, ChevronDown } from "lucide-react";
+import { Loader2, Plus, Trash2, ExternalLink, Webhook, Key, ChevronDown, RotateCcw, History, Copy, Tags } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import type { WebhookSubscription, WebhookEvent } from "@shared/schema";
-
-const WEBHOOK_EVENTS = [
-  "payment.created",
-  "payment.pending",
-  "payment.confirmed",
-  "payment.failed",
-  "payment.refunded",
-  "payment.expired",
-];
+import {
+  WEBHOOK_EVENT_TYPES,
+  LEGACY_WEBHOOK_EVENT_ALIASES,
+  LEGACY_WEBHOOK_EVENT_ALIAS_NAMES,
+  type LegacyWebhookEventAlias,
+} from "@shared/webhookEvents";
 
 export default function DashboardWebhooks() {
   const { toast } = useToast();
@@ -43,17 +40,24 @@ export default function DashboardWebhooks() {
   const [webhookUrl, setWebhookUrl] = useState("");
   const [selectedEvents, setSelectedEvents] = useState<string[]>([]);
   const [isCodeGuideOpen, setIsCodeGuideOpen] = useState(false);
+  const [replaySubscription, setReplaySubscription] = useState<WebhookSubscription | null>(null);
+  const [replayFrom, setReplayFrom] = useState("");
+  const [replayTo, setReplayTo] = useState("");
+  const [rotatedSecret, setRotatedSecret] = useState<string | null>(null);
+  const [selectedAliases, setSelectedAliases] = useState<LegacyWebhookEventAlias[]>([]);
+  const [aliasSubscription, setAliasSubscription] = useState<WebhookSubscription | null>(null);
+  const [aliasSelection, setAliasSelection] = useState<LegacyWebhookEventAlias[]>([]);
 
   const { data: subscriptions = [], isLoading, refetch } = useQuery<WebhookSubscription[]>({
     queryKey: ["/api/webhooks/subscriptions"],
   });
 
-  const { data: events = [] } = useQuery<WebhookEvent[]>({
+  const { data: events = [], refetch: refetchEvents } = useQuery<WebhookEvent[]>({
     queryKey: ["/api/webhooks/events"],
   });
 
   const createMutation = useMutation({
-    mutationFn: async (data: { url: string; events: string[] }) => {
+    mutationFn: async (data: { url: string; events: string[]; legacyEventAliases: LegacyWebhookEventAlias[] }) => {
       return await apiRequest("POST", "/api/webhooks/subscriptions", data);
     },
     onSuccess: (data) => {
@@ -64,6 +68,7 @@ export default function DashboardWebhooks() {
       setCreateDialogOpen(false);
       setWebhookUrl("");
       setSelectedEvents([]);
+      setSelectedAliases([]);
       refetch();
     },
     onError: (error: Error) => {
@@ -75,6 +80,29 @@ export default function DashboardWebhooks() {
     },
   });
 
+  const updateAliasesMutation = useMutation({
+    mutationFn: async (data: { subscriptionId: string; legacyEventAliases: LegacyWebhookEventAlias[] }) => {
+      return await apiRequest("PUT", `/api/webhooks/subscriptions/${data.subscriptionId}`, {
+        legacyEventAliases: data.legacyEventAliases,
+      });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Legacy events updated",
+        description: "The subscription's legacy event aliases have been saved.",
+      });
+      setAliasSubscription(null);
+      refetch();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update legacy event aliases",
+        variant: "destructive",
+      });
+    },
+  });
+
   const deleteMutation = useMutation({
     mutationFn: async (id: string) => {
       return await apiRequest("DELETE", `/api/webhooks/subscriptions/${id}`);
@@ -95,6 +123,83 @@ export default function DashboardWebhooks() {
     },
   });
 
+  const redeliverMutation = useMutation({
+    mutationFn: async (eventId: string) => {
+      return await apiRequest("POST", `/api/webhooks/events/${eventId}/redeliver`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Redelivery queued",
+        description: "The event will be resent with its original payload and event id.",
+      });
+      refetchEvents();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to redeliver webhook event",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const replayMutation = useMutation({
+    mutationFn: async (data: { subscriptionId: string; from: string; to?: string }) => {
+      const res = await apiRequest("POST", `/api/webhooks/subscriptions/${data.subscriptionId}/replay`, {
+        from: data.from,
+        to: data.to,
+      });
+      return (await res.json()) as { replayed: number };
+    },
+    onSuccess: (data) => {
+      toast({
+        title: "Replay queued",
+        description: `${data.replayed} failed event${data.replayed === 1 ? "" : "s"} will be redelivered.`,
+      });
+      setReplaySubscription(null);
+      setReplayFrom("");
+      setReplayTo("");
+      refetchEvents();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to replay webhook events",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const rotateSecretMutation = useMutation({
+    mutationFn: async (subscriptionId: string) => {
+      const res = await apiRequest("POST", `/api/webhooks/subscriptions/${subscriptionId}/rotate-secret`, {});
+      return (await res.json()) as { secret: string };
+    },
+    onSuccess: (data) => {
+      setRotatedSecret(data.secret);
+      refetch();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to rotate webhook secret",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleReplay = () => {
+    if (!replaySubscription || !replayFrom) {
+      return;
+    }
+
+    replayMutation.mutate({
+      subscriptionId: replaySubscription.id,
+      from: new Date(replayFrom).toISOString(),
+      to: replayTo ? new Date(replayTo).toISOString() : undefined,
+    });
+  };
+
   const handleCreateWebhook = () => {
     if (!webhookUrl || selectedEvents.length === 0) {
       toast({
@@ -119,6 +224,7 @@ export default function DashboardWebhooks() {
     createMutation.mutate({
       url: webhookUrl,
       events: selectedEvents,
+      legacyEventAliases: selectedAliases,
     });
   };
 
@@ -128,6 +234,18 @@ export default function DashboardWebhooks() {
     );
   };
 
+  const toggleAlias = (
+    setter: (update: (prev: LegacyWebhookEventAlias[]) => LegacyWebhookEventAlias[]) => void,
+    alias: LegacyWebhookEventAlias
+  ) => {
+    setter((prev) => (prev.includes(alias) ? prev.filter((a) => a !== alias) : [...prev, alias]));
+  };
+
+  const openAliasDialog = (subscription: WebhookSubscription) => {
+    setAliasSubscription(subscription);
+    setAliasSelection(subscription.legacyEventAliases as LegacyWebhookEventAlias[]);
+  };
+
   return (
     <SidebarProvider>
       <div className="flex h-screen w-full">
@@ -187,6 +305,11 @@ export default function DashboardWebhooks() {
                                     {event}
                                   </Badge>
                                 ))}
+                                {sub.legacyEventAliases.map((alias) => (
+                                  <Badge key={alias} variant="secondary" className="text-xs" title="Legacy alias">
+                                    {alias}
+                                  </Badge>
+                                ))}
                               </div>
                             </TableCell>
                             <TableCell>
@@ -195,14 +318,41 @@ export default function DashboardWebhooks() {
                               </Badge>
                             </TableCell>
                             <TableCell>
-                              <Button
-                                variant="ghost"
-                                size="sm"
-                                onClick={() => deleteMutation.mutate(sub.id)}
-                                disabled={deleteMutation.isPending}
-                              >
-                                <Trash2 className="w-4 h-4" />
-                              </Button>
+                              <div className="flex items-center gap-1">
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  title="Rotate signing secret"
+                                  onClick={() => rotateSecretMutation.mutate(sub.id)}
+                                  disabled={rotateSecretMutation.isPending}
+                                >
+                                  <Key className="w-4 h-4" />
+                                </Button>
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  title="Legacy event aliases"
+                                  onClick={() => openAliasDialog(sub)}
+                                >
+                                  <Tags className="w-4 h-4" />
+                                </Button>
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  title="Replay failed events"
+                                  onClick={() => setReplaySubscription(sub)}
+                                >
+                                  <History className="w-4 h-4" />
+                                </Button>
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => deleteMutation.mutate(sub.id)}
+                                  disabled={deleteMutation.isPending}
+                                >
+                                  <Trash2 className="w-4 h-4" />
+                                </Button>
+                              </div>
                             </TableCell>
                           </TableRow>
                         ))}
@@ -227,6 +377,7 @@ export default function DashboardWebhooks() {
                           <TableHead>Status</TableHead>
                           <TableHead>Attempts</TableHead>
                           <TableHead>Created</TableHead>
+                          <TableHead>Actions</TableHead>
                         </TableRow>
                       </TableHeader>
                       <TableBody>
@@ -252,6 +403,17 @@ export default function DashboardWebhooks() {
                             <TableCell>
                               {new Date(event.createdAt).toLocaleString()}
                             </TableCell>
+                            <TableCell>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                title="Redeliver event"
+                                onClick={() => redeliverMutation.mutate(event.id)}
+                                disabled={redeliverMutation.isPending || event.status === "pending"}
+                              >
+                                <RotateCcw className="w-4 h-4" />
+                              </Button>
+                            </TableCell>
                           </TableRow>
                         ))}
                       </TableBody>
@@ -312,10 +474,10 @@ app.post('/webhooks/arcpay', express.raw({ type: 'application/json' }), async (r
   
   // Handle different event types
   switch (event.type) {
-    case 'payment.confirmed':
+    case 'payment.intent.completed':
       await handlePaymentConfirmed(event.data);
       break;
-    case 'payment.failed':
+    case 'payment.intent.failed':
       await handlePaymentFailed(event.data);
       break;
     case 'payment.refunded':
@@ -336,14 +498,26 @@ app.post('/webhooks/arcpay', express.raw({ type: 'application/json' }), async (r
                       <div className="bg-muted p-4 rounded-lg font-mono text-sm overflow-x-auto">
                         <pre className="whitespace-pre-wrap">{`import crypto from 'crypto';
 
-function verifyWebhookSignature(payload, signature, secret) {
-  const hmac = crypto.createHmac('sha256', secret);
-  const digest = hmac.update(payload).digest('hex');
-  
+// header: "t=1700000000,v1=5257a869...[,v1=...]"
+function verifyWebhookSignature(payload, header, secret, toleranceSeconds = 300) {
+  const parts = header.split(',').map((part) => part.split('='));
+  const timestamp = Number(parts.find(([key]) => key === 't')?.[1]);
+  const signatures = parts.filter(([key]) => key === 'v1').map(([, value]) => value);
+
+  // Reject old deliveries to prevent replay attacks
+  if (!timestamp || Math.abs(Date.now() / 1000 - timestamp) > toleranceSeconds) {
+    return false;
+  }
+
+  const digest = crypto
+    .createHmac('sha256', secret)
+    .update(\`\${timestamp}.\${payload}\`)
+    .digest('hex');
+
   // Use timing-safe comparison to prevent timing attacks
-  return crypto.timingSafeEqual(
-    Buffer.from(signature),
-    Buffer.from(digest)
+  return signatures.some((signature) =>
+    signature.length === digest.length &&
+    crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(digest))
   );
 }`}</pre>
                       </div>
@@ -352,32 +526,40 @@ function verifyWebhookSignature(payload, signature, secret) {
                     <div>
                       <h3 className="font-semibold mb-2">4. Available Webhook Events</h3>
                       <div className="grid grid-cols-2 gap-2 mt-3">
-                        {WEBHOOK_EVENTS.map((event) => (
+                        {WEBHOOK_EVENT_TYPES.map((event) => (
                           <Badge key={event} variant="outline" className="justify-start">
                             {event}
                           </Badge>
                         ))}
                       </div>
+                      <p className="text-sm text-muted-foreground mt-3">
+                        Legacy names ({LEGACY_WEBHOOK_EVENT_ALIAS_NAMES.join(", ")}) are only sent to subscriptions
+                        that opt in to them, with the same payload as the event they alias.
+                      </p>
                     </div>
 
                     <div>
                       <h3 className="font-semibold mb-2">5. Webhook Payload Structure</h3>
                       <div className="bg-muted p-4 rounded-lg font-mono text-sm overflow-x-auto">
                         <pre className="whitespace-pre-wrap">{`{
-  "type": "payment.confirmed",
+  "id": "3f6c1f0e-...",          // Same on every retry - deduplicate on it
+  "object": "event",
+  "type": "payment.intent.completed",
+  "api_version": "2026-10-01",
+  "created": 1700000000,
+  "livemode": false,
+  "sequence": 2,                  // Increases per object (data.id)
   "data": {
-    "payment": {
-      "id": "pay_...",
-      "status": "confirmed",
-      "amount": "99.00",
-      "currency": "USDC",
-      "merchantWallet": "0x...",
-      "payerWallet": "0x...",
-      "txHash": "0x...",
-      "createdAt": "2024-01-01T00:00:00Z"
-    }
-  },
-  "timestamp": "2024-01-01T00:00:00Z"
+    "id": "...",
+    "status": "confirmed",
+    "amount": "99.00",
+    "currency": "USDC",
+    "settlementCurrency": "USDC",
+    "merchantWallet": "0x...",
+    "payerWallet": "0x...",
+    "txHash": "0x...",
+    "explorerLink": "https://testnet.arcscan.app/tx/0x..."
+  }
 }`}</pre>
                       </div>
                     </div>
@@ -388,8 +570,10 @@ function verifyWebhookSignature(payload, signature, secret) {
                         Each webhook request includes these headers:
                       </p>
                       <div className="bg-muted p-4 rounded-lg font-mono text-sm overflow-x-auto">
-                        <pre className="whitespace-pre-wrap">{`x-arc-signature: <HMAC-SHA256-signature>
+                        <pre className="whitespace-pre-wrap">{`x-arc-signature: t=<unix-timestamp>,v1=<HMAC-SHA256 of "timestamp.body">
 x-arc-event-type: <event-type>
+x-arc-event-id: <event-id>
+x-arc-replay: true   (only on manual redeliveries)
 Content-Type: application/json`}</pre>
                       </div>
                     </div>
@@ -402,6 +586,7 @@ Content-Type: application/json`}</pre>
                         <li>Handle duplicate events (webhooks may be retried)</li>
                         <li>Use HTTPS endpoints for webhook delivery</li>
                         <li>Keep your webhook secret secure and never expose it</li>
+                        <li>Rotate your secret from this page; the old secret keeps working for 24 hours</li>
                         <li>Test webhooks using test mode before going live</li>
                       </ul>
                     </div>
@@ -409,10 +594,10 @@ Content-Type: application/json`}</pre>
                     <div className="bg-yellow-50 dark:bg-yellow-950/20 border border-yellow-200 dark:border-yellow-800 rounded-lg p-4">
                       <h4 className="font-semibold text-yellow-900 dark:text-yellow-100 mb-2">⚠️ Important Notes</h4>
                       <ul className="text-sm text-yellow-800 dark:text-yellow-200 space-y-1 list-disc list-inside">
-                        <li>Webhooks are retried up to 3 times if your endpoint doesn't respond with 200 OK</li>
+                        <li>Failed deliveries are retried with increasing delays for up to ~38 hours if your endpoint doesn't respond with 2xx</li>
                         <li>Your endpoint must respond within 10 seconds</li>
-                        <li>Webhook events are delivered asynchronously and may arrive out of order</li>
-                        <li>Always use idempotency keys when processing webhook events</li>
+                        <li>Webhook events are delivered asynchronously and may arrive out of order - ignore an event whose sequence is lower than the last one you processed for the same object</li>
+                        <li>Use the event id as an idempotency key when processing webhook events</li>
                       </ul>
                     </div>
                       </CollapsibleContent>
@@ -425,6 +610,143 @@ Content-Type: application/json`}</pre>
         </div>
       </div>
 
+      {/* Rotated Secret Dialog */}
+      <Dialog open={!!rotatedSecret} onOpenChange={(open) => !open && setRotatedSecret(null)}>
+        <DialogContent className="sm:max-w-[500px]">
+          <DialogHeader>
+            <DialogTitle>New Webhook Secret</DialogTitle>
+            <DialogDescription>
+              Copy this secret now - it won't be shown again. Deliveries are signed with both the old and new
+              secret for the next 24 hours, so you can update your endpoint without downtime.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex items-center gap-2 py-4">
+            <Input readOnly value={rotatedSecret || ""} className="font-mono text-sm" />
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => {
+                navigator.clipboard.writeText(rotatedSecret || "");
+                toast({ title: "Copied", description: "Webhook secret copied to clipboard." });
+              }}
+            >
+              <Copy className="w-4 h-4" />
+            </Button>
+          </div>
+          <DialogFooter>
+            <Button onClick={() => setRotatedSecret(null)}>Done</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Legacy Event Aliases Dialog */}
+      <Dialog open={!!aliasSubscription} onOpenChange={(open) => !open && setAliasSubscription(null)}>
+        <DialogContent className="sm:max-w-[500px]">
+          <DialogHeader>
+            <DialogTitle>Legacy Event Aliases</DialogTitle>
+            <DialogDescription>
+              Choose which legacy event names {aliasSubscription?.url} also receives
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2 border rounded-lg p-4 my-4">
+            {LEGACY_WEBHOOK_EVENT_ALIAS_NAMES.map((alias) => (
+              <div key={alias} className="flex items-center space-x-2">
+                <Checkbox
+                  id={`edit-alias-${alias}`}
+                  checked={aliasSelection.includes(alias)}
+                  onCheckedChange={() => toggleAlias(setAliasSelection, alias)}
+                />
+                <Label htmlFor={`edit-alias-${alias}`} className="text-sm font-normal cursor-pointer">
+                  {alias} <span className="text-muted-foreground">(alias of {LEGACY_WEBHOOK_EVENT_ALIASES[alias]})</span>
+                </Label>
+              </div>
+            ))}
+          </div>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setAliasSubscription(null)}
+              disabled={updateAliasesMutation.isPending}
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={() =>
+                aliasSubscription &&
+                updateAliasesMutation.mutate({
+                  subscriptionId: aliasSubscription.id,
+                  legacyEventAliases: aliasSelection,
+                })
+              }
+              disabled={updateAliasesMutation.isPending}
+            >
+              {updateAliasesMutation.isPending ? (
+                <>
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  Saving...
+                </>
+              ) : (
+                "Save"
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Replay Failed Events Dialog */}
+      <Dialog open={!!replaySubscription} onOpenChange={(open) => !open && setReplaySubscription(null)}>
+        <DialogContent className="sm:max-w-[500px]">
+          <DialogHeader>
+            <DialogTitle>Replay Failed Events</DialogTitle>
+            <DialogDescription>
+              Resend every failed event for {replaySubscription?.url} in the selected time range
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="replay-from">From</Label>
+              <Input
+                id="replay-from"
+                type="datetime-local"
+                value={replayFrom}
+                onChange={(e) => setReplayFrom(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="replay-to">To</Label>
+              <Input
+                id="replay-to"
+                type="datetime-local"
+                value={replayTo}
+                onChange={(e) => setReplayTo(e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">
+                Leave empty to replay up to now
+              </p>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setReplaySubscription(null)}
+              disabled={replayMutation.isPending}
+            >
+              Cancel
+            </Button>
+            <Button onClick={handleReplay} disabled={replayMutation.isPending || !replayFrom}>
+              {replayMutation.isPending ? (
+                <>
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  Replaying...
+                </>
+              ) : (
+                "Replay Events"
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Create Webhook Dialog */}
       <Dialog open={createDialogOpen} onOpenChange={setCreateDialogOpen}>
         <DialogContent className="sm:max-w-[500px]">
@@ -450,7 +772,7 @@ Content-Type: application/json`}</pre>
             <div className="space-y-2">
               <Label>Event Types</Label>
               <div className="space-y-2 border rounded-lg p-4 max-h-[200px] overflow-y-auto">
-                {WEBHOOK_EVENTS.map((event) => (
+                {WEBHOOK_EVENT_TYPES.map((event) => (
                   <div key={event} className="flex items-center space-x-2">
                     <Checkbox
                       id={event}
@@ -470,6 +792,26 @@ Content-Type: application/json`}</pre>
                 Select at least one event type to subscribe to
               </p>
             </div>
+            <div className="space-y-2">
+              <Label>Legacy Event Aliases</Label>
+              <div className="space-y-2 border rounded-lg p-4">
+                {LEGACY_WEBHOOK_EVENT_ALIAS_NAMES.map((alias) => (
+                  <div key={alias} className="flex items-center space-x-2">
+                    <Checkbox
+                      id={`alias-${alias}`}
+                      checked={selectedAliases.includes(alias)}
+                      onCheckedChange={() => toggleAlias(setSelectedAliases, alias)}
+                    />
+                    <Label htmlFor={`alias-${alias}`} className="text-sm font-normal cursor-pointer">
+                      {alias} <span className="text-muted-foreground">(alias of {LEGACY_WEBHOOK_EVENT_ALIASES[alias]})</span>
+                    </Label>
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Only needed for integrations built against the old event names
+              </p>
+            </div>
           </div>
           <DialogFooter>
             <Button
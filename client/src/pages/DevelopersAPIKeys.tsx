@@ -10,6 +10,17 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -25,11 +36,12 @@ import {
   CollapsibleContent,
   CollapsibleTrigger,
 } from "@/components/ui/collapsible";
-import { Copy, Check, Eye, EyeOff, RefreshCw, Loader2, AlertTriangle, Key, Trash2, Pencil, X, ChevronDown } from "lucide-react";
+import { Copy, Check, Eye, EyeOff, RefreshCw, Loader2, AlertTriangle, Key, Trash2, Pencil, X, ChevronDown, ShieldCheck } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useTestMode } from "@/hooks/useTestMode";
 import { useAuth } from "@/hooks/useAuth";
+import { SECRET_KEY_SCOPES, API_KEY_SCOPE_DESCRIPTIONS, type SecretKeyScope } from "@shared/apiKeyScopes";
 
 interface ApiKey {
   id: string;
@@ -38,10 +50,49 @@ interface ApiKey {
   keyPrefix: string;
   fullKey?: string; // Only shown when revealed
   name?: string | null;
+  scopes?: SecretKeyScope[] | null; // Restricted secret keys; null = full access
+  allowedIps?: string[] | null; // CIDR allowlist (secret keys); null = any IP
+  expiresAt?: string | null;
   lastUsedAt: string | null;
   createdAt: string;
 }
 
+interface ApiKeyUsage {
+  requests: number;
+  errors: number;
+  errorRate: number;
+}
+
+// yyyy-mm-dd in local time, for <input type="date">
+function toDateInputValue(value: string | null | undefined): string {
+  if (!value) return "";
+  const date = new Date(value);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function ApiKeyUsageSummary({ keyId }: { keyId: string }) {
+  const { data: usage } = useQuery<ApiKeyUsage>({
+    queryKey: ["/api/developers/api-keys", keyId, "usage"],
+    queryFn: async () => {
+      const response = await fetch(`/api/developers/api-keys/${keyId}/usage?days=30`, {
+        credentials: "include",
+      });
+      if (!response.ok) {
+        throw new Error(`Failed to fetch key usage: ${response.statusText}`);
+      }
+      return await response.json();
+    },
+  });
+
+  if (!usage) return null;
+  return (
+    <p className="text-xs text-muted-foreground">
+      Last 30 days: {usage.requests.toLocaleString()} requests · {(usage.errorRate * 100).toFixed(1)}% errors
+    </p>
+  );
+}
+
 export default function DevelopersAPIKeys() {
   const { testMode } = useTestMode();
   const { merchant } = useAuth();
@@ -63,6 +114,12 @@ export default function DevelopersAPIKeys() {
   const [editingKeyId, setEditingKeyId] = useState<string | null>(null);
   const [editingName, setEditingName] = useState<string>("");
   const [isCodeGuideOpen, setIsCodeGuideOpen] = useState(false); // Start collapsed
+  const [scopeKey, setScopeKey] = useState<ApiKey | null>(null); // Secret key open in the restricted-key editor
+  const [restrictKey, setRestrictKey] = useState(false);
+  const [scopeSelection, setScopeSelection] = useState<SecretKeyScope[]>([]);
+  const [ipAllowlist, setIpAllowlist] = useState(""); // One CIDR range per line
+  const [expiryDate, setExpiryDate] = useState("");
+  const [rotationOverlapHours, setRotationOverlapHours] = useState("0");
 
   const { data: apiKeys = [], isLoading, refetch } = useQuery<ApiKey[]>({
     queryKey: ["/api/developers/api-keys"],
@@ -167,14 +224,15 @@ export default function DevelopersAPIKeys() {
   });
 
   const regenerateKeyMutation = useMutation({
-    mutationFn: async ({ keyId, keyType }: { keyId: string; keyType: "publishable" | "secret" }) => {
+    mutationFn: async ({ keyId, keyType, overlapHours }: { keyId: string; keyType: "publishable" | "secret"; overlapHours: number }) => {
       const response = await apiRequest("POST", `/api/developers/api-keys/${keyId}/regenerate`, {
         keyType,
         mode: testMode ? "test" : "live",
+        overlapHours,
       });
       return await response.json();
     },
-    onSuccess: async (data: { fullKey: string; id: string }) => {
+    onSuccess: async (data: { fullKey: string; id: string; oldKeyExpiresAt: string | null }) => {
       if (data.id && data.fullKey) {
         setRevealedKeys(new Set([data.id]));
         setRevealedKeyValues(new Map([[data.id, data.fullKey]]));
@@ -186,7 +244,9 @@ export default function DevelopersAPIKeys() {
       await refetch();
       toast({
         title: "Key regenerated",
-        description: "Your new key has been generated. Make sure to update your integrations.",
+        description: data.oldKeyExpiresAt
+          ? `Your new key has been generated. The old key keeps working until ${new Date(data.oldKeyExpiresAt).toLocaleString()}.`
+          : "Your new key has been generated. Make sure to update your integrations.",
         variant: "default",
       });
       setRegenerateDialog({ open: false, keyId: null, keyType: null });
@@ -260,6 +320,48 @@ export default function DevelopersAPIKeys() {
     },
   });
 
+  const updateKeyScopesMutation = useMutation({
+    mutationFn: async ({
+      keyId,
+      scopes,
+      allowedIps,
+      expiresAt,
+    }: {
+      keyId: string;
+      scopes: SecretKeyScope[] | null;
+      allowedIps: string[] | null;
+      expiresAt?: string | null; // Omitted when unchanged
+    }) => {
+      await apiRequest("PUT", `/api/developers/api-keys/${keyId}/restrictions`, {
+        allowedIps,
+        expiresAt,
+      });
+      const response = await apiRequest("PUT", `/api/developers/api-keys/${keyId}/scopes`, {
+        scopes,
+      });
+      return await response.json();
+    },
+    onSuccess: async (data: { message: string }) => {
+      await queryClient.invalidateQueries({ 
+        queryKey: ["/api/developers/api-keys"],
+        exact: false 
+      });
+      await refetch();
+      setScopeKey(null);
+      toast({
+        title: "Permissions updated",
+        description: data.message,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update permissions",
+        variant: "destructive",
+      });
+    },
+  });
+
   const copyToClipboard = (text: string, id: string) => {
     navigator.clipboard.writeText(text);
     setCopied(id);
@@ -275,6 +377,7 @@ export default function DevelopersAPIKeys() {
   };
 
   const handleRegenerate = (keyId: string, keyType: "publishable" | "secret") => {
+    setRotationOverlapHours("0");
     setRegenerateDialog({ open: true, keyId, keyType });
   };
 
@@ -283,6 +386,7 @@ export default function DevelopersAPIKeys() {
       regenerateKeyMutation.mutate({
         keyId: regenerateDialog.keyId,
         keyType: regenerateDialog.keyType,
+        overlapHours: parseInt(rotationOverlapHours, 10),
       });
     }
   };
@@ -331,6 +435,48 @@ export default function DevelopersAPIKeys() {
     }
   };
 
+  const handleEditScopes = (key: ApiKey) => {
+    setScopeKey(key);
+    setRestrictKey(!!key.scopes);
+    setScopeSelection(key.scopes ?? []);
+    setIpAllowlist((key.allowedIps ?? []).join("\n"));
+    setExpiryDate(toDateInputValue(key.expiresAt));
+  };
+
+  const toggleScope = (scope: SecretKeyScope) => {
+    setScopeSelection((prev) =>
+      prev.includes(scope) ? prev.filter((s) => s !== scope) : [...prev, scope]
+    );
+  };
+
+  const handleSaveScopes = () => {
+    if (!scopeKey) return;
+    if (restrictKey && scopeSelection.length === 0) {
+      toast({
+        title: "Error",
+        description: "Select at least one permission for a restricted key",
+        variant: "destructive",
+      });
+      return;
+    }
+    const allowedIps = ipAllowlist
+      .split(/[\n,]/)
+      .map((range) => range.trim())
+      .filter(Boolean);
+    updateKeyScopesMutation.mutate({
+      keyId: scopeKey.id,
+      scopes: restrictKey ? SECRET_KEY_SCOPES.filter((scope) => scopeSelection.includes(scope)) : null,
+      allowedIps: allowedIps.length > 0 ? allowedIps : null,
+      // Keys expire at the end of the chosen day
+      expiresAt:
+        expiryDate === toDateInputValue(scopeKey.expiresAt)
+          ? undefined
+          : expiryDate
+            ? new Date(`${expiryDate}T23:59:59`).toISOString()
+            : null,
+    });
+  };
+
   const style = {
     "--sidebar-width": "var(--sidebar-width-expanded, 260px)",
     "--sidebar-width-icon": "var(--sidebar-width-collapsed, 72px)",
@@ -382,10 +528,10 @@ export default function DevelopersAPIKeys() {
                     <CardHeader>
                       <CardTitle className="flex items-center justify-between">
                         <span>Publishable Key</span>
-                        <Badge variant="secondary">Read-only</Badge>
+                        <Badge variant="secondary">Checkout only</Badge>
                       </CardTitle>
                       <CardDescription>
-                        Safe to expose in client-side code. Used on frontend.
+                        Safe to expose in client-side code. Limited to checkout calls (payment status, FX quotes).
                       </CardDescription>
                     </CardHeader>
                     <CardContent className="space-y-4">
@@ -545,6 +691,37 @@ export default function DevelopersAPIKeys() {
                                   </Button>
                                 </div>
                               )}
+                              <div className="flex items-center gap-2 flex-wrap">
+                                {key.scopes ? (
+                                  key.scopes.map((scope) => (
+                                    <Badge key={scope} variant="outline" className="font-mono text-xs">
+                                      {scope}
+                                    </Badge>
+                                  ))
+                                ) : (
+                                  <Badge variant="outline" className="text-xs">Full access</Badge>
+                                )}
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => handleEditScopes(key)}
+                                  className="h-6 px-2"
+                                >
+                                  <ShieldCheck className="w-3 h-3 mr-1" />
+                                  Permissions
+                                </Button>
+                              </div>
+                              {key.allowedIps && (
+                                <p className="text-xs text-muted-foreground">
+                                  Allowed IPs: <span className="font-mono">{key.allowedIps.join(", ")}</span>
+                                </p>
+                              )}
+                              {key.expiresAt && (
+                                <p className={`text-xs ${new Date(key.expiresAt) <= new Date() ? "text-destructive" : "text-muted-foreground"}`}>
+                                  {new Date(key.expiresAt) <= new Date() ? "Expired" : "Expires"}: {new Date(key.expiresAt).toLocaleString()}
+                                </p>
+                              )}
+                              <ApiKeyUsageSummary keyId={key.id} />
                               {key.lastUsedAt && (
                                 <p className="text-xs text-muted-foreground">
                                   Last used: {new Date(key.lastUsedAt).toLocaleString()}
@@ -641,7 +818,7 @@ export default function DevelopersAPIKeys() {
                           <ul className="text-sm text-blue-800 dark:text-blue-200 space-y-1 list-disc list-inside mb-2">
                             <li><strong>Use for:</strong> Client-side applications (browser, mobile apps)</li>
                             <li><strong>Safe to expose:</strong> Yes, can be included in frontend code</li>
-                            <li><strong>Permissions:</strong> Read-only operations (view payments, check status)</li>
+                            <li><strong>Permissions:</strong> Checkout only (check payment status, request FX quotes)</li>
                             <li><strong>Example:</strong> <code className="bg-blue-100 dark:bg-blue-900 px-1 rounded">pk_arc_live_...</code></li>
                           </ul>
                         </div>
@@ -650,7 +827,7 @@ export default function DevelopersAPIKeys() {
                           <ul className="text-sm text-red-800 dark:text-red-200 space-y-1 list-disc list-inside mb-2">
                             <li><strong>Use for:</strong> Server-side applications only (Node.js, Python, etc.)</li>
                             <li><strong>Safe to expose:</strong> No, never expose in client-side code</li>
-                            <li><strong>Permissions:</strong> Full access (create payments, manage webhooks, etc.)</li>
+                            <li><strong>Permissions:</strong> Full access by default; restrict a key to specific permissions (e.g. <code className="bg-red-100 dark:bg-red-900 px-1 rounded">refunds:write</code>) with the Permissions button</li>
                             <li><strong>Example:</strong> <code className="bg-red-100 dark:bg-red-900 px-1 rounded">sk_arc_live_...</code></li>
                           </ul>
                         </div>
@@ -836,11 +1013,25 @@ fetch('https://pay.arcpaykit.com/api/payments/create', {
             </AlertDialogTitle>
             <AlertDialogDescription>
               This will invalidate existing integrations using this key. You'll need to update
-              your code with the new key immediately.
+              your code with the new key{rotationOverlapHours === "0" ? " immediately" : " before the old key expires"}.
               <br />
               <strong>This action cannot be undone.</strong>
             </AlertDialogDescription>
           </AlertDialogHeader>
+          <div className="space-y-2">
+            <Label>Keep the old key working for</Label>
+            <Select value={rotationOverlapHours} onValueChange={setRotationOverlapHours}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="0">Revoke immediately</SelectItem>
+                <SelectItem value="1">1 hour</SelectItem>
+                <SelectItem value="24">24 hours</SelectItem>
+                <SelectItem value="168">7 days</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
           <AlertDialogFooter>
             <AlertDialogCancel>Cancel</AlertDialogCancel>
             <AlertDialogAction
@@ -860,6 +1051,90 @@ fetch('https://pay.arcpaykit.com/api/payments/create', {
         </AlertDialogContent>
       </AlertDialog>
 
+      {/* Restricted Key Editor */}
+      <Dialog open={!!scopeKey} onOpenChange={(open) => !open && setScopeKey(null)}>
+        <DialogContent className="sm:max-w-[520px]">
+          <DialogHeader>
+            <DialogTitle>Secret Key Permissions &amp; Restrictions</DialogTitle>
+            <DialogDescription>
+              A restricted key can only call endpoints covered by the permissions below. Requests outside them get a 403.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="restrict-key"
+              checked={restrictKey}
+              onCheckedChange={(checked) => setRestrictKey(checked === true)}
+            />
+            <Label htmlFor="restrict-key" className="text-sm cursor-pointer">
+              Restrict this key
+            </Label>
+          </div>
+          <div className={`space-y-3 border rounded-lg p-4 ${restrictKey ? "" : "opacity-50"}`}>
+            {SECRET_KEY_SCOPES.map((scope) => (
+              <div key={scope} className="flex items-start space-x-2">
+                <Checkbox
+                  id={`scope-${scope}`}
+                  checked={!restrictKey || scopeSelection.includes(scope)}
+                  disabled={!restrictKey}
+                  onCheckedChange={() => toggleScope(scope)}
+                />
+                <Label htmlFor={`scope-${scope}`} className="text-sm font-normal cursor-pointer leading-tight">
+                  <span className="font-mono">{scope}</span>
+                  <span className="block text-xs text-muted-foreground">{API_KEY_SCOPE_DESCRIPTIONS[scope]}</span>
+                </Label>
+              </div>
+            ))}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="ip-allowlist">IP allowlist</Label>
+            <Textarea
+              id="ip-allowlist"
+              value={ipAllowlist}
+              onChange={(e) => setIpAllowlist(e.target.value)}
+              placeholder={"203.0.113.0/24\n2001:db8::/32"}
+              className="font-mono text-sm"
+              rows={3}
+            />
+            <p className="text-xs text-muted-foreground">
+              One IP or CIDR range per line. Leave empty to allow any IP; other addresses get a 403 (api_key_ip_not_allowed).
+            </p>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="key-expiry">Expires on</Label>
+            <Input
+              id="key-expiry"
+              type="date"
+              value={expiryDate}
+              onChange={(e) => setExpiryDate(e.target.value)}
+              className="max-w-xs"
+            />
+            <p className="text-xs text-muted-foreground">
+              Optional. You'll get a notification before the key expires.
+            </p>
+          </div>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setScopeKey(null)}
+              disabled={updateKeyScopesMutation.isPending}
+            >
+              Cancel
+            </Button>
+            <Button onClick={handleSaveScopes} disabled={updateKeyScopesMutation.isPending}>
+              {updateKeyScopesMutation.isPending ? (
+                <>
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  Saving...
+                </>
+              ) : (
+                "Save"
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       <AlertDialog open={deleteDialog.open} onOpenChange={(open) => setDeleteDialog({ ...deleteDialog, open })}>
         <AlertDialogContent>
           <AlertDialogHeader>
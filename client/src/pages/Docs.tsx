@@ -236,6 +236,10 @@ export default function Docs() {
                           <Badge variant="outline" className="font-mono">payment.refunded</Badge>
                           <span className="text-sm text-muted-foreground">When a payment is refunded</span>
                         </div>
+                        <div className="flex items-center gap-2">
+                          <Badge variant="outline" className="font-mono">payment.partially_refunded</Badge>
+                          <span className="text-sm text-muted-foreground">When part of a payment is refunded</span>
+                        </div>
                       </div>
                     </CardContent>
                   </Card>
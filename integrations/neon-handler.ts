@@ -18,22 +18,40 @@ import { createHmac, timingSafeEqual } from "crypto";
 const sql = neon(process.env.DATABASE_URL!);
 const WEBHOOK_SECRET = process.env.WEBHOOK_SECRET || "";
 
+// Reject deliveries signed more than 5 minutes ago (replay protection)
+const SIGNATURE_TOLERANCE_SECONDS = 300;
+
 /**
  * Verify webhook signature
+ * Header format: x-arc-signature: t=<unix seconds>,v1=<hex>[,v1=<hex>]
+ * The signature is HMAC-SHA256 of "<t>.<raw body>". Several v1 entries are sent
+ * while ArcPay is rotating your secret - any one of them matching is enough.
  */
-function verifySignature(payload: string, signature: string): boolean {
-  const hmac = createHmac("sha256", WEBHOOK_SECRET);
-  hmac.update(payload);
-  const expectedSignature = hmac.digest("hex");
-  
-  const expectedBuffer = Buffer.from(expectedSignature, "hex");
-  const receivedBuffer = Buffer.from(signature, "hex");
-  
-  if (expectedBuffer.length !== receivedBuffer.length) {
+function verifySignature(payload: string, header: string): boolean {
+  let timestamp = NaN;
+  const signatures: string[] = [];
+  for (const part of header.split(",")) {
+    const [key, value] = part.trim().split("=", 2);
+    if (key === "t") timestamp = parseInt(value, 10);
+    if (key === "v1" && value) signatures.push(value);
+  }
+
+  if (isNaN(timestamp) || signatures.length === 0) {
     return false;
   }
-  
-  return timingSafeEqual(expectedBuffer, receivedBuffer);
+
+  if (Math.abs(Math.floor(Date.now() / 1000) - timestamp) > SIGNATURE_TOLERANCE_SECONDS) {
+    return false;
+  }
+
+  const hmac = createHmac("sha256", WEBHOOK_SECRET);
+  hmac.update(`${timestamp}.${payload}`);
+  const expectedBuffer = Buffer.from(hmac.digest("hex"), "hex");
+
+  return signatures.some((signature) => {
+    const receivedBuffer = Buffer.from(signature, "hex");
+    return expectedBuffer.length === receivedBuffer.length && timingSafeEqual(expectedBuffer, receivedBuffer);
+  });
 }
 
 /**
@@ -21,10 +21,32 @@ const supabaseUrl = Deno.env.get("SUPABASE_URL") || "";
 const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || "";
 const supabase = createClient(supabaseUrl, supabaseKey);
 
+// Reject deliveries signed more than 5 minutes ago (replay protection)
+const SIGNATURE_TOLERANCE_SECONDS = 300;
+
 /**
  * Verify webhook signature
+ * Header format: x-arc-signature: t=<unix seconds>,v1=<hex>[,v1=<hex>]
+ * The signature is HMAC-SHA256 of "<t>.<raw body>". Several v1 entries are sent
+ * while ArcPay is rotating your secret - any one of them matching is enough.
  */
-async function verifySignature(payload: string, signature: string): Promise<boolean> {
+async function verifySignature(payload: string, header: string): Promise<boolean> {
+  let timestamp = NaN;
+  const signatures: string[] = [];
+  for (const part of header.split(",")) {
+    const [key, value] = part.trim().split("=", 2);
+    if (key === "t") timestamp = parseInt(value, 10);
+    if (key === "v1" && value) signatures.push(value.toLowerCase());
+  }
+
+  if (isNaN(timestamp) || signatures.length === 0) {
+    return false;
+  }
+
+  if (Math.abs(Math.floor(Date.now() / 1000) - timestamp) > SIGNATURE_TOLERANCE_SECONDS) {
+    return false;
+  }
+
   const encoder = new TextEncoder();
   const key = await crypto.subtle.importKey(
     "raw",
@@ -34,12 +56,12 @@ async function verifySignature(payload: string, signature: string): Promise<bool
     ["sign"]
   );
 
-  const signatureBuffer = await crypto.subtle.sign("HMAC", key, encoder.encode(payload));
+  const signatureBuffer = await crypto.subtle.sign("HMAC", key, encoder.encode(`${timestamp}.${payload}`));
   const expectedSignature = Array.from(new Uint8Array(signatureBuffer))
     .map((b) => b.toString(16).padStart(2, "0"))
     .join("");
 
-  return expectedSignature === signature.toLowerCase();
+  return signatures.includes(expectedSignature);
 }
 
 serve(async (req) => {
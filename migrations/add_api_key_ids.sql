@@ -0,0 +1,10 @@
+-- Migration: Embedded API key ids
+-- New keys look like "sk_arc_live_<keyId>_<secret>"; the key id selects a single row,
+-- so authentication verifies one hash instead of scanning every secret key.
+-- Keys issued before this migration have no key id and are matched on key_prefix.
+
+ALTER TABLE api_keys
+ADD COLUMN IF NOT EXISTS key_id TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_api_keys_key_id ON api_keys(key_id);
+CREATE INDEX IF NOT EXISTS idx_api_keys_key_prefix ON api_keys(key_prefix);
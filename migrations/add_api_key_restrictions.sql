@@ -0,0 +1,16 @@
+-- Migration: API key IP allowlists, expiry and usage analytics
+-- Secret keys can be limited to CIDR ranges and given an expiry date; rotating a key
+-- with an overlap window sets the old key's expiry instead of revoking it at once.
+-- Request logs record the authenticating key so usage can be reported per key.
+
+ALTER TABLE api_keys
+ADD COLUMN IF NOT EXISTS allowed_ips TEXT[],
+ADD COLUMN IF NOT EXISTS expires_at TIMESTAMP,
+ADD COLUMN IF NOT EXISTS expiry_notified_at TIMESTAMP;
+
+CREATE INDEX IF NOT EXISTS idx_api_keys_expires_at ON api_keys(expires_at) WHERE expires_at IS NOT NULL AND revoked_at IS NULL;
+
+ALTER TABLE api_request_logs
+ADD COLUMN IF NOT EXISTS api_key_id VARCHAR;
+
+CREATE INDEX IF NOT EXISTS idx_api_request_logs_api_key_id_created_at ON api_request_logs(api_key_id, created_at DESC);
@@ -0,0 +1,6 @@
+-- Migration: API key scopes
+-- A restricted secret key lists the scopes it holds (e.g. payments:read, refunds:write).
+-- NULL keeps the key unrestricted; publishable keys are always limited to checkout calls.
+
+ALTER TABLE api_keys
+ADD COLUMN IF NOT EXISTS scopes TEXT[];
@@ -0,0 +1,31 @@
+-- Migration: CCTP orchestrator
+-- CCTP settlement routes move pending → processing (burn tx submitted) → attesting
+-- (MessageSent decoded, polling the attestation service) → minting (receiveMessage
+-- submitted) → completed, or failed after CCTP_MAX_ATTEMPTS checks in one state.
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_enum WHERE enumlabel = 'attesting' AND enumtypid = (SELECT oid FROM pg_type WHERE typname = 'settlement_route_status')
+  ) THEN
+    ALTER TYPE settlement_route_status ADD VALUE 'attesting' AFTER 'processing';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_enum WHERE enumlabel = 'minting' AND enumtypid = (SELECT oid FROM pg_type WHERE typname = 'settlement_route_status')
+  ) THEN
+    ALTER TYPE settlement_route_status ADD VALUE 'minting' AFTER 'attesting';
+  END IF;
+END $$;
+
+ALTER TABLE settlement_routes
+ADD COLUMN IF NOT EXISTS cctp_message TEXT,
+ADD COLUMN IF NOT EXISTS cctp_message_hash TEXT,
+ADD COLUMN IF NOT EXISTS cctp_source_domain INTEGER,
+ADD COLUMN IF NOT EXISTS attempts INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS next_attempt_at TIMESTAMP,
+ADD COLUMN IF NOT EXISTS last_error TEXT;
+
+-- The orchestrator polls in-flight CCTP routes that are due
+CREATE INDEX IF NOT EXISTS idx_settlement_routes_in_flight ON settlement_routes(next_attempt_at)
+  WHERE route_type = 'cctp' AND status IN ('processing', 'attesting', 'minting');
@@ -0,0 +1,38 @@
+-- Migration: Chain indexer
+-- The indexer follows ARC blocks from a persisted checkpoint, records USDC/EURC
+-- Transfer logs to merchant wallets and matches them to open PaymentIntents once
+-- they are CHAIN_INDEXER_CONFIRMATIONS deep.
+
+CREATE TABLE IF NOT EXISTS chain_indexer_checkpoints (
+  chain_id INTEGER PRIMARY KEY,
+  block_number INTEGER NOT NULL,
+  block_hash TEXT NOT NULL,
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS chain_transfers (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_key TEXT NOT NULL UNIQUE,
+  chain_id INTEGER NOT NULL,
+  tx_hash TEXT NOT NULL,
+  log_index INTEGER NOT NULL,
+  block_number INTEGER NOT NULL,
+  block_hash TEXT NOT NULL,
+  token_address TEXT NOT NULL,
+  currency TEXT NOT NULL,
+  from_address TEXT NOT NULL,
+  to_address TEXT NOT NULL,
+  amount DECIMAL(18, 6) NOT NULL,
+  status TEXT NOT NULL DEFAULT 'unconfirmed',
+  payment_id VARCHAR REFERENCES payments(id),
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Confirmation pass: unconfirmed transfers by block
+CREATE INDEX IF NOT EXISTS idx_chain_transfers_status_block ON chain_transfers(chain_id, status, block_number);
+CREATE INDEX IF NOT EXISTS idx_chain_transfers_tx_hash ON chain_transfers(lower(tx_hash));
+
+-- Matching transfers to open PaymentIntents by recipient wallet
+CREATE INDEX IF NOT EXISTS idx_payments_merchant_wallet_open ON payments(lower(merchant_wallet))
+  WHERE status IN ('created', 'pending');
@@ -0,0 +1,31 @@
+-- Migration: Confirmation-depth policy
+-- A mined payment transfer stays 'confirming' until it has the number of confirmations
+-- required by the confirmation policy: global_config 'confirmation_policy', overridden
+-- per merchant by merchants.confirmation_policy. Both hold JSON like
+-- {"default": 1, "tiers": [{"minAmount": "1000", "confirmations": 6}]}
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_enum WHERE enumlabel = 'confirming' AND enumtypid = (SELECT oid FROM pg_type WHERE typname = 'payment_status')
+  ) THEN
+    ALTER TYPE payment_status ADD VALUE 'confirming' AFTER 'pending';
+  END IF;
+END $$;
+
+ALTER TABLE payments
+ADD COLUMN IF NOT EXISTS tx_block_number INTEGER,
+ADD COLUMN IF NOT EXISTS tx_block_hash TEXT,
+ADD COLUMN IF NOT EXISTS confirmations INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS required_confirmations INTEGER;
+
+ALTER TABLE merchants
+ADD COLUMN IF NOT EXISTS confirmation_policy TEXT;
+
+INSERT INTO global_config (key, value, description)
+VALUES (
+  'confirmation_policy',
+  '{"default": 1, "tiers": []}',
+  'Confirmations a live payment needs before it succeeds, tiered by amount'
+)
+ON CONFLICT (key) DO NOTHING;
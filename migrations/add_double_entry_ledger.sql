@@ -0,0 +1,123 @@
+-- Migration: Double-entry ledger
+-- Every business event (capture, fee, split, release, refund, payout) is a ledger
+-- transaction whose entries balance. treasury_balances is derived from the ledger.
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_enum WHERE enumlabel = 'capture' AND enumtypid = (SELECT oid FROM pg_type WHERE typname = 'ledger_entry_type')
+  ) THEN
+    ALTER TYPE ledger_entry_type ADD VALUE 'capture';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_enum WHERE enumlabel = 'release' AND enumtypid = (SELECT oid FROM pg_type WHERE typname = 'ledger_entry_type')
+  ) THEN
+    ALTER TYPE ledger_entry_type ADD VALUE 'release';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'ledger_direction') THEN
+    CREATE TYPE ledger_direction AS ENUM ('debit', 'credit');
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS ledger_transactions (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  merchant_id VARCHAR NOT NULL REFERENCES merchants(id),
+  type ledger_entry_type NOT NULL,
+  currency TEXT NOT NULL DEFAULT 'USDC',
+  payment_id VARCHAR REFERENCES payments(id),
+  refund_id VARCHAR REFERENCES refunds(id),
+  payout_id VARCHAR REFERENCES payouts(id),
+  idempotency_key TEXT NOT NULL UNIQUE,
+  description TEXT,
+  created_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+ALTER TABLE ledger_entries
+ADD COLUMN IF NOT EXISTS transaction_id VARCHAR REFERENCES ledger_transactions(id);
+
+ALTER TABLE ledger_entries
+ADD COLUMN IF NOT EXISTS account TEXT;
+
+ALTER TABLE ledger_entries
+ADD COLUMN IF NOT EXISTS direction ledger_direction;
+
+-- Convert single-sided fee/split entries into balanced transactions.
+-- Their idempotency keys match what the fee/split service posts, so they aren't applied twice.
+INSERT INTO ledger_transactions (id, merchant_id, type, currency, payment_id, idempotency_key, description, created_at)
+SELECT
+  id,
+  merchant_id,
+  entry_type,
+  currency,
+  payment_id,
+  CASE
+    WHEN entry_type = 'split' THEN 'split:' || COALESCE(payment_id, id) || ':' || COALESCE(split_rule_id, id)
+    ELSE entry_type::text || ':' || COALESCE(payment_id, id)
+  END,
+  description,
+  created_at
+FROM ledger_entries
+WHERE transaction_id IS NULL
+ON CONFLICT (idempotency_key) DO NOTHING;
+
+INSERT INTO ledger_entries (merchant_id, payment_id, entry_type, amount, currency, description, fee_rule_id, split_rule_id, metadata, created_at, transaction_id, account, direction)
+SELECT
+  le.merchant_id,
+  le.payment_id,
+  le.entry_type,
+  ABS(le.amount),
+  le.currency,
+  le.description,
+  le.fee_rule_id,
+  le.split_rule_id,
+  le.metadata,
+  le.created_at,
+  le.id,
+  CASE WHEN le.entry_type = 'split' THEN 'split_payable' ELSE 'platform_fees' END,
+  'credit'
+FROM ledger_entries le
+JOIN ledger_transactions lt ON lt.id = le.id
+WHERE le.transaction_id IS NULL;
+
+UPDATE ledger_entries
+SET transaction_id = id, account = 'merchant_pending', direction = 'debit', amount = ABS(amount)
+WHERE transaction_id IS NULL AND id IN (SELECT id FROM ledger_transactions);
+
+-- Anything left over duplicates an already-converted entry. Keep it as recorded in
+-- legacy_ledger_entries (outside every balance) before removing it from the ledger.
+CREATE TABLE IF NOT EXISTS legacy_ledger_entries (
+  id VARCHAR PRIMARY KEY,
+  merchant_id VARCHAR NOT NULL,
+  payment_id VARCHAR,
+  entry_type ledger_entry_type NOT NULL,
+  amount DECIMAL(18, 6) NOT NULL,
+  currency TEXT NOT NULL,
+  description TEXT,
+  fee_rule_id VARCHAR,
+  split_rule_id VARCHAR,
+  metadata TEXT,
+  created_at TIMESTAMP NOT NULL,
+  archived_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+INSERT INTO legacy_ledger_entries (id, merchant_id, payment_id, entry_type, amount, currency, description, fee_rule_id, split_rule_id, metadata, created_at)
+SELECT id, merchant_id, payment_id, entry_type, amount, currency, description, fee_rule_id, split_rule_id, metadata, created_at
+FROM ledger_entries
+WHERE transaction_id IS NULL
+ON CONFLICT (id) DO NOTHING;
+
+DELETE FROM ledger_entries
+WHERE transaction_id IS NULL AND id IN (SELECT id FROM legacy_ledger_entries);
+
+ALTER TABLE ledger_entries ALTER COLUMN account SET NOT NULL;
+ALTER TABLE ledger_entries ALTER COLUMN direction SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_ledger_transactions_merchant_id ON ledger_transactions(merchant_id);
+CREATE INDEX IF NOT EXISTS idx_ledger_transactions_payment_id ON ledger_transactions(payment_id);
+CREATE INDEX IF NOT EXISTS idx_ledger_entries_transaction_id ON ledger_entries(transaction_id);
+CREATE INDEX IF NOT EXISTS idx_ledger_entries_merchant_account ON ledger_entries(merchant_id, account, currency);
+
+-- Captures, refunds and payouts recorded before the ledger are booked by
+-- POST /api/treasury/rebalance, which also re-derives treasury_balances.
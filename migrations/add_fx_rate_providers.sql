@@ -0,0 +1,20 @@
+-- Migration: Pluggable FX rate providers and spreads
+-- FX quotes record the provider and raw mid-rate behind the quoted rate, plus the spread
+-- applied to it. The spread comes from merchants.fx_spread_bps, else global_config 'fx_spread_bps'.
+
+ALTER TABLE fx_quotes
+ADD COLUMN IF NOT EXISTS provider TEXT,
+ADD COLUMN IF NOT EXISTS mid_rate DECIMAL(18, 8),
+ADD COLUMN IF NOT EXISTS spread_bps INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS rate_as_of TIMESTAMP;
+
+ALTER TABLE merchants
+ADD COLUMN IF NOT EXISTS fx_spread_bps INTEGER;
+
+INSERT INTO global_config (key, value, description)
+VALUES (
+  'fx_spread_bps',
+  '0',
+  'Spread in basis points taken from the mid-market rate on FX quotes'
+)
+ON CONFLICT (key) DO NOTHING;
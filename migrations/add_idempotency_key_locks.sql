@@ -0,0 +1,9 @@
+-- Migration: Idempotency key locks
+-- A request holds its Idempotency-Key until locked_until while it runs; if it never answers
+-- (process crash, function timeout) a retry takes the key over instead of getting
+-- idempotency_key_in_progress until the record expires.
+
+ALTER TABLE idempotency_keys ADD COLUMN IF NOT EXISTS locked_until TIMESTAMP;
+
+-- Unanswered rows from before this migration can be taken over right away
+UPDATE idempotency_keys SET locked_until = NOW() WHERE response_status IS NULL AND locked_until IS NULL;
@@ -0,0 +1,18 @@
+-- Migration: Request-level idempotency
+-- POST requests sent with an Idempotency-Key header store their fingerprint and response here;
+-- a retry with the same key replays the response, a different body gets 409.
+-- Rows expire after IDEMPOTENCY_KEY_TTL_HOURS (default 24).
+
+CREATE TABLE IF NOT EXISTS idempotency_keys (
+  key TEXT PRIMARY KEY,
+  merchant_id VARCHAR NOT NULL REFERENCES merchants(id),
+  method TEXT NOT NULL,
+  path TEXT NOT NULL,
+  fingerprint TEXT NOT NULL,
+  response_status INTEGER,
+  response_body TEXT,
+  expires_at TIMESTAMP NOT NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_idempotency_keys_expires_at ON idempotency_keys(expires_at);
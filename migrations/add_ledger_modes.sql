@@ -0,0 +1,22 @@
+-- Migration: Test/live mode for the ledger
+-- Test payments are booked to their own balances so live payouts can't draw on them.
+-- Ledger rows so far take the mode of their payment; payouts were always live.
+
+ALTER TABLE ledger_transactions
+ADD COLUMN IF NOT EXISTS is_test BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE ledger_entries
+ADD COLUMN IF NOT EXISTS is_test BOOLEAN NOT NULL DEFAULT false;
+
+UPDATE ledger_transactions lt
+SET is_test = p.is_test
+FROM payments p
+WHERE lt.payment_id = p.id;
+
+UPDATE ledger_entries le
+SET is_test = lt.is_test
+FROM ledger_transactions lt
+WHERE le.transaction_id = lt.id;
+
+DROP INDEX IF EXISTS idx_ledger_entries_merchant_account;
+CREATE INDEX IF NOT EXISTS idx_ledger_entries_merchant_account ON ledger_entries(merchant_id, is_test, account, currency);
@@ -0,0 +1,34 @@
+-- Migration: Partial and multiple refunds
+-- payments.refunded_amount tracks completed refunds; a payment is partially_refunded
+-- until refunds add up to its amount.
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_enum WHERE enumlabel = 'partially_refunded' AND enumtypid = (SELECT oid FROM pg_type WHERE typname = 'payment_status')
+  ) THEN
+    ALTER TYPE payment_status ADD VALUE 'partially_refunded';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_enum WHERE enumlabel = 'payment.partially_refunded' AND enumtypid = (SELECT oid FROM pg_type WHERE typname = 'webhook_event_type')
+  ) THEN
+    ALTER TYPE webhook_event_type ADD VALUE 'payment.partially_refunded';
+  END IF;
+END $$;
+
+ALTER TABLE payments
+ADD COLUMN IF NOT EXISTS refunded_amount DECIMAL(18, 6) NOT NULL DEFAULT 0;
+
+-- Backfill from completed refunds
+UPDATE payments p
+SET refunded_amount = r.total
+FROM (
+  SELECT payment_id, SUM(amount) AS total
+  FROM refunds
+  WHERE status = 'completed'
+  GROUP BY payment_id
+) r
+WHERE r.payment_id = p.id;
+
+CREATE INDEX IF NOT EXISTS idx_refunds_payment_id ON refunds(payment_id);
@@ -0,0 +1,10 @@
+-- Migration: Bind FX quotes to payments
+-- A payment created with an fx_quote_id locks the quote's rate for its
+-- currency → settlement_currency conversion; the quote is marked used in the same transaction
+-- and can back only one payment.
+
+ALTER TABLE payments
+ADD COLUMN IF NOT EXISTS fx_quote_id VARCHAR UNIQUE REFERENCES fx_quotes(id),
+ADD COLUMN IF NOT EXISTS fx_rate DECIMAL(18, 8),
+ADD COLUMN IF NOT EXISTS converted_amount DECIMAL(18, 6);
+
@@ -0,0 +1,8 @@
+-- Migration: Test/live mode for payouts
+-- A payout takes the mode of the API key that created it and draws on that mode's
+-- ledger balance. Payouts created so far were live.
+
+ALTER TABLE payouts
+ADD COLUMN IF NOT EXISTS is_test BOOLEAN NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS idx_payouts_merchant_mode ON payouts(merchant_id, is_test);
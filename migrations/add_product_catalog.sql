@@ -0,0 +1,46 @@
+-- Migration: Product catalog
+-- Products with one-time and recurring prices. A price holds an amount per currency
+-- (USDC/EURC); subscriptions and payments created from a price keep its id, and archiving
+-- a price (active = false) leaves existing subscriptions billing as before.
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'price_type') THEN
+    CREATE TYPE price_type AS ENUM ('one_time', 'recurring');
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS products (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  merchant_id VARCHAR NOT NULL REFERENCES merchants(id),
+  name TEXT NOT NULL,
+  description TEXT,
+  active BOOLEAN NOT NULL DEFAULT TRUE,
+  metadata TEXT,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS prices (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id VARCHAR NOT NULL REFERENCES products(id),
+  merchant_id VARCHAR NOT NULL REFERENCES merchants(id),
+  nickname TEXT,
+  type price_type NOT NULL,
+  interval subscription_interval,
+  unit_amounts TEXT NOT NULL,
+  default_currency TEXT NOT NULL DEFAULT 'USDC',
+  active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_products_merchant_id ON products(merchant_id);
+CREATE INDEX IF NOT EXISTS idx_prices_product_id ON prices(product_id);
+CREATE INDEX IF NOT EXISTS idx_prices_merchant_id ON prices(merchant_id);
+
+ALTER TABLE subscriptions
+ADD COLUMN IF NOT EXISTS price_id VARCHAR REFERENCES prices(id);
+
+ALTER TABLE payments
+ADD COLUMN IF NOT EXISTS price_id VARCHAR REFERENCES prices(id);
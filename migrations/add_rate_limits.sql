@@ -0,0 +1,25 @@
+-- Migration: Distributed rate limiting
+-- Token buckets shared by every server instance when RATE_LIMIT_STORE=postgres.
+-- Limits per route group (read, write, payments_create) come from global_config
+-- 'rate_limit_policy', overridden per merchant by merchants.rate_limit_policy. Both hold JSON like
+-- {"read": {"limit": 300, "windowSeconds": 60}, "payments_create": {"limit": 30, "windowSeconds": 60}}
+
+CREATE TABLE IF NOT EXISTS rate_limit_buckets (
+  key TEXT PRIMARY KEY,
+  tokens DOUBLE PRECISION NOT NULL,
+  updated_at BIGINT NOT NULL,
+  allowed BOOLEAN NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_rate_limit_buckets_updated_at ON rate_limit_buckets(updated_at);
+
+ALTER TABLE merchants
+ADD COLUMN IF NOT EXISTS rate_limit_policy TEXT;
+
+INSERT INTO global_config (key, value, description)
+VALUES (
+  'rate_limit_policy',
+  '{"read": {"limit": 300, "windowSeconds": 60}, "write": {"limit": 100, "windowSeconds": 60}, "payments_create": {"limit": 30, "windowSeconds": 60}}',
+  'API rate limits per route group (token bucket: limit requests, refilled over windowSeconds)'
+)
+ON CONFLICT (key) DO NOTHING;
@@ -0,0 +1,7 @@
+-- Migration: Make refund transaction hashes single-use
+-- A transfer may settle at most one refund. Failed and canceled refunds keep their
+-- hash for auditing without blocking a later submission.
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_refunds_tx_hash_settled
+  ON refunds (lower(tx_hash))
+  WHERE tx_hash IS NOT NULL AND status IN ('processing', 'completed');
@@ -0,0 +1,12 @@
+-- Migration: Verify refund transactions on-chain
+-- Submitted refunds stay 'processing' until the refund watcher verifies the transfer
+-- from the merchant wallet to the payer; rejected transfers record why they failed.
+
+ALTER TABLE refunds
+ADD COLUMN IF NOT EXISTS failure_reason TEXT;
+
+-- The refund watcher polls processing refunds
+CREATE INDEX IF NOT EXISTS idx_refunds_status ON refunds(status);
+
+-- Speeds up tx hash claim checks on refund submission
+CREATE INDEX IF NOT EXISTS idx_refunds_tx_hash ON refunds (lower(tx_hash));
@@ -0,0 +1,7 @@
+-- Migration: Persist refund watcher attempts
+-- Checks that found no receipt are counted on the refund, so the timeout survives
+-- restarts and RPC errors don't count towards it.
+
+ALTER TABLE refunds
+ADD COLUMN IF NOT EXISTS verification_attempts INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS last_verified_at TIMESTAMP;
@@ -0,0 +1,8 @@
+-- Migration: Settlement route plans
+-- A settlement route stores the plan chosen when it was created: the ordered
+-- swap / bridge / settle steps with their fee and time estimates.
+
+ALTER TABLE settlement_routes
+ADD COLUMN IF NOT EXISTS plan TEXT,
+ADD COLUMN IF NOT EXISTS estimated_time INTEGER,
+ADD COLUMN IF NOT EXISTS estimated_fees DECIMAL(18, 6);
@@ -0,0 +1,24 @@
+-- Migration: Subscription trials, custom intervals and anchored billing
+-- Periods are counted from billing_anchor_at instead of the time the last invoice ran;
+-- month-based intervals start on billing_anchor_day, clamped in shorter months.
+-- Subscriptions now bill each period at its start (the first one at creation, or when the trial ends).
+
+ALTER TYPE subscription_interval ADD VALUE IF NOT EXISTS 'daily';
+ALTER TYPE subscription_interval ADD VALUE IF NOT EXISTS 'weekly';
+ALTER TYPE subscription_interval ADD VALUE IF NOT EXISTS 'quarterly';
+ALTER TYPE subscription_status ADD VALUE IF NOT EXISTS 'trialing';
+
+ALTER TABLE subscriptions
+ADD COLUMN IF NOT EXISTS interval_count INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN IF NOT EXISTS trial_ends_at TIMESTAMP,
+ADD COLUMN IF NOT EXISTS billing_anchor_at TIMESTAMP,
+ADD COLUMN IF NOT EXISTS billing_anchor_day INTEGER;
+
+-- Existing subscriptions keep their current billing date as the anchor
+UPDATE subscriptions
+SET billing_anchor_at = next_billing_at,
+    billing_anchor_day = EXTRACT(DAY FROM next_billing_at)::INTEGER
+WHERE billing_anchor_at IS NULL;
+
+ALTER TABLE prices
+ADD COLUMN IF NOT EXISTS interval_count INTEGER NOT NULL DEFAULT 1;
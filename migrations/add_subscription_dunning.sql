@@ -0,0 +1,21 @@
+-- Migration: Subscription pause/resume and dunning
+-- Unpaid subscription invoices get reminders during the grace period and a new PaymentIntent
+-- when theirs expires; the subscription is canceled when the last attempt goes unpaid.
+
+ALTER TYPE webhook_event_type ADD VALUE IF NOT EXISTS 'subscription.payment_reminder';
+
+ALTER TABLE subscriptions
+ADD COLUMN IF NOT EXISTS paused_at TIMESTAMP,
+ADD COLUMN IF NOT EXISTS resume_at TIMESTAMP,
+ADD COLUMN IF NOT EXISTS cancellation_reason TEXT;
+
+ALTER TABLE subscription_invoices
+ADD COLUMN IF NOT EXISTS attempt_count INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN IF NOT EXISTS reminders_sent INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS last_reminder_at TIMESTAMP,
+ADD COLUMN IF NOT EXISTS dunning_closed_at TIMESTAMP;
+
+-- Invoices issued before dunning existed are left alone
+UPDATE subscription_invoices SET dunning_closed_at = NOW() WHERE dunning_closed_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_subscription_invoices_dunning ON subscription_invoices(dunning_closed_at);
@@ -0,0 +1,6 @@
+-- Migration: One subscription invoice per billing period
+-- Concurrent scheduler runs could bill the same period twice; the unique index makes the
+-- database reject the second invoice. Resolve any existing duplicates before running this.
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_subscription_invoices_period
+ON subscription_invoices(subscription_id, kind, billing_period_start);
@@ -0,0 +1,13 @@
+-- Migration: Subscription plan changes with proration
+-- A mid-period change credits the unused part of the old plan and charges the rest of the
+-- period on the new one. The difference is carried in subscriptions.proration_balance to the
+-- next invoice, or billed at once as a "proration" subscription invoice.
+
+ALTER TYPE webhook_event_type ADD VALUE IF NOT EXISTS 'subscription.updated';
+
+ALTER TABLE subscriptions
+ADD COLUMN IF NOT EXISTS proration_balance DECIMAL(18, 6) NOT NULL DEFAULT 0;
+
+ALTER TABLE subscription_invoices
+ADD COLUMN IF NOT EXISTS kind TEXT NOT NULL DEFAULT 'cycle',
+ADD COLUMN IF NOT EXISTS proration_amount DECIMAL(18, 6);
@@ -0,0 +1,17 @@
+-- Migration: Test/live mode for subscriptions and invoices
+-- A subscription takes the mode of the API key that created it, and its invoices and
+-- PaymentIntents share it. Subscriptions created so far were billed as test payments.
+
+ALTER TABLE subscriptions
+ADD COLUMN IF NOT EXISTS is_test BOOLEAN NOT NULL DEFAULT true;
+
+ALTER TABLE invoices
+ADD COLUMN IF NOT EXISTS is_test BOOLEAN NOT NULL DEFAULT true;
+
+-- Invoices follow their payment's mode
+UPDATE invoices i
+SET is_test = p.is_test
+FROM payments p
+WHERE i.payment_id = p.id;
+
+CREATE INDEX IF NOT EXISTS idx_subscriptions_merchant_mode ON subscriptions(merchant_id, is_test);
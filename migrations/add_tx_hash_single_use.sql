@@ -0,0 +1,13 @@
+-- Migration: Make payment transaction hashes single-use
+-- A transfer may settle at most one PaymentIntent. Verification outcomes
+-- (transfer_matched, transfer_underpaid, transfer_overpaid, transfer_wrong_recipient, ...)
+-- are recorded in payment_audit_logs and need no schema change.
+
+-- Only settled payments hold a tx hash exclusively; failed/expired payments keep
+-- the hash for auditing without blocking a later, correct submission.
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payments_tx_hash_settled
+  ON payments (lower(tx_hash))
+  WHERE tx_hash IS NOT NULL AND status IN ('confirmed', 'refunded');
+
+-- Speeds up tx hash claim checks on submit-tx / confirm
+CREATE INDEX IF NOT EXISTS idx_payments_tx_hash ON payments (lower(tx_hash));
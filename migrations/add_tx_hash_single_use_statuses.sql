@@ -0,0 +1,11 @@
+-- Migration: Keep transaction hashes single-use through refunds and confirmations
+-- idx_payments_tx_hash_settled only covered 'confirmed' and 'refunded', so a partially
+-- refunded payment (or one still confirming) released its tx hash. Recreate it over every
+-- status that holds a hash exclusively (SETTLED_PAYMENT_STATUSES plus 'confirming').
+-- Requires add_partial_refunds.sql and add_confirmation_policy.sql (enum values).
+
+DROP INDEX IF EXISTS idx_payments_tx_hash_settled;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payments_tx_hash_settled
+  ON payments (lower(tx_hash))
+  WHERE tx_hash IS NOT NULL AND status IN ('confirming', 'confirmed', 'partially_refunded', 'refunded');
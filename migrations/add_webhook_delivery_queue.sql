@@ -0,0 +1,20 @@
+-- Migration: Durable webhook delivery queue
+-- webhook_events becomes an outbox: the worker claims due rows with
+-- FOR UPDATE SKIP LOCKED and reschedules failures via next_attempt_at.
+
+ALTER TABLE webhook_events
+ADD COLUMN IF NOT EXISTS next_attempt_at TIMESTAMP;
+
+ALTER TABLE webhook_events
+ADD COLUMN IF NOT EXISTS locked_at TIMESTAMP;
+
+-- Events that were still waiting on an in-process retry when this migration
+-- runs are picked up by the worker on its first tick
+UPDATE webhook_events
+SET next_attempt_at = NOW()
+WHERE status = 'pending' AND next_attempt_at IS NULL;
+
+-- Index for the worker's claim query
+CREATE INDEX IF NOT EXISTS idx_webhook_events_due
+  ON webhook_events (next_attempt_at)
+  WHERE status = 'pending';
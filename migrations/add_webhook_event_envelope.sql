@@ -0,0 +1,22 @@
+-- Migration: Webhook event envelope
+-- Deliveries now carry { id, object, type, api_version, created, livemode, sequence, data }.
+-- Legacy event names are only delivered to subscriptions that opt in via legacy_event_aliases.
+
+ALTER TABLE webhook_subscriptions
+ADD COLUMN IF NOT EXISTS legacy_event_aliases TEXT[] NOT NULL DEFAULT '{}';
+
+-- Existing subscriptions keep receiving the legacy events they subscribed to
+UPDATE webhook_subscriptions
+SET legacy_event_aliases = ARRAY(
+  SELECT unnest(events)
+  INTERSECT
+  SELECT unnest(ARRAY['payment.created', 'payment.succeeded', 'payment.confirmed', 'payment.failed'])
+)
+WHERE legacy_event_aliases = '{}';
+
+-- Per-object counter for the envelope's sequence field
+CREATE TABLE IF NOT EXISTS webhook_object_sequences (
+  object_id VARCHAR PRIMARY KEY,
+  last_sequence INTEGER NOT NULL DEFAULT 0,
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
@@ -0,0 +1,8 @@
+-- Migration: Webhook replay and manual redelivery
+-- Replays reuse the original webhook_events row (same payload and event id)
+
+ALTER TABLE webhook_events
+ADD COLUMN IF NOT EXISTS replay_count INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE webhook_events
+ADD COLUMN IF NOT EXISTS replayed_at TIMESTAMP;
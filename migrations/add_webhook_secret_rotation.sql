@@ -0,0 +1,12 @@
+-- Migration: Webhook secret rotation
+-- During the grace period deliveries are signed with both the new and the previous
+-- secret (x-arc-signature: t=...,v1=<new>,v1=<previous>).
+
+ALTER TABLE webhook_subscriptions
+ADD COLUMN IF NOT EXISTS previous_secret TEXT;
+
+ALTER TABLE webhook_subscriptions
+ADD COLUMN IF NOT EXISTS previous_secret_expires_at TIMESTAMP;
+
+ALTER TABLE webhook_subscriptions
+ADD COLUMN IF NOT EXISTS secret_rotated_at TIMESTAMP;
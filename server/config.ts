@@ -4,6 +4,7 @@
 
 import fs from "fs";
 import path from "path";
+import { defaultChainRegistry, ARC_TESTNET_CHAIN_ID } from "../shared/chains.js";
 
 // Derive paths from the working directory so the bundled CJS build does not
 // rely on import.meta.url (which becomes undefined after esbuild converts
@@ -13,9 +14,15 @@ const projectRoot = process.cwd();
 // Production mode - set DEMO_MODE=false in .env for production
 export const DEMO_MODE = process.env.DEMO_MODE === "true";
 
-export const ARC_CHAIN_ID = parseInt(process.env.ARC_CHAIN_ID || "5042002", 10);
-export const ARC_RPC_URL = process.env.ARC_RPC_URL || "https://rpc.testnet.arc.network";
-export const ARC_EXPLORER_URL = process.env.ARC_EXPLORER_URL || "https://testnet.arcscan.app";
+// Arc chain the gateway settles on; URLs default to its chain registry entry (shared/chains.ts)
+export const ARC_CHAIN_ID = parseInt(process.env.ARC_CHAIN_ID || String(ARC_TESTNET_CHAIN_ID), 10);
+const arcChain = defaultChainRegistry.getChain(ARC_CHAIN_ID);
+export const ARC_RPC_URL = process.env.ARC_RPC_URL || arcChain?.rpcUrl || "https://rpc.testnet.arc.network";
+export const ARC_EXPLORER_URL = process.env.ARC_EXPLORER_URL || arcChain?.explorerUrl || "https://testnet.arcscan.app";
+
+// Extra chains/assets (or overrides of built-in ones) as JSON or a path to a JSON file:
+// {"chains": [{"id": 42161, "key": "ARBITRUM", ...}], "assets": [{"id": "USDC_ARBITRUM", ...}]}
+export const CHAIN_REGISTRY_CONFIG = process.env.CHAIN_REGISTRY_CONFIG || "";
 
 // PaymentRegistry Contract Configuration
 export const PAYMENT_REGISTRY_ADDRESS = process.env.PAYMENT_REGISTRY_ADDRESS || "";
@@ -107,14 +114,148 @@ if (process.env.INVOICE_PAYMENT_PROOF_ABI) {
 
 export { INVOICE_PAYMENT_PROOF_ABI };
 
-// USDC Token Configuration (ARC Testnet)
-// Official ARC Testnet USDC address (native currency, used for gas fees)
-export const USDC_TOKEN_ADDRESS = process.env.USDC_TOKEN_ADDRESS || "0x3600000000000000000000000000000000000000";
-export const USDC_DECIMALS = 6; // USDC uses 6 decimals on ARC
+// Settlement tokens on the Arc chain (defaults from the chain registry)
+// USDC is also Arc's native currency, used for gas fees
+const arcUsdc = defaultChainRegistry.getToken(ARC_CHAIN_ID, "USDC");
+const arcEurc = defaultChainRegistry.getToken(ARC_CHAIN_ID, "EURC");
+export const USDC_TOKEN_ADDRESS = process.env.USDC_TOKEN_ADDRESS || arcUsdc?.address || "0x3600000000000000000000000000000000000000";
+export const USDC_DECIMALS = arcUsdc?.decimals ?? 6;
+export const EURC_TOKEN_ADDRESS = process.env.EURC_TOKEN_ADDRESS || arcEurc?.address || "0x89850855Aa3bE2F677c06383Cec88985F319072a";
+export const EURC_DECIMALS = arcEurc?.decimals ?? 6;
 
 export const API_RATE_LIMIT_WINDOW = 60 * 1000; // 1 minute
 export const API_RATE_LIMIT_MAX_REQUESTS = 100; // per window
 
+// Rate Limiting
+// Where token buckets live: "postgres" (shared by all instances), "redis" (Upstash / Vercel KV REST API) or "memory" (single process)
+export const RATE_LIMIT_STORE = process.env.RATE_LIMIT_STORE || "postgres";
+export const RATE_LIMIT_REDIS_URL = process.env.RATE_LIMIT_REDIS_URL || process.env.KV_REST_API_URL || "";
+export const RATE_LIMIT_REDIS_TOKEN = process.env.RATE_LIMIT_REDIS_TOKEN || process.env.KV_REST_API_TOKEN || "";
+// How long the global rate_limit_policy config is reused before it is read again
+export const RATE_LIMIT_POLICY_CACHE_TTL = 60 * 1000; // 1 minute
+
+// Idempotency Keys
+// How long a stored response is replayed for a reused Idempotency-Key header
+export const IDEMPOTENCY_KEY_TTL_HOURS = parseInt(process.env.IDEMPOTENCY_KEY_TTL_HOURS || "24", 10);
+// How long a request keeps its key while running; a retry after a crash or timeout can take it over
+export const IDEMPOTENCY_KEY_LOCK_SECONDS = parseInt(process.env.IDEMPOTENCY_KEY_LOCK_SECONDS || "60", 10);
+
+// Webhook Delivery Queue
+// Delay (in seconds) before each retry; the number of entries is the number of retries.
+// Override with e.g. WEBHOOK_RETRY_SCHEDULE_SECONDS="60,300,1800,7200"
+const DEFAULT_WEBHOOK_RETRY_SCHEDULE = [
+  60, // 1 minute
+  5 * 60, // 5 minutes
+  30 * 60, // 30 minutes
+  2 * 60 * 60, // 2 hours
+  5 * 60 * 60, // 5 hours
+  10 * 60 * 60, // 10 hours
+  10 * 60 * 60, // 10 hours
+  10 * 60 * 60, // 10 hours (~38 hours in total)
+];
+
+function parseRetrySchedule(value: string | undefined): number[] {
+  if (!value) return DEFAULT_WEBHOOK_RETRY_SCHEDULE;
+  const schedule = value
+    .split(",")
+    .map((part) => parseInt(part.trim(), 10))
+    .filter((seconds) => !isNaN(seconds) && seconds >= 0);
+  if (schedule.length === 0) {
+    console.warn("Invalid WEBHOOK_RETRY_SCHEDULE_SECONDS, using default schedule");
+    return DEFAULT_WEBHOOK_RETRY_SCHEDULE;
+  }
+  return schedule;
+}
+
+export const WEBHOOK_RETRY_SCHEDULE_SECONDS = parseRetrySchedule(process.env.WEBHOOK_RETRY_SCHEDULE_SECONDS);
+export const WEBHOOK_WORKER_INTERVAL = parseInt(process.env.WEBHOOK_WORKER_INTERVAL_MS || "10000", 10); // 10 seconds
+export const WEBHOOK_WORKER_BATCH_SIZE = parseInt(process.env.WEBHOOK_WORKER_BATCH_SIZE || "25", 10);
+// Deliveries locked longer than this are assumed to belong to a crashed worker and are reclaimed
+export const WEBHOOK_LOCK_TIMEOUT = parseInt(process.env.WEBHOOK_LOCK_TIMEOUT_MS || String(5 * 60 * 1000), 10); // 5 minutes
+
+// Webhook Signatures
+// Receivers reject signatures whose timestamp is further than this from their clock
+export const WEBHOOK_SIGNATURE_TOLERANCE_SECONDS = 5 * 60; // 5 minutes
+// How long the old secret keeps signing deliveries after a rotation
+export const WEBHOOK_SECRET_ROTATION_GRACE_HOURS = 24;
+
+// Merchant Balances (ledger)
+// Captured funds stay in the pending balance for this long before they become available for payouts
+export const BALANCE_AVAILABILITY_DELAY_MINUTES = parseInt(process.env.BALANCE_AVAILABILITY_DELAY_MINUTES || "0", 10);
+export const BALANCE_RELEASE_INTERVAL = 60 * 1000; // Check for funds to release every minute
+
+// Chain Indexer
+// Follows ARC blocks and settles PaymentIntents from Transfer logs to merchant wallets.
+// When disabled, payments are settled by polling the tx hash submitted at checkout (txWatcher).
+export const CHAIN_INDEXER_ENABLED = process.env.CHAIN_INDEXER_ENABLED !== "false";
+// A transfer is matched once its block has this many confirmations (1 = the block itself)
+export const CHAIN_INDEXER_CONFIRMATIONS = Math.max(parseInt(process.env.CHAIN_INDEXER_CONFIRMATIONS || "3", 10), 1);
+// First block to scan when no checkpoint exists yet (default: the current head)
+export const CHAIN_INDEXER_START_BLOCK = process.env.CHAIN_INDEXER_START_BLOCK
+  ? parseInt(process.env.CHAIN_INDEXER_START_BLOCK, 10)
+  : undefined;
+export const CHAIN_INDEXER_BATCH_SIZE = parseInt(process.env.CHAIN_INDEXER_BATCH_SIZE || "500", 10); // Blocks per eth_getLogs call
+// How far to rewind when the checkpoint block is no longer canonical
+export const CHAIN_INDEXER_REORG_WINDOW = parseInt(process.env.CHAIN_INDEXER_REORG_WINDOW || "64", 10);
+export const CHAIN_INDEXER_INTERVAL = parseInt(process.env.CHAIN_INDEXER_INTERVAL_MS || "5000", 10); // 5 seconds
+
+// CCTP Orchestrator
+// Attestation service base URL; defaults to Circle's sandbox/production API (set it to a local mock for testing)
+export const CCTP_ATTESTATION_API_URL = process.env.CCTP_ATTESTATION_API_URL || "";
+// Wallet that relays receiveMessage on the destination chain; without it the mint tx must be reported via the API
+export const CCTP_RELAYER_PRIVATE_KEY = process.env.CCTP_RELAYER_PRIVATE_KEY || "";
+export const CCTP_ORCHESTRATOR_INTERVAL = parseInt(process.env.CCTP_ORCHESTRATOR_INTERVAL_MS || "10000", 10); // 10 seconds
+// Checks per step (burn receipt, attestation, mint) before a route fails; backoff grows to 5 minutes
+export const CCTP_MAX_ATTEMPTS = parseInt(process.env.CCTP_MAX_ATTEMPTS || "60", 10);
+
+// FX Rates
+// Source of mid-market rates for FX quotes: "static", "oracle" (on-chain price feed) or "feed" (JSON file/URL)
+export const FX_RATE_PROVIDER = process.env.FX_RATE_PROVIDER || "static";
+// Static table as JSON, e.g. {"USDC_EURC": 0.92}; inverse pairs are derived
+export const FX_STATIC_RATES = process.env.FX_STATIC_RATES || "";
+// Chainlink-style aggregators (latestRoundData) per pair as JSON, e.g. {"EURC_USDC": "0x..."}
+export const FX_ORACLE_FEEDS = process.env.FX_ORACLE_FEEDS || "";
+export const FX_ORACLE_RPC_URL = process.env.FX_ORACLE_RPC_URL || process.env.ARC_RPC_URL || "https://rpc.testnet.arc.network";
+// JSON rate feed: an http(s) URL or a local file path returning {"rates": {"USDC_EURC": 0.92}, "updatedAt": "..."}
+export const FX_FEED_URL = process.env.FX_FEED_URL || "";
+// How long a fetched mid-rate is reused before asking the provider again
+export const FX_RATE_CACHE_TTL_SECONDS = parseInt(process.env.FX_RATE_CACHE_TTL_SECONDS || "15", 10);
+// Quotes are refused when the provider's rate is older than this
+export const FX_RATE_MAX_STALENESS_SECONDS = parseInt(process.env.FX_RATE_MAX_STALENESS_SECONDS || "3600", 10); // 1 hour
+
+// API Keys
+// How long a verified secret is trusted before scrypt runs again (revocation is still checked on every request)
+export const API_KEY_CACHE_TTL_SECONDS = parseInt(process.env.API_KEY_CACHE_TTL_SECONDS || "300", 10); // 5 minutes
+// Accept keys issued before key ids were embedded; turn off once they have all been rotated
+export const API_KEY_LEGACY_LOOKUP = process.env.API_KEY_LEGACY_LOOKUP !== "false";
+// Merchants are notified this long before a key expires
+export const API_KEY_EXPIRY_WARNING_DAYS = parseInt(process.env.API_KEY_EXPIRY_WARNING_DAYS || "7", 10);
+export const API_KEY_EXPIRY_CHECK_INTERVAL = 60 * 60 * 1000; // Check for expiring keys every hour
+// Longest a rotated key keeps working alongside its replacement
+export const API_KEY_MAX_ROTATION_OVERLAP_HOURS = 7 * 24;
+
+// Subscription Billing
+// Modes the subscription scheduler bills, e.g. SUBSCRIPTION_SCHEDULER_MODES="test" on a staging deployment
+// that must never create live invoices
+export const SUBSCRIPTION_SCHEDULER_MODES = (process.env.SUBSCRIPTION_SCHEDULER_MODES || "test,live")
+  .split(",")
+  .map((part) => part.trim())
+  .filter((mode): mode is "test" | "live" => mode === "test" || mode === "live");
+// Days after an invoice is issued on which payment reminders go out, e.g. SUBSCRIPTION_DUNNING_REMINDER_DAYS="1,3,5";
+// reminders that fall after a subscription's gracePeriodDays are skipped
+export const SUBSCRIPTION_DUNNING_REMINDER_DAYS = (process.env.SUBSCRIPTION_DUNNING_REMINDER_DAYS || "1,3,5")
+  .split(",")
+  .map((part) => parseInt(part.trim(), 10))
+  .filter((days) => !isNaN(days) && days > 0)
+  .sort((a, b) => a - b);
+// How long each invoice PaymentIntent stays payable; an expired one is replaced until the attempts run out
+export const SUBSCRIPTION_PAYMENT_EXPIRY_HOURS = parseInt(process.env.SUBSCRIPTION_PAYMENT_EXPIRY_HOURS || "48", 10);
+export const SUBSCRIPTION_MAX_PAYMENT_ATTEMPTS = parseInt(process.env.SUBSCRIPTION_MAX_PAYMENT_ATTEMPTS || "4", 10);
+
+// Refunds
+// How long a pending refund intent reserves its amount before it lapses and can be replaced
+export const REFUND_INTENT_EXPIRY_HOURS = parseInt(process.env.REFUND_INTENT_EXPIRY_HOURS || "24", 10);
+
 // Phase 3 Feature Flags
 export const FEATURE_FLAGS = {
   subscriptionsEnabled: process.env.SUBSCRIPTIONS_ENABLED !== "false", // Default: enabled
@@ -123,4 +264,3 @@ export const FEATURE_FLAGS = {
   neonIntegrationEnabled: process.env.NEON_INTEGRATION_ENABLED !== "false", // Default: enabled
   feesAndSplitsEnabled: process.env.FEES_AND_SPLITS_ENABLED !== "false", // Default: enabled
 };
-
@@ -5,13 +5,17 @@
 
 import type { Request, Response, NextFunction } from "express";
 import { storage } from "../storage.js";
-import { merchants } from "../../shared/schema.js";
+import { merchants, type ApiKey } from "../../shared/schema.js";
 import { eq } from "drizzle-orm";
 import { db } from "../db.js";
+import { checkApiKeyAccess } from "../services/apiKeyService.js";
+import { getEffectiveScopes, SECRET_KEY_SCOPES, type ApiKeyScope } from "../../shared/apiKeyScopes.js";
 
 declare module "express-serve-static-core" {
   interface Request {
     merchant?: typeof merchants.$inferSelect;
+    apiKey?: ApiKey; // Key row, when authenticated with an apiKeys-table key
+    apiKeyScopes?: ApiKeyScope[]; // Unset for dashboard (session) requests
   }
 }
 
@@ -60,17 +64,32 @@ export async function requireApiKey(
   }
 
   try {
-    // Get merchant by API key
-    const merchant = await storage.getMerchantByApiKey(apiKey);
+    // Get merchant (and key row) by API key
+    const auth = await storage.authenticateApiKey(apiKey);
 
-    if (!merchant) {
+    if (!auth) {
       return res.status(401).json({
         error: "Invalid API key",
       });
     }
 
-    // Attach merchant to request
-    req.merchant = merchant;
+    // Expired keys and requests from outside the key's IP allowlist are rejected with a code.
+    // The key row is attached first so the rejection is logged against the key.
+    req.apiKey = auth.apiKey;
+    const accessError = auth.apiKey ? checkApiKeyAccess(auth.apiKey, req.ip) : null;
+    if (accessError) {
+      return res.status(accessError.status).json({
+        error: accessError.status === 401 ? "API key expired" : "IP address not allowed",
+        code: accessError.code,
+        message: accessError.message,
+      });
+    }
+
+    // Attach merchant and key permissions to request; legacy merchant keys hold every secret scope
+    req.merchant = auth.merchant;
+    req.apiKeyScopes = auth.apiKey
+      ? getEffectiveScopes(auth.apiKey.keyType, auth.apiKey.scopes)
+      : [...SECRET_KEY_SCOPES];
     next();
   } catch (error) {
     console.error("API key authentication error:", error);
@@ -80,6 +99,31 @@ export async function requireApiKey(
   }
 }
 
+/**
+ * Supports both session-based auth (dashboard) and API key auth (API)
+ */
+export async function requireAuthOrApiKey(
+  req: Request,
+  res: Response,
+  next: NextFunction
+) {
+  // First check for session-based auth (dashboard)
+  if (req.session?.merchantId) {
+    try {
+      const merchant = await storage.getMerchant(req.session.merchantId);
+      if (merchant) {
+        req.merchant = merchant;
+        return next();
+      }
+    } catch (error) {
+      console.error("Session auth error:", error);
+    }
+  }
+
+  // Fall back to API key auth
+  return requireApiKey(req, res, next);
+}
+
 /**
  * Optional API key - attaches merchant if key is valid, but doesn't require it
  */
@@ -92,9 +136,9 @@ export async function optionalApiKey(
 
   if (apiKey) {
     try {
-      const merchant = await storage.getMerchantByApiKey(apiKey);
-      if (merchant) {
-        req.merchant = merchant;
+      const auth = await storage.authenticateApiKey(apiKey);
+      if (auth && !(auth.apiKey && checkApiKeyAccess(auth.apiKey, req.ip))) {
+        req.merchant = auth.merchant;
       }
     } catch (error) {
       console.error("Optional API key check error:", error);
@@ -104,3 +148,21 @@ export async function optionalApiKey(
   next();
 }
 
+
+/**
+ * Require one of the given scopes from API key requests (dashboard sessions are not scoped)
+ * Must be used after requireApiKey or requireAuthOrApiKey.
+ */
+export function requireScope(...scopes: ApiKeyScope[]) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.apiKeyScopes || scopes.some((scope) => req.apiKeyScopes!.includes(scope))) {
+      return next();
+    }
+
+    return res.status(403).json({
+      error: "Insufficient scope",
+      message: `This ${req.apiKey?.keyType === "publishable" ? "publishable" : "API"} key needs one of: ${scopes.join(", ")}`,
+      requiredScopes: scopes,
+    });
+  };
+}
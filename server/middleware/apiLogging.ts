@@ -76,6 +76,7 @@ export function apiLogging(req: Request, res: Response, next: NextFunction) {
           await db.insert(apiRequestLogs).values({
             requestId,
             merchantId: req.merchant?.id || null,
+            apiKeyId: req.apiKey?.id || null,
             method: req.method,
             path,
             statusCode: res.statusCode,
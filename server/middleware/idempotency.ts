@@ -0,0 +1,173 @@
+/**
+ * Idempotency Middleware
+ * POST requests sent with an Idempotency-Key header are handled once per merchant and key:
+ * a retry with the same body replays the stored response, a different body gets 409.
+ * Records expire after IDEMPOTENCY_KEY_TTL_HOURS; a request that never answered (crash, function
+ * timeout) releases its key after IDEMPOTENCY_KEY_LOCK_SECONDS. Must be used after the auth middleware.
+ */
+
+import type { Request, Response, NextFunction } from "express";
+import { createHash } from "crypto";
+import { eq, lt, and, or, isNull } from "drizzle-orm";
+import { db } from "../db.js";
+import { idempotencyKeys, type IdempotencyKey } from "../../shared/schema.js";
+import { IDEMPOTENCY_KEY_TTL_HOURS, IDEMPOTENCY_KEY_LOCK_SECONDS } from "../config.js";
+
+const MAX_IDEMPOTENCY_KEY_LENGTH = 255;
+
+/**
+ * JSON with object keys sorted, so key order in the body doesn't change the fingerprint
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.keys(value)
+      .sort()
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+function getRequestPath(req: Request): string {
+  return req.originalUrl.split("?")[0];
+}
+
+function computeFingerprint(req: Request): string {
+  return createHash("sha256")
+    .update(`${req.method} ${getRequestPath(req)}\n${canonicalJson(req.body ?? null)}`)
+    .digest("hex");
+}
+
+/**
+ * Claim the key for this request, or return the record left by an earlier one.
+ * Expired records, and unanswered ones whose lock lapsed, are taken over as if they didn't exist.
+ */
+async function claimIdempotencyKey(
+  key: string,
+  merchantId: string,
+  req: Request,
+  fingerprint: string
+): Promise<{ claimed: boolean; claimedAt: Date; record?: IdempotencyKey }> {
+  const now = new Date();
+  const values = {
+    method: req.method,
+    path: getRequestPath(req),
+    fingerprint,
+    responseStatus: null,
+    responseBody: null,
+    lockedUntil: new Date(now.getTime() + IDEMPOTENCY_KEY_LOCK_SECONDS * 1000),
+    expiresAt: new Date(now.getTime() + IDEMPOTENCY_KEY_TTL_HOURS * 60 * 60 * 1000),
+    createdAt: now,
+  };
+
+  const [claimed] = await db
+    .insert(idempotencyKeys)
+    .values({ key, merchantId, ...values })
+    .onConflictDoUpdate({
+      target: idempotencyKeys.key,
+      set: values,
+      setWhere: or(
+        lt(idempotencyKeys.expiresAt, now),
+        and(isNull(idempotencyKeys.responseStatus), lt(idempotencyKeys.lockedUntil, now))
+      ),
+    })
+    .returning();
+
+  if (claimed) {
+    return { claimed: true, claimedAt: now };
+  }
+
+  const [record] = await db.select().from(idempotencyKeys).where(eq(idempotencyKeys.key, key)).limit(1);
+  return { claimed: false, claimedAt: now, record };
+}
+
+/**
+ * Store the response for replay; failures that a retry could fix release the key instead.
+ * Nothing is written if a retry took the key over after this request's lock lapsed.
+ */
+function settleIdempotencyKey(key: string, claimedAt: Date, res: Response, body: unknown) {
+  const ownClaim = and(eq(idempotencyKeys.key, key), eq(idempotencyKeys.createdAt, claimedAt));
+  const retryable = body === undefined || res.statusCode >= 500 || res.statusCode === 429 || !res.writableFinished;
+
+  const update = retryable
+    ? db.delete(idempotencyKeys).where(ownClaim)
+    : db
+        .update(idempotencyKeys)
+        .set({ responseStatus: res.statusCode, responseBody: JSON.stringify(body), lockedUntil: null })
+        .where(ownClaim);
+
+  update.catch((error) => console.error(`Failed to store idempotent response for ${key}:`, error));
+}
+
+/**
+ * Idempotency middleware for POST routes; requests without the header pass straight through
+ */
+export async function idempotency(req: Request, res: Response, next: NextFunction) {
+  const idempotencyKey = req.get("Idempotency-Key");
+  const merchantId = req.merchant?.id || req.session?.merchantId;
+  if (!idempotencyKey || req.method !== "POST" || !merchantId) {
+    return next();
+  }
+
+  if (idempotencyKey.length > MAX_IDEMPOTENCY_KEY_LENGTH) {
+    return res.status(400).json({ error: `Idempotency-Key must be at most ${MAX_IDEMPOTENCY_KEY_LENGTH} characters` });
+  }
+
+  const key = `${merchantId}:${idempotencyKey}`;
+  const fingerprint = computeFingerprint(req);
+
+  let result;
+  try {
+    // Clean up expired keys periodically
+    if (Math.random() < 0.01) {
+      db.delete(idempotencyKeys)
+        .where(lt(idempotencyKeys.expiresAt, new Date()))
+        .catch((error) => console.error("Idempotency key cleanup error:", error));
+    }
+
+    result = await claimIdempotencyKey(key, merchantId, req, fingerprint);
+  } catch (error) {
+    // Unlike rate limiting, running the request anyway could apply it twice
+    console.error("Idempotency key error:", error);
+    return res.status(500).json({ error: "Failed to check idempotency key" });
+  }
+
+  if (!result.claimed) {
+    const record = result.record;
+
+    if (record && record.fingerprint !== fingerprint) {
+      return res.status(409).json({
+        error: "Idempotency key reused",
+        code: "idempotency_key_mismatch",
+        message: `Idempotency-Key was already used for a different request (${record.method} ${record.path}); use a new key for new parameters`,
+      });
+    }
+
+    if (!record || record.responseStatus === null || record.responseBody === null) {
+      return res.status(409).json({
+        error: "Request in progress",
+        code: "idempotency_key_in_progress",
+        message: "A request with this Idempotency-Key is still being processed; retry shortly",
+      });
+    }
+
+    res.setHeader("Idempotent-Replayed", "true");
+    return res.status(record.responseStatus).json(JSON.parse(record.responseBody));
+  }
+
+  let capturedBody: unknown = undefined;
+  const originalResJson = res.json;
+  res.json = function (bodyJson, ...args) {
+    capturedBody = bodyJson;
+    return originalResJson.apply(res, [bodyJson, ...args]);
+  };
+
+  const { claimedAt } = result;
+  res.on("close", () => settleIdempotencyKey(key, claimedAt, res, capturedBody));
+
+  next();
+}
@@ -1,73 +1,70 @@
 /**
  * Rate Limiting Middleware
- * Simple in-memory rate limiter (use Redis in production)
+ * Token buckets per merchant (or IP) and route group, kept in the store selected by RATE_LIMIT_STORE.
+ * Responses carry RateLimit-Limit / RateLimit-Remaining / RateLimit-Reset, and Retry-After when limited.
  */
 
 import type { Request, Response, NextFunction } from "express";
-import { API_RATE_LIMIT_WINDOW, API_RATE_LIMIT_MAX_REQUESTS } from "../config.js";
+import { createRateLimitStore } from "../services/rateLimitStore.js";
+import { getGroupLimit, type RateLimitGroup } from "../services/rateLimitPolicy.js";
 
-interface RateLimitEntry {
-  count: number;
-  resetAt: number;
-}
-
-// In-memory store (use Redis in production)
-const rateLimitStore = new Map<string, RateLimitEntry>();
+const store = createRateLimitStore();
 
 /**
- * Get rate limit key from request
+ * Who the bucket belongs to: the merchant behind the API key or dashboard session, otherwise the client IP
  */
-function getRateLimitKey(req: Request): string {
-  // Use API key if available, otherwise use IP
-  if (req.merchant?.apiKey) {
-    return `api:${req.merchant.apiKey}`;
+function getRateLimitSubject(req: Request): string {
+  const merchantId = req.merchant?.id || req.session?.merchantId;
+  if (merchantId) {
+    return `merchant:${merchantId}`;
   }
 
   const ip = req.ip || req.socket.remoteAddress || "unknown";
   return `ip:${ip}`;
 }
 
-/**
- * Rate limiting middleware
- */
-export function rateLimit(
-  req: Request,
-  res: Response,
-  next: NextFunction
-) {
-  const key = getRateLimitKey(req);
-  const now = Date.now();
-  const entry = rateLimitStore.get(key);
-
-  // Clean up expired entries periodically
-  if (Math.random() < 0.01) {
-    // 1% chance to clean up
-    for (const [k, v] of rateLimitStore.entries()) {
-      if (v.resetAt < now) {
-        rateLimitStore.delete(k);
-      }
-    }
-  }
-
-  if (!entry || entry.resetAt < now) {
-    // Create new entry
-    rateLimitStore.set(key, {
-      count: 1,
-      resetAt: now + API_RATE_LIMIT_WINDOW,
-    });
+async function applyRateLimit(group: RateLimitGroup, req: Request, res: Response, next: NextFunction) {
+  let result;
+  try {
+    const { limit, windowSeconds } = await getGroupLimit(group, req.merchant);
+    result = await store.consume(`${getRateLimitSubject(req)}:${group}`, limit, windowSeconds * 1000);
+  } catch (error) {
+    // Don't take the API down with the limiter; let the request through
+    console.error(`Rate limit store (${store.name}) error:`, error);
     return next();
   }
 
-  if (entry.count >= API_RATE_LIMIT_MAX_REQUESTS) {
+  res.setHeader("RateLimit-Limit", result.limit);
+  res.setHeader("RateLimit-Remaining", result.remaining);
+  res.setHeader("RateLimit-Reset", result.resetSeconds);
+
+  if (!result.allowed) {
+    res.setHeader("Retry-After", result.retryAfterSeconds);
     return res.status(429).json({
       error: "Rate limit exceeded",
-      message: `Maximum ${API_RATE_LIMIT_MAX_REQUESTS} requests per ${API_RATE_LIMIT_WINDOW / 1000} seconds`,
-      retryAfter: Math.ceil((entry.resetAt - now) / 1000),
+      message: `Maximum ${result.limit} ${group} requests; retry in ${result.retryAfterSeconds} seconds`,
+      retryAfter: result.retryAfterSeconds,
     });
   }
 
-  // Increment count
-  entry.count++;
   next();
 }
 
+/**
+ * Rate limiting middleware: GET requests count against the read group, everything else against write
+ */
+export function rateLimit(
+  req: Request,
+  res: Response,
+  next: NextFunction
+) {
+  const group: RateLimitGroup = req.method === "GET" || req.method === "HEAD" ? "read" : "write";
+  return applyRateLimit(group, req, res, next);
+}
+
+/**
+ * Rate limiting for a specific route group (e.g. the stricter payments_create)
+ */
+export function rateLimitFor(group: RateLimitGroup) {
+  return (req: Request, res: Response, next: NextFunction) => applyRateLimit(group, req, res, next);
+}
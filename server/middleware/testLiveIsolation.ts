@@ -10,6 +10,7 @@ import type { Request, Response, NextFunction } from "express";
 import { db } from "../db.js";
 import { payments, apiKeys } from "../../shared/schema.js";
 import { eq, and } from "drizzle-orm";
+import { parseApiKey } from "../services/apiKeyService.js";
 
 declare module "express-serve-static-core" {
   interface Request {
@@ -21,7 +22,13 @@ declare module "express-serve-static-core" {
  * Get API key mode (test or live)
  */
 async function getApiKeyMode(apiKey: string): Promise<"test" | "live" | null> {
-  // Check apiKeys table first
+  // Current keys carry their mode
+  const parsed = parseApiKey(apiKey);
+  if (parsed) {
+    return parsed.mode;
+  }
+
+  // Legacy keys: check apiKeys table first
   const [keyRecord] = await db
     .select()
     .from(apiKeys)
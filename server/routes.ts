@@ -16,10 +16,19 @@ import { registerProofRoutes } from "./routes/proofs.js";
 import { registerQRCodeRoutes } from "./routes/qrCodes.js";
 import { registerApiKeyRoutes } from "./routes/apiKeys.js";
 import { registerBridgeRoutes } from "./routes/bridge.js";
+import { registerBalanceRoutes } from "./routes/balance.js";
 import { startPaymentChecker } from "./services/paymentService.js";
 import { startTxWatcher } from "./services/txWatcher.js";
+import { startChainIndexer } from "./services/chainIndexer.js";
+import { startRefundWatcher } from "./services/refundWatcher.js";
+import { startCctpOrchestrator } from "./services/cctpOrchestrator.js";
+import { chainRegistry } from "./services/chainRegistry.js";
+import { defaultChainRegistry, type PublicChainDefinition } from "../shared/chains.js";
+import { startWebhookWorker } from "./services/webhookService.js";
+import { startApiKeyExpiryJob } from "./services/apiKeyService.js";
+import { startBalanceReleaseJob, recordPaymentCapture, reconcileMerchantLedger } from "./services/ledgerService.js";
 import { rateLimit } from "./middleware/rateLimit.js";
-import { FEATURE_FLAGS } from "./config.js";
+import { FEATURE_FLAGS, CHAIN_INDEXER_ENABLED, SUBSCRIPTION_SCHEDULER_MODES } from "./config.js";
 import { upload } from "./middleware/upload.js";
 import { put } from "@vercel/blob";
 
@@ -1070,6 +1079,17 @@ export async function registerRoutes(
     }
   });
 
+  // Chain & asset registry, including operator additions from CHAIN_REGISTRY_CONFIG.
+  // RPC URLs are left out (operators configure keyed provider URLs there); the dashboard's
+  // wallet gets publicRpcUrl, or the built-in public endpoint for built-in chains.
+  app.get("/api/chains", rateLimit, async (req, res) => {
+    const chains: PublicChainDefinition[] = chainRegistry.chains.map(({ rpcUrl, ...chain }) => ({
+      ...chain,
+      publicRpcUrl: chain.publicRpcUrl ?? defaultChainRegistry.getChain(chain.id)?.rpcUrl,
+    }));
+    res.json({ chains, assets: chainRegistry.assets });
+  });
+
   // Get conversion estimate
   app.get("/api/payments/conversion-estimate", rateLimit, async (req, res) => {
     try {
@@ -1289,19 +1309,8 @@ export async function registerRoutes(
         settlementTime,
       });
 
-      const treasuryBalance = await storage.getTreasuryBalance(
-        payment.merchantId,
-        payment.currency
-      );
-
-      if (treasuryBalance) {
-        const newBalance = (
-          parseFloat(treasuryBalance.balance) + parseFloat(payment.amount)
-        ).toString();
-        await storage.updateTreasuryBalance(treasuryBalance.id, {
-          balance: newBalance,
-        });
-      }
+      // Treasury balance is derived from the ledger
+      await recordPaymentCapture(payment.id);
 
       res.json(updatedPayment);
     } catch (error) {
@@ -1339,6 +1348,7 @@ export async function registerRoutes(
             customerName: null,
             description: payment.description || `Payment for ${payment.amount} ${payment.currency}`,
             status: "paid",
+            isTest: payment.isTest,
           });
           invoices.push(invoice);
         } catch (error) {
@@ -1401,9 +1411,11 @@ export async function registerRoutes(
       // Dispatch invoice.paid webhook
       if (updatedInvoice) {
         const { dispatchWebhook } = await import("./services/webhookService.js");
-        dispatchWebhook(invoice.merchantId, "invoice.paid", {
-          type: "invoice.paid",
-          data: {
+        const invoicePayment = updatedInvoice.paymentId ? await storage.getPayment(updatedInvoice.paymentId) : undefined;
+        dispatchWebhook(
+          invoice.merchantId,
+          "invoice.paid",
+          {
             id: updatedInvoice.id,
             invoiceNumber: updatedInvoice.invoiceNumber,
             amount: updatedInvoice.amount,
@@ -1413,7 +1425,8 @@ export async function registerRoutes(
             customerName: updatedInvoice.customerName,
             paymentId: updatedInvoice.paymentId,
           },
-        }).catch(console.error);
+          { livemode: invoicePayment ? !invoicePayment.isTest : false }
+        ).catch(console.error);
       }
 
       res.json(updatedInvoice);
@@ -1423,102 +1436,6 @@ export async function registerRoutes(
     }
   });
 
-  // Webhook subscriptions (session-based for admin portal)
-  app.get("/api/webhooks/subscriptions", requireAuth, async (req, res) => {
-    try {
-      if (!req.session.merchantId) {
-        return res.json([]);
-      }
-
-      const subscriptions = await storage.getWebhookSubscriptions(req.session.merchantId);
-      res.json(
-        subscriptions.map((sub) => ({
-          id: sub.id,
-          url: sub.url,
-          events: sub.events,
-          active: sub.active,
-          createdAt: sub.createdAt,
-          // Don't return secret for security
-        }))
-      );
-    } catch (error) {
-      console.error("Get webhook subscriptions error:", error);
-      res.status(500).json({ error: "Failed to get webhook subscriptions" });
-    }
-  });
-
-  app.post("/api/webhooks/subscriptions", requireAuth, async (req, res) => {
-    try {
-      if (!req.session.merchantId) {
-        return res.status(401).json({ error: "Unauthorized" });
-      }
-
-      const { url, events } = req.body;
-
-      if (!url || typeof url !== "string") {
-        return res.status(400).json({ error: "URL is required" });
-      }
-
-      if (!events || !Array.isArray(events) || events.length === 0) {
-        return res.status(400).json({ error: "At least one event type is required" });
-      }
-
-      try {
-        new URL(url);
-      } catch {
-        return res.status(400).json({ error: "Invalid URL" });
-      }
-
-      const subscription = await storage.createWebhookSubscription({
-        merchantId: req.session.merchantId,
-        url,
-        events,
-        secret: generateWebhookSecret(),
-        active: true,
-      });
-
-      res.json({
-        id: subscription.id,
-        url: subscription.url,
-        events: subscription.events,
-        active: subscription.active,
-        createdAt: subscription.createdAt,
-        secret: subscription.secret, // Return secret only on creation
-      });
-    } catch (error) {
-      console.error("Create webhook subscription error:", error);
-      res.status(500).json({ error: "Failed to create webhook subscription" });
-    }
-  });
-
-  app.delete("/api/webhooks/subscriptions/:id", requireAuth, async (req, res) => {
-    try {
-      if (!req.session.merchantId) {
-        return res.status(401).json({ error: "Unauthorized" });
-      }
-
-      const subscription = await storage.getWebhookSubscription(req.params.id);
-      if (!subscription || subscription.merchantId !== req.session.merchantId) {
-        return res.status(404).json({ error: "Webhook subscription not found" });
-      }
-
-      await storage.deleteWebhookSubscription(req.params.id);
-      res.json({ success: true });
-    } catch (error) {
-      console.error("Delete webhook subscription error:", error);
-      res.status(500).json({ error: "Failed to delete webhook subscription" });
-    }
-  });
-
-  app.get("/api/webhooks/events", requireAuth, async (req, res) => {
-    if (!req.session.merchantId) {
-      return res.json([]);
-    }
-
-    const events = await storage.getWebhookEvents(req.session.merchantId);
-    res.json(events);
-  });
-
   app.get("/api/treasury", requireAuth, async (req, res) => {
     if (!req.session.merchantId) {
       return res.json([]);
@@ -1534,51 +1451,11 @@ export async function registerRoutes(
         return res.status(400).json({ error: "No merchant associated with account" });
       }
 
-      // Get all confirmed payments for this merchant
-      const allPayments = await storage.getPayments(req.session.merchantId);
-      const confirmedPayments = allPayments.filter((p) => p.status === "confirmed");
-
-      // Group by currency and calculate totals
-      const balanceByCurrency: Record<string, number> = {};
-      for (const payment of confirmedPayments) {
-        const currency = payment.currency || "USDC";
-        const amount = parseFloat(payment.amount);
-        balanceByCurrency[currency] = (balanceByCurrency[currency] || 0) + amount;
-      }
+      // Book anything missing from the ledger and re-derive treasury balances from it
+      const reconciliation = await reconcileMerchantLedger(req.session.merchantId);
+      const updatedBalances = await storage.getTreasuryBalances(req.session.merchantId);
 
-      // Update or create treasury balances
-      const updatedBalances = [];
-      for (const [currency, totalAmount] of Object.entries(balanceByCurrency)) {
-        let treasuryBalance = await storage.getTreasuryBalance(req.session.merchantId, currency);
-        
-        if (treasuryBalance) {
-          await storage.updateTreasuryBalance(treasuryBalance.id, {
-            balance: totalAmount.toString(),
-          });
-          treasuryBalance = await storage.getTreasuryBalance(req.session.merchantId, currency);
-        } else {
-          treasuryBalance = await storage.createTreasuryBalance({
-            merchantId: req.session.merchantId,
-            currency,
-            balance: totalAmount.toString(),
-          });
-        }
-        
-        if (treasuryBalance) {
-          updatedBalances.push(treasuryBalance);
-        }
-      }
-
-      // Also handle currencies that might have balances but no recent payments
-      const existingBalances = await storage.getTreasuryBalances(req.session.merchantId);
-      for (const balance of existingBalances) {
-        if (!balanceByCurrency[balance.currency]) {
-          // Keep existing balance if no payments for this currency
-          updatedBalances.push(balance);
-        }
-      }
-
-      res.json({ success: true, balances: updatedBalances });
+      res.json({ success: true, balances: updatedBalances, reconciliation });
     } catch (error) {
       console.error("Rebalance error:", error);
       res.status(500).json({ error: "Failed to rebalance" });
@@ -1655,6 +1532,7 @@ export async function registerRoutes(
   registerQRCodeRoutes(app);
   registerApiKeyRoutes(app);
   registerBridgeRoutes(app);
+  registerBalanceRoutes(app);
   
   // Register new Phase 2 routes
   const { registerFxQuoteRoutes } = await import("./routes/fxQuotes.js");
@@ -1666,6 +1544,8 @@ export async function registerRoutes(
   const { registerSubscriptionRoutes } = await import("./routes/subscriptions.js");
   const { registerPayoutRoutes } = await import("./routes/payouts.js");
   const { registerFeeRoutes } = await import("./routes/fees.js");
+  const { registerProductRoutes } = await import("./routes/products.js");
+  registerProductRoutes(app);
   registerSubscriptionRoutes(app);
   registerPayoutRoutes(app);
   registerFeeRoutes(app);
@@ -1673,25 +1553,39 @@ export async function registerRoutes(
   // Start background payment checker (legacy)
   startPaymentChecker();
   
-  // Start transaction watcher (enhanced polling with exponential backoff)
-  startTxWatcher();
-  
-  // Start subscription scheduler (Phase 3)
-  if (FEATURE_FLAGS.subscriptionsEnabled) {
-    const { processSubscriptionSchedules } = await import("./services/subscriptionService.js");
-    setInterval(() => {
-      processSubscriptionSchedules().catch(console.error);
-    }, 60 * 60 * 1000); // Run every hour
-    console.log("Subscription scheduler started (runs every hour)");
+  // Settle payments from indexed Transfer logs, or fall back to polling submitted tx hashes
+  if (CHAIN_INDEXER_ENABLED) {
+    startChainIndexer();
   }
+
+  // Start transaction watcher (enhanced polling with exponential backoff); tracks block
+  // depth of confirming payments, and polls submitted tx hashes when the indexer is off
+  startTxWatcher();
+
+  // Start refund watcher (verifies refund transactions before completing them)
+  startRefundWatcher();
+
+  // Start webhook delivery worker (database-backed outbox with retries)
+  startWebhookWorker();
+
+  // Start CCTP orchestrator (burn → attestation → mint for CCTP settlement routes)
+  startCctpOrchestrator();
+
+  // Start balance release job (moves captured funds from pending to available)
+  startBalanceReleaseJob();
+
+  // Start API key expiry job (warns merchants before their keys expire)
+  startApiKeyExpiryJob();
   
-  // Start subscription scheduler (Phase 3)
+  // Start subscription scheduler (Phase 3); each mode is billed separately
   if (FEATURE_FLAGS.subscriptionsEnabled) {
     const { processSubscriptionSchedules } = await import("./services/subscriptionService.js");
-    setInterval(() => {
-      processSubscriptionSchedules().catch(console.error);
+    setInterval(async () => {
+      for (const mode of SUBSCRIPTION_SCHEDULER_MODES) {
+        await processSubscriptionSchedules(mode).catch(console.error);
+      }
     }, 60 * 60 * 1000); // Run every hour
-    console.log("Subscription scheduler started (runs every hour)");
+    console.log(`Subscription scheduler started (runs every hour for ${SUBSCRIPTION_SCHEDULER_MODES.join(", ")} mode)`);
   }
 
   // Get current gas price (Gwei) from ArcScan API
@@ -11,6 +11,9 @@ import { rateLimit } from "../middleware/rateLimit.js";
 import { eq, and, or, desc } from "drizzle-orm";
 import { merchants, payments, webhookSubscriptions, qrCodes, businessNameChangeRequests, blocklist, merchantBadges, adminUsers } from "../../shared/schema.js";
 import { db } from "../db.js";
+import { confirmationPolicySchema, parseConfirmationPolicy, CONFIRMATION_POLICY_CONFIG_KEY } from "../services/confirmationPolicy.js";
+import { FX_SPREAD_CONFIG_KEY, MAX_FX_SPREAD_BPS, parseSpreadBps } from "../services/fxQuoteService.js";
+import { rateLimitPolicySchema, parseRateLimitPolicy, RATE_LIMIT_POLICY_CONFIG_KEY } from "../services/rateLimitPolicy.js";
 
 // Admin authentication middleware
 async function requireAdmin(req: Request, res: Response, next: any) {
@@ -48,6 +51,9 @@ const adminLoginSchema = z.object({
 const updateMerchantSchema = z.object({
   active: z.boolean().optional(),
   walletAddress: z.string().optional(),
+  confirmationPolicy: confirmationPolicySchema.nullable().optional(), // null falls back to the global policy
+  fxSpreadBps: z.number().int().min(0).max(MAX_FX_SPREAD_BPS).nullable().optional(), // null falls back to the global spread
+  rateLimitPolicy: rateLimitPolicySchema.nullable().optional(), // null falls back to the global rate limits
 });
 
 const updateConfigSchema = z.object({
@@ -195,11 +201,31 @@ export function registerAdminRoutes(app: Express) {
         return res.status(400).json({ error: result.error.errors[0].message });
       }
 
-      const merchant = await storage.getMerchant(req.params.id);
+      let merchant = await storage.getMerchant(req.params.id);
       if (!merchant) {
         return res.status(404).json({ error: "Merchant not found" });
       }
 
+      if (
+        result.data.confirmationPolicy !== undefined ||
+        result.data.fxSpreadBps !== undefined ||
+        result.data.rateLimitPolicy !== undefined
+      ) {
+        [merchant] = await db
+          .update(merchants)
+          .set({
+            confirmationPolicy: result.data.confirmationPolicy !== undefined
+              ? (result.data.confirmationPolicy ? JSON.stringify(result.data.confirmationPolicy) : null)
+              : undefined,
+            fxSpreadBps: result.data.fxSpreadBps,
+            rateLimitPolicy: result.data.rateLimitPolicy !== undefined
+              ? (result.data.rateLimitPolicy ? JSON.stringify(result.data.rateLimitPolicy) : null)
+              : undefined,
+          })
+          .where(eq(merchants.id, merchant.id))
+          .returning();
+      }
+
       // Log action
       await storage.createAuditLog({
         adminId: req.session.adminId!,
@@ -442,6 +468,22 @@ export function registerAdminRoutes(app: Express) {
         return res.status(400).json({ error: result.error.errors[0].message });
       }
 
+      if (req.params.key === CONFIRMATION_POLICY_CONFIG_KEY && !parseConfirmationPolicy(result.data.value)) {
+        return res.status(400).json({
+          error: 'Invalid confirmation policy, expected JSON like {"default": 1, "tiers": [{"minAmount": "1000", "confirmations": 6}]}',
+        });
+      }
+
+      if (req.params.key === FX_SPREAD_CONFIG_KEY && parseSpreadBps(result.data.value) === null) {
+        return res.status(400).json({ error: `Invalid FX spread, expected whole basis points between 0 and ${MAX_FX_SPREAD_BPS}` });
+      }
+
+      if (req.params.key === RATE_LIMIT_POLICY_CONFIG_KEY && !parseRateLimitPolicy(result.data.value)) {
+        return res.status(400).json({
+          error: 'Invalid rate limit policy, expected JSON like {"read": {"limit": 300, "windowSeconds": 60}, "payments_create": {"limit": 30, "windowSeconds": 60}}',
+        });
+      }
+
       const config = await storage.upsertGlobalConfig({
         key: req.params.key,
         value: result.data.value,
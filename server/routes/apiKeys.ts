@@ -6,12 +6,15 @@
 import { Express, Request, Response } from "express";
 import { storage } from "../storage.js";
 import { rateLimit } from "../middleware/rateLimit.js";
-import { requireApiKey } from "../middleware/apiKeyAuth.js";
-import { randomBytes, scryptSync, timingSafeEqual, createHash } from "crypto";
+import { requireApiKey, requireScope } from "../middleware/apiKeyAuth.js";
+import { createHash } from "crypto";
 import { z } from "zod";
 import { eq, and, isNull } from "drizzle-orm";
 import { apiKeys as apiKeysTable } from "../../shared/schema.js";
 import { db } from "../db.js";
+import { generateApiKey, parseApiKey, isValidCidr, getApiKeyUsage } from "../services/apiKeyService.js";
+import { API_KEY_MAX_ROTATION_OVERLAP_HOURS } from "../config.js";
+import { SECRET_KEY_SCOPES } from "../../shared/apiKeyScopes.js";
 
 function requireAuth(req: Request, res: Response, next: any) {
   if (!req.session?.userId) {
@@ -23,25 +26,48 @@ function requireAuth(req: Request, res: Response, next: any) {
 const regenerateKeySchema = z.object({
   keyType: z.enum(["publishable", "secret"]),
   mode: z.enum(["test", "live"]),
+  // Rotation: the old key keeps working this long alongside the new one (0 = revoke immediately)
+  overlapHours: z.coerce.number().min(0).max(API_KEY_MAX_ROTATION_OVERLAP_HOURS).optional(),
 });
 
+// null = unrestricted secret key
+const secretKeyScopesSchema = z
+  .array(z.enum(SECRET_KEY_SCOPES))
+  .min(1, "A restricted key needs at least one scope")
+  .nullable();
+
 const createKeySchema = z.object({
   mode: z.enum(["test", "live"]).optional(),
   name: z.string().optional(),
+  scopes: secretKeyScopesSchema.optional(), // Applies to the secret key of the pair
+});
+
+const updateKeyScopesSchema = z.object({
+  scopes: secretKeyScopesSchema,
+});
+
+const updateKeyRestrictionsSchema = z.object({
+  // CIDR ranges or single addresses; null = any IP
+  allowedIps: z
+    .array(z.string().trim().refine(isValidCidr, (value) => ({ message: `Invalid IP range: ${value}` })))
+    .min(1, "Add at least one IP range, or clear the allowlist")
+    .nullable()
+    .optional(),
+  expiresAt: z.coerce
+    .date()
+    .refine((date) => date > new Date(), "Expiry must be in the future")
+    .nullable()
+    .optional(),
+});
+
+const keyUsageQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(90).default(30),
 });
 
 const updateKeyNameSchema = z.object({
   name: z.string().min(1, "Name cannot be empty").max(100, "Name is too long"),
 });
 
-/**
- * Generate API key with prefix
- */
-function generateApiKey(prefix: string): string {
-  const randomPart = randomBytes(24).toString("hex");
-  return `${prefix}${randomPart}`;
-}
-
 /**
  * Get wallet address for merchant, using merchant ID as fallback if wallet address is not set
  */
@@ -55,25 +81,6 @@ function getMerchantWalletAddress(merchant: { id: string; walletAddress: string
   return `0x${hash.slice(0, 40)}`;
 }
 
-/**
- * Hash API key for storage
- */
-function hashApiKey(key: string): string {
-  const salt = randomBytes(16).toString("hex");
-  const hash = scryptSync(key, salt, 64).toString("hex");
-  return `${salt}:${hash}`;
-}
-
-/**
- * Verify API key against hash
- */
-function verifyApiKey(key: string, stored: string): boolean {
-  const [salt, hash] = stored.split(":");
-  const hashBuffer = Buffer.from(hash, "hex");
-  const testHash = scryptSync(key, salt, 64);
-  return timingSafeEqual(hashBuffer, testHash);
-}
-
 export function registerApiKeyRoutes(app: Express) {
   // Create API keys for merchant (for current mode)
   app.post("/api/developers/api-keys/create", requireAuth, rateLimit, async (req, res) => {
@@ -92,7 +99,7 @@ export function registerApiKeyRoutes(app: Express) {
         return res.status(404).json({ error: "Merchant not found" });
       }
 
-      const { mode, name } = result.data;
+      const { mode, name, scopes } = result.data;
       const targetMode = mode === "test" ? "test" : "live";
 
       const walletAddress = getMerchantWalletAddress(merchant);
@@ -135,14 +142,14 @@ export function registerApiKeyRoutes(app: Express) {
       
       if (!hasPublishable) {
         try {
-          const prefix = `pk_arc_${targetMode}_`;
-          const key = generateApiKey(prefix);
+          const { key, keyId, hashedKey } = await generateApiKey("publishable", targetMode);
           const newKey = await storage.createApiKey({
             walletAddress: walletAddress,
             keyType: "publishable",
             mode: targetMode,
+            keyId,
             keyPrefix: key,
-            hashedKey: "PUBLISHABLE_KEY_NO_HASH", // Placeholder for publishable keys (not hashed, stored in keyPrefix)
+            hashedKey, // Placeholder for publishable keys (not hashed, stored in keyPrefix)
             name: name || undefined,
           });
           newKeys.push(newKey);
@@ -154,16 +161,16 @@ export function registerApiKeyRoutes(app: Express) {
       
       if (!hasSecret) {
         try {
-          const prefix = `sk_arc_${targetMode}_`;
-          const key = generateApiKey(prefix);
-          const hashedKey = hashApiKey(key);
+          const { key, keyId, hashedKey } = await generateApiKey("secret", targetMode);
           const newKey = await storage.createApiKey({
             walletAddress: walletAddress,
             keyType: "secret",
             mode: targetMode,
+            keyId,
             keyPrefix: key,
             hashedKey,
             name: name || undefined,
+            scopes: scopes ?? null,
           });
           newKeys.push(newKey);
         } catch (error: any) {
@@ -278,15 +285,24 @@ export function registerApiKeyRoutes(app: Express) {
         return res.status(403).json({ error: "Access denied" });
       }
 
-      // Revoke old key
-      await storage.revokeApiKey(req.params.id);
+      // Revoke old key, or let it expire after the overlap window so integrations can switch over
+      const overlapHours = result.data.overlapHours ?? 0;
+      let oldKeyExpiresAt: Date | null = null;
+      if (overlapHours > 0) {
+        oldKeyExpiresAt = new Date(Date.now() + overlapHours * 60 * 60 * 1000);
+        if (existingKey.expiresAt && existingKey.expiresAt < oldKeyExpiresAt) {
+          oldKeyExpiresAt = existingKey.expiresAt;
+        }
+        await db
+          .update(apiKeysTable)
+          .set({ expiresAt: oldKeyExpiresAt, expiryNotifiedAt: new Date() }) // The merchant knows; no expiry warning
+          .where(eq(apiKeysTable.id, req.params.id));
+      } else {
+        await storage.revokeApiKey(req.params.id);
+      }
 
       // Generate new key
-      const prefix = result.data.keyType === "publishable" 
-        ? `pk_arc_${result.data.mode}_` 
-        : `sk_arc_${result.data.mode}_`;
-      const newKey = generateApiKey(prefix);
-      const hashedKey = result.data.keyType === "secret" ? hashApiKey(newKey) : "PUBLISHABLE_KEY_NO_HASH";
+      const { key: newKey, keyId, hashedKey } = await generateApiKey(result.data.keyType, result.data.mode);
 
       // Store full key temporarily for retrieval (in production, use secure vault)
       // For MVP, we'll store it in the keyPrefix for now (not secure, but functional)
@@ -297,16 +313,19 @@ export function registerApiKeyRoutes(app: Express) {
         walletAddress: walletAddress,
         keyType: result.data.keyType,
         mode: result.data.mode,
+        keyId,
         keyPrefix: fullKeyPrefix, // Store full key here for MVP
         hashedKey,
         name: existingKey.name || undefined, // Preserve name when regenerating
+        scopes: existingKey.scopes, // and restrictions
+        allowedIps: existingKey.allowedIps,
       });
 
       // Log regeneration event
       await storage.logApiKeyEvent({
         apiKeyId: newApiKey.id,
-        eventType: "regenerated",
-        metadata: { oldKeyId: req.params.id },
+        eventType: overlapHours > 0 ? "rotated" : "regenerated",
+        metadata: { oldKeyId: req.params.id, oldKeyExpiresAt },
       });
 
       res.json({ 
@@ -314,6 +333,7 @@ export function registerApiKeyRoutes(app: Express) {
         fullKey: newKey, // Return full key only on regeneration
         keyType: newApiKey.keyType,
         mode: newApiKey.mode,
+        oldKeyExpiresAt, // null when the old key was revoked immediately
       });
     } catch (error) {
       console.error("Regenerate API key error:", error);
@@ -450,9 +470,156 @@ export function registerApiKeyRoutes(app: Express) {
     }
   });
 
+  // Restrict a secret key to a set of scopes (null lifts the restriction)
+  app.put("/api/developers/api-keys/:id/scopes", requireAuth, rateLimit, async (req, res) => {
+    try {
+      if (!req.session.merchantId) {
+        return res.status(401).json({ error: "No merchant found" });
+      }
+
+      const result = updateKeyScopesSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: result.error.errors[0].message });
+      }
+
+      const merchant = await storage.getMerchant(req.session.merchantId);
+      if (!merchant) {
+        return res.status(404).json({ error: "Merchant not found" });
+      }
+
+      const walletAddress = getMerchantWalletAddress(merchant);
+      const existingKey = await storage.getApiKey(req.params.id);
+      if (!existingKey) {
+        return res.status(404).json({ error: "API key not found" });
+      }
+
+      if (existingKey.walletAddress.toLowerCase() !== walletAddress.toLowerCase()) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+
+      if (existingKey.keyType !== "secret") {
+        return res.status(400).json({ error: "Publishable keys are limited to checkout calls and cannot be given scopes" });
+      }
+
+      const [updatedKey] = await db
+        .update(apiKeysTable)
+        .set({ scopes: result.data.scopes })
+        .where(eq(apiKeysTable.id, req.params.id))
+        .returning();
+
+      await storage.logApiKeyEvent({
+        apiKeyId: updatedKey.id,
+        eventType: "scopes_updated",
+        metadata: { scopes: result.data.scopes },
+      });
+
+      res.json({
+        message: result.data.scopes ? "API key restricted successfully" : "API key restriction removed",
+        key: updatedKey,
+      });
+    } catch (error) {
+      console.error("Update API key scopes error:", error);
+      res.status(500).json({ error: "Failed to update API key scopes" });
+    }
+  });
+
+  // Set a key's IP allowlist (secret keys only) and expiry date
+  app.put("/api/developers/api-keys/:id/restrictions", requireAuth, rateLimit, async (req, res) => {
+    try {
+      if (!req.session.merchantId) {
+        return res.status(401).json({ error: "No merchant found" });
+      }
+
+      const result = updateKeyRestrictionsSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: result.error.errors[0].message });
+      }
+
+      const merchant = await storage.getMerchant(req.session.merchantId);
+      if (!merchant) {
+        return res.status(404).json({ error: "Merchant not found" });
+      }
+
+      const walletAddress = getMerchantWalletAddress(merchant);
+      const existingKey = await storage.getApiKey(req.params.id);
+      if (!existingKey) {
+        return res.status(404).json({ error: "API key not found" });
+      }
+
+      if (existingKey.walletAddress.toLowerCase() !== walletAddress.toLowerCase()) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+
+      const { allowedIps, expiresAt } = result.data;
+      if (allowedIps && existingKey.keyType !== "secret") {
+        return res.status(400).json({ error: "IP allowlists apply to secret keys; publishable keys are used from browsers" });
+      }
+
+      const [updatedKey] = await db
+        .update(apiKeysTable)
+        .set({
+          allowedIps,
+          expiresAt,
+          // A new expiry date gets its own warning
+          expiryNotifiedAt: expiresAt !== undefined ? null : undefined,
+        })
+        .where(eq(apiKeysTable.id, req.params.id))
+        .returning();
+
+      await storage.logApiKeyEvent({
+        apiKeyId: updatedKey.id,
+        eventType: "restrictions_updated",
+        metadata: { allowedIps, expiresAt },
+      });
+
+      res.json({
+        message: "API key restrictions updated successfully",
+        key: updatedKey,
+      });
+    } catch (error) {
+      console.error("Update API key restrictions error:", error);
+      res.status(500).json({ error: "Failed to update API key restrictions" });
+    }
+  });
+
+  // Request counts and error rate for a key, from the API request logs
+  app.get("/api/developers/api-keys/:id/usage", requireAuth, rateLimit, async (req, res) => {
+    try {
+      if (!req.session.merchantId) {
+        return res.status(401).json({ error: "No merchant found" });
+      }
+
+      const result = keyUsageQuerySchema.safeParse(req.query);
+      if (!result.success) {
+        return res.status(400).json({ error: result.error.errors[0].message });
+      }
+
+      const merchant = await storage.getMerchant(req.session.merchantId);
+      if (!merchant) {
+        return res.status(404).json({ error: "Merchant not found" });
+      }
+
+      const walletAddress = getMerchantWalletAddress(merchant);
+      const existingKey = await storage.getApiKey(req.params.id);
+      if (!existingKey) {
+        return res.status(404).json({ error: "API key not found" });
+      }
+
+      if (existingKey.walletAddress.toLowerCase() !== walletAddress.toLowerCase()) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+
+      res.json(await getApiKeyUsage(existingKey.id, result.data.days));
+    } catch (error) {
+      console.error("Get API key usage error:", error);
+      res.status(500).json({ error: "Failed to get API key usage" });
+    }
+  });
+
   // Test/Verify API key endpoint - allows developers to test if their API key works
-  // This endpoint requires API key authentication to verify it works
-  app.get("/api/test", requireApiKey, rateLimit, async (req, res) => {
+  // This endpoint requires API key authentication to verify it works; any secret key scope will do,
+  // publishable keys are checkout-only
+  app.get("/api/test", requireApiKey, requireScope(...SECRET_KEY_SCOPES), rateLimit, async (req, res) => {
     try {
       if (!req.merchant) {
         return res.status(401).json({ 
@@ -468,13 +635,15 @@ export function registerApiKeyRoutes(app: Express) {
       if (apiKey && req.merchant.walletAddress) {
         const walletAddress = req.merchant.walletAddress.toLowerCase();
         const keys = await storage.getApiKeys(walletAddress);
-        const matchingKey = keys.find(k => k.keyPrefix === apiKey || k.keyPrefix.startsWith(apiKey.substring(0, 20)));
+        const keyId = parseApiKey(apiKey)?.keyId;
+        const matchingKey = keys.find(k => (keyId ? k.keyId === keyId : k.keyPrefix === apiKey));
         
         if (matchingKey) {
           apiKeyInfo = {
             keyType: matchingKey.keyType,
             mode: matchingKey.mode,
             name: matchingKey.name,
+            scopes: req.apiKeyScopes,
             lastUsedAt: matchingKey.lastUsedAt,
             createdAt: matchingKey.createdAt,
           };
@@ -6,7 +6,7 @@
 import { Express, Request, Response, NextFunction } from "express";
 import { getMerchantBadgeStatus, isMerchantEligibleForBadge } from "../services/badgeService.js";
 import { storage } from "../storage.js";
-import { optionalApiKey } from "../middleware/apiKeyAuth.js";
+import { requireAuthOrApiKey, requireScope } from "../middleware/apiKeyAuth.js";
 
 // Middleware to get merchant from session or API key
 async function getMerchant(req: Request) {
@@ -25,7 +25,7 @@ async function getMerchant(req: Request) {
 
 export function registerBadgeRoutes(app: Express) {
   // Get badge status (authenticated - session or API key)
-  app.get("/api/badges/status", optionalApiKey, async (req, res) => {
+  app.get("/api/badges/status", requireAuthOrApiKey, requireScope("payments:read"), async (req, res) => {
     try {
       const merchant = await getMerchant(req);
       if (!merchant) {
@@ -41,7 +41,7 @@ export function registerBadgeRoutes(app: Express) {
   });
 
   // Check verification status (on-chain check)
-  app.get("/api/badges/verification", optionalApiKey, async (req, res) => {
+  app.get("/api/badges/verification", requireAuthOrApiKey, requireScope("payments:read"), async (req, res) => {
     try {
       const merchant = await getMerchant(req);
       if (!merchant) {
@@ -81,7 +81,7 @@ export function registerBadgeRoutes(app: Express) {
   });
 
   // Check eligibility (authenticated - session or API key)
-  app.get("/api/badges/eligibility", optionalApiKey, async (req, res) => {
+  app.get("/api/badges/eligibility", requireAuthOrApiKey, requireScope("payments:read"), async (req, res) => {
     try {
       const merchant = await getMerchant(req);
       if (!merchant) {
@@ -97,7 +97,7 @@ export function registerBadgeRoutes(app: Express) {
   });
 
   // Record badge mint (called after frontend mints)
-  app.post("/api/badges/record-mint", optionalApiKey, async (req, res) => {
+  app.post("/api/badges/record-mint", requireAuthOrApiKey, requireScope("payments:write"), async (req, res) => {
     try {
       const merchant = await getMerchant(req);
       if (!merchant) {
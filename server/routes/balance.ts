@@ -0,0 +1,26 @@
+/**
+ * Balance Routes
+ * Merchant balances derived from the double-entry ledger
+ */
+
+import type { Express } from "express";
+import { requireAuthOrApiKey, requireScope } from "../middleware/apiKeyAuth.js";
+import { rateLimit } from "../middleware/rateLimit.js";
+import { getMerchantBalances } from "../services/ledgerService.js";
+
+export function registerBalanceRoutes(app: Express) {
+  // Get available vs. pending balance per currency, live and test reported separately
+  app.get("/api/balance", requireAuthOrApiKey, requireScope("balance:read"), rateLimit, async (req, res) => {
+    try {
+      if (!req.merchant) {
+        return res.status(401).json({ error: "Unauthorized" });
+      }
+
+      const { live, test } = await getMerchantBalances(req.merchant.id);
+      res.json({ live, test });
+    } catch (error) {
+      console.error("Get balance error:", error);
+      res.status(500).json({ error: "Failed to get balance" });
+    }
+  });
+}
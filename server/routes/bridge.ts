@@ -6,8 +6,9 @@
 import type { Express, Request, Response, NextFunction } from "express";
 import { z } from "zod";
 import { rateLimit } from "../middleware/rateLimit.js";
+import { idempotency } from "../middleware/idempotency.js";
 import { estimateBridge, isValidCCTPRoute } from "../services/bridgeService.js";
-import { initiateCCTPBurn, completeCCTPMint, estimateCCTPBridge } from "../services/cctpService.js";
+import { estimateCCTPBridge } from "../services/cctpService.js";
 
 /**
  * Session-based authentication middleware for dashboard routes
@@ -79,7 +80,7 @@ export function registerBridgeRoutes(app: Express) {
   });
 
   // Initiate bridge (placeholder - would integrate with wallet/smart contract)
-  app.post("/api/bridge/initiate", requireAuth, rateLimit, async (req, res) => {
+  app.post("/api/bridge/initiate", requireAuth, rateLimit, idempotency, async (req, res) => {
     try {
       const result = bridgeInitiateSchema.safeParse({
         ...req.body,
@@ -5,8 +5,9 @@
 
 import type { Express } from "express";
 import { z } from "zod";
-import { requireApiKey } from "../middleware/apiKeyAuth.js";
+import { requireApiKey, requireScope } from "../middleware/apiKeyAuth.js";
 import { rateLimit } from "../middleware/rateLimit.js";
+import { idempotency } from "../middleware/idempotency.js";
 import { enforceTestLiveIsolation } from "../middleware/testLiveIsolation.js";
 import {
   createFeeRule,
@@ -43,8 +44,10 @@ export function registerFeeRoutes(app: Express) {
   app.post(
     "/api/fees/rules",
     requireApiKey,
+    requireScope("fees:manage"),
     enforceTestLiveIsolation,
     rateLimit,
+    idempotency,
     checkFeatureEnabled,
     async (req, res) => {
       try {
@@ -77,6 +80,7 @@ export function registerFeeRoutes(app: Express) {
   app.get(
     "/api/fees/rules",
     requireApiKey,
+    requireScope("fees:manage"),
     enforceTestLiveIsolation,
     rateLimit,
     checkFeatureEnabled,
@@ -99,8 +103,10 @@ export function registerFeeRoutes(app: Express) {
   app.post(
     "/api/splits/rules",
     requireApiKey,
+    requireScope("fees:manage"),
     enforceTestLiveIsolation,
     rateLimit,
+    idempotency,
     checkFeatureEnabled,
     async (req, res) => {
       try {
@@ -132,6 +138,7 @@ export function registerFeeRoutes(app: Express) {
   app.get(
     "/api/splits/rules",
     requireApiKey,
+    requireScope("fees:manage"),
     enforceTestLiveIsolation,
     rateLimit,
     checkFeatureEnabled,
@@ -154,6 +161,7 @@ export function registerFeeRoutes(app: Express) {
   app.get(
     "/api/payments/:id/fee-summary",
     requireApiKey,
+    requireScope("payments:read"),
     enforceTestLiveIsolation,
     rateLimit,
     checkFeatureEnabled,
@@ -5,9 +5,20 @@
 
 import type { Express } from "express";
 import { z } from "zod";
-import { requireApiKey, optionalApiKey } from "../middleware/apiKeyAuth.js";
+import { eq } from "drizzle-orm";
+import { requireApiKey, optionalApiKey, requireAuthOrApiKey, requireScope } from "../middleware/apiKeyAuth.js";
 import { rateLimit } from "../middleware/rateLimit.js";
-import { createFxQuote, getFxQuote, markFxQuoteAsUsed } from "../services/fxQuoteService.js";
+import { idempotency } from "../middleware/idempotency.js";
+import { db } from "../db.js";
+import { merchants } from "../../shared/schema.js";
+import {
+  createFxQuote,
+  getFxQuote,
+  markFxQuoteAsUsed,
+  getSpreadBps,
+  MAX_FX_SPREAD_BPS,
+} from "../services/fxQuoteService.js";
+import { FxRateUnavailableError } from "../services/fxRateProviders.js";
 
 const createFxQuoteSchema = z.object({
   paymentId: z.string().optional(),
@@ -17,12 +28,18 @@ const createFxQuoteSchema = z.object({
   expiresInSeconds: z.coerce.number().int().positive().optional(),
 });
 
+const updateFxSpreadSchema = z.object({
+  spreadBps: z.number().int().min(0).max(MAX_FX_SPREAD_BPS).nullable(), // null falls back to the global spread
+});
+
 export function registerFxQuoteRoutes(app: Express) {
   // Create FX quote
   app.post(
     "/api/fx-quotes",
     requireApiKey,
+    requireScope("payments:write", "checkout"),
     rateLimit,
+    idempotency,
     async (req, res) => {
       try {
         if (!req.merchant) {
@@ -45,6 +62,9 @@ export function registerFxQuoteRoutes(app: Express) {
 
         res.json(quote);
       } catch (error) {
+        if (error instanceof FxRateUnavailableError) {
+          return res.status(503).json({ error: error.message });
+        }
         console.error("Create FX quote error:", error);
         res.status(500).json({ error: "Failed to create FX quote" });
       }
@@ -81,7 +101,9 @@ export function registerFxQuoteRoutes(app: Express) {
   app.post(
     "/api/fx-quotes/:id/use",
     requireApiKey,
+    requireScope("payments:write"),
     rateLimit,
+    idempotency,
     async (req, res) => {
       try {
         if (!req.merchant) {
@@ -104,7 +126,9 @@ export function registerFxQuoteRoutes(app: Express) {
           return res.status(400).json({ error: `FX quote is ${quote.status}` });
         }
 
-        await markFxQuoteAsUsed(req.params.id);
+        if (!(await markFxQuoteAsUsed(req.params.id))) {
+          return res.status(409).json({ error: "FX quote is no longer active" });
+        }
 
         res.json({ success: true });
       } catch (error) {
@@ -113,5 +137,60 @@ export function registerFxQuoteRoutes(app: Express) {
       }
     }
   );
-}
 
+  // Get the spread applied to this merchant's FX quotes
+  app.get(
+    "/api/fx/spread",
+    requireAuthOrApiKey,
+    requireScope("fees:manage"),
+    rateLimit,
+    async (req, res) => {
+      try {
+        if (!req.merchant) {
+          return res.status(401).json({ error: "Unauthorized" });
+        }
+
+        res.json({
+          spreadBps: await getSpreadBps(req.merchant.id),
+          override: req.merchant.fxSpreadBps,
+        });
+      } catch (error) {
+        console.error("Get FX spread error:", error);
+        res.status(500).json({ error: "Failed to get FX spread" });
+      }
+    }
+  );
+
+  // Set (or clear) this merchant's FX spread override
+  app.put(
+    "/api/fx/spread",
+    requireAuthOrApiKey,
+    requireScope("fees:manage"),
+    rateLimit,
+    async (req, res) => {
+      try {
+        if (!req.merchant) {
+          return res.status(401).json({ error: "Unauthorized" });
+        }
+
+        const result = updateFxSpreadSchema.safeParse(req.body);
+        if (!result.success) {
+          return res.status(400).json({ error: result.error.errors[0].message });
+        }
+
+        await db
+          .update(merchants)
+          .set({ fxSpreadBps: result.data.spreadBps })
+          .where(eq(merchants.id, req.merchant.id));
+
+        res.json({
+          spreadBps: await getSpreadBps(req.merchant.id),
+          override: result.data.spreadBps,
+        });
+      } catch (error) {
+        console.error("Update FX spread error:", error);
+        res.status(500).json({ error: "Failed to update FX spread" });
+      }
+    }
+  );
+}
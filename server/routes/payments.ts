@@ -5,16 +5,20 @@
 
 import type { Express } from "express";
 import { z } from "zod";
-import { requireApiKey, optionalApiKey } from "../middleware/apiKeyAuth.js";
-import { rateLimit } from "../middleware/rateLimit.js";
+import { requireApiKey, optionalApiKey, requireScope } from "../middleware/apiKeyAuth.js";
+import { rateLimit, rateLimitFor } from "../middleware/rateLimit.js";
+import { idempotency } from "../middleware/idempotency.js";
 import { enforceTestLiveIsolation } from "../middleware/testLiveIsolation.js";
-import { createPayment, confirmPayment, failPayment, expirePayment } from "../services/paymentService.js";
+import { createPayment, IdempotencyConflictError, confirmPayment, failPayment, expirePayment, isTxHashClaimed } from "../services/paymentService.js";
 import { storage } from "../storage.js";
 import { getExplorerLink } from "../services/arcService.js";
+import { FxQuoteError } from "../services/fxQuoteService.js";
+import { resolvePrice, PriceError } from "../services/productService.js";
 
 const createPaymentSchema = z.object({
-  amount: z.string().refine((val) => !isNaN(parseFloat(val)) && parseFloat(val) > 0, "Amount must be positive"),
-  currency: z.string().optional().default("USDC"),
+  priceId: z.string().optional(), // One-time catalog price, instead of amount
+  amount: z.string().refine((val) => !isNaN(parseFloat(val)) && parseFloat(val) > 0, "Amount must be positive").optional(),
+  currency: z.string().optional(), // Defaults to USDC, or the price's default currency with priceId
   settlementCurrency: z.enum(["USDC", "EURC"]).optional().default("USDC"),
   paymentAsset: z.string().optional(),
   paymentChainId: z.coerce.number().int().optional(),
@@ -26,8 +30,9 @@ const createPaymentSchema = z.object({
   expiresInMinutes: z.coerce.number().int().positive().optional(),
   isTest: z.coerce.boolean().optional(),
   gasSponsored: z.coerce.boolean().optional().default(false),
-  idempotencyKey: z.string().optional(), // Idempotency key for duplicate request prevention
-});
+  idempotencyKey: z.string().optional(), // Legacy body field; prefer the Idempotency-Key header
+  fxQuoteId: z.string().optional(), // Active FX quote from POST /api/fx-quotes for currency → settlementCurrency
+}).refine((data) => data.priceId || data.amount, "Either amount or priceId is required");
 
 /**
  * Infer isTest from API key prefix
@@ -60,8 +65,10 @@ export function registerPaymentRoutes(app: Express) {
   app.post(
     "/api/payments/create",
     requireApiKey,
+    requireScope("payments:write"),
     enforceTestLiveIsolation,
-    rateLimit,
+    rateLimitFor("payments_create"),
+    idempotency,
     async (req, res) => {
       try {
         if (!req.merchant) {
@@ -125,22 +132,34 @@ export function registerPaymentRoutes(app: Express) {
         // Verified merchants can create both test and live payments
         // pending_verification merchants can create test payments only (same as demo)
 
+        let amount = result.data.amount;
+        let currency = result.data.currency || "USDC";
+        let description = result.data.description;
+        if (result.data.priceId) {
+          const resolved = await resolvePrice(result.data.priceId, req.merchant.id, "one_time", result.data.currency);
+          amount = resolved.amount;
+          currency = resolved.currency;
+          description = description || resolved.product.name;
+        }
+
         const payment = await createPayment({
           merchantId: req.merchant.id,
-          amount: result.data.amount,
-          currency: result.data.currency || "USDC",
+          priceId: result.data.priceId,
+          amount: amount!,
+          currency,
           settlementCurrency: result.data.settlementCurrency || "USDC",
           paymentAsset: result.data.paymentAsset || undefined, // Default to ARC USDC if not provided
           paymentChainId: result.data.paymentChainId, // Will be inferred if not provided
           conversionPath: result.data.conversionPath,
           estimatedFees: result.data.estimatedFees,
-          description: result.data.description,
+          description,
           customerEmail: result.data.customerEmail,
           merchantWallet: merchantWallet,
           expiresInMinutes: result.data.expiresInMinutes,
           isTest: inferredIsTest,
           gasSponsored: result.data.gasSponsored || false,
           idempotencyKey: result.data.idempotencyKey,
+          fxQuoteId: result.data.fxQuoteId,
         });
 
         // Generate checkout URL
@@ -154,11 +173,21 @@ export function registerPaymentRoutes(app: Express) {
           checkout_url: checkoutUrl,
           amount: parseFloat(payment.amount),
           currency: payment.currency,
+          settlementCurrency: payment.settlementCurrency,
+          fxQuoteId: payment.fxQuoteId,
+          fxRate: payment.fxRate,
+          convertedAmount: payment.convertedAmount,
           merchantWallet: payment.merchantWallet,
           expiresAt: payment.expiresAt,
           createdAt: payment.createdAt,
         });
       } catch (error) {
+        if (error instanceof FxQuoteError || error instanceof PriceError) {
+          return res.status(400).json({ error: error.message });
+        }
+        if (error instanceof IdempotencyConflictError) {
+          return res.status(409).json({ error: error.message, code: "idempotency_key_mismatch" });
+        }
         console.error("Create payment error:", error);
         res.status(500).json({ error: "Failed to create payment" });
       }
@@ -166,7 +195,7 @@ export function registerPaymentRoutes(app: Express) {
   );
 
   // Get payment by ID
-  app.get("/api/payments/:id", requireApiKey, enforceTestLiveIsolation, rateLimit, async (req, res) => {
+  app.get("/api/payments/:id", requireApiKey, requireScope("payments:read", "checkout"), enforceTestLiveIsolation, rateLimit, async (req, res) => {
     try {
       if (!req.merchant) {
         return res.status(401).json({ error: "Unauthorized" });
@@ -238,6 +267,11 @@ export function registerPaymentRoutes(app: Express) {
           return res.status(403).json({ error: "Access denied" });
         }
 
+        // A transaction can only be used to settle one payment
+        if (await isTxHashClaimed(result.data.txHash, paymentId)) {
+          return res.status(409).json({ error: "Transaction has already been used for another payment" });
+        }
+
         // Prepare metadata with customer name and gas sponsorship if provided
         let metadata = payment.metadata;
         try {
@@ -320,6 +354,11 @@ export function registerPaymentRoutes(app: Express) {
           return res.status(403).json({ error: "Access denied" });
         }
 
+        // A transaction can only be used to settle one payment
+        if (await isTxHashClaimed(result.data.txHash, paymentId)) {
+          return res.status(409).json({ error: "Transaction has already been used for another payment" });
+        }
+
         // Update payment status to pending (will be confirmed by background checker)
         await storage.updatePayment(paymentId, {
           status: "pending",
@@ -344,7 +383,7 @@ export function registerPaymentRoutes(app: Express) {
   );
 
   // Fail payment
-  app.post("/api/payments/fail", requireApiKey, rateLimit, async (req, res) => {
+  app.post("/api/payments/fail", requireApiKey, requireScope("payments:write"), rateLimit, idempotency, async (req, res) => {
     try {
       if (!req.merchant) {
         return res.status(401).json({ error: "Unauthorized" });
@@ -375,7 +414,7 @@ export function registerPaymentRoutes(app: Express) {
   });
 
   // Expire payment
-  app.post("/api/payments/expire", requireApiKey, rateLimit, async (req, res) => {
+  app.post("/api/payments/expire", requireApiKey, requireScope("payments:write"), rateLimit, idempotency, async (req, res) => {
     try {
       if (!req.merchant) {
         return res.status(401).json({ error: "Unauthorized" });
@@ -3,10 +3,11 @@
  * Handles merchant payouts/withdrawals
  */
 
-import type { Express, Request, Response, NextFunction } from "express";
+import type { Express } from "express";
 import { z } from "zod";
-import { requireApiKey } from "../middleware/apiKeyAuth.js";
+import { requireAuthOrApiKey, requireScope } from "../middleware/apiKeyAuth.js";
 import { rateLimit } from "../middleware/rateLimit.js";
+import { idempotency } from "../middleware/idempotency.js";
 import { enforceTestLiveIsolation } from "../middleware/testLiveIsolation.js";
 import {
   createPayout,
@@ -15,7 +16,6 @@ import {
   getPayouts,
 } from "../services/payoutService.js";
 import { FEATURE_FLAGS } from "../config.js";
-import { storage } from "../storage.js";
 
 const createPayoutSchema = z.object({
   amount: z.string().refine((val) => !isNaN(parseFloat(val)) && parseFloat(val) > 0, "Amount must be positive"),
@@ -42,31 +42,14 @@ export function registerPayoutRoutes(app: Express) {
     next();
   };
 
-  // Middleware that supports both session-based auth (dashboard) and API key auth (API)
-  const requireAuthOrApiKey = async (req: Request, res: Response, next: NextFunction) => {
-    // First check for session-based auth (dashboard)
-    if (req.session?.merchantId) {
-      try {
-        const merchant = await storage.getMerchant(req.session.merchantId);
-        if (merchant) {
-          req.merchant = merchant;
-          return next();
-        }
-      } catch (error) {
-        console.error("Session auth error:", error);
-      }
-    }
-
-    // Fall back to API key auth
-    return requireApiKey(req, res, next);
-  };
-
   // Create payout
   app.post(
     "/api/payouts",
     requireAuthOrApiKey,
+    requireScope("payouts:write"),
     enforceTestLiveIsolation,
     rateLimit,
+    idempotency,
     checkFeatureEnabled,
     async (req, res) => {
       try {
@@ -86,6 +69,7 @@ export function registerPayoutRoutes(app: Express) {
           destinationWallet: result.data.destinationWallet,
           destinationChainId: result.data.destinationChainId,
           metadata: result.data.metadata,
+          isTest: req.apiKeyMode === "test", // Test keys pay out the test balance
         });
 
         res.json(payout);
@@ -100,6 +84,7 @@ export function registerPayoutRoutes(app: Express) {
   app.get(
     "/api/payouts",
     requireAuthOrApiKey,
+    requireScope("payouts:read"),
     enforceTestLiveIsolation,
     rateLimit,
     checkFeatureEnabled,
@@ -109,7 +94,7 @@ export function registerPayoutRoutes(app: Express) {
           return res.status(401).json({ error: "Unauthorized" });
         }
 
-        const payouts = await getPayouts(req.merchant.id);
+        const payouts = await getPayouts(req.merchant.id, req.apiKeyMode);
         res.json(payouts);
       } catch (error) {
         console.error("Get payouts error:", error);
@@ -122,8 +107,10 @@ export function registerPayoutRoutes(app: Express) {
   app.post(
     "/api/payouts/:id/complete",
     requireAuthOrApiKey,
+    requireScope("payouts:write"),
     enforceTestLiveIsolation,
     rateLimit,
+    idempotency,
     checkFeatureEnabled,
     async (req, res) => {
       try {
@@ -136,7 +123,7 @@ export function registerPayoutRoutes(app: Express) {
           return res.status(400).json({ error: result.error.errors[0].message });
         }
 
-        const payout = await completePayout(req.params.id, result.data.txHash, req.merchant.id);
+        const payout = await completePayout(req.params.id, result.data.txHash, req.merchant.id, req.apiKeyMode);
         res.json(payout);
       } catch (error) {
         console.error("Complete payout error:", error);
@@ -149,8 +136,10 @@ export function registerPayoutRoutes(app: Express) {
   app.post(
     "/api/payouts/:id/fail",
     requireAuthOrApiKey,
+    requireScope("payouts:write"),
     enforceTestLiveIsolation,
     rateLimit,
+    idempotency,
     checkFeatureEnabled,
     async (req, res) => {
       try {
@@ -163,7 +152,7 @@ export function registerPayoutRoutes(app: Express) {
           return res.status(400).json({ error: result.error.errors[0].message });
         }
 
-        const payout = await failPayout(req.params.id, result.data.reason, req.merchant.id);
+        const payout = await failPayout(req.params.id, result.data.reason, req.merchant.id, req.apiKeyMode);
         res.json(payout);
       } catch (error) {
         console.error("Fail payout error:", error);
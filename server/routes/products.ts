@@ -0,0 +1,188 @@
+/**
+ * Product Routes
+ * Product and price catalog used by subscriptions and payments
+ */
+
+import type { Express } from "express";
+import { z } from "zod";
+import { requireAuthOrApiKey, requireScope } from "../middleware/apiKeyAuth.js";
+import { rateLimit } from "../middleware/rateLimit.js";
+import { idempotency } from "../middleware/idempotency.js";
+import {
+  createProduct,
+  updateProduct,
+  getProducts,
+  createPrice,
+  updatePrice,
+  getPrice,
+  PriceError,
+  PRICE_CURRENCIES,
+} from "../services/productService.js";
+import { BILLING_INTERVALS, MAX_INTERVAL_COUNT } from "../../shared/billingIntervals.js";
+
+const positiveAmount = z.string().refine((val) => !isNaN(parseFloat(val)) && parseFloat(val) > 0, "Amount must be positive");
+
+const createProductSchema = z.object({
+  name: z.string().min(1, "Name is required").max(200),
+  description: z.string().max(1000).optional(),
+  metadata: z.record(z.any()).optional(),
+});
+
+const updateProductSchema = z.object({
+  name: z.string().min(1, "Name is required").max(200).optional(),
+  description: z.string().max(1000).nullable().optional(),
+  active: z.boolean().optional(), // false archives the product
+  metadata: z.record(z.any()).nullable().optional(),
+});
+
+const createPriceSchema = z.object({
+  nickname: z.string().max(200).optional(),
+  type: z.enum(["one_time", "recurring"]).default("recurring"),
+  interval: z.enum(BILLING_INTERVALS).optional(),
+  intervalCount: z.coerce.number().int().positive().optional(), // e.g. interval "daily" with 30 bills every 30 days
+  // Amount per currency, e.g. {"USDC": "10.00", "EURC": "9.20"}
+  unitAmounts: z
+    .object({ USDC: positiveAmount.optional(), EURC: positiveAmount.optional() })
+    .strict()
+    .refine((amounts) => Object.values(amounts).some(Boolean), "At least one currency amount is required"),
+  defaultCurrency: z.enum(PRICE_CURRENCIES).optional(),
+}).refine(
+  (data) => !data.intervalCount || data.intervalCount <= MAX_INTERVAL_COUNT[data.interval || "monthly"],
+  "intervalCount is too large for the interval (at most a year per period)"
+);
+
+const updatePriceSchema = z.object({
+  nickname: z.string().max(200).nullable().optional(),
+  active: z.boolean().optional(), // false archives the price; subscriptions on it keep billing
+});
+
+export function registerProductRoutes(app: Express) {
+  // Create product
+  app.post("/api/products", requireAuthOrApiKey, requireScope("products:write"), rateLimit, idempotency, async (req, res) => {
+    try {
+      if (!req.merchant) {
+        return res.status(401).json({ error: "Unauthorized" });
+      }
+
+      const result = createProductSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: result.error.errors[0].message });
+      }
+
+      const product = await createProduct({ merchantId: req.merchant.id, ...result.data });
+      res.json({ ...product, prices: [] });
+    } catch (error) {
+      console.error("Create product error:", error);
+      res.status(500).json({ error: "Failed to create product" });
+    }
+  });
+
+  // List products with their prices (?includeArchived=true for archived ones)
+  app.get("/api/products", requireAuthOrApiKey, requireScope("products:read"), rateLimit, async (req, res) => {
+    try {
+      if (!req.merchant) {
+        return res.status(401).json({ error: "Unauthorized" });
+      }
+
+      const products = await getProducts(req.merchant.id, req.query.includeArchived === "true");
+      res.json(products);
+    } catch (error) {
+      console.error("Get products error:", error);
+      res.status(500).json({ error: "Failed to get products" });
+    }
+  });
+
+  // Update or archive product
+  app.patch("/api/products/:id", requireAuthOrApiKey, requireScope("products:write"), rateLimit, async (req, res) => {
+    try {
+      if (!req.merchant) {
+        return res.status(401).json({ error: "Unauthorized" });
+      }
+
+      const result = updateProductSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: result.error.errors[0].message });
+      }
+
+      const product = await updateProduct(req.params.id, req.merchant.id, result.data);
+      res.json(product);
+    } catch (error) {
+      if (error instanceof Error && error.message === "Product not found") {
+        return res.status(404).json({ error: error.message });
+      }
+      console.error("Update product error:", error);
+      res.status(500).json({ error: "Failed to update product" });
+    }
+  });
+
+  // Add a price to a product
+  app.post("/api/products/:id/prices", requireAuthOrApiKey, requireScope("products:write"), rateLimit, idempotency, async (req, res) => {
+    try {
+      if (!req.merchant) {
+        return res.status(401).json({ error: "Unauthorized" });
+      }
+
+      const result = createPriceSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: result.error.errors[0].message });
+      }
+
+      const price = await createPrice({
+        merchantId: req.merchant.id,
+        productId: req.params.id,
+        ...result.data,
+      });
+      res.json(price);
+    } catch (error) {
+      if (error instanceof PriceError) {
+        return res.status(400).json({ error: error.message });
+      }
+      if (error instanceof Error && error.message === "Product not found") {
+        return res.status(404).json({ error: error.message });
+      }
+      console.error("Create price error:", error);
+      res.status(500).json({ error: "Failed to create price" });
+    }
+  });
+
+  // Get price
+  app.get("/api/prices/:id", requireAuthOrApiKey, requireScope("products:read"), rateLimit, async (req, res) => {
+    try {
+      if (!req.merchant) {
+        return res.status(401).json({ error: "Unauthorized" });
+      }
+
+      const price = await getPrice(req.params.id, req.merchant.id);
+      if (!price) {
+        return res.status(404).json({ error: "Price not found" });
+      }
+      res.json(price);
+    } catch (error) {
+      console.error("Get price error:", error);
+      res.status(500).json({ error: "Failed to get price" });
+    }
+  });
+
+  // Rename or archive price
+  app.patch("/api/prices/:id", requireAuthOrApiKey, requireScope("products:write"), rateLimit, async (req, res) => {
+    try {
+      if (!req.merchant) {
+        return res.status(401).json({ error: "Unauthorized" });
+      }
+
+      const result = updatePriceSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: result.error.errors[0].message });
+      }
+
+      const price = await updatePrice(req.params.id, req.merchant.id, result.data);
+      res.json(price);
+    } catch (error) {
+      if (error instanceof Error && error.message === "Price not found") {
+        return res.status(404).json({ error: error.message });
+      }
+      console.error("Update price error:", error);
+      res.status(500).json({ error: "Failed to update price" });
+    }
+  });
+}
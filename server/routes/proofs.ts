@@ -6,7 +6,7 @@
 import { Express, Request } from "express";
 import { generateInvoiceHash, getPaymentProofStatus, isPaymentEligibleForProof } from "../services/proofService.js";
 import { storage } from "../storage.js";
-import { optionalApiKey } from "../middleware/apiKeyAuth.js";
+import { requireAuthOrApiKey, requireScope } from "../middleware/apiKeyAuth.js";
 
 // Middleware to get merchant from session or API key
 async function getMerchant(req: Request) {
@@ -25,7 +25,7 @@ async function getMerchant(req: Request) {
 
 export function registerProofRoutes(app: Express) {
   // Get proof status for a payment (authenticated - session or API key)
-  app.get("/api/payments/:id/proof", optionalApiKey, async (req, res) => {
+  app.get("/api/payments/:id/proof", requireAuthOrApiKey, requireScope("payments:read"), async (req, res) => {
     try {
       const merchant = await getMerchant(req);
       if (!merchant) {
@@ -57,7 +57,7 @@ export function registerProofRoutes(app: Express) {
   });
 
   // Generate invoice hash for a payment (authenticated - session or API key)
-  app.post("/api/payments/:id/generate-invoice-hash", optionalApiKey, async (req, res) => {
+  app.post("/api/payments/:id/generate-invoice-hash", requireAuthOrApiKey, requireScope("payments:write"), async (req, res) => {
     try {
       const merchant = await getMerchant(req);
       if (!merchant) {
@@ -109,7 +109,7 @@ export function registerProofRoutes(app: Express) {
   });
 
   // Record proof (called after frontend records on-chain)
-  app.post("/api/payments/:id/record-proof", optionalApiKey, async (req, res) => {
+  app.post("/api/payments/:id/record-proof", requireAuthOrApiKey, requireScope("payments:write"), async (req, res) => {
     try {
       const merchant = await getMerchant(req);
       if (!merchant) {
@@ -5,6 +5,7 @@
 
 import { Express, Request, Response, NextFunction } from "express";
 import { storage } from "../storage.js";
+import { idempotency } from "../middleware/idempotency.js";
 import { z } from "zod";
 import type { InsertQRCode } from "../../shared/schema.js";
 
@@ -40,7 +41,7 @@ export function registerQRCodeRoutes(app: Express) {
   });
 
   // Create QR code
-  app.post("/api/qr-codes", requireAuth, async (req, res) => {
+  app.post("/api/qr-codes", requireAuth, idempotency, async (req, res) => {
     try {
       if (!req.session.merchantId) {
         return res.status(401).json({ error: "No merchant found" });
@@ -5,16 +5,17 @@
 
 import type { Express } from "express";
 import { z } from "zod";
-import { requireApiKey } from "../middleware/apiKeyAuth.js";
+import { requireApiKey, requireScope } from "../middleware/apiKeyAuth.js";
 import { rateLimit } from "../middleware/rateLimit.js";
-import { createRefundIntent, completeRefund, getRefund, getRefundsByPayment } from "../services/refundService.js";
+import { idempotency } from "../middleware/idempotency.js";
+import { createRefundIntent, submitRefundTransaction, cancelRefundIntent, getRefund, getRefundsByPayment } from "../services/refundService.js";
 import { storage } from "../storage.js";
 import { getExplorerLink } from "../services/arcService.js";
 
 const createRefundSchema = z.object({
   paymentId: z.string().min(1, "Payment ID is required"),
   amount: z.string().refine((val) => !isNaN(parseFloat(val)) && parseFloat(val) > 0, "Amount must be positive"),
-  currency: z.string().optional().default("USDC"),
+  currency: z.string().optional(), // Defaults to the payment currency
   reason: z.string().optional(),
 });
 
@@ -25,7 +26,7 @@ const completeRefundSchema = z.object({
 
 export function registerRefundRoutes(app: Express) {
   // Create refund intent
-  app.post("/api/payments/:id/refund", requireApiKey, rateLimit, async (req, res) => {
+  app.post("/api/payments/:id/refund", requireApiKey, requireScope("refunds:write"), rateLimit, idempotency, async (req, res) => {
     try {
       if (!req.merchant) {
         return res.status(401).json({ error: "Unauthorized" });
@@ -65,8 +66,9 @@ export function registerRefundRoutes(app: Express) {
     }
   });
 
-  // Complete refund (after merchant initiates transaction)
-  app.post("/api/refunds/:id/complete", requireApiKey, rateLimit, async (req, res) => {
+  // Submit the refund transaction (after merchant initiates it); the refund stays
+  // processing until the transfer to the payer is verified on-chain
+  app.post("/api/refunds/:id/complete", requireApiKey, requireScope("refunds:write"), rateLimit, idempotency, async (req, res) => {
     try {
       if (!req.merchant) {
         return res.status(401).json({ error: "Unauthorized" });
@@ -86,14 +88,17 @@ export function registerRefundRoutes(app: Express) {
         return res.status(404).json({ error: "Refund not found" });
       }
 
-      const completedRefund = await completeRefund(result.data.refundId, result.data.txHash);
+      const processingRefund = await submitRefundTransaction(result.data.refundId, result.data.txHash);
 
       res.json({
         success: true,
         refund: {
-          ...completedRefund,
+          ...processingRefund,
           explorerLink: getExplorerLink(result.data.txHash),
         },
+        message: processingRefund.status === "completed"
+          ? "Refund completed."
+          : "Refund transaction submitted. The refund completes once the transfer is verified on-chain.",
       });
     } catch (error) {
       console.error("Complete refund error:", error);
@@ -102,8 +107,29 @@ export function registerRefundRoutes(app: Express) {
     }
   });
 
+  // Cancel a pending refund intent (no transaction submitted yet)
+  app.post("/api/refunds/:id/cancel", requireApiKey, requireScope("refunds:write"), rateLimit, idempotency, async (req, res) => {
+    try {
+      if (!req.merchant) {
+        return res.status(401).json({ error: "Unauthorized" });
+      }
+
+      const refund = await getRefund(req.params.id);
+      if (!refund || refund.merchantId !== req.merchant.id) {
+        return res.status(404).json({ error: "Refund not found" });
+      }
+
+      const canceledRefund = await cancelRefundIntent(refund.id);
+      res.json(canceledRefund);
+    } catch (error) {
+      console.error("Cancel refund error:", error);
+      const message = error instanceof Error ? error.message : "Failed to cancel refund";
+      res.status(400).json({ error: message });
+    }
+  });
+
   // Get refund by ID
-  app.get("/api/refunds/:id", requireApiKey, rateLimit, async (req, res) => {
+  app.get("/api/refunds/:id", requireApiKey, requireScope("payments:read"), rateLimit, async (req, res) => {
     try {
       if (!req.merchant) {
         return res.status(401).json({ error: "Unauthorized" });
@@ -125,7 +151,7 @@ export function registerRefundRoutes(app: Express) {
   });
 
   // Get refunds for a payment
-  app.get("/api/payments/:id/refunds", requireApiKey, rateLimit, async (req, res) => {
+  app.get("/api/payments/:id/refunds", requireApiKey, requireScope("payments:read"), rateLimit, async (req, res) => {
     try {
       if (!req.merchant) {
         return res.status(401).json({ error: "Unauthorized" });
@@ -5,37 +5,52 @@
 
 import type { Express } from "express";
 import { z } from "zod";
-import { requireApiKey } from "../middleware/apiKeyAuth.js";
+import { requireApiKey, requireScope } from "../middleware/apiKeyAuth.js";
 import { rateLimit } from "../middleware/rateLimit.js";
+import { idempotency } from "../middleware/idempotency.js";
 import {
   createSettlementRoute,
   getSettlementRoute,
   updateSettlementRoute,
   estimateSettlementRoute,
+  type SettlementRoute,
 } from "../services/settlementService.js";
+import { SettlementRouteRejectedError } from "../services/settlementPlanner.js";
+import { ARC_CHAIN_ID } from "../config.js";
 
 const createSettlementRouteSchema = z.object({
   paymentId: z.string(),
   sourceChainId: z.coerce.number().int().optional(),
-  destinationChainId: z.coerce.number().int().optional().default(5042002), // Default: Arc Testnet
+  destinationChainId: z.coerce.number().int().optional().default(ARC_CHAIN_ID), // Default: the configured Arc chain
   sourceCurrency: z.string(),
   destinationCurrency: z.string(),
   amount: z.string().refine((val) => !isNaN(parseFloat(val)) && parseFloat(val) > 0, "Amount must be positive"),
 });
 
+const txHashSchema = z.string().refine((val) => /^0x[a-fA-F0-9]{64}$/.test(val), "Invalid transaction hash");
+
 const updateSettlementRouteSchema = z.object({
-  status: z.enum(["pending", "processing", "completed", "failed"]).optional(),
-  cctpBurnTxHash: z.string().optional(),
-  cctpMintTxHash: z.string().optional(),
-  cctpAttestation: z.string().optional(),
+  status: z.enum(["pending", "processing", "completed", "failed"]).optional(), // Same-chain routes only
+  cctpBurnTxHash: txHashSchema.optional(),
+  cctpMintTxHash: txHashSchema.optional(),
+  cctpAttestation: z.string().optional(), // Rejected for CCTP routes; the orchestrator fetches it
 });
 
+/**
+ * Return the stored plan as JSON rather than a string
+ */
+function toRouteResponse(route: SettlementRoute) {
+  return { ...route, plan: route.plan ? JSON.parse(route.plan) : null };
+}
+
 export function registerSettlementRoutes(app: Express) {
   // Create settlement route for a payment
   app.post(
     "/api/settlement/routes",
     requireApiKey,
+    requireScope("payments:write"),
     rateLimit,
+    idempotency,
     async (req, res) => {
       try {
         if (!req.merchant) {
@@ -58,14 +73,17 @@ export function registerSettlementRoutes(app: Express) {
           paymentId: result.data.paymentId,
           merchantId: req.merchant.id,
           sourceChainId: result.data.sourceChainId,
-          destinationChainId: result.data.destinationChainId || 5042002,
+          destinationChainId: result.data.destinationChainId,
           sourceCurrency: result.data.sourceCurrency,
           destinationCurrency: result.data.destinationCurrency,
           amount: result.data.amount,
         });
 
-        res.json(route);
+        res.json(toRouteResponse(route));
       } catch (error) {
+        if (error instanceof SettlementRouteRejectedError) {
+          return res.status(422).json({ error: error.message });
+        }
         console.error("Create settlement route error:", error);
         res.status(500).json({ error: "Failed to create settlement route" });
       }
@@ -76,6 +94,7 @@ export function registerSettlementRoutes(app: Express) {
   app.get(
     "/api/settlement/routes/payment/:paymentId",
     requireApiKey,
+    requireScope("payments:read"),
     rateLimit,
     async (req, res) => {
       try {
@@ -96,7 +115,7 @@ export function registerSettlementRoutes(app: Express) {
           return res.status(404).json({ error: "Settlement route not found" });
         }
 
-        res.json(route);
+        res.json(toRouteResponse(route));
       } catch (error) {
         console.error("Get settlement route error:", error);
         res.status(500).json({ error: "Failed to get settlement route" });
@@ -108,6 +127,7 @@ export function registerSettlementRoutes(app: Express) {
   app.patch(
     "/api/settlement/routes/:id",
     requireApiKey,
+    requireScope("payments:write"),
     rateLimit,
     async (req, res) => {
       try {
@@ -135,13 +155,38 @@ export function registerSettlementRoutes(app: Express) {
           return res.status(404).json({ error: "Settlement route not found" });
         }
 
-        const updatedRoute = await updateSettlementRoute(req.params.id, result.data);
+        // CCTP routes only move through the orchestrator's burn, attestation and mint checks
+        if (route.routeType === "cctp" && (result.data.status || result.data.cctpAttestation)) {
+          return res.status(400).json({
+            error: "CCTP routes are settled by the orchestrator; submit cctpBurnTxHash (or cctpMintTxHash) instead of a status or attestation",
+          });
+        }
+
+        // A mint can only be reported once the message is attested
+        if (route.routeType === "cctp" && result.data.cctpMintTxHash && route.status !== "minting") {
+          return res.status(400).json({ error: `cctpMintTxHash can only be reported while the route is minting (it is ${route.status})` });
+        }
+
+        // Submitting the burn tx hands a CCTP route to the orchestrator; a reported mint tx
+        // is checked on its next run
+        const updates: Parameters<typeof updateSettlementRoute>[1] = { ...result.data };
+        if (route.routeType === "cctp") {
+          if (result.data.cctpBurnTxHash && route.status === "pending") {
+            updates.status = "processing";
+          }
+          if (result.data.cctpBurnTxHash || result.data.cctpMintTxHash) {
+            updates.attempts = 0;
+            updates.nextAttemptAt = null;
+          }
+        }
+
+        const updatedRoute = await updateSettlementRoute(req.params.id, updates);
 
         if (!updatedRoute) {
           return res.status(404).json({ error: "Settlement route not found" });
         }
 
-        res.json(updatedRoute);
+        res.json(toRouteResponse(updatedRoute));
       } catch (error) {
         console.error("Update settlement route error:", error);
         res.status(500).json({ error: "Failed to update settlement route" });
@@ -153,25 +198,32 @@ export function registerSettlementRoutes(app: Express) {
   app.get(
     "/api/settlement/estimate",
     requireApiKey,
+    requireScope("payments:read"),
     rateLimit,
     async (req, res) => {
       try {
-        const { sourceChainId, destinationChainId, currency, amount, isTestnet } = req.query;
+        const { sourceChainId, destinationChainId, currency, sourceCurrency, destinationCurrency, amount } = req.query;
 
-        if (!destinationChainId || !currency || !amount) {
+        // currency is kept for older clients: the same asset on both ends
+        const toCurrency = (destinationCurrency || currency) as string | undefined;
+        const fromCurrency = (sourceCurrency || currency) as string | undefined;
+        if (!destinationChainId || !toCurrency || !fromCurrency || !amount) {
           return res.status(400).json({ error: "Missing required parameters" });
         }
 
         const estimate = estimateSettlementRoute(
           sourceChainId ? parseInt(sourceChainId as string) : undefined,
           parseInt(destinationChainId as string),
-          currency as "USDC" | "EURC",
-          amount as string,
-          isTestnet === "true"
+          fromCurrency,
+          toCurrency,
+          amount as string
         );
 
         res.json(estimate);
       } catch (error) {
+        if (error instanceof SettlementRouteRejectedError) {
+          return res.status(422).json({ error: error.message });
+        }
         console.error("Estimate settlement route error:", error);
         res.status(500).json({ error: "Failed to estimate settlement route" });
       }
@@ -5,24 +5,72 @@
 
 import type { Express } from "express";
 import { z } from "zod";
-import { requireApiKey } from "../middleware/apiKeyAuth.js";
+import { requireApiKey, requireScope } from "../middleware/apiKeyAuth.js";
 import { rateLimit } from "../middleware/rateLimit.js";
+import { idempotency } from "../middleware/idempotency.js";
 import { enforceTestLiveIsolation } from "../middleware/testLiveIsolation.js";
 import {
   createSubscription,
   cancelSubscription,
   getSubscriptions,
+  changeSubscription,
+  previewSubscriptionChange,
+  pauseSubscription,
+  resumeSubscription,
+  SubscriptionChangeError,
+  PRORATION_BEHAVIORS,
 } from "../services/subscriptionService.js";
+import { PriceError } from "../services/productService.js";
+import { BILLING_INTERVALS, MAX_INTERVAL_COUNT, MONTH_BASED_INTERVALS } from "../../shared/billingIntervals.js";
 import { FEATURE_FLAGS } from "../config.js";
 
-const createSubscriptionSchema = z.object({
-  customerEmail: z.string().email("Invalid email"),
-  customerName: z.string().optional(),
-  amount: z.string().refine((val) => !isNaN(parseFloat(val)) && parseFloat(val) > 0, "Amount must be positive"),
-  currency: z.string().optional().default("USDC"),
-  interval: z.enum(["monthly", "yearly"]).default("monthly"),
-  gracePeriodDays: z.coerce.number().int().positive().max(30).optional(),
-  metadata: z.record(z.any()).optional(),
+const createSubscriptionSchema = z
+  .object({
+    customerEmail: z.string().email("Invalid email"),
+    customerName: z.string().optional(),
+    priceId: z.string().optional(), // Recurring catalog price, instead of amount/interval
+    amount: z.string().refine((val) => !isNaN(parseFloat(val)) && parseFloat(val) > 0, "Amount must be positive").optional(),
+    currency: z.string().optional(), // With priceId, picks one of the price's currencies
+    interval: z.enum(BILLING_INTERVALS).optional(),
+    intervalCount: z.coerce.number().int().positive().optional(), // e.g. interval "daily" with 30 bills every 30 days
+    trialDays: z.coerce.number().int().positive().max(365).optional(),
+    billingAnchorDay: z.coerce.number().int().min(1).max(31).optional(), // Monthly, quarterly and yearly only
+    gracePeriodDays: z.coerce.number().int().positive().max(30).optional(),
+    metadata: z.record(z.any()).optional(),
+  })
+  .refine((data) => data.priceId || data.amount, "Either amount or priceId is required")
+  .refine(
+    (data) => !data.intervalCount || data.intervalCount <= MAX_INTERVAL_COUNT[data.interval || "monthly"],
+    "intervalCount is too large for the interval (at most a year per period)"
+  )
+  .refine(
+    (data) => !data.billingAnchorDay || !data.interval || MONTH_BASED_INTERVALS.includes(data.interval),
+    "billingAnchorDay only applies to monthly, quarterly and yearly intervals"
+  );
+
+const changeSubscriptionSchema = z
+  .object({
+    priceId: z.string().optional(), // Recurring catalog price, instead of amount/interval
+    amount: z.string().refine((val) => !isNaN(parseFloat(val)) && parseFloat(val) > 0, "Amount must be positive").optional(),
+    interval: z.enum(BILLING_INTERVALS).optional(),
+    intervalCount: z.coerce.number().int().positive().optional(),
+    prorationBehavior: z.enum(PRORATION_BEHAVIORS).optional(), // Default: next_invoice
+  })
+  .refine(
+    (data) => data.priceId || data.amount || data.interval || data.intervalCount,
+    "Provide a priceId, amount, interval or intervalCount to change"
+  )
+  .refine(
+    (data) => !data.priceId || (!data.amount && !data.interval && !data.intervalCount),
+    "priceId can't be combined with amount, interval or intervalCount"
+  )
+  .refine(
+    (data) => !data.intervalCount || data.intervalCount <= MAX_INTERVAL_COUNT[data.interval || "monthly"],
+    "intervalCount is too large for the interval (at most a year per period)"
+  );
+
+const pauseSubscriptionSchema = z.object({
+  resumeAt: z.coerce.date().optional(), // Resume automatically at this time
 });
 
 export function registerSubscriptionRoutes(app: Express) {
@@ -38,8 +86,10 @@ export function registerSubscriptionRoutes(app: Express) {
   app.post(
     "/api/subscriptions",
     requireApiKey,
+    requireScope("subscriptions:write"),
     enforceTestLiveIsolation,
     rateLimit,
+    idempotency,
     checkFeatureEnabled,
     async (req, res) => {
       try {
@@ -56,15 +106,23 @@ export function registerSubscriptionRoutes(app: Express) {
           merchantId: req.merchant.id,
           customerEmail: result.data.customerEmail,
           customerName: result.data.customerName,
+          priceId: result.data.priceId,
           amount: result.data.amount,
-          currency: result.data.currency || "USDC",
-          interval: result.data.interval || "monthly",
+          currency: result.data.currency,
+          interval: result.data.interval,
+          intervalCount: result.data.intervalCount,
+          trialDays: result.data.trialDays,
+          billingAnchorDay: result.data.billingAnchorDay,
           gracePeriodDays: result.data.gracePeriodDays,
           metadata: result.data.metadata,
+          isTest: req.apiKeyMode !== "live", // Live subscriptions need a live key
         });
 
         res.json(subscription);
       } catch (error) {
+        if (error instanceof PriceError) {
+          return res.status(400).json({ error: error.message });
+        }
         console.error("Create subscription error:", error);
         res.status(500).json({ error: "Failed to create subscription" });
       }
@@ -75,6 +133,7 @@ export function registerSubscriptionRoutes(app: Express) {
   app.get(
     "/api/subscriptions",
     requireApiKey,
+    requireScope("subscriptions:read"),
     enforceTestLiveIsolation,
     rateLimit,
     checkFeatureEnabled,
@@ -84,7 +143,7 @@ export function registerSubscriptionRoutes(app: Express) {
           return res.status(401).json({ error: "Unauthorized" });
         }
 
-        const subscriptions = await getSubscriptions(req.merchant.id);
+        const subscriptions = await getSubscriptions(req.merchant.id, req.apiKeyMode);
         res.json(subscriptions);
       } catch (error) {
         console.error("Get subscriptions error:", error);
@@ -93,12 +152,148 @@ export function registerSubscriptionRoutes(app: Express) {
     }
   );
 
+  // Preview the proration of a plan change without applying it
+  app.post(
+    "/api/subscriptions/:id/change/preview",
+    requireApiKey,
+    requireScope("subscriptions:read"),
+    enforceTestLiveIsolation,
+    rateLimit,
+    checkFeatureEnabled,
+    async (req, res) => {
+      try {
+        if (!req.merchant) {
+          return res.status(401).json({ error: "Unauthorized" });
+        }
+
+        const result = changeSubscriptionSchema.safeParse(req.body);
+        if (!result.success) {
+          return res.status(400).json({ error: result.error.errors[0].message });
+        }
+
+        const preview = await previewSubscriptionChange(req.params.id, req.merchant.id, result.data, req.apiKeyMode);
+        res.json(preview);
+      } catch (error) {
+        if (error instanceof SubscriptionChangeError || error instanceof PriceError) {
+          return res.status(400).json({ error: error.message });
+        }
+        if (error instanceof Error && error.message === "Subscription not found") {
+          return res.status(404).json({ error: error.message });
+        }
+        console.error("Preview subscription change error:", error);
+        res.status(500).json({ error: "Failed to preview subscription change" });
+      }
+    }
+  );
+
+  // Upgrade or downgrade subscription (amount, price or interval) with proration
+  app.post(
+    "/api/subscriptions/:id/change",
+    requireApiKey,
+    requireScope("subscriptions:write"),
+    enforceTestLiveIsolation,
+    rateLimit,
+    idempotency,
+    checkFeatureEnabled,
+    async (req, res) => {
+      try {
+        if (!req.merchant) {
+          return res.status(401).json({ error: "Unauthorized" });
+        }
+
+        const result = changeSubscriptionSchema.safeParse(req.body);
+        if (!result.success) {
+          return res.status(400).json({ error: result.error.errors[0].message });
+        }
+
+        const subscription = await changeSubscription(req.params.id, req.merchant.id, result.data, req.apiKeyMode);
+        res.json(subscription);
+      } catch (error) {
+        if (error instanceof SubscriptionChangeError || error instanceof PriceError) {
+          return res.status(400).json({ error: error.message });
+        }
+        if (error instanceof Error && error.message === "Subscription not found") {
+          return res.status(404).json({ error: error.message });
+        }
+        console.error("Change subscription error:", error);
+        res.status(500).json({ error: "Failed to change subscription" });
+      }
+    }
+  );
+
+  // Pause subscription billing
+  app.post(
+    "/api/subscriptions/:id/pause",
+    requireApiKey,
+    requireScope("subscriptions:write"),
+    enforceTestLiveIsolation,
+    rateLimit,
+    idempotency,
+    checkFeatureEnabled,
+    async (req, res) => {
+      try {
+        if (!req.merchant) {
+          return res.status(401).json({ error: "Unauthorized" });
+        }
+
+        const result = pauseSubscriptionSchema.safeParse(req.body ?? {});
+        if (!result.success) {
+          return res.status(400).json({ error: result.error.errors[0].message });
+        }
+
+        const subscription = await pauseSubscription(req.params.id, req.merchant.id, result.data.resumeAt, req.apiKeyMode);
+        res.json(subscription);
+      } catch (error) {
+        if (error instanceof SubscriptionChangeError) {
+          return res.status(400).json({ error: error.message });
+        }
+        if (error instanceof Error && error.message === "Subscription not found") {
+          return res.status(404).json({ error: error.message });
+        }
+        console.error("Pause subscription error:", error);
+        res.status(500).json({ error: "Failed to pause subscription" });
+      }
+    }
+  );
+
+  // Resume a paused subscription
+  app.post(
+    "/api/subscriptions/:id/resume",
+    requireApiKey,
+    requireScope("subscriptions:write"),
+    enforceTestLiveIsolation,
+    rateLimit,
+    idempotency,
+    checkFeatureEnabled,
+    async (req, res) => {
+      try {
+        if (!req.merchant) {
+          return res.status(401).json({ error: "Unauthorized" });
+        }
+
+        const subscription = await resumeSubscription(req.params.id, req.merchant.id, req.apiKeyMode);
+        res.json(subscription);
+      } catch (error) {
+        if (error instanceof SubscriptionChangeError) {
+          return res.status(400).json({ error: error.message });
+        }
+        if (error instanceof Error && error.message === "Subscription not found") {
+          return res.status(404).json({ error: error.message });
+        }
+        console.error("Resume subscription error:", error);
+        res.status(500).json({ error: "Failed to resume subscription" });
+      }
+    }
+  );
+
   // Cancel subscription
   app.post(
     "/api/subscriptions/:id/cancel",
     requireApiKey,
+    requireScope("subscriptions:write"),
     enforceTestLiveIsolation,
     rateLimit,
+    idempotency,
     checkFeatureEnabled,
     async (req, res) => {
       try {
@@ -106,9 +301,13 @@ export function registerSubscriptionRoutes(app: Express) {
           return res.status(401).json({ error: "Unauthorized" });
         }
 
-        const subscription = await cancelSubscription(req.params.id, req.merchant.id);
+        const subscription = await cancelSubscription(req.params.id, req.merchant.id, req.apiKeyMode);
         res.json(subscription);
       } catch (error) {
+        // Also returned for a subscription in the other mode
+        if (error instanceof Error && error.message === "Subscription not found") {
+          return res.status(404).json({ error: error.message });
+        }
         console.error("Cancel subscription error:", error);
         res.status(500).json({ error: error instanceof Error ? error.message : "Failed to cancel subscription" });
       }
@@ -5,26 +5,53 @@
 
 import type { Express } from "express";
 import { z } from "zod";
-import { requireApiKey } from "../middleware/apiKeyAuth.js";
+import { requireAuthOrApiKey, requireScope } from "../middleware/apiKeyAuth.js";
 import { rateLimit } from "../middleware/rateLimit.js";
+import { idempotency } from "../middleware/idempotency.js";
 import { storage } from "../storage.js";
 import { generateWebhookSecret } from "../storage.js";
-import { getWebhookEvents } from "../services/webhookService.js";
+import {
+  getWebhookEvents,
+  getWebhookEventForMerchant,
+  redeliverWebhookEvent,
+  replayFailedWebhookEvents,
+  rotateWebhookSecret,
+} from "../services/webhookService.js";
+import {
+  LEGACY_WEBHOOK_EVENT_ALIAS_NAMES,
+  isLegacyWebhookEventAlias,
+  type LegacyWebhookEventAlias,
+} from "../../shared/webhookEvents.js";
+
+const legacyEventAliasesSchema = z.array(
+  z.enum(LEGACY_WEBHOOK_EVENT_ALIAS_NAMES as [LegacyWebhookEventAlias, ...LegacyWebhookEventAlias[]])
+);
 
 const createWebhookSubscriptionSchema = z.object({
   url: z.string().url("Invalid URL"),
   events: z.array(z.string()).min(1, "At least one event type is required"),
+  legacyEventAliases: legacyEventAliasesSchema.optional(),
 });
 
 const updateWebhookSubscriptionSchema = z.object({
   url: z.string().url("Invalid URL").optional(),
   events: z.array(z.string()).optional(),
+  legacyEventAliases: legacyEventAliasesSchema.optional(),
   active: z.boolean().optional(),
 });
 
+const replayWebhookEventsSchema = z.object({
+  from: z.coerce.date(),
+  to: z.coerce.date().optional(),
+}).refine((data) => !data.to || data.from <= data.to, "from must be before to");
+
+const rotateWebhookSecretSchema = z.object({
+  gracePeriodHours: z.coerce.number().min(0).max(7 * 24).optional(), // Up to 7 days
+});
+
 export function registerWebhookRoutes(app: Express) {
-  // Create webhook subscription
-  app.post("/api/webhooks/subscriptions", requireApiKey, rateLimit, async (req, res) => {
+  // Create webhook subscription (not idempotent: the response carries the signing secret, which isn't stored for replay)
+  app.post("/api/webhooks/subscriptions", requireAuthOrApiKey, requireScope("webhooks:manage"), rateLimit, async (req, res) => {
     try {
       if (!req.merchant) {
         return res.status(401).json({ error: "Unauthorized" });
@@ -39,6 +66,8 @@ export function registerWebhookRoutes(app: Express) {
         merchantId: req.merchant.id,
         url: result.data.url,
         events: result.data.events,
+        // Integrations that subscribe to legacy event names keep receiving them
+        legacyEventAliases: result.data.legacyEventAliases ?? result.data.events.filter(isLegacyWebhookEventAlias),
         secret: generateWebhookSecret(),
         active: true,
       });
@@ -47,6 +76,7 @@ export function registerWebhookRoutes(app: Express) {
         id: subscription.id,
         url: subscription.url,
         events: subscription.events,
+        legacyEventAliases: subscription.legacyEventAliases,
         active: subscription.active,
         createdAt: subscription.createdAt,
         secret: subscription.secret, // Return secret only on creation
@@ -58,7 +88,7 @@ export function registerWebhookRoutes(app: Express) {
   });
 
   // Get webhook subscriptions
-  app.get("/api/webhooks/subscriptions", requireApiKey, rateLimit, async (req, res) => {
+  app.get("/api/webhooks/subscriptions", requireAuthOrApiKey, requireScope("webhooks:manage"), rateLimit, async (req, res) => {
     try {
       if (!req.merchant) {
         return res.status(401).json({ error: "Unauthorized" });
@@ -71,8 +101,11 @@ export function registerWebhookRoutes(app: Express) {
           id: sub.id,
           url: sub.url,
           events: sub.events,
+          legacyEventAliases: sub.legacyEventAliases,
           active: sub.active,
           createdAt: sub.createdAt,
+          secretRotatedAt: sub.secretRotatedAt,
+          previousSecretExpiresAt: sub.previousSecretExpiresAt,
           // Don't return secret
         }))
       );
@@ -83,7 +116,7 @@ export function registerWebhookRoutes(app: Express) {
   });
 
   // Update webhook subscription
-  app.put("/api/webhooks/subscriptions/:id", requireApiKey, rateLimit, async (req, res) => {
+  app.put("/api/webhooks/subscriptions/:id", requireAuthOrApiKey, requireScope("webhooks:manage"), rateLimit, async (req, res) => {
     try {
       if (!req.merchant) {
         return res.status(401).json({ error: "Unauthorized" });
@@ -105,6 +138,7 @@ export function registerWebhookRoutes(app: Express) {
         id: updated?.id,
         url: updated?.url,
         events: updated?.events,
+        legacyEventAliases: updated?.legacyEventAliases,
         active: updated?.active,
       });
     } catch (error) {
@@ -113,8 +147,43 @@ export function registerWebhookRoutes(app: Express) {
     }
   });
 
+  // Rotate webhook signing secret (old secret stays valid for a grace period); not idempotent, like create
+  app.post("/api/webhooks/subscriptions/:id/rotate-secret", requireAuthOrApiKey, requireScope("webhooks:manage"), rateLimit, async (req, res) => {
+    try {
+      if (!req.merchant) {
+        return res.status(401).json({ error: "Unauthorized" });
+      }
+
+      const result = rotateWebhookSecretSchema.safeParse(req.body || {});
+      if (!result.success) {
+        return res.status(400).json({ error: result.error.errors[0].message });
+      }
+
+      const subscription = await storage.getWebhookSubscription(req.params.id);
+      if (!subscription || subscription.merchantId !== req.merchant.id) {
+        return res.status(404).json({ error: "Webhook subscription not found" });
+      }
+
+      const updated = await rotateWebhookSecret(
+        subscription.id,
+        generateWebhookSecret(),
+        result.data.gracePeriodHours
+      );
+
+      res.json({
+        id: updated?.id,
+        secret: updated?.secret, // Return new secret only on rotation
+        secretRotatedAt: updated?.secretRotatedAt,
+        previousSecretExpiresAt: updated?.previousSecretExpiresAt,
+      });
+    } catch (error) {
+      console.error("Rotate webhook secret error:", error);
+      res.status(500).json({ error: "Failed to rotate webhook secret" });
+    }
+  });
+
   // Delete webhook subscription
-  app.delete("/api/webhooks/subscriptions/:id", requireApiKey, rateLimit, async (req, res) => {
+  app.delete("/api/webhooks/subscriptions/:id", requireAuthOrApiKey, requireScope("webhooks:manage"), rateLimit, async (req, res) => {
     try {
       if (!req.merchant) {
         return res.status(401).json({ error: "Unauthorized" });
@@ -135,7 +204,7 @@ export function registerWebhookRoutes(app: Express) {
   });
 
   // Get webhook events
-  app.get("/api/webhooks/events", requireApiKey, rateLimit, async (req, res) => {
+  app.get("/api/webhooks/events", requireAuthOrApiKey, requireScope("webhooks:manage"), rateLimit, async (req, res) => {
     try {
       if (!req.merchant) {
         return res.status(401).json({ error: "Unauthorized" });
@@ -150,5 +219,61 @@ export function registerWebhookRoutes(app: Express) {
       res.status(500).json({ error: "Failed to get webhook events" });
     }
   });
-}
 
+  // Redeliver a single webhook event (keeps the original payload and event id)
+  app.post("/api/webhooks/events/:id/redeliver", requireAuthOrApiKey, requireScope("webhooks:manage"), rateLimit, idempotency, async (req, res) => {
+    try {
+      if (!req.merchant) {
+        return res.status(401).json({ error: "Unauthorized" });
+      }
+
+      const event = await getWebhookEventForMerchant(req.params.id, req.merchant.id);
+      if (!event) {
+        return res.status(404).json({ error: "Webhook event not found" });
+      }
+
+      const requeued = await redeliverWebhookEvent(event.id);
+      if (!requeued) {
+        return res.status(409).json({ error: "Webhook event is currently being delivered" });
+      }
+
+      res.json(requeued);
+    } catch (error) {
+      console.error("Redeliver webhook event error:", error);
+      res.status(500).json({ error: "Failed to redeliver webhook event" });
+    }
+  });
+
+  // Replay all failed events for a subscription within a time range
+  app.post("/api/webhooks/subscriptions/:id/replay", requireAuthOrApiKey, requireScope("webhooks:manage"), rateLimit, idempotency, async (req, res) => {
+    try {
+      if (!req.merchant) {
+        return res.status(401).json({ error: "Unauthorized" });
+      }
+
+      const result = replayWebhookEventsSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: result.error.errors[0].message });
+      }
+
+      const subscription = await storage.getWebhookSubscription(req.params.id);
+      if (!subscription || subscription.merchantId !== req.merchant.id) {
+        return res.status(404).json({ error: "Webhook subscription not found" });
+      }
+
+      const requeued = await replayFailedWebhookEvents(
+        subscription.id,
+        result.data.from,
+        result.data.to || new Date()
+      );
+
+      res.json({
+        replayed: requeued.length,
+        eventIds: requeued.map((event) => event.id),
+      });
+    } catch (error) {
+      console.error("Replay webhook events error:", error);
+      res.status(500).json({ error: "Failed to replay webhook events" });
+    }
+  });
+}
@@ -0,0 +1,358 @@
+/**
+ * API Key Service
+ * Issues API keys with an embedded public key id and resolves a presented key to its row:
+ * "sk_arc_live_<keyId>_<secret>" selects one indexed row and verifies one scrypt hash.
+ * Keys issued before key ids existed are still accepted while API_KEY_LEGACY_LOOKUP is on.
+ * Also checks per-key expiry and IP allowlists, warns merchants about expiring keys and reports per-key usage.
+ */
+
+import { randomBytes, scrypt, createHash, timingSafeEqual } from "crypto";
+import { BlockList, isIP } from "net";
+import { promisify } from "util";
+import { and, eq, gte, isNull, isNotNull, lte, sql } from "drizzle-orm";
+import { db } from "../db.js";
+import { apiKeys, apiRequestLogs, merchants, notifications, type ApiKey } from "../../shared/schema.js";
+import {
+  API_KEY_CACHE_TTL_SECONDS,
+  API_KEY_LEGACY_LOOKUP,
+  API_KEY_EXPIRY_WARNING_DAYS,
+  API_KEY_EXPIRY_CHECK_INTERVAL,
+} from "../config.js";
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>;
+
+export type ApiKeyType = "publishable" | "secret";
+export type ApiKeyMode = "test" | "live";
+
+export const PUBLISHABLE_KEY_NO_HASH = "PUBLISHABLE_KEY_NO_HASH"; // hashedKey placeholder; publishable keys are not secret
+
+const KEY_PATTERN = /^(pk|sk)_arc_(test|live)_([0-9a-f]{16})_([0-9a-f]{48})$/;
+const MAX_CACHED_KEYS = 10_000;
+
+export interface GeneratedApiKey {
+  key: string; // Full key, shown to the merchant
+  keyId: string;
+  hashedKey: string;
+}
+
+export interface ParsedApiKey {
+  keyType: ApiKeyType;
+  mode: ApiKeyMode;
+  keyId: string;
+}
+
+interface VerifiedKey {
+  hashedKey: string; // Row hash the secret was verified against; a regenerated row no longer matches
+  secretDigest: string;
+  expiresAt: number;
+}
+
+// keyId → last successful verification
+const verifiedKeys = new Map<string, VerifiedKey>();
+
+/**
+ * Hash a secret key for storage (salt:hash)
+ */
+export async function hashApiKey(key: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const hash = await scryptAsync(key, salt, 64);
+  return `${salt}:${hash.toString("hex")}`;
+}
+
+/**
+ * Verify a key against a stored salt:hash; malformed hashes never match
+ */
+export async function verifyApiKeyHash(key: string, stored: string): Promise<boolean> {
+  const [salt, hash] = stored.split(":");
+  if (!salt || !hash) {
+    return false;
+  }
+
+  const hashBuffer = Buffer.from(hash, "hex");
+  const testHash = await scryptAsync(key, salt, 64);
+  return hashBuffer.length === testHash.length && timingSafeEqual(hashBuffer, testHash);
+}
+
+/**
+ * Generate a key of the given type and mode with a fresh key id
+ */
+export async function generateApiKey(keyType: ApiKeyType, mode: ApiKeyMode): Promise<GeneratedApiKey> {
+  const keyId = randomBytes(8).toString("hex");
+  const secret = randomBytes(24).toString("hex");
+  const key = `${keyType === "secret" ? "sk" : "pk"}_arc_${mode}_${keyId}_${secret}`;
+  const hashedKey = keyType === "secret" ? await hashApiKey(key) : PUBLISHABLE_KEY_NO_HASH;
+  return { key, keyId, hashedKey };
+}
+
+/**
+ * Split a key in the current format; legacy keys (no key id) return null
+ */
+export function parseApiKey(key: string): ParsedApiKey | null {
+  const match = KEY_PATTERN.exec(key);
+  if (!match) {
+    return null;
+  }
+
+  return {
+    keyType: match[1] === "sk" ? "secret" : "publishable",
+    mode: match[2] as ApiKeyMode,
+    keyId: match[3],
+  };
+}
+
+function digest(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const aBuffer = Buffer.from(a);
+  const bBuffer = Buffer.from(b);
+  return aBuffer.length === bBuffer.length && timingSafeEqual(aBuffer, bBuffer);
+}
+
+/**
+ * Check a secret against its row, skipping scrypt when the same secret was verified against the same hash recently
+ */
+async function verifySecretKey(key: string, record: ApiKey): Promise<boolean> {
+  const cacheKey = record.keyId ?? record.id;
+  const secretDigest = digest(key);
+  const cached = verifiedKeys.get(cacheKey);
+  if (cached && cached.expiresAt > Date.now() && cached.hashedKey === record.hashedKey) {
+    return safeEqual(cached.secretDigest, secretDigest);
+  }
+
+  const valid = await verifyApiKeyHash(key, record.hashedKey);
+  if (valid) {
+    if (verifiedKeys.size >= MAX_CACHED_KEYS) {
+      // Map iteration is insertion order: drop the oldest entry
+      const oldest = verifiedKeys.keys().next().value;
+      if (oldest !== undefined) verifiedKeys.delete(oldest);
+    }
+    verifiedKeys.set(cacheKey, {
+      hashedKey: record.hashedKey,
+      secretDigest,
+      expiresAt: Date.now() + API_KEY_CACHE_TTL_SECONDS * 1000,
+    });
+  }
+  return valid;
+}
+
+/**
+ * Forget a key's cached verification; call when it is revoked, deleted or regenerated
+ */
+export function invalidateApiKeyCache(record: Pick<ApiKey, "id" | "keyId">): void {
+  verifiedKeys.delete(record.keyId ?? record.id);
+}
+
+/**
+ * Keys issued before key ids: publishable (and MVP-stored secret) keys match key_prefix exactly;
+ * otherwise fall back to checking every legacy secret key's hash
+ */
+async function findLegacyApiKey(key: string): Promise<ApiKey | undefined> {
+  const [exact] = await db
+    .select()
+    .from(apiKeys)
+    .where(and(eq(apiKeys.keyPrefix, key), isNull(apiKeys.keyId), isNull(apiKeys.revokedAt)))
+    .limit(1);
+  if (exact) {
+    return exact;
+  }
+
+  if (!key.startsWith("sk_arc_")) {
+    return undefined;
+  }
+
+  const legacySecretKeys = await db
+    .select()
+    .from(apiKeys)
+    .where(and(eq(apiKeys.keyType, "secret"), isNull(apiKeys.keyId), isNull(apiKeys.revokedAt)));
+
+  for (const record of legacySecretKeys) {
+    if (await verifySecretKey(key, record)) {
+      console.warn(`API key ${record.id} has no embedded key id; regenerate it before API_KEY_LEGACY_LOOKUP is turned off`);
+      return record;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Resolve a presented key to its active (non-revoked) row
+ */
+export async function findApiKey(key: string): Promise<ApiKey | undefined> {
+  const parsed = parseApiKey(key);
+  if (!parsed) {
+    return API_KEY_LEGACY_LOOKUP ? findLegacyApiKey(key) : undefined;
+  }
+
+  const [record] = await db
+    .select()
+    .from(apiKeys)
+    .where(and(eq(apiKeys.keyId, parsed.keyId), isNull(apiKeys.revokedAt)))
+    .limit(1);
+
+  if (!record || record.keyType !== parsed.keyType || record.mode !== parsed.mode) {
+    return undefined;
+  }
+
+  if (record.keyType === "publishable") {
+    return safeEqual(record.keyPrefix, key) ? record : undefined;
+  }
+  return (await verifySecretKey(key, record)) ? record : undefined;
+}
+
+export interface ApiKeyAccessError {
+  status: number;
+  code: "api_key_expired" | "api_key_ip_not_allowed";
+  message: string;
+}
+
+/**
+ * Split "10.0.0.0/8" (or a bare address, as a single-host range) into address, prefix and family
+ */
+function parseCidr(cidr: string): { address: string; prefix: number; family: "ipv4" | "ipv6" } | null {
+  const [address, prefixPart] = cidr.trim().split("/");
+  const version = isIP(address);
+  if (!version) {
+    return null;
+  }
+
+  const maxPrefix = version === 4 ? 32 : 128;
+  const prefix = prefixPart === undefined ? maxPrefix : Number(prefixPart);
+  if (!Number.isInteger(prefix) || prefix < 0 || prefix > maxPrefix) {
+    return null;
+  }
+  return { address, prefix, family: version === 4 ? "ipv4" : "ipv6" };
+}
+
+export function isValidCidr(cidr: string): boolean {
+  return parseCidr(cidr) !== null;
+}
+
+/**
+ * Is the client address inside one of the allowlisted ranges? IPv4-mapped IPv6 addresses match IPv4 ranges.
+ */
+export function isIpAllowed(allowedIps: readonly string[], ip: string | undefined): boolean {
+  if (!ip) {
+    return false;
+  }
+
+  const blockList = new BlockList();
+  for (const cidr of allowedIps) {
+    const range = parseCidr(cidr);
+    if (range) blockList.addSubnet(range.address, range.prefix, range.family);
+  }
+
+  const address = ip.startsWith("::ffff:") && isIP(ip.slice(7)) === 4 ? ip.slice(7) : ip;
+  const family = isIP(address) === 4 ? "ipv4" : "ipv6";
+  return blockList.check(address, family);
+}
+
+/**
+ * Expiry and IP allowlist checks for an authenticated key; null when the request may proceed
+ */
+export function checkApiKeyAccess(record: ApiKey, ip: string | undefined): ApiKeyAccessError | null {
+  if (record.expiresAt && record.expiresAt <= new Date()) {
+    return {
+      status: 401,
+      code: "api_key_expired",
+      message: `This API key expired at ${record.expiresAt.toISOString()}; use its replacement or create a new key`,
+    };
+  }
+
+  if (record.allowedIps && record.allowedIps.length > 0 && !isIpAllowed(record.allowedIps, ip)) {
+    return {
+      status: 403,
+      code: "api_key_ip_not_allowed",
+      message: `Requests from ${ip ?? "an unknown address"} are not allowed for this API key`,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Request counts, error rate and latency for one key over the last `days` days, from the API request logs
+ */
+export async function getApiKeyUsage(apiKeyId: string, days: number) {
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+  const day = sql<string>`to_char(date_trunc('day', ${apiRequestLogs.createdAt}), 'YYYY-MM-DD')`;
+
+  const rows = await db
+    .select({
+      date: day,
+      requests: sql<number>`count(*)::int`,
+      errors: sql<number>`count(*) filter (where ${apiRequestLogs.statusCode} >= 400)::int`,
+      avgLatency: sql<number>`coalesce(avg(${apiRequestLogs.latency}), 0)::int`,
+    })
+    .from(apiRequestLogs)
+    .where(and(eq(apiRequestLogs.apiKeyId, apiKeyId), gte(apiRequestLogs.createdAt, since)))
+    .groupBy(day)
+    .orderBy(day);
+
+  const requests = rows.reduce((total, row) => total + row.requests, 0);
+  const errors = rows.reduce((total, row) => total + row.errors, 0);
+
+  return {
+    apiKeyId,
+    since: since.toISOString(),
+    requests,
+    errors,
+    errorRate: requests > 0 ? errors / requests : 0,
+    daily: rows,
+  };
+}
+
+/**
+ * Send a warning notification for keys expiring within API_KEY_EXPIRY_WARNING_DAYS (once per key)
+ */
+export async function notifyExpiringApiKeys(): Promise<number> {
+  const warnBefore = new Date(Date.now() + API_KEY_EXPIRY_WARNING_DAYS * 24 * 60 * 60 * 1000);
+
+  const expiringKeys = await db
+    .select()
+    .from(apiKeys)
+    .where(
+      and(
+        isNotNull(apiKeys.expiresAt),
+        lte(apiKeys.expiresAt, warnBefore),
+        isNull(apiKeys.expiryNotifiedAt),
+        isNull(apiKeys.revokedAt)
+      )
+    );
+
+  let notified = 0;
+  for (const key of expiringKeys) {
+    const [merchant] = await db.select().from(merchants).where(eq(merchants.walletAddress, key.walletAddress));
+    const expired = key.expiresAt! <= new Date();
+    const label = `${key.mode} ${key.keyType} key${key.name ? ` "${key.name}"` : ""}`;
+
+    if (merchant) {
+      await db.insert(notifications).values({
+        merchantId: merchant.id,
+        title: expired ? "API key expired" : "API key expiring soon",
+        message: expired
+          ? `Your ${label} expired on ${key.expiresAt!.toISOString()}. Requests using it are rejected.`
+          : `Your ${label} expires on ${key.expiresAt!.toISOString()}. Rotate it from Developers → API Keys before then.`,
+        type: expired ? "error" : "warning",
+        read: false,
+      });
+      notified++;
+    }
+
+    await db.update(apiKeys).set({ expiryNotifiedAt: new Date() }).where(eq(apiKeys.id, key.id));
+  }
+
+  return notified;
+}
+
+/**
+ * Start the expiry warning job
+ */
+export function startApiKeyExpiryJob(): void {
+  setInterval(() => {
+    notifyExpiringApiKeys().catch(console.error);
+  }, API_KEY_EXPIRY_CHECK_INTERVAL);
+
+  console.log(`API key expiry job started (warns ${API_KEY_EXPIRY_WARNING_DAYS} days before expiry)`);
+}
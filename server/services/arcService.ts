@@ -3,9 +3,7 @@
  * Handles ARC chain interactions: RPC calls, transaction verification, explorer links
  */
 
-const ARC_CHAIN_ID = parseInt(process.env.ARC_CHAIN_ID || "5042002", 10); // ARC Testnet default
-const ARC_RPC_URL = process.env.ARC_RPC_URL || "https://rpc.testnet.arc.network";
-const ARC_EXPLORER_BASE_URL = process.env.ARC_EXPLORER_URL || "https://testnet.arcscan.app";
+import { ARC_CHAIN_ID, ARC_RPC_URL, ARC_EXPLORER_URL as ARC_EXPLORER_BASE_URL } from "../config.js";
 
 // Helper to make RPC calls with SSL error handling
 async function rpcCall(method: string, params: any[]): Promise<any> {
@@ -75,6 +73,7 @@ export interface TransactionStatus {
   failed: boolean;
   blockNumber?: number;
   blockHash?: string;
+  confirmations?: number; // Blocks on top of (and including) the transaction's block
   error?: string;
 }
 
@@ -114,7 +113,7 @@ export async function verifyTransaction(txHash: string): Promise<TransactionStat
     }
 
     const receipt = data.result;
-    const status = receipt.status === "0x1" || receipt.status === "0x";
+    const status = receipt.status === "0x1"; // Anything else (0x0, or no status) is not a success
 
     return {
       confirmed: status,
@@ -133,6 +132,209 @@ export async function verifyTransaction(txHash: string): Promise<TransactionStat
   }
 }
 
+// keccak256("Transfer(address,address,uint256)")
+export const ERC20_TRANSFER_TOPIC = "0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef";
+
+export interface TokenTransfer {
+  token: string;
+  from: string;
+  to: string;
+  value: bigint;
+  logIndex: number;
+}
+
+export type TransferOutcome =
+  | "matched"
+  | "overpaid"
+  | "underpaid"
+  | "wrong_recipient"
+  | "wrong_sender"
+  | "wrong_token"
+  | "no_transfer"
+  | "reverted"
+  | "pending"
+  | "error";
+
+export interface ExpectedTransfer {
+  tokenAddress: string;
+  recipient: string;
+  amount: string; // Human-readable amount, e.g. "10.50"
+  decimals: number;
+  sender?: string; // When set, only transfers from this address count
+}
+
+export interface TransferVerification extends TransactionStatus {
+  outcome: TransferOutcome;
+  expectedValue: string; // Smallest unit
+  receivedValue: string; // Smallest unit, sum of matching transfers
+  payerWallet?: string;
+  transfers: TokenTransfer[];
+}
+
+/**
+ * Decode ERC-20 Transfer events from a transaction receipt's logs
+ */
+export function decodeTransferLogs(logs: any[]): TokenTransfer[] {
+  const transfers: TokenTransfer[] = [];
+
+  for (const log of logs || []) {
+    // Transfer(address indexed from, address indexed to, uint256 value)
+    if (!log.topics || log.topics.length !== 3) continue;
+    if (log.topics[0]?.toLowerCase() !== ERC20_TRANSFER_TOPIC) continue;
+
+    transfers.push({
+      token: log.address.toLowerCase(),
+      from: `0x${log.topics[1].slice(-40)}`.toLowerCase(),
+      to: `0x${log.topics[2].slice(-40)}`.toLowerCase(),
+      value: BigInt(log.data && log.data !== "0x" ? log.data : "0x0"),
+      logIndex: parseInt(log.logIndex, 16),
+    });
+  }
+
+  return transfers;
+}
+
+/**
+ * Convert a decimal amount string to the token's smallest unit without float rounding
+ * Throws if the amount isn't a plain decimal or is more precise than the token (nothing is truncated).
+ */
+export function toTokenUnits(amount: string, decimals: number): bigint {
+  const trimmed = amount.trim();
+  if (!/^\d*(\.\d*)?$/.test(trimmed) || !/\d/.test(trimmed)) {
+    throw new Error(`Invalid token amount: ${amount}`);
+  }
+
+  const [whole, fraction = ""] = trimmed.split(".");
+  if (/[1-9]/.test(fraction.slice(decimals))) {
+    throw new Error(`Amount ${amount} has more than ${decimals} decimal places`);
+  }
+
+  const paddedFraction = fraction.padEnd(decimals, "0").slice(0, decimals);
+  return BigInt((whole || "0") + paddedFraction);
+}
+
+/**
+ * Convert a token's smallest unit back to a decimal amount string
+ */
+export function fromTokenUnits(value: bigint, decimals: number): string {
+  const digits = value.toString().padStart(decimals + 1, "0");
+  const whole = digits.slice(0, digits.length - decimals);
+  const fraction = digits.slice(digits.length - decimals).replace(/0+$/, "");
+  return fraction ? `${whole}.${fraction}` : whole;
+}
+
+/**
+ * Verify that a transaction transferred the expected token amount to the expected recipient.
+ * Unlike verifyTransaction, a successful receipt alone is not enough: the receipt's
+ * ERC-20 Transfer logs must pay `recipient` in `tokenAddress` (from `sender`, if given).
+ */
+export async function verifyTokenTransfer(
+  txHash: string,
+  expected: ExpectedTransfer
+): Promise<TransferVerification> {
+  const base = {
+    expectedValue: "0",
+    receivedValue: "0",
+    transfers: [] as TokenTransfer[],
+  };
+
+  let expectedValue: bigint;
+  try {
+    expectedValue = toTokenUnits(expected.amount, expected.decimals);
+    base.expectedValue = expectedValue.toString();
+  } catch (error) {
+    // No transfer can match an amount the token can't represent
+    return { ...base, outcome: "error", confirmed: false, failed: true, error: (error as Error).message };
+  }
+
+  try {
+    const data = await rpcCall("eth_getTransactionReceipt", [txHash]);
+
+    if (data.error) {
+      return {
+        ...base,
+        outcome: "error",
+        confirmed: false,
+        failed: true,
+        error: data.error.message || "Transaction not found",
+      };
+    }
+
+    if (!data.result) {
+      // Transaction not yet mined
+      return { ...base, outcome: "pending", confirmed: false, failed: false };
+    }
+
+    const receipt = data.result;
+    const blockNumber = parseInt(receipt.blockNumber, 16);
+    const blockHash = receipt.blockHash;
+    const status = receipt.status === "0x1"; // Anything else (0x0, or no status) is not a success
+
+    if (!status) {
+      return {
+        ...base,
+        outcome: "reverted",
+        confirmed: false,
+        failed: true,
+        blockNumber,
+        blockHash,
+        error: "Transaction reverted",
+      };
+    }
+
+    const confirmations = Math.max((await getLatestBlockNumber()) - blockNumber + 1, 1);
+    const token = expected.tokenAddress.toLowerCase();
+    const recipient = expected.recipient.toLowerCase();
+    const sender = expected.sender?.toLowerCase();
+    const transfers = decodeTransferLogs(receipt.logs);
+    const toRecipient = transfers.filter((t) => t.token === token && t.to === recipient);
+    const matching = sender ? toRecipient.filter((t) => t.from === sender) : toRecipient;
+    const receivedValue = matching.reduce((sum, t) => sum + t.value, BigInt(0));
+
+    let outcome: TransferOutcome;
+    if (matching.length > 0) {
+      outcome = receivedValue === expectedValue
+        ? "matched"
+        : receivedValue > expectedValue ? "overpaid" : "underpaid";
+    } else if (toRecipient.length > 0) {
+      outcome = "wrong_sender";
+    } else if (transfers.some((t) => t.token === token)) {
+      outcome = "wrong_recipient";
+    } else if (transfers.some((t) => t.to === recipient)) {
+      outcome = "wrong_token";
+    } else {
+      outcome = "no_transfer";
+    }
+
+    // Overpayments still settle the payment; everything else is a mismatch
+    const settled = outcome === "matched" || outcome === "overpaid";
+
+    return {
+      outcome,
+      confirmed: settled,
+      failed: !settled,
+      blockNumber,
+      blockHash,
+      confirmations,
+      expectedValue: expectedValue.toString(),
+      receivedValue: receivedValue.toString(),
+      payerWallet: matching[0]?.from,
+      transfers,
+      error: settled ? undefined : `Transfer verification failed: ${outcome}`,
+    };
+  } catch (error) {
+    console.error("Error verifying token transfer:", error);
+    // RPC/network errors are transient - leave the payment pending so it is retried
+    return {
+      ...base,
+      outcome: "error",
+      confirmed: false,
+      failed: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
+
 /**
  * Get transaction details (nonce, gas, etc.)
  */
@@ -163,6 +365,96 @@ export async function getBlockTimestamp(blockNumber: number): Promise<Date | nul
   }
 }
 
+export interface BlockHeader {
+  number: number;
+  hash: string;
+  parentHash: string;
+  timestamp: number; // Unix seconds
+}
+
+export interface IndexedTransfer extends TokenTransfer {
+  txHash: string;
+  blockNumber: number;
+  blockHash: string;
+}
+
+/**
+ * Get the latest block number
+ * Unlike the verification helpers, chain reads used by the indexer throw on RPC errors
+ * so a failed read never looks like an empty block range.
+ */
+export async function getLatestBlockNumber(): Promise<number> {
+  const data = await rpcCall("eth_blockNumber", []);
+  if (data.error || !data.result) {
+    throw new Error(data.error?.message || "Failed to get block number");
+  }
+  return parseInt(data.result, 16);
+}
+
+/**
+ * Get a block header, or null if the block doesn't exist (yet)
+ */
+export async function getBlockHeader(blockNumber: number): Promise<BlockHeader | null> {
+  const data = await rpcCall("eth_getBlockByNumber", [`0x${blockNumber.toString(16)}`, false]);
+  if (data.error) {
+    throw new Error(data.error.message || `Failed to get block ${blockNumber}`);
+  }
+  if (!data.result) {
+    return null;
+  }
+  return {
+    number: parseInt(data.result.number, 16),
+    hash: data.result.hash.toLowerCase(),
+    parentHash: data.result.parentHash.toLowerCase(),
+    timestamp: parseInt(data.result.timestamp, 16),
+  };
+}
+
+/**
+ * Get ERC-20 Transfer logs of `tokens` to any of `recipients` in a block range (inclusive)
+ */
+export async function getTransferLogs(
+  fromBlock: number,
+  toBlock: number,
+  tokens: string[],
+  recipients: string[]
+): Promise<IndexedTransfer[]> {
+  if (recipients.length === 0) {
+    return [];
+  }
+
+  const data = await rpcCall("eth_getLogs", [{
+    fromBlock: `0x${fromBlock.toString(16)}`,
+    toBlock: `0x${toBlock.toString(16)}`,
+    address: tokens,
+    // Transfer(address indexed from, address indexed to, uint256 value)
+    topics: [
+      ERC20_TRANSFER_TOPIC,
+      null,
+      recipients.map((address) => `0x${address.toLowerCase().replace(/^0x/, "").padStart(64, "0")}`),
+    ],
+  }]);
+  if (data.error || !Array.isArray(data.result)) {
+    throw new Error(data.error?.message || "Failed to get logs");
+  }
+
+  // Logs from a block that was reorged out while we were reading are flagged as removed
+  const transfers: IndexedTransfer[] = [];
+  for (const log of data.result) {
+    if (log.removed) continue;
+    const [transfer] = decodeTransferLogs([log]);
+    if (!transfer) continue;
+    transfers.push({
+      ...transfer,
+      txHash: log.transactionHash.toLowerCase(),
+      blockNumber: parseInt(log.blockNumber, 16),
+      blockHash: log.blockHash.toLowerCase(),
+    });
+  }
+
+  return transfers;
+}
+
 /**
  * Generate explorer link for a transaction
  */
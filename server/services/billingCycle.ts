@@ -0,0 +1,83 @@
+/**
+ * Billing Cycle
+ * Subscription period boundaries computed from a fixed anchor, so billing dates don't drift.
+ * Month-based intervals keep the anchor day of month, clamped in shorter months
+ * (an anchor on the 31st bills on Feb 28/29, then Mar 31 again).
+ */
+
+import type { BillingInterval } from "../../shared/billingIntervals.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const MONTHS_PER_INTERVAL: Partial<Record<BillingInterval, number>> = {
+  monthly: 1,
+  quarterly: 3,
+  yearly: 12,
+};
+
+export interface BillingSchedule {
+  interval: BillingInterval;
+  intervalCount: number;
+  billingAnchorAt: Date; // Start of the first billed period
+  billingAnchorDay: number | null; // Day of month month-based periods start on; null = the anchor's own day
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+/**
+ * Same time of day, `months` later, on `day` (clamped to the length of that month)
+ */
+function addMonthsClamped(date: Date, months: number, day: number): Date {
+  const totalMonths = date.getUTCFullYear() * 12 + date.getUTCMonth() + months;
+  const year = Math.floor(totalMonths / 12);
+  const month = totalMonths % 12;
+  const result = new Date(date);
+  result.setUTCFullYear(year, month, Math.min(day, daysInMonth(year, month)));
+  return result;
+}
+
+/**
+ * Start of period `n` (0 = the anchor itself), always counted from the anchor
+ */
+export function getPeriodBoundary(schedule: BillingSchedule, n: number): Date {
+  const anchor = schedule.billingAnchorAt;
+  const months = MONTHS_PER_INTERVAL[schedule.interval];
+
+  if (months) {
+    const day = schedule.billingAnchorDay ?? anchor.getUTCDate();
+    return addMonthsClamped(anchor, n * months * schedule.intervalCount, day);
+  }
+
+  const days = (schedule.interval === "weekly" ? 7 : 1) * schedule.intervalCount;
+  return new Date(anchor.getTime() + n * days * DAY_MS);
+}
+
+/**
+ * The period containing `at`; times before the anchor fall in the first period
+ */
+export function getBillingPeriod(schedule: BillingSchedule, at: Date): { start: Date; end: Date; index: number } {
+  let index = 0;
+  // Skip ahead roughly, then settle on the exact period
+  const approxPeriodMs = getPeriodBoundary(schedule, 1).getTime() - schedule.billingAnchorAt.getTime();
+  if (approxPeriodMs > 0 && at > schedule.billingAnchorAt) {
+    index = Math.max(0, Math.floor((at.getTime() - schedule.billingAnchorAt.getTime()) / approxPeriodMs) - 1);
+  }
+  while (getPeriodBoundary(schedule, index + 1) <= at) {
+    index++;
+  }
+  while (index > 0 && getPeriodBoundary(schedule, index) > at) {
+    index--;
+  }
+
+  return { start: getPeriodBoundary(schedule, index), end: getPeriodBoundary(schedule, index + 1), index };
+}
+
+/**
+ * First date on or after `from` that falls on the anchor day of month (clamped), same time of day
+ */
+export function getNextAnchorDate(from: Date, anchorDay: number): Date {
+  const candidate = addMonthsClamped(from, 0, anchorDay);
+  return candidate >= from ? candidate : addMonthsClamped(from, 1, anchorDay);
+}
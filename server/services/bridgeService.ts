@@ -12,43 +12,8 @@
  * Standard Transfer: Waits for hard finality (~15-30 minutes)
  */
 
-import { createPublicClient, http, parseUnits, formatUnits } from 'viem';
-import { base, baseSepolia, mainnet, sepolia } from 'viem/chains';
 import { estimateCCTPBridge, supportsCCTP as cctpSupports } from './cctpService.js';
-
-// Circle CCTP contract addresses (testnet)
-const CCTP_TESTNET_CONFIG = {
-  // Base Sepolia (testnet)
-  baseSepolia: {
-    tokenMessenger: '0x9f3B8679C73C2Fef8b59B4f3444d4e156fb70AA5' as `0x${string}`,
-    usdc: '0x036CbD53842c5426634e7929541eC2318f3dCF7e' as `0x${string}`,
-    eurc: null as `0x${string}` | null, // EURC may not be available on testnet
-  },
-  // Sepolia (testnet)
-  sepolia: {
-    tokenMessenger: '0x9f3B8679C73C2Fef8b59B4f3444d4e156fb70AA5' as `0x${string}`,
-    usdc: '0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238' as `0x${string}`,
-    eurc: null as `0x${string}` | null,
-  },
-};
-
-// Circle CCTP contract addresses (mainnet)
-const CCTP_MAINNET_CONFIG = {
-  base: {
-    tokenMessenger: '0x1682Ae6375C4E4A97e4B583BC4cB31Cc3a3b2c6e' as `0x${string}`,
-    usdc: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913' as `0x${string}`,
-    eurc: '0x1aBaEA1f7C830bD89Acc67eC4f5164b1b3905C3c' as `0x${string}`,
-  },
-  mainnet: {
-    tokenMessenger: '0xbd3fa81B58Ba92a82136038B25aDec7066af3155' as `0x${string}`,
-    usdc: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48' as `0x${string}`,
-    eurc: '0x1aBaEA1f7C830bD89Acc67eC4f5164b1b3905C3c' as `0x${string}`,
-  },
-};
-
-// ARC chain ID (testnet and mainnet)
-const ARC_TESTNET_CHAIN_ID = 5042002;
-const ARC_MAINNET_CHAIN_ID = 5042001; // Update with actual mainnet chain ID
+import { chainRegistry } from './chainRegistry.js';
 
 export interface BridgeRequest {
   amount: string;
@@ -66,34 +31,18 @@ export interface BridgeEstimate {
   steps: string[];
 }
 
-/**
- * Get CCTP configuration for a chain
- */
-function getCCTPConfig(chainId: number, isTestnet: boolean) {
-  if (isTestnet) {
-    if (chainId === baseSepolia.id) return CCTP_TESTNET_CONFIG.baseSepolia;
-    if (chainId === sepolia.id) return CCTP_TESTNET_CONFIG.sepolia;
-  } else {
-    if (chainId === base.id) return CCTP_MAINNET_CONFIG.base;
-    if (chainId === mainnet.id) return CCTP_MAINNET_CONFIG.mainnet;
-  }
-  return null;
-}
-
 /**
  * Estimate bridge time and fees
  */
 export async function estimateBridge(request: BridgeRequest): Promise<BridgeEstimate> {
   const isTestnet = request.isTestnet ?? true;
-  const arcChainId = isTestnet ? ARC_TESTNET_CHAIN_ID : ARC_MAINNET_CHAIN_ID;
+  const arcChainId = chainRegistry.getSettlementChain(isTestnet).id;
   const fromIsArc = request.fromChainId === arcChainId;
   const toIsArc = request.toChainId === arcChainId;
 
   // Determine which chain has CCTP support (for burn/mint operations)
   const cctpChainId = fromIsArc ? request.toChainId : request.fromChainId;
-  const config = getCCTPConfig(cctpChainId, isTestnet);
-
-  if (!config) {
+  if (!cctpSupports(cctpChainId, request.currency, isTestnet)) {
     throw new Error(`CCTP not supported for this bridge route`);
   }
 
@@ -110,8 +59,8 @@ export async function estimateBridge(request: BridgeRequest): Promise<BridgeEsti
   const estimatedFees = cctpFees;
 
   // Determine bridge direction for steps description
-  const fromChainName = fromIsArc ? 'Arc Network' : `chain ${request.fromChainId}`;
-  const toChainName = toIsArc ? 'Arc Network' : `chain ${request.toChainId}`;
+  const fromChainName = chainRegistry.getChain(request.fromChainId)?.name ?? `chain ${request.fromChainId}`;
+  const toChainName = chainRegistry.getChain(request.toChainId)?.name ?? `chain ${request.toChainId}`;
 
   // Determine if using Fast Transfer or Standard Transfer
   const useFastTransfer = estimatedTime < 120; // Less than 2 minutes = Fast Transfer
@@ -150,7 +99,7 @@ export function isValidCCTPRoute(
   currency: 'USDC' | 'EURC',
   isTestnet: boolean
 ): boolean {
-  const arcChainId = isTestnet ? ARC_TESTNET_CHAIN_ID : ARC_MAINNET_CHAIN_ID;
+  const arcChainId = chainRegistry.getSettlementChain(isTestnet).id;
   const fromIsArc = fromChainId === arcChainId;
   const toIsArc = toChainId === arcChainId;
 
@@ -171,88 +120,44 @@ export function isValidCCTPRoute(
 
 /**
  * Get supported payment assets for a given settlement currency
+ * From the chain registry: the settlement currency on Arc, the same currency on chains CCTP
+ * can bridge it from, and native currencies that are swapped into it before bridging.
  */
 export function getSupportedPaymentAssets(
   settlementCurrency: 'USDC' | 'EURC',
   isTestnet: boolean
 ): Array<{ asset: string; chainId: number; chainName: string; requiresBridge: boolean; requiresSwap: boolean }> {
+  const settlementChain = chainRegistry.getSettlementChain(isTestnet);
+  const settlementAsset = chainRegistry.getToken(settlementChain.id, settlementCurrency);
   const assets = [];
 
   // Always support native settlement currency on Arc
-  assets.push({
-    asset: `${settlementCurrency}_ARC`,
-    chainId: isTestnet ? ARC_TESTNET_CHAIN_ID : ARC_MAINNET_CHAIN_ID,
-    chainName: 'Arc Network',
-    requiresBridge: false,
-    requiresSwap: false,
-  });
-
-  // Support USDC on EVM testnets (Base Sepolia, Sepolia) via CCTP
-  if (settlementCurrency === 'USDC') {
-    if (isTestnet) {
-      assets.push({
-        asset: 'USDC_BASE_SEPOLIA',
-        chainId: baseSepolia.id,
-        chainName: 'Base Sepolia',
-        requiresBridge: true,
-        requiresSwap: false,
-      });
-      assets.push({
-        asset: 'USDC_SEPOLIA',
-        chainId: sepolia.id,
-        chainName: 'Sepolia',
-        requiresBridge: true,
-        requiresSwap: false,
-      });
-    } else {
-      assets.push({
-        asset: 'USDC_BASE',
-        chainId: base.id,
-        chainName: 'Base',
-        requiresBridge: true,
-        requiresSwap: false,
-      });
-      assets.push({
-        asset: 'USDC_MAINNET',
-        chainId: mainnet.id,
-        chainName: 'Ethereum',
-        requiresBridge: true,
-        requiresSwap: false,
-      });
+  if (settlementAsset) {
+    assets.push({
+      asset: settlementAsset.id,
+      chainId: settlementChain.id,
+      chainName: settlementChain.name,
+      requiresBridge: false,
+      requiresSwap: false,
+    });
+  }
+
+  const sourceChains = chainRegistry.chains.filter((chain) => chain.testnet === isTestnet && chain.id !== settlementChain.id);
+
+  // The settlement currency on CCTP chains: bridged as-is
+  for (const chain of sourceChains) {
+    const token = chainRegistry.getToken(chain.id, settlementCurrency);
+    if (token?.cctp && cctpSupports(chain.id, settlementCurrency, isTestnet)) {
+      assets.push({ asset: token.id, chainId: chain.id, chainName: chain.name, requiresBridge: true, requiresSwap: false });
     }
   }
 
-  // Support ETH on EVM testnets (requires swap to USDC/EURC, then bridge)
-  if (isTestnet) {
-    assets.push({
-      asset: 'ETH_BASE_SEPOLIA',
-      chainId: baseSepolia.id,
-      chainName: 'Base Sepolia',
-      requiresBridge: true,
-      requiresSwap: true,
-    });
-    assets.push({
-      asset: 'ETH_SEPOLIA',
-      chainId: sepolia.id,
-      chainName: 'Sepolia',
-      requiresBridge: true,
-      requiresSwap: true,
-    });
-  } else {
-    assets.push({
-      asset: 'ETH_BASE',
-      chainId: base.id,
-      chainName: 'Base',
-      requiresBridge: true,
-      requiresSwap: true,
-    });
-    assets.push({
-      asset: 'ETH_MAINNET',
-      chainId: mainnet.id,
-      chainName: 'Ethereum',
-      requiresBridge: true,
-      requiresSwap: true,
-    });
+  // Native currencies (e.g. ETH): swapped to a stablecoin, then bridged
+  for (const chain of sourceChains) {
+    const native = chainRegistry.getChainAssets(chain.id).find((asset) => asset.address === null);
+    if (native && chain.cctp) {
+      assets.push({ asset: native.id, chainId: chain.id, chainName: chain.name, requiresBridge: true, requiresSwap: true });
+    }
   }
 
   return assets;
@@ -266,22 +171,26 @@ export function generateConversionPath(
   settlementCurrency: 'USDC' | 'EURC',
   isTestnet: boolean
 ): string {
-  const [asset, chain] = paymentAsset.split('_');
-  const chainName = chain === 'ARC' ? 'Arc Network' : chain.replace('_', ' ');
+  const resolved = chainRegistry.getAsset(paymentAsset);
+  const settlementChain = chainRegistry.getSettlementChain(isTestnet);
+  if (!resolved) {
+    return `${paymentAsset} → ${settlementCurrency} on ${settlementChain.name}`;
+  }
 
-  if (asset === settlementCurrency && chain === 'ARC') {
-    return 'Direct payment on Arc Network';
+  const { symbol: asset, chain } = resolved;
+  if (asset === settlementCurrency && chain.settlement) {
+    return `Direct payment on ${chain.name}`;
   }
 
   if (asset === settlementCurrency) {
-    return `${asset} on ${chainName} → Bridge via CCTP → ${settlementCurrency} on Arc`;
+    return `${asset} on ${chain.name} → Bridge via CCTP → ${settlementCurrency} on ${settlementChain.name}`;
   }
 
-  if (asset === 'ETH') {
-    return `ETH on ${chainName} → Swap to ${settlementCurrency} → Bridge via CCTP → ${settlementCurrency} on Arc`;
+  if (resolved.address === null) {
+    return `${asset} on ${chain.name} → Swap to ${settlementCurrency} → Bridge via CCTP → ${settlementCurrency} on ${settlementChain.name}`;
   }
 
-  return `${asset} on ${chainName} → ${settlementCurrency} on Arc`;
+  return `${asset} on ${chain.name} → ${settlementCurrency} on ${settlementChain.name}`;
 }
 
 /**
@@ -293,9 +202,9 @@ export function estimateConversion(
   amount: string,
   isTestnet: boolean
 ): { estimatedTime: number; estimatedFees: string; conversionPath: string } {
-  const [asset, chain] = paymentAsset.split('_');
-  const requiresSwap = asset !== settlementCurrency;
-  const requiresBridge = chain !== 'ARC';
+  const resolved = chainRegistry.getAsset(paymentAsset);
+  const requiresSwap = (resolved?.symbol ?? paymentAsset.split('_')[0]) !== settlementCurrency;
+  const requiresBridge = !resolved?.chain.settlement;
 
   let estimatedTime = 0;
   let estimatedFees = '0';
@@ -0,0 +1,256 @@
+/**
+ * CCTP Orchestrator
+ * Drives CCTP settlement routes through burn → attestation → mint.
+ * All progress lives on the settlement_routes row, so a restart resumes where it left off.
+ */
+
+import type { Hash, Hex } from "viem";
+import { db } from "../db.js";
+import { settlementRoutes } from "../../shared/schema.js";
+import { and, eq, inArray, isNull, lte, or } from "drizzle-orm";
+import {
+  getBurnMessages,
+  fetchAttestation,
+  submitCCTPMint,
+  getMintStatus,
+  getCCTPDomain,
+  parseCCTPMessage,
+} from "./cctpService.js";
+import { chainRegistry, isTestnetChain } from "./chainRegistry.js";
+import { toTokenUnits } from "./arcService.js";
+import { updateSettlementRoute, type SettlementRoute, type SettlementRouteStatus } from "./settlementService.js";
+import { CCTP_ORCHESTRATOR_INTERVAL, CCTP_MAX_ATTEMPTS, CCTP_RELAYER_PRIVATE_KEY } from "../config.js";
+
+const IN_FLIGHT_STATUSES: SettlementRouteStatus[] = ["processing", "attesting", "minting"];
+const INITIAL_BACKOFF = 5000; // 5 seconds
+const MAX_BACKOFF = 5 * 60 * 1000; // 5 minutes
+
+let isRunning = false;
+
+/**
+ * Calculate exponential backoff delay
+ */
+function calculateBackoff(attempt: number): number {
+  return Math.min(INITIAL_BACKOFF * Math.pow(2, attempt), MAX_BACKOFF);
+}
+
+/**
+ * Move a route to its next state; the attempt counter restarts for the new step
+ */
+async function transition(
+  route: SettlementRoute,
+  status: SettlementRouteStatus,
+  updates: Parameters<typeof updateSettlementRoute>[1] = {}
+) {
+  await updateSettlementRoute(route.id, {
+    ...updates,
+    status,
+    attempts: 0,
+    nextAttemptAt: null,
+    lastError: null,
+  });
+}
+
+/**
+ * Check again later, or fail the route once the step has used up its attempts
+ */
+async function retryLater(route: SettlementRoute, reason: string) {
+  const attempts = route.attempts + 1;
+
+  if (attempts >= CCTP_MAX_ATTEMPTS) {
+    await updateSettlementRoute(route.id, {
+      status: "failed",
+      attempts,
+      nextAttemptAt: null,
+      lastError: `${reason} (gave up after ${attempts} attempts)`,
+    });
+    console.log(`❌ CCTP route ${route.id} failed in ${route.status}: ${reason}`);
+    return;
+  }
+
+  await updateSettlementRoute(route.id, {
+    attempts,
+    nextAttemptAt: new Date(Date.now() + calculateBackoff(attempts)),
+    lastError: reason,
+  });
+}
+
+async function fail(route: SettlementRoute, reason: string) {
+  await updateSettlementRoute(route.id, { status: "failed", nextAttemptAt: null, lastError: reason });
+  console.log(`❌ CCTP route ${route.id} failed: ${reason}`);
+}
+
+/**
+ * processing: wait for the burn receipt and decode its MessageSent event
+ */
+async function processBurn(route: SettlementRoute) {
+  if (!route.cctpBurnTxHash || !route.sourceChainId) {
+    return fail(route, "Route has no burn transaction or source chain");
+  }
+
+  const sourceDomain = getCCTPDomain(route.sourceChainId);
+  if (sourceDomain === null) {
+    return fail(route, `CCTP not supported on source chain ${route.sourceChainId}`);
+  }
+  const destinationDomain = getCCTPDomain(route.destinationChainId);
+  const token = chainRegistry.getToken(route.sourceChainId, route.sourceCurrency);
+  if (destinationDomain === null || !token) {
+    return fail(route, `Route from chain ${route.sourceChainId} to ${route.destinationChainId} has no CCTP token or domain`);
+  }
+
+  const burn = await getBurnMessages(route.sourceChainId, route.cctpBurnTxHash as Hash);
+  if (burn.status === "pending") {
+    return retryLater(route, "Burn transaction not mined yet");
+  }
+  if (burn.status === "reverted") {
+    return fail(route, "Burn transaction reverted");
+  }
+  if (burn.messages.length === 0) {
+    return fail(route, "Burn transaction emitted no MessageSent event");
+  }
+
+  // The burn must be for this route: sent to the destination's domain, for the route's amount
+  const expectedAmount = toTokenUnits(route.amount, token.decimals);
+  const match = burn.messages.find(({ message }) => {
+    const parsed = parseCCTPMessage(message);
+    return parsed?.destinationDomain === destinationDomain && parsed.burnAmount === expectedAmount;
+  });
+  if (!match) {
+    return fail(route, `Burn transaction has no CCTP message for ${route.amount} ${route.sourceCurrency} to domain ${destinationDomain}`);
+  }
+
+  const { message, messageHash } = match;
+  await transition(route, "attesting", { cctpMessage: message, cctpMessageHash: messageHash, cctpSourceDomain: sourceDomain });
+  console.log(`🔥 CCTP route ${route.id} burn confirmed (message ${messageHash})`);
+}
+
+/**
+ * attesting: poll the attestation service until the message is attested
+ */
+async function processAttestation(route: SettlementRoute) {
+  if (route.cctpSourceDomain === null || !route.cctpBurnTxHash || !route.sourceChainId) {
+    return fail(route, "Route is missing its burn message");
+  }
+
+  const attestation = await fetchAttestation(
+    route.cctpSourceDomain,
+    route.cctpBurnTxHash,
+    isTestnetChain(route.sourceChainId)
+  );
+  if (!attestation || attestation.status !== "complete" || !attestation.attestation) {
+    return retryLater(route, "Attestation pending");
+  }
+
+  await transition(route, "minting", {
+    cctpAttestation: attestation.attestation,
+    cctpMessage: attestation.message ?? route.cctpMessage ?? undefined,
+  });
+  console.log(`✍️ CCTP route ${route.id} attested`);
+}
+
+/**
+ * minting: relay receiveMessage (or wait for the mint tx to be reported) and confirm it
+ */
+async function processMint(route: SettlementRoute) {
+  if (!route.cctpMessage || !route.cctpAttestation) {
+    return fail(route, "Route is missing its attested message");
+  }
+
+  if (!route.cctpMintTxHash) {
+    if (!CCTP_RELAYER_PRIVATE_KEY) {
+      return retryLater(route, "Waiting for the mint transaction to be submitted");
+    }
+
+    const mintTxHash = await submitCCTPMint(
+      route.destinationChainId,
+      route.cctpMessage as Hex,
+      route.cctpAttestation as Hex
+    );
+    await updateSettlementRoute(route.id, {
+      cctpMintTxHash: mintTxHash,
+      nextAttemptAt: new Date(Date.now() + INITIAL_BACKOFF),
+    });
+    console.log(`🪙 CCTP route ${route.id} mint submitted (tx: ${mintTxHash})`);
+    return;
+  }
+
+  const mintStatus = await getMintStatus(route.destinationChainId, route.cctpMintTxHash as Hash, route.cctpMessage as Hex);
+  if (mintStatus === "pending") {
+    return retryLater(route, "Mint transaction not mined yet");
+  }
+  if (mintStatus === "reverted" || mintStatus === "mismatch") {
+    // Drop the hash so the next attempt relays again (or waits for a new one to be reported)
+    await updateSettlementRoute(route.id, { cctpMintTxHash: null });
+    return retryLater(
+      route,
+      mintStatus === "reverted" ? "Mint transaction reverted" : "Mint transaction did not receive this route's message"
+    );
+  }
+
+  await transition(route, "completed");
+  console.log(`✅ CCTP route ${route.id} completed (mint tx: ${route.cctpMintTxHash})`);
+}
+
+/**
+ * Advance a single route by one step
+ */
+export async function advanceCctpRoute(route: SettlementRoute): Promise<void> {
+  try {
+    switch (route.status) {
+      case "processing":
+        return await processBurn(route);
+      case "attesting":
+        return await processAttestation(route);
+      case "minting":
+        return await processMint(route);
+    }
+  } catch (error) {
+    // RPC and attestation API errors are transient
+    console.error(`Error advancing CCTP route ${route.id}:`, error);
+    await retryLater(route, error instanceof Error ? error.message : "Unknown error").catch(console.error);
+  }
+}
+
+/**
+ * Advance every in-flight CCTP route that is due
+ */
+export async function runCctpOrchestrator(): Promise<void> {
+  if (isRunning) {
+    return;
+  }
+  isRunning = true;
+
+  try {
+    const routes = await db
+      .select()
+      .from(settlementRoutes)
+      .where(
+        and(
+          eq(settlementRoutes.routeType, "cctp"),
+          inArray(settlementRoutes.status, IN_FLIGHT_STATUSES),
+          or(isNull(settlementRoutes.nextAttemptAt), lte(settlementRoutes.nextAttemptAt, new Date()))
+        )
+      );
+
+    for (const route of routes) {
+      await advanceCctpRoute(route as SettlementRoute);
+    }
+  } catch (error) {
+    console.error("Error in CCTP orchestrator:", error);
+  } finally {
+    isRunning = false;
+  }
+}
+
+/**
+ * Start the CCTP orchestrator (runs every CCTP_ORCHESTRATOR_INTERVAL ms)
+ */
+export function startCctpOrchestrator(): void {
+  runCctpOrchestrator().catch(console.error);
+
+  setInterval(() => {
+    runCctpOrchestrator().catch(console.error);
+  }, CCTP_ORCHESTRATOR_INTERVAL);
+
+  console.log(`CCTP orchestrator started (polls every ${CCTP_ORCHESTRATOR_INTERVAL / 1000}s, max ${CCTP_MAX_ATTEMPTS} attempts per step)`);
+}
@@ -4,75 +4,22 @@
  * Handles burn, attestation, and mint operations for USDC/EURC transfers
  */
 
-import { createPublicClient, http, parseUnits, formatUnits, Address, Hash, pad } from 'viem';
-import { base, baseSepolia, mainnet, sepolia } from 'viem/chains';
-
-// CCTP Domain IDs (Circle's domain mapping)
-const CCTP_DOMAINS = {
-  // Testnet domains
-  5042002: 26, // Arc Testnet
-  [baseSepolia.id]: 6, // Base Sepolia
-  [sepolia.id]: 0, // Ethereum Sepolia
-  
-  // Mainnet domains
-  5042001: 26, // Arc Mainnet
-  [base.id]: 6, // Base
-  [mainnet.id]: 0, // Ethereum
-} as Record<number, number>;
-
-// Circle CCTP contract addresses (testnet)
-const CCTP_TESTNET_CONFIG = {
-  // Arc Testnet - TokenMessengerV2
-  5042002: {
-    tokenMessenger: '0x8FE689990c688CcFDD58f7EB8974218be2542DAA' as Address,
-    messageTransmitter: '0xE737e5cEBEEBa77EFE34D4aa09875659861CE275' as Address,
-    usdc: '0x3600000000000000000000000000000000000000' as Address, // USDC ERC-20 interface (6 decimals)
-    eurc: '0x89850855Aa3bE2F677c06383Cec88985F319072a' as Address,
-    domain: 26,
-  },
-  // Base Sepolia
-  [baseSepolia.id]: {
-    tokenMessenger: '0x9f3B8679C73C2Fef8b59B4f3444d4e156fb70AA5' as Address,
-    messageTransmitter: '0x7865fAfC2db2093669d92c0F33AeEF291086BEFD' as Address,
-    usdc: '0x036CbD53842c5426634e7929541eC2318f3dCF7e' as Address,
-    eurc: null as Address | null,
-    domain: 6,
-  },
-  // Sepolia
-  [sepolia.id]: {
-    tokenMessenger: '0x9f3B8679C73C2Fef8b59B4f3444d4e156fb70AA5' as Address,
-    messageTransmitter: '0x7865fAfC2db2093669d92c0F33AeEF291086BEFD' as Address,
-    usdc: '0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238' as Address,
-    eurc: null as Address | null,
-    domain: 0,
-  },
-};
-
-// Circle CCTP contract addresses (mainnet)
-const CCTP_MAINNET_CONFIG = {
-  // Arc Mainnet - TokenMessengerV2 (update addresses if different from testnet)
-  5042001: {
-    tokenMessenger: '0x8FE689990c688CcFDD58f7EB8974218be2542DAA' as Address, // Update if mainnet differs
-    messageTransmitter: '0xE737e5cEBEEBa77EFE34D4aa09875659861CE275' as Address, // Update if mainnet differs
-    usdc: '0x3600000000000000000000000000000000000000' as Address,
-    eurc: '0x89850855Aa3bE2F677c06383Cec88985F319072a' as Address, // Update if mainnet differs
-    domain: 26,
-  },
-  [base.id]: {
-    tokenMessenger: '0x1682Ae6375C4E4A97e4B583BC4cB31Cc3a3b2c6e' as Address,
-    messageTransmitter: '0x1682Ae6375C4E4A97e4B583BC4cB31Cc3a3b2c6e' as Address,
-    usdc: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913' as Address,
-    eurc: '0x1aBaEA1f7C830bD89Acc67eC4f5164b1b3905C3c' as Address,
-    domain: 6,
-  },
-  [mainnet.id]: {
-    tokenMessenger: '0xbd3fa81B58Ba92a82136038B25aDec7066af3155' as Address,
-    messageTransmitter: '0x0a992d191DEeC32aFe36203Ad87D7d289a738F81' as Address,
-    usdc: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48' as Address,
-    eurc: '0x1aBaEA1f7C830bD89Acc67eC4f5164b1b3905C3c' as Address,
-    domain: 0,
-  },
-};
+import {
+  createPublicClient,
+  createWalletClient,
+  http,
+  decodeEventLog,
+  keccak256,
+  TransactionReceiptNotFoundError,
+  Address,
+  Hash,
+  Hex,
+} from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { CCTP_ATTESTATION_API_URL, CCTP_RELAYER_PRIVATE_KEY } from '../config.js';
+import { chainRegistry, getChainRpcUrl, isTestnetChain, toViemChain } from './chainRegistry.js';
+
+// Chain ids, CCTP domains and contract addresses live in the chain registry (shared/chains.ts)
 
 // Circle Attestation Service API endpoints
 const CCTP_ATTESTATION_API = {
@@ -110,6 +57,49 @@ const MESSAGE_TRANSMITTER_ABI = [
   },
 ] as const;
 
+// MessageTransmitter event carrying the message to attest
+const MESSAGE_SENT_EVENT_ABI = [
+  {
+    anonymous: false,
+    inputs: [{ indexed: false, name: 'message', type: 'bytes' }],
+    name: 'MessageSent',
+    type: 'event',
+  },
+] as const;
+
+// MessageTransmitter events emitted when a message is received (minted), V1 and V2
+const MESSAGE_RECEIVED_EVENT_ABIS = [
+  [
+    {
+      anonymous: false,
+      inputs: [
+        { indexed: true, name: 'caller', type: 'address' },
+        { indexed: false, name: 'sourceDomain', type: 'uint32' },
+        { indexed: true, name: 'nonce', type: 'uint64' },
+        { indexed: false, name: 'sender', type: 'bytes32' },
+        { indexed: false, name: 'messageBody', type: 'bytes' },
+      ],
+      name: 'MessageReceived',
+      type: 'event',
+    },
+  ],
+  [
+    {
+      anonymous: false,
+      inputs: [
+        { indexed: true, name: 'caller', type: 'address' },
+        { indexed: false, name: 'sourceDomain', type: 'uint32' },
+        { indexed: true, name: 'nonce', type: 'bytes32' },
+        { indexed: false, name: 'sender', type: 'bytes32' },
+        { indexed: true, name: 'finalityThresholdExecuted', type: 'uint32' },
+        { indexed: false, name: 'messageBody', type: 'bytes' },
+      ],
+      name: 'MessageReceived',
+      type: 'event',
+    },
+  ],
+] as const;
+
 // ERC20 ABI (approve, transfer, balanceOf)
 const ERC20_ABI = [
   {
@@ -154,205 +144,268 @@ export interface CCTPBridgeResult {
  * Get CCTP configuration for a chain
  */
 function getCCTPConfig(chainId: number, isTestnet: boolean) {
-  if (isTestnet) {
-    return CCTP_TESTNET_CONFIG[chainId as keyof typeof CCTP_TESTNET_CONFIG] || null;
-  } else {
-    return CCTP_MAINNET_CONFIG[chainId as keyof typeof CCTP_MAINNET_CONFIG] || null;
+  const chain = chainRegistry.getChain(chainId);
+  if (!chain?.cctp || chain.testnet !== isTestnet) {
+    return null;
   }
+
+  const usdc = chainRegistry.getToken(chainId, 'USDC');
+  const eurc = chainRegistry.getToken(chainId, 'EURC');
+  return {
+    ...chain.cctp,
+    usdc: usdc?.cctp ? usdc.address : null,
+    eurc: eurc?.cctp ? eurc.address : null,
+  };
 }
 
 /**
  * Get CCTP domain for a chain
  */
-function getCCTPDomain(chainId: number): number | null {
-  return CCTP_DOMAINS[chainId] ?? null;
+export function getCCTPDomain(chainId: number): number | null {
+  return chainRegistry.getChain(chainId)?.cctp?.domain ?? null;
 }
 
 /**
- * Fetch attestation from Circle's Attestation Service
- * For Fast Transfer, this enables faster-than-finality transfers
+ * Base URL of the attestation service
+ * CCTP_ATTESTATION_API_URL overrides it, e.g. to point at a local mock attestation server.
  */
-async function fetchAttestation(
-  messageHash: string,
-  isTestnet: boolean
-): Promise<string | null> {
-  const apiBase = isTestnet ? CCTP_ATTESTATION_API.testnet : CCTP_ATTESTATION_API.mainnet;
-  
-  try {
-    // Poll for attestation (Circle's service provides it after soft finality)
-    const maxAttempts = 30; // 30 attempts * 2 seconds = 60 seconds max
-    for (let attempt = 0; attempt < maxAttempts; attempt++) {
-      const response = await fetch(`${apiBase}/attestations/${messageHash}`, {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-      });
-
-      if (response.ok) {
-        const data = await response.json();
-        if (data.status === 'complete' && data.attestation) {
-          return data.attestation;
-        }
-      }
+export function getAttestationApiUrl(isTestnet: boolean): string {
+  const override = CCTP_ATTESTATION_API_URL;
+  if (override) return override.replace(/\/$/, '');
+  return isTestnet ? CCTP_ATTESTATION_API.testnet : CCTP_ATTESTATION_API.mainnet;
+}
 
-      // Wait 2 seconds before next attempt
-      await new Promise((resolve) => setTimeout(resolve, 2000));
-    }
+export interface CCTPBurnMessage {
+  message: Hex;
+  messageHash: Hash; // keccak256(message)
+}
 
-    return null;
-  } catch (error) {
-    console.error('Error fetching attestation:', error);
+export interface CCTPMessage {
+  version: number; // 0 = CCTP V1, 1 = V2
+  sourceDomain: number;
+  destinationDomain: number;
+  nonce: bigint; // uint64 in V1, bytes32 in V2 (zero until attested)
+  messageBody: Hex;
+  burnAmount: bigint | null; // Amount in a TokenMessenger burn message, in token units
+}
+
+// Header sizes in bytes; the burn message body has the amount after version, burnToken and mintRecipient
+const MESSAGE_HEADER_BYTES = { 0: 116, 1: 148 } as Record<number, number>;
+const BURN_AMOUNT_OFFSET = 68;
+
+/**
+ * Decode a CCTP message header (and the amount of a burn message); null if it isn't one
+ */
+export function parseCCTPMessage(message: Hex): CCTPMessage | null {
+  const hex = message.slice(2);
+  const read = (offset: number, length: number) => `0x${hex.slice(offset * 2, (offset + length) * 2)}` as Hex;
+
+  const version = Number(read(0, 4));
+  const headerBytes = MESSAGE_HEADER_BYTES[version];
+  if (headerBytes === undefined || hex.length < headerBytes * 2) {
     return null;
   }
+
+  const bodyHex = hex.slice(headerBytes * 2);
+  const hasAmount = bodyHex.length >= (BURN_AMOUNT_OFFSET + 32) * 2;
+  return {
+    version,
+    sourceDomain: Number(read(4, 4)),
+    destinationDomain: Number(read(8, 4)),
+    nonce: BigInt(version === 0 ? read(12, 8) : read(12, 32)),
+    messageBody: `0x${bodyHex}`,
+    burnAmount: hasAmount ? BigInt(read(headerBytes + BURN_AMOUNT_OFFSET, 32)) : null,
+  };
 }
 
+export type CCTPBurnStatus =
+  | { status: 'pending' }
+  | { status: 'reverted' }
+  | { status: 'found'; messages: CCTPBurnMessage[] };
+
 /**
- * Initiate CCTP bridge - Step 1: Burn USDC on source chain
- * This function would be called from the frontend with a wallet signature
+ * Read the burn transaction on the source chain and decode its MessageSent events.
+ * Only events emitted by the chain's MessageTransmitter count.
  */
-export async function initiateCCTPBurn(
-  request: CCTPBridgeRequest
-): Promise<{ nonce: bigint; burnTxHash: Hash }> {
-  const isTestnet = request.isTestnet ?? true;
-  const config = getCCTPConfig(request.fromChainId, isTestnet);
-  
+export async function getBurnMessages(chainId: number, burnTxHash: Hash): Promise<CCTPBurnStatus> {
+  const isTestnet = isTestnetChain(chainId);
+  const config = getCCTPConfig(chainId, isTestnet);
   if (!config) {
-    throw new Error(`CCTP not supported on chain ${request.fromChainId}`);
+    throw new Error(`CCTP not supported on chain ${chainId}`);
   }
 
-  const tokenAddress = request.currency === 'USDC' ? config.usdc : config.eurc;
-  if (!tokenAddress) {
-    throw new Error(`${request.currency} not supported on chain ${request.fromChainId}`);
+  const client = createPublicClient({
+    chain: getChainConfig(chainId),
+    transport: http(getChainRpcUrl(chainId)),
+  });
+
+  let receipt;
+  try {
+    receipt = await client.getTransactionReceipt({ hash: burnTxHash });
+  } catch (error) {
+    if (error instanceof TransactionReceiptNotFoundError) {
+      return { status: 'pending' };
+    }
+    throw error;
   }
 
-  const destinationDomain = getCCTPDomain(request.toChainId);
-  if (destinationDomain === null) {
-    throw new Error(`Destination chain ${request.toChainId} not supported`);
+  if (receipt.status !== 'success') {
+    return { status: 'reverted' };
   }
 
-  // Convert amount to wei (USDC/EURC use 6 decimals)
-  const amountWei = parseUnits(request.amount, 6);
+  const messages: CCTPBurnMessage[] = [];
+  for (const log of receipt.logs) {
+    if (log.address.toLowerCase() !== config.messageTransmitter.toLowerCase()) continue;
+    try {
+      const event = decodeEventLog({ abi: MESSAGE_SENT_EVENT_ABI, data: log.data, topics: log.topics });
+      messages.push({ message: event.args.message, messageHash: keccak256(event.args.message) });
+    } catch {
+      // Not a MessageSent event
+    }
+  }
 
-  // Create public client for source chain
-  const rpcUrl = getRpcUrl(request.fromChainId, isTestnet);
-  const client = createPublicClient({
-    chain: getChainConfig(request.fromChainId),
-    transport: http(rpcUrl),
+  return { status: 'found', messages };
+}
+
+export interface CCTPAttestation {
+  status: 'complete' | 'pending';
+  message: Hex | null; // The attested message; for CCTP V2 it carries the final nonce
+  attestation: Hex | null;
+}
+
+/**
+ * Look up the attestation for a burn transaction (single request, no waiting).
+ * Returns null if the attestation service hasn't seen the burn yet.
+ */
+export async function fetchAttestation(
+  sourceDomain: number,
+  burnTxHash: string,
+  isTestnet: boolean
+): Promise<CCTPAttestation | null> {
+  const apiBase = getAttestationApiUrl(isTestnet);
+  const response = await fetch(`${apiBase}/v2/messages/${sourceDomain}?transactionHash=${burnTxHash}`, {
+    method: 'GET',
+    headers: {
+      'Content-Type': 'application/json',
+    },
   });
 
-  // Note: In a real implementation, this would require:
-  // 1. User's wallet to sign the transaction
-  // 2. Approval transaction first (if needed)
-  // 3. Then depositForBurn transaction
-  
-  // For now, return a mock response structure
-  // The actual transaction would be:
-  // const hash = await client.writeContract({
-  //   address: config.tokenMessenger,
-  //   abi: TOKEN_MESSENGER_ABI,
-  //   functionName: 'depositForBurn',
-  //   args: [
-  //     amountWei,
-  //     destinationDomain,
-  //     pad(request.toAddress, { size: 32 }), // Convert address to bytes32
-  //     tokenAddress,
-  //   ],
-  //   account: request.fromAddress,
-  // });
+  if (response.status === 404) {
+    return null;
+  }
+  if (!response.ok) {
+    throw new Error(`Attestation service returned ${response.status}`);
+  }
 
+  const data = await response.json();
+  const entry = data.messages?.[0];
+  if (!entry) {
+    return null;
+  }
+
+  const complete = entry.status === 'complete' && !!entry.attestation && entry.attestation !== 'PENDING';
   return {
-    nonce: BigInt(Date.now()), // Mock nonce
-    burnTxHash: `0x${'0'.repeat(64)}` as Hash, // Mock hash
+    status: complete ? 'complete' : 'pending',
+    message: entry.message && entry.message !== '0x' ? entry.message : null,
+    attestation: complete ? entry.attestation : null,
   };
 }
 
 /**
- * Complete CCTP bridge - Step 2: Get attestation and mint on destination chain
+ * Submit receiveMessage on the destination chain's MessageTransmitter from the relayer wallet.
+ * Anyone may relay a message whose destination caller is unset; the minted funds always go
+ * to the mint recipient in the message.
  */
-export async function completeCCTPMint(
-  request: CCTPBridgeRequest,
-  burnTxHash: Hash,
-  messageHash: string
-): Promise<{ mintTxHash: Hash }> {
-  const isTestnet = request.isTestnet ?? true;
-  const config = getCCTPConfig(request.toChainId, isTestnet);
-  
-  if (!config) {
-    throw new Error(`CCTP not supported on chain ${request.toChainId}`);
+export async function submitCCTPMint(chainId: number, message: Hex, attestation: Hex): Promise<Hash> {
+  if (!CCTP_RELAYER_PRIVATE_KEY) {
+    throw new Error('CCTP_RELAYER_PRIVATE_KEY not configured');
   }
 
-  // Fetch attestation from Circle's service
-  const attestation = await fetchAttestation(messageHash, isTestnet);
-  
-  if (!attestation) {
-    throw new Error('Failed to get attestation from Circle');
+  const isTestnet = isTestnetChain(chainId);
+  const config = getCCTPConfig(chainId, isTestnet);
+  if (!config) {
+    throw new Error(`CCTP not supported on chain ${chainId}`);
   }
 
-  // Create public client for destination chain
-  const rpcUrl = getRpcUrl(request.toChainId, isTestnet);
-  const client = createPublicClient({
-    chain: getChainConfig(request.toChainId),
-    transport: http(rpcUrl),
+  const client = createWalletClient({
+    account: privateKeyToAccount(CCTP_RELAYER_PRIVATE_KEY as Hex),
+    chain: getChainConfig(chainId),
+    transport: http(getChainRpcUrl(chainId)),
   });
 
-  // Note: In a real implementation, this would require:
-  // 1. Construct the message from the burn event
-  // 2. User's wallet to sign the mint transaction
-  // 3. Call receiveMessage on MessageTransmitter contract
-  
-  // const hash = await client.writeContract({
-  //   address: config.messageTransmitter,
-  //   abi: MESSAGE_TRANSMITTER_ABI,
-  //   functionName: 'receiveMessage',
-  //   args: [message, attestation],
-  //   account: request.toAddress,
-  // });
-
-  return {
-    mintTxHash: `0x${'0'.repeat(64)}` as Hash, // Mock hash
-  };
+  return client.writeContract({
+    address: config.messageTransmitter,
+    abi: MESSAGE_TRANSMITTER_ABI,
+    functionName: 'receiveMessage',
+    args: [message, attestation],
+  });
 }
 
 /**
- * Get RPC URL for a chain
+ * Status of a mint transaction on the destination chain.
+ * A successful transaction only counts if the chain's MessageTransmitter emitted MessageReceived
+ * for this message (same source domain, nonce and body); otherwise it is a 'mismatch'.
  */
-function getRpcUrl(chainId: number, isTestnet: boolean): string {
-  // This would use environment variables or a provider service
-  if (chainId === baseSepolia.id) return 'https://sepolia.base.org';
-  if (chainId === sepolia.id) return 'https://rpc.sepolia.org';
-  if (chainId === base.id) return 'https://mainnet.base.org';
-  if (chainId === mainnet.id) return 'https://eth.llamarpc.com';
-  if (chainId === 5042002) return process.env.VITE_ARC_RPC_URL || 'https://rpc.testnet.arc.network';
-  if (chainId === 5042001) return process.env.VITE_ARC_RPC_URL_MAINNET || 'https://rpc.arc.network';
-  
-  throw new Error(`Unknown chain ID: ${chainId}`);
+export async function getMintStatus(
+  chainId: number,
+  mintTxHash: Hash,
+  message: Hex
+): Promise<'pending' | 'success' | 'reverted' | 'mismatch'> {
+  const config = getCCTPConfig(chainId, isTestnetChain(chainId));
+  const expected = parseCCTPMessage(message);
+  if (!config || !expected) {
+    throw new Error(`Cannot verify CCTP mint on chain ${chainId}`);
+  }
+
+  const client = createPublicClient({
+    chain: getChainConfig(chainId),
+    transport: http(getChainRpcUrl(chainId)),
+  });
+
+  let receipt;
+  try {
+    receipt = await client.getTransactionReceipt({ hash: mintTxHash });
+  } catch (error) {
+    if (error instanceof TransactionReceiptNotFoundError) {
+      return 'pending';
+    }
+    throw error;
+  }
+
+  if (receipt.status !== 'success') {
+    return 'reverted';
+  }
+
+  for (const log of receipt.logs) {
+    if (log.address.toLowerCase() !== config.messageTransmitter.toLowerCase()) continue;
+    for (const abi of MESSAGE_RECEIVED_EVENT_ABIS) {
+      try {
+        const event = decodeEventLog({ abi, data: log.data, topics: log.topics });
+        if (
+          event.args.sourceDomain === expected.sourceDomain &&
+          BigInt(event.args.nonce) === expected.nonce &&
+          event.args.messageBody.toLowerCase() === expected.messageBody.toLowerCase()
+        ) {
+          return 'success';
+        }
+      } catch {
+        // Not a MessageReceived event of this version
+      }
+    }
+  }
+
+  return 'mismatch';
 }
 
 /**
  * Get chain config for viem
  */
 function getChainConfig(chainId: number) {
-  if (chainId === baseSepolia.id) return baseSepolia;
-  if (chainId === sepolia.id) return sepolia;
-  if (chainId === base.id) return base;
-  if (chainId === mainnet.id) return mainnet;
-  
-  // Arc Network custom chain config
-  return {
-    id: chainId,
-    name: chainId === 5042002 ? 'Arc Testnet' : 'Arc Mainnet',
-    nativeCurrency: {
-      decimals: 6,
-      name: 'USDC',
-      symbol: 'USDC',
-    },
-    rpcUrls: {
-      default: {
-        http: [getRpcUrl(chainId, chainId === 5042002)],
-      },
-    },
-  };
+  const chain = chainRegistry.getChain(chainId);
+  if (!chain) {
+    throw new Error(`Unknown chain ID: ${chainId}`);
+  }
+  return toViemChain(chain);
 }
 
 /**
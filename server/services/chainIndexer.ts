@@ -0,0 +1,369 @@
+/**
+ * Chain Indexer Service
+ * Follows ARC blocks from a persisted checkpoint, records USDC/EURC Transfer logs to
+ * merchant wallets and settles the open PaymentIntents they pay once they are deep enough.
+ * Checkout therefore completes even if the payer never calls submit-tx.
+ */
+
+import { db } from "../db.js";
+import {
+  chainIndexerCheckpoints,
+  chainTransfers,
+  merchants,
+  businessWalletAddresses,
+  payments,
+  type ChainIndexerCheckpoint,
+  type ChainTransfer,
+} from "../../shared/schema.js";
+import { eq, and, or, gt, lte, ne, asc, inArray, isNull, isNotNull, sql } from "drizzle-orm";
+import { getLatestBlockNumber, getBlockHeader, getTransferLogs, fromTokenUnits } from "./arcService.js";
+import { isTxHashClaimed, settlePaymentTransaction } from "./paymentService.js";
+import {
+  ARC_CHAIN_ID,
+  USDC_TOKEN_ADDRESS,
+  USDC_DECIMALS,
+  EURC_TOKEN_ADDRESS,
+  EURC_DECIMALS,
+  CHAIN_INDEXER_CONFIRMATIONS,
+  CHAIN_INDEXER_START_BLOCK,
+  CHAIN_INDEXER_BATCH_SIZE,
+  CHAIN_INDEXER_REORG_WINDOW,
+  CHAIN_INDEXER_INTERVAL,
+} from "../config.js";
+
+const INDEXED_TOKENS: Record<string, { currency: string; decimals: number }> = {
+  [USDC_TOKEN_ADDRESS.toLowerCase()]: { currency: "USDC", decimals: USDC_DECIMALS },
+  [EURC_TOKEN_ADDRESS.toLowerCase()]: { currency: "EURC", decimals: EURC_DECIMALS },
+};
+
+const OPEN_PAYMENT_STATUSES: ("created" | "pending")[] = ["created", "pending"];
+
+let isRunning = false;
+
+/**
+ * Wallets whose incoming transfers are indexed: merchant wallets, business payment
+ * wallets and the recipient of every open PaymentIntent
+ */
+async function getWatchedWallets(): Promise<string[]> {
+  const [merchantWallets, businessWallets, openPayments] = await Promise.all([
+    db.select({ address: merchants.walletAddress }).from(merchants).where(isNotNull(merchants.walletAddress)),
+    db.select({ address: businessWalletAddresses.paymentWalletAddress }).from(businessWalletAddresses),
+    db
+      .selectDistinct({ address: payments.merchantWallet })
+      .from(payments)
+      .where(and(inArray(payments.status, OPEN_PAYMENT_STATUSES), isNotNull(payments.merchantWallet))),
+  ]);
+
+  const wallets = new Set<string>();
+  for (const { address } of [...merchantWallets, ...businessWallets, ...openPayments]) {
+    if (address && /^0x[a-fA-F0-9]{40}$/.test(address)) {
+      wallets.add(address.toLowerCase());
+    }
+  }
+  return Array.from(wallets);
+}
+
+/**
+ * Load the checkpoint, creating it at CHAIN_INDEXER_START_BLOCK (or the head) on first run
+ */
+async function loadCheckpoint(head: number): Promise<ChainIndexerCheckpoint> {
+  const [checkpoint] = await db
+    .select()
+    .from(chainIndexerCheckpoints)
+    .where(eq(chainIndexerCheckpoints.chainId, ARC_CHAIN_ID));
+
+  if (checkpoint) {
+    return checkpoint;
+  }
+
+  // The checkpoint is the last block already scanned
+  const startBlock = Math.max((CHAIN_INDEXER_START_BLOCK ?? head + 1) - 1, 0);
+  return saveCheckpoint(startBlock);
+}
+
+async function saveCheckpoint(blockNumber: number, blockHash?: string): Promise<ChainIndexerCheckpoint> {
+  const hash = blockHash ?? (await getBlockHeader(blockNumber))?.hash;
+  if (!hash) {
+    throw new Error(`Block ${blockNumber} not found`);
+  }
+
+  const [checkpoint] = await db
+    .insert(chainIndexerCheckpoints)
+    .values({ chainId: ARC_CHAIN_ID, blockNumber, blockHash: hash })
+    .onConflictDoUpdate({
+      target: chainIndexerCheckpoints.chainId,
+      set: { blockNumber, blockHash: hash, updatedAt: new Date() },
+    })
+    .returning();
+
+  return checkpoint;
+}
+
+/**
+ * Rewind the checkpoint after a reorg
+ * Unconfirmed transfers above the new checkpoint are orphaned; those still on the
+ * canonical chain are re-indexed by the next scan.
+ */
+async function rewindTo(blockNumber: number, reason: string): Promise<ChainIndexerCheckpoint> {
+  const target = Math.max(blockNumber, 0);
+
+  const orphaned = await db
+    .update(chainTransfers)
+    .set({ status: "orphaned", updatedAt: new Date() })
+    .where(
+      and(
+        eq(chainTransfers.chainId, ARC_CHAIN_ID),
+        eq(chainTransfers.status, "unconfirmed"),
+        gt(chainTransfers.blockNumber, target)
+      )
+    )
+    .returning({ id: chainTransfers.id });
+
+  // Matched transfers are at least CHAIN_INDEXER_CONFIRMATIONS deep; a reorg past them
+  // needs manual review
+  const matched = await db
+    .select({ id: chainTransfers.id, paymentId: chainTransfers.paymentId, txHash: chainTransfers.txHash })
+    .from(chainTransfers)
+    .where(
+      and(
+        eq(chainTransfers.chainId, ARC_CHAIN_ID),
+        eq(chainTransfers.status, "matched"),
+        gt(chainTransfers.blockNumber, target)
+      )
+    );
+  for (const transfer of matched) {
+    console.error(
+      `⚠️ Reorg below confirmation depth: payment ${transfer.paymentId} was settled by tx ${transfer.txHash} above block ${target}`
+    );
+  }
+
+  console.warn(`Chain indexer rewound to block ${target} (${reason}), ${orphaned.length} unconfirmed transfer(s) orphaned`);
+  return saveCheckpoint(target);
+}
+
+/**
+ * Rewind if the checkpoint block was reorged out
+ */
+async function checkForReorg(checkpoint: ChainIndexerCheckpoint): Promise<ChainIndexerCheckpoint> {
+  const canonical = await getBlockHeader(checkpoint.blockNumber);
+  if (canonical && canonical.hash === checkpoint.blockHash) {
+    return checkpoint;
+  }
+
+  return rewindTo(checkpoint.blockNumber - CHAIN_INDEXER_REORG_WINDOW, `block ${checkpoint.blockNumber} is no longer canonical`);
+}
+
+/**
+ * Scan the next batch of blocks after the checkpoint and record matching Transfer logs
+ */
+async function scanBlocks(checkpoint: ChainIndexerCheckpoint, head: number): Promise<ChainIndexerCheckpoint> {
+  const fromBlock = checkpoint.blockNumber + 1;
+  const toBlock = Math.min(head, checkpoint.blockNumber + CHAIN_INDEXER_BATCH_SIZE);
+  if (toBlock < fromBlock) {
+    return checkpoint;
+  }
+
+  const wallets = await getWatchedWallets();
+  const transfers = await getTransferLogs(fromBlock, toBlock, Object.keys(INDEXED_TOKENS), wallets);
+
+  const toHeader = await getBlockHeader(toBlock);
+  if (!toHeader) {
+    return checkpoint; // Head moved backwards; the next run checks for a reorg
+  }
+
+  await db.transaction(async (tx) => {
+    for (const transfer of transfers) {
+      const token = INDEXED_TOKENS[transfer.token];
+      if (!token) continue;
+
+      const values = {
+        eventKey: `${ARC_CHAIN_ID}:${transfer.txHash}:${transfer.logIndex}`,
+        chainId: ARC_CHAIN_ID,
+        txHash: transfer.txHash,
+        logIndex: transfer.logIndex,
+        blockNumber: transfer.blockNumber,
+        blockHash: transfer.blockHash,
+        tokenAddress: transfer.token,
+        currency: token.currency,
+        fromAddress: transfer.from,
+        toAddress: transfer.to,
+        amount: fromTokenUnits(transfer.value, token.decimals),
+      };
+
+      // A transfer re-included in another block after a reorg is indexed again
+      await tx
+        .insert(chainTransfers)
+        .values(values)
+        .onConflictDoUpdate({
+          target: chainTransfers.eventKey,
+          set: {
+            blockNumber: values.blockNumber,
+            blockHash: values.blockHash,
+            status: "unconfirmed",
+            updatedAt: new Date(),
+          },
+          setWhere: ne(chainTransfers.status, "matched"),
+        });
+    }
+
+    await tx
+      .insert(chainIndexerCheckpoints)
+      .values({ chainId: ARC_CHAIN_ID, blockNumber: toBlock, blockHash: toHeader.hash })
+      .onConflictDoUpdate({
+        target: chainIndexerCheckpoints.chainId,
+        set: { blockNumber: toBlock, blockHash: toHeader.hash, updatedAt: new Date() },
+      });
+  });
+
+  return { ...checkpoint, blockNumber: toBlock, blockHash: toHeader.hash, updatedAt: new Date() };
+}
+
+/**
+ * Settle the open PaymentIntent paid by a confirmed transfer
+ * A payment that already has this tx hash (submitted at checkout) wins and gets the full
+ * transfer verification (overpaid settles, underpaid fails); otherwise the oldest unexpired
+ * intent for the same wallet, currency and amount is used.
+ */
+async function matchTransfer(transfer: ChainTransfer): Promise<void> {
+  const candidates = await db
+    .select()
+    .from(payments)
+    .where(
+      and(
+        sql`lower(${payments.merchantWallet}) = ${transfer.toAddress}`,
+        eq(payments.currency, transfer.currency),
+        inArray(payments.status, OPEN_PAYMENT_STATUSES),
+        eq(payments.isDemo, false),
+        // A submitted tx hash is verified whatever it paid; unclaimed intents need the exact amount
+        or(
+          sql`lower(${payments.txHash}) = ${transfer.txHash}`,
+          and(isNull(payments.txHash), eq(payments.amount, transfer.amount))
+        ),
+        or(isNull(payments.expiresAt), gt(payments.expiresAt, new Date()))
+      )
+    )
+    .orderBy(sql`${payments.txHash} is null`, asc(payments.createdAt));
+
+  for (const candidate of candidates) {
+    if (!candidate.txHash && await isTxHashClaimed(transfer.txHash, candidate.id)) {
+      break; // Another payment already submitted this transaction
+    }
+
+    // Attach the transaction unless the payer submitted a different one in the meantime
+    const [claimed] = await db
+      .update(payments)
+      .set({ txHash: transfer.txHash, status: "pending", updatedAt: new Date() })
+      .where(
+        and(
+          eq(payments.id, candidate.id),
+          inArray(payments.status, OPEN_PAYMENT_STATUSES),
+          or(isNull(payments.txHash), sql`lower(${payments.txHash}) = ${transfer.txHash}`)
+        )
+      )
+      .returning();
+    if (!claimed) continue;
+
+    // A confirming payment is tied to this transfer; txWatcher follows it to the policy's depth
+    const verification = await settlePaymentTransaction(claimed);
+    if (verification?.confirmed || verification?.confirming) {
+      await db
+        .update(chainTransfers)
+        .set({ status: "matched", paymentId: claimed.id, updatedAt: new Date() })
+        .where(eq(chainTransfers.id, transfer.id));
+      console.log(`✅ Payment ${claimed.id} matched to indexed transfer (tx: ${transfer.txHash})`);
+      return;
+    }
+
+    if (!verification?.failed) {
+      return; // Receipt not readable right now; retried on the next run
+    }
+  }
+
+  await db
+    .update(chainTransfers)
+    .set({ status: "unmatched", updatedAt: new Date() })
+    .where(eq(chainTransfers.id, transfer.id));
+}
+
+/**
+ * Match transfers that reached CHAIN_INDEXER_CONFIRMATIONS
+ * Each transfer's block is re-checked first, so a transfer from a block reorged out
+ * between scans never settles a payment.
+ */
+async function confirmTransfers(head: number): Promise<void> {
+  const confirmedBlock = head - CHAIN_INDEXER_CONFIRMATIONS + 1;
+
+  const pending = await db
+    .select()
+    .from(chainTransfers)
+    .where(
+      and(
+        eq(chainTransfers.chainId, ARC_CHAIN_ID),
+        eq(chainTransfers.status, "unconfirmed"),
+        lte(chainTransfers.blockNumber, confirmedBlock)
+      )
+    )
+    .orderBy(asc(chainTransfers.blockNumber), asc(chainTransfers.logIndex));
+
+  const canonicalHashes = new Map<number, string | undefined>();
+  for (const transfer of pending) {
+    if (!canonicalHashes.has(transfer.blockNumber)) {
+      canonicalHashes.set(transfer.blockNumber, (await getBlockHeader(transfer.blockNumber))?.hash);
+    }
+
+    if (canonicalHashes.get(transfer.blockNumber) !== transfer.blockHash) {
+      await rewindTo(transfer.blockNumber - 1, `transfer block ${transfer.blockNumber} is no longer canonical`);
+      return;
+    }
+
+    try {
+      await matchTransfer(transfer);
+    } catch (error) {
+      console.error(`Error matching transfer ${transfer.txHash}:${transfer.logIndex}:`, error);
+    }
+  }
+}
+
+/**
+ * Run one indexer pass: reorg check, scan up to the head, match confirmed transfers
+ */
+export async function runChainIndexer(): Promise<void> {
+  if (isRunning) {
+    return;
+  }
+  isRunning = true;
+
+  try {
+    const head = await getLatestBlockNumber();
+    let checkpoint = await loadCheckpoint(head);
+    checkpoint = await checkForReorg(checkpoint);
+
+    // Catch up in batches; stop at the head
+    while (checkpoint.blockNumber < head) {
+      const next = await scanBlocks(checkpoint, head);
+      if (next.blockNumber === checkpoint.blockNumber) break;
+      checkpoint = next;
+    }
+
+    await confirmTransfers(head);
+  } catch (error) {
+    console.error("Error in chain indexer:", error);
+  } finally {
+    isRunning = false;
+  }
+}
+
+/**
+ * Start the chain indexer (runs every CHAIN_INDEXER_INTERVAL ms)
+ */
+export function startChainIndexer(): void {
+  runChainIndexer().catch(console.error);
+
+  setInterval(() => {
+    runChainIndexer().catch(console.error);
+  }, CHAIN_INDEXER_INTERVAL);
+
+  console.log(
+    `Chain indexer started (chain ${ARC_CHAIN_ID}, polls every ${CHAIN_INDEXER_INTERVAL / 1000}s, ${CHAIN_INDEXER_CONFIRMATIONS} confirmation(s))`
+  );
+}
@@ -0,0 +1,131 @@
+/**
+ * Chain Registry (server)
+ * The shared chain/asset registry with the operator's CHAIN_REGISTRY_CONFIG and ARC_* env overrides applied.
+ * Built when the server starts; an invalid extension stops startup with the list of problems.
+ */
+
+import fs from "fs";
+import {
+  createChainRegistry,
+  defaultChainRegistry,
+  type ChainDefinition,
+  type ChainRegistry,
+  type ChainRegistryConfig,
+} from "../../shared/chains.js";
+import {
+  CHAIN_REGISTRY_CONFIG,
+  ARC_CHAIN_ID,
+  ARC_RPC_URL,
+  ARC_EXPLORER_URL,
+  USDC_TOKEN_ADDRESS,
+  EURC_TOKEN_ADDRESS,
+} from "../config.js";
+
+/**
+ * Read CHAIN_REGISTRY_CONFIG: inline JSON, or a path to a JSON file
+ */
+function loadRegistryExtension(): ChainRegistryConfig {
+  if (!CHAIN_REGISTRY_CONFIG) {
+    return { chains: [], assets: [] };
+  }
+
+  const raw = CHAIN_REGISTRY_CONFIG.trim().startsWith("{")
+    ? CHAIN_REGISTRY_CONFIG
+    : fs.readFileSync(CHAIN_REGISTRY_CONFIG, "utf-8");
+
+  try {
+    return JSON.parse(raw);
+  } catch (error) {
+    throw new Error(`CHAIN_REGISTRY_CONFIG is not valid JSON: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Fold the ARC_* env settings, when set, into the Arc chain entry and its settlement tokens
+ */
+function withArcOverrides(extension: ChainRegistryConfig): ChainRegistryConfig {
+  const chains = [...(extension.chains ?? [])];
+  const assets = [...(extension.assets ?? [])];
+
+  const arcChain = chains.find((chain) => chain.id === ARC_CHAIN_ID) ?? defaultChainRegistry.getChain(ARC_CHAIN_ID);
+  if (!arcChain) {
+    throw new Error(`ARC_CHAIN_ID ${ARC_CHAIN_ID} is not in the chain registry; add it via CHAIN_REGISTRY_CONFIG`);
+  }
+
+  const upsert = <T extends { id: string | number }>(items: T[], item: T) => {
+    const index = items.findIndex((existing) => existing.id === item.id);
+    if (index >= 0) items[index] = item;
+    else items.push(item);
+  };
+
+  if (process.env.ARC_RPC_URL || process.env.ARC_EXPLORER_URL) {
+    upsert(chains, { ...arcChain, rpcUrl: ARC_RPC_URL, explorerUrl: ARC_EXPLORER_URL });
+  }
+
+  const tokenOverrides = [
+    ["USDC", process.env.USDC_TOKEN_ADDRESS && USDC_TOKEN_ADDRESS],
+    ["EURC", process.env.EURC_TOKEN_ADDRESS && EURC_TOKEN_ADDRESS],
+  ] as const;
+  for (const [symbol, address] of tokenOverrides) {
+    if (!address) continue;
+    const id = `${symbol}_${arcChain.key}`;
+    const asset = assets.find((existing) => existing.id === id) ?? defaultChainRegistry.assets.find((existing) => existing.id === id);
+    if (asset) {
+      upsert(assets, { ...asset, address: address as `0x${string}` });
+    }
+  }
+
+  return { chains, assets };
+}
+
+function buildChainRegistry(): ChainRegistry {
+  const extension = loadRegistryExtension();
+  const registry = createChainRegistry(withArcOverrides(extension));
+
+  const added = (extension.chains?.length ?? 0) + (extension.assets?.length ?? 0);
+  if (added > 0) {
+    console.log(`Chain registry: ${registry.chains.length} chains, ${registry.assets.length} assets (${added} from CHAIN_REGISTRY_CONFIG)`);
+  }
+  return registry;
+}
+
+export const chainRegistry = buildChainRegistry();
+
+/**
+ * Whether a chain uses testnet contracts and services
+ */
+export function isTestnetChain(chainId: number): boolean {
+  return chainRegistry.getChain(chainId)?.testnet ?? false;
+}
+
+/**
+ * RPC URL for a chain; CHAIN_RPC_URL_<chainId> overrides the registry (e.g. to use an anvil fork)
+ */
+export function getChainRpcUrl(chainId: number): string {
+  const override = process.env[`CHAIN_RPC_URL_${chainId}`] || process.env[`CCTP_RPC_URL_${chainId}`];
+  if (override) return override;
+
+  const chain = chainRegistry.getChain(chainId);
+  if (!chain) {
+    throw new Error(`Unknown chain ID: ${chainId}`);
+  }
+  return chain.rpcUrl;
+}
+
+/**
+ * Chain definition in the shape viem and wagmi expect
+ */
+export function toViemChain(chain: ChainDefinition) {
+  return {
+    id: chain.id,
+    name: chain.name,
+    nativeCurrency: chain.nativeCurrency,
+    rpcUrls: {
+      default: { http: [getChainRpcUrl(chain.id)] },
+    },
+    blockExplorers: chain.explorerUrl
+      ? { default: { name: `${chain.name} Explorer`, url: chain.explorerUrl } }
+      : undefined,
+    testnet: chain.testnet,
+  };
+}
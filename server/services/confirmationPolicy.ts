@@ -0,0 +1,96 @@
+/**
+ * Confirmation Policy Service
+ * Decides how many block confirmations a payment transfer needs before the payment succeeds
+ */
+
+import { z } from "zod";
+import { db } from "../db.js";
+import { merchants, type Payment } from "../../shared/schema.js";
+import { eq } from "drizzle-orm";
+import { storage } from "../storage.js";
+import { toLedgerUnits } from "./ledgerService.js";
+
+export const CONFIRMATION_POLICY_CONFIG_KEY = "confirmation_policy";
+
+export const confirmationPolicySchema = z.object({
+  default: z.number().int().min(1).max(1000),
+  // The tier with the highest minAmount not above the payment amount applies
+  tiers: z
+    .array(
+      z.object({
+        minAmount: z.string().refine((val) => !isNaN(parseFloat(val)) && parseFloat(val) >= 0, "minAmount must be a non-negative amount"),
+        confirmations: z.number().int().min(1).max(1000),
+      })
+    )
+    .default([]),
+});
+
+export type ConfirmationPolicy = z.infer<typeof confirmationPolicySchema>;
+
+const DEFAULT_CONFIRMATION_POLICY: ConfirmationPolicy = { default: 1, tiers: [] };
+
+/**
+ * Parse a stored policy; invalid JSON is logged and ignored
+ */
+export function parseConfirmationPolicy(value: string | null | undefined): ConfirmationPolicy | null {
+  if (!value) {
+    return null;
+  }
+
+  try {
+    const result = confirmationPolicySchema.safeParse(JSON.parse(value));
+    if (result.success) {
+      return result.data;
+    }
+    console.warn("Invalid confirmation policy:", result.error.errors[0].message);
+  } catch {
+    console.warn("Confirmation policy is not valid JSON");
+  }
+  return null;
+}
+
+/**
+ * Get the policy for a merchant: its own override, else the global config
+ */
+export async function getConfirmationPolicy(merchantId: string): Promise<ConfirmationPolicy> {
+  const [merchant] = await db
+    .select({ confirmationPolicy: merchants.confirmationPolicy })
+    .from(merchants)
+    .where(eq(merchants.id, merchantId));
+
+  const merchantPolicy = parseConfirmationPolicy(merchant?.confirmationPolicy);
+  if (merchantPolicy) {
+    return merchantPolicy;
+  }
+
+  const config = await storage.getGlobalConfig(CONFIRMATION_POLICY_CONFIG_KEY);
+  return parseConfirmationPolicy(config?.value) ?? DEFAULT_CONFIRMATION_POLICY;
+}
+
+/**
+ * Confirmations required for an amount under a policy
+ */
+export function resolveRequiredConfirmations(policy: ConfirmationPolicy, amount: string): number {
+  const amountUnits = toLedgerUnits(amount);
+  let required = policy.default;
+  let matchedUnits: bigint | null = null;
+
+  for (const tier of policy.tiers) {
+    const tierUnits = toLedgerUnits(tier.minAmount);
+    if (tierUnits <= amountUnits && (matchedUnits === null || tierUnits > matchedUnits)) {
+      required = tier.confirmations;
+      matchedUnits = tierUnits;
+    }
+  }
+
+  return required;
+}
+
+/**
+ * Confirmations a payment needs before it succeeds
+ * Amount tiers apply to live payments; test payments only need the policy default.
+ */
+export async function getRequiredConfirmations(payment: Payment): Promise<number> {
+  const policy = await getConfirmationPolicy(payment.merchantId);
+  return payment.isTest ? policy.default : resolveRequiredConfirmations(policy, payment.amount);
+}
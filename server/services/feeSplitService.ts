@@ -6,7 +6,8 @@
 
 import { db } from "../db.js";
 import { feeRules, splitRules, ledgerEntries, payments } from "../../shared/schema.js";
-import { eq, and, isNull } from "drizzle-orm";
+import { eq, and, isNull, inArray } from "drizzle-orm";
+import { postLedgerTransaction } from "./ledgerService.js";
 
 export interface CreateFeeRuleRequest {
   merchantId?: string; // null = global rule
@@ -148,8 +149,9 @@ export async function calculateSplits(paymentId: string): Promise<Array<{
 }
 
 /**
- * Apply fees and splits to a payment (create ledger entries)
- * Called after payment is confirmed
+ * Apply fees and splits to a payment (post ledger transactions)
+ * Called by the ledger after the payment is captured; each fee/split moves funds out
+ * of the merchant's pending balance and is posted at most once.
  */
 export async function applyFeesAndSplits(paymentId: string): Promise<void> {
   const [payment] = await db
@@ -158,47 +160,49 @@ export async function applyFeesAndSplits(paymentId: string): Promise<void> {
     .where(eq(payments.id, paymentId))
     .limit(1);
 
-  if (!payment || payment.status !== "confirmed") {
-    return; // Only apply to confirmed payments
-  }
-
-  // Check if already applied
-  const existingEntries = await db
-    .select()
-    .from(ledgerEntries)
-    .where(eq(ledgerEntries.paymentId, paymentId))
-    .limit(1);
-
-  if (existingEntries.length > 0) {
-    return; // Already applied
+  if (!payment || !["confirmed", "partially_refunded", "refunded"].includes(payment.status)) {
+    return; // Only apply to captured payments
   }
 
   // Calculate and apply fees
   const { feeAmount, feeRuleId } = await calculateFee(paymentId);
   if (parseFloat(feeAmount) > 0 && feeRuleId) {
-    await db.insert(ledgerEntries).values({
-      merchantId: payment.merchantId,
-      paymentId: payment.id,
-      entryType: "fee",
-      amount: feeAmount, // Positive = debit from merchant
-      currency: payment.currency,
-      description: "Platform fee",
-      feeRuleId,
-    });
+    await postLedgerTransaction(
+      {
+        merchantId: payment.merchantId,
+        type: "fee",
+        currency: payment.currency,
+        isTest: payment.isTest,
+        paymentId: payment.id,
+        idempotencyKey: `fee:${payment.id}`,
+        description: "Platform fee",
+      },
+      [
+        { account: "merchant_pending", direction: "debit", amount: feeAmount, feeRuleId },
+        { account: "platform_fees", direction: "credit", amount: feeAmount, feeRuleId },
+      ]
+    );
   }
 
   // Calculate and apply splits
   const splits = await calculateSplits(paymentId);
   for (const split of splits) {
-    await db.insert(ledgerEntries).values({
-      merchantId: payment.merchantId,
-      paymentId: payment.id,
-      entryType: "split",
-      amount: split.splitAmount, // Positive = debit from merchant
-      currency: payment.currency,
-      description: `Split to ${split.recipientWallet}`,
-      splitRuleId: split.splitRuleId,
-    });
+    if (parseFloat(split.splitAmount) <= 0) continue;
+    await postLedgerTransaction(
+      {
+        merchantId: payment.merchantId,
+        type: "split",
+        currency: payment.currency,
+        isTest: payment.isTest,
+        paymentId: payment.id,
+        idempotencyKey: `split:${payment.id}:${split.splitRuleId}`,
+        description: `Split to ${split.recipientWallet}`,
+      },
+      [
+        { account: "merchant_pending", direction: "debit", amount: split.splitAmount, splitRuleId: split.splitRuleId },
+        { account: "split_payable", direction: "credit", amount: split.splitAmount, splitRuleId: split.splitRuleId },
+      ]
+    );
   }
 }
 
@@ -221,10 +225,17 @@ export async function getFeeSummary(paymentId: string): Promise<{
     throw new Error("Payment not found");
   }
 
+  // The merchant side of each fee/split transaction
   const entries = await db
     .select()
     .from(ledgerEntries)
-    .where(eq(ledgerEntries.paymentId, paymentId));
+    .where(
+      and(
+        eq(ledgerEntries.paymentId, paymentId),
+        inArray(ledgerEntries.entryType, ["fee", "split"]),
+        eq(ledgerEntries.direction, "debit")
+      )
+    );
 
   let fees = 0;
   let splits = 0;
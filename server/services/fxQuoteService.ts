@@ -5,8 +5,17 @@
  */
 
 import { db } from "../db.js";
-import { fxQuotes } from "../../shared/schema.js";
+import { fxQuotes, merchants } from "../../shared/schema.js";
 import { eq, and, gt, lt } from "drizzle-orm";
+import { storage } from "../storage.js";
+import { toLedgerUnits } from "./ledgerService.js";
+import { createFxRateProvider, FxRateUnavailableError, type FxCurrency, type FxMidRate } from "./fxRateProviders.js";
+import { FX_RATE_CACHE_TTL_SECONDS, FX_RATE_MAX_STALENESS_SECONDS } from "../config.js";
+
+type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export const FX_SPREAD_CONFIG_KEY = "fx_spread_bps";
+export const MAX_FX_SPREAD_BPS = 1000; // 10%
 
 export interface CreateFxQuoteRequest {
   paymentId?: string;
@@ -24,6 +33,10 @@ export interface FxQuote {
   fromCurrency: string;
   toCurrency: string;
   rate: string;
+  provider: string | null;
+  midRate: string | null;
+  spreadBps: number;
+  rateAsOf: Date | null;
   amount: string;
   convertedAmount: string;
   status: "active" | "expired" | "used";
@@ -31,23 +44,91 @@ export interface FxQuote {
   createdAt: Date;
 }
 
-// Mock FX rates (in production, fetch from on-chain DEX or oracle)
-const FX_RATES: Record<string, number> = {
-  "USDC_EURC": 0.92, // 1 USDC = 0.92 EURC
-  "EURC_USDC": 1.087, // 1 EURC = 1.087 USDC
-};
+/**
+ * A quote that can't be used for the payment it was offered for
+ */
+export class FxQuoteError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FxQuoteError";
+  }
+}
+
+export interface FxQuoteUsage {
+  merchantId: string;
+  fromCurrency: string;
+  toCurrency: string;
+  amount: string;
+}
+
+const rateProvider = createFxRateProvider();
+const rateCache = new Map<string, { midRate: FxMidRate; fetchedAt: number }>();
 
 /**
- * Get current FX rate (mock implementation)
- * In production, this would fetch from on-chain DEX or oracle
+ * Get the mid-market rate for a pair, cached for FX_RATE_CACHE_TTL_SECONDS
+ * Throws FxRateUnavailableError when the provider has no rate or its rate is too old to quote.
  */
-function getFxRate(fromCurrency: "USDC" | "EURC", toCurrency: "USDC" | "EURC"): number {
+export async function getMidRate(fromCurrency: FxCurrency, toCurrency: FxCurrency): Promise<FxMidRate> {
   if (fromCurrency === toCurrency) {
-    return 1.0;
+    return { provider: "identity", rate: 1.0, asOf: new Date() };
   }
 
   const key = `${fromCurrency}_${toCurrency}`;
-  return FX_RATES[key] || 1.0;
+  const cached = rateCache.get(key);
+  let midRate: FxMidRate;
+
+  if (cached && Date.now() - cached.fetchedAt < FX_RATE_CACHE_TTL_SECONDS * 1000) {
+    midRate = cached.midRate;
+  } else {
+    midRate = await rateProvider.getMidRate(fromCurrency, toCurrency);
+    if (!Number.isFinite(midRate.rate) || midRate.rate <= 0) {
+      throw new FxRateUnavailableError(`${midRate.provider} returned an invalid rate for ${key}`);
+    }
+    rateCache.set(key, { midRate, fetchedAt: Date.now() });
+  }
+
+  const ageSeconds = (Date.now() - midRate.asOf.getTime()) / 1000;
+  if (ageSeconds > FX_RATE_MAX_STALENESS_SECONDS) {
+    throw new FxRateUnavailableError(
+      `${midRate.provider} rate for ${key} is stale (updated ${Math.round(ageSeconds)}s ago)`
+    );
+  }
+
+  return midRate;
+}
+
+/**
+ * Parse a spread in basis points; anything outside 0..MAX_FX_SPREAD_BPS is rejected
+ */
+export function parseSpreadBps(value: string | number | null | undefined): number | null {
+  if (value === null || value === undefined || value === "") {
+    return null;
+  }
+
+  const bps = Number(value);
+  if (!Number.isInteger(bps) || bps < 0 || bps > MAX_FX_SPREAD_BPS) {
+    return null;
+  }
+  return bps;
+}
+
+/**
+ * Spread for a merchant: its own override, else the global fx_spread_bps config, else none
+ */
+export async function getSpreadBps(merchantId?: string): Promise<number> {
+  if (merchantId) {
+    const [merchant] = await db
+      .select({ fxSpreadBps: merchants.fxSpreadBps })
+      .from(merchants)
+      .where(eq(merchants.id, merchantId));
+
+    if (merchant?.fxSpreadBps !== null && merchant?.fxSpreadBps !== undefined) {
+      return merchant.fxSpreadBps;
+    }
+  }
+
+  const config = await storage.getGlobalConfig(FX_SPREAD_CONFIG_KEY);
+  return parseSpreadBps(config?.value) ?? 0;
 }
 
 /**
@@ -58,7 +139,12 @@ export async function createFxQuote(request: CreateFxQuoteRequest): Promise<FxQu
   const expiresInSeconds = request.expiresInSeconds || 30; // Default 30 seconds
   const expiresAt = new Date(Date.now() + expiresInSeconds * 1000);
 
-  const rate = getFxRate(request.fromCurrency, request.toCurrency);
+  const midRate = await getMidRate(request.fromCurrency, request.toCurrency);
+  // Same-currency quotes carry no spread
+  const spreadBps = request.fromCurrency === request.toCurrency ? 0 : await getSpreadBps(request.merchantId);
+
+  // The spread is taken from the payer's side of the conversion
+  const rate = midRate.rate * (10000 - spreadBps) / 10000;
   const amount = parseFloat(request.amount);
   const convertedAmount = amount * rate;
 
@@ -69,7 +155,11 @@ export async function createFxQuote(request: CreateFxQuoteRequest): Promise<FxQu
       merchantId: request.merchantId || null,
       fromCurrency: request.fromCurrency,
       toCurrency: request.toCurrency,
-      rate: rate.toString(),
+      rate: rate.toFixed(8),
+      provider: midRate.provider,
+      midRate: midRate.rate.toFixed(8),
+      spreadBps,
+      rateAsOf: midRate.asOf,
       amount: request.amount,
       convertedAmount: convertedAmount.toFixed(6),
       status: "active",
@@ -109,12 +199,65 @@ export async function getFxQuote(quoteId: string): Promise<FxQuote | null> {
 
 /**
  * Mark FX quote as used
+ * Only an active, unexpired quote can be used; returns false if it was already used or has expired.
  */
-export async function markFxQuoteAsUsed(quoteId: string): Promise<void> {
-  await db
+export async function markFxQuoteAsUsed(quoteId: string): Promise<boolean> {
+  const [used] = await db
     .update(fxQuotes)
     .set({ status: "used" })
-    .where(eq(fxQuotes.id, quoteId));
+    .where(
+      and(
+        eq(fxQuotes.id, quoteId),
+        eq(fxQuotes.status, "active"),
+        gt(fxQuotes.expiresAt, new Date())
+      )
+    )
+    .returning({ id: fxQuotes.id });
+
+  return !!used;
+}
+
+/**
+ * Lock a quote for a payment inside the payment's transaction and mark it used
+ * The row lock plus the status check means a quote can back only one payment.
+ */
+export async function claimFxQuoteForPayment(
+  tx: DbTransaction,
+  quoteId: string,
+  paymentId: string,
+  usage: FxQuoteUsage
+): Promise<FxQuote> {
+  const [quote] = await tx
+    .select()
+    .from(fxQuotes)
+    .where(eq(fxQuotes.id, quoteId))
+    .for("update");
+
+  if (!quote || quote.merchantId !== usage.merchantId) {
+    throw new FxQuoteError("FX quote not found");
+  }
+  if (quote.status !== "active") {
+    throw new FxQuoteError(`FX quote is ${quote.status}`);
+  }
+  if (new Date(quote.expiresAt) <= new Date()) {
+    throw new FxQuoteError("FX quote has expired");
+  }
+  if (quote.fromCurrency !== usage.fromCurrency || quote.toCurrency !== usage.toCurrency) {
+    throw new FxQuoteError(
+      `FX quote is for ${quote.fromCurrency} → ${quote.toCurrency}, payment is ${usage.fromCurrency} → ${usage.toCurrency}`
+    );
+  }
+  if (toLedgerUnits(quote.amount) !== toLedgerUnits(usage.amount)) {
+    throw new FxQuoteError(`FX quote amount ${quote.amount} does not match payment amount ${usage.amount}`);
+  }
+
+  const [used] = await tx
+    .update(fxQuotes)
+    .set({ status: "used", paymentId })
+    .where(eq(fxQuotes.id, quoteId))
+    .returning();
+
+  return used as FxQuote;
 }
 
 /**
@@ -0,0 +1,228 @@
+/**
+ * FX Rate Providers
+ * Sources of mid-market rates for FX quotes: a static table, an on-chain price feed, or a JSON feed
+ */
+
+import { readFile } from "fs/promises";
+import { createPublicClient, http, type Address } from "viem";
+import {
+  FX_RATE_PROVIDER,
+  FX_STATIC_RATES,
+  FX_ORACLE_FEEDS,
+  FX_ORACLE_RPC_URL,
+  FX_FEED_URL,
+} from "../config.js";
+
+export type FxCurrency = "USDC" | "EURC";
+
+export interface FxMidRate {
+  provider: string;
+  rate: number; // 1 unit of fromCurrency = rate units of toCurrency
+  asOf: Date; // When the provider last updated the rate
+}
+
+export interface FxRateProvider {
+  readonly name: string;
+  getMidRate(fromCurrency: FxCurrency, toCurrency: FxCurrency): Promise<FxMidRate>;
+}
+
+export class FxRateUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FxRateUnavailableError";
+  }
+}
+
+const DEFAULT_STATIC_RATES: Record<string, number> = {
+  "USDC_EURC": 0.92, // 1 USDC = 0.92 EURC
+};
+
+/**
+ * Parse a JSON object of pair → value from config; invalid JSON is logged and ignored
+ */
+function parsePairMap<T>(value: string, label: string): Record<string, T> | null {
+  if (!value) {
+    return null;
+  }
+
+  try {
+    const parsed = JSON.parse(value);
+    if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+      return parsed as Record<string, T>;
+    }
+  } catch {
+    // fall through
+  }
+  console.warn(`${label} is not a valid JSON object, ignoring it`);
+  return null;
+}
+
+/**
+ * Look up a pair in a table, deriving it from the inverse pair when only that is listed
+ */
+function lookupPair(rates: Record<string, number>, fromCurrency: FxCurrency, toCurrency: FxCurrency): number | null {
+  const direct = Number(rates[`${fromCurrency}_${toCurrency}`]);
+  if (direct > 0) {
+    return direct;
+  }
+
+  const inverse = Number(rates[`${toCurrency}_${fromCurrency}`]);
+  if (inverse > 0) {
+    return 1 / inverse;
+  }
+
+  return null;
+}
+
+/**
+ * Fixed rates from FX_STATIC_RATES (or the built-in defaults)
+ */
+export class StaticFxRateProvider implements FxRateProvider {
+  readonly name = "static";
+  private rates: Record<string, number>;
+
+  constructor(rates?: Record<string, number>) {
+    this.rates = rates ?? parsePairMap<number>(FX_STATIC_RATES, "FX_STATIC_RATES") ?? DEFAULT_STATIC_RATES;
+  }
+
+  async getMidRate(fromCurrency: FxCurrency, toCurrency: FxCurrency): Promise<FxMidRate> {
+    const rate = lookupPair(this.rates, fromCurrency, toCurrency);
+    if (rate === null) {
+      throw new FxRateUnavailableError(`No static rate for ${fromCurrency}/${toCurrency}`);
+    }
+    // A static table never goes stale
+    return { provider: this.name, rate, asOf: new Date() };
+  }
+}
+
+const AGGREGATOR_V3_ABI = [
+  {
+    name: "decimals",
+    type: "function",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "uint8" }],
+  },
+  {
+    name: "latestRoundData",
+    type: "function",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [
+      { name: "roundId", type: "uint80" },
+      { name: "answer", type: "int256" },
+      { name: "startedAt", type: "uint256" },
+      { name: "updatedAt", type: "uint256" },
+      { name: "answeredInRound", type: "uint80" },
+    ],
+  },
+] as const;
+
+/**
+ * Reads Chainlink-style aggregators (latestRoundData) over JSON-RPC
+ * Each pair in FX_ORACLE_FEEDS points at a feed; the inverse pair is derived from it.
+ */
+export class OracleFxRateProvider implements FxRateProvider {
+  readonly name = "oracle";
+  private feeds: Record<string, string>;
+  private client;
+
+  constructor(feeds?: Record<string, string>, rpcUrl: string = FX_ORACLE_RPC_URL) {
+    this.feeds = feeds ?? parsePairMap<string>(FX_ORACLE_FEEDS, "FX_ORACLE_FEEDS") ?? {};
+    this.client = createPublicClient({ transport: http(rpcUrl) });
+  }
+
+  private async readFeed(address: Address): Promise<{ rate: number; asOf: Date }> {
+    const [decimals, round] = await Promise.all([
+      this.client.readContract({ address, abi: AGGREGATOR_V3_ABI, functionName: "decimals" }),
+      this.client.readContract({ address, abi: AGGREGATOR_V3_ABI, functionName: "latestRoundData" }),
+    ]);
+
+    const [, answer, , updatedAt] = round;
+    if (answer <= BigInt(0)) {
+      throw new FxRateUnavailableError(`Price feed ${address} returned a non-positive answer`);
+    }
+
+    return {
+      rate: Number(answer) / Math.pow(10, decimals),
+      asOf: new Date(Number(updatedAt) * 1000),
+    };
+  }
+
+  async getMidRate(fromCurrency: FxCurrency, toCurrency: FxCurrency): Promise<FxMidRate> {
+    const direct = this.feeds[`${fromCurrency}_${toCurrency}`];
+    if (direct) {
+      const { rate, asOf } = await this.readFeed(direct as Address);
+      return { provider: this.name, rate, asOf };
+    }
+
+    const inverse = this.feeds[`${toCurrency}_${fromCurrency}`];
+    if (inverse) {
+      const { rate, asOf } = await this.readFeed(inverse as Address);
+      return { provider: this.name, rate: 1 / rate, asOf };
+    }
+
+    throw new FxRateUnavailableError(`No price feed configured for ${fromCurrency}/${toCurrency}`);
+  }
+}
+
+/**
+ * Reads a JSON feed from an http(s) URL or a local file:
+ * {"rates": {"USDC_EURC": 0.92}, "updatedAt": "2025-01-01T00:00:00Z"}
+ */
+export class FeedFxRateProvider implements FxRateProvider {
+  readonly name = "feed";
+
+  constructor(private source: string = FX_FEED_URL) {}
+
+  private async load(): Promise<{ rates: Record<string, number>; updatedAt?: string | number }> {
+    if (!this.source) {
+      throw new FxRateUnavailableError("FX_FEED_URL is not configured");
+    }
+
+    if (/^https?:\/\//.test(this.source)) {
+      const response = await fetch(this.source, { headers: { Accept: "application/json" } });
+      if (!response.ok) {
+        throw new FxRateUnavailableError(`FX feed returned HTTP ${response.status}`);
+      }
+      return await response.json();
+    }
+
+    return JSON.parse(await readFile(this.source, "utf-8"));
+  }
+
+  async getMidRate(fromCurrency: FxCurrency, toCurrency: FxCurrency): Promise<FxMidRate> {
+    const feed = await this.load();
+    const rate = lookupPair(feed.rates || {}, fromCurrency, toCurrency);
+    if (rate === null) {
+      throw new FxRateUnavailableError(`FX feed has no rate for ${fromCurrency}/${toCurrency}`);
+    }
+
+    // Numeric timestamps are unix seconds
+    const asOf = typeof feed.updatedAt === "number"
+      ? new Date(feed.updatedAt * 1000)
+      : feed.updatedAt ? new Date(feed.updatedAt) : new Date();
+    if (isNaN(asOf.getTime())) {
+      throw new FxRateUnavailableError("FX feed has an invalid updatedAt");
+    }
+
+    return { provider: this.name, rate, asOf };
+  }
+}
+
+/**
+ * Build the provider selected by FX_RATE_PROVIDER
+ */
+export function createFxRateProvider(name: string = FX_RATE_PROVIDER): FxRateProvider {
+  switch (name) {
+    case "static":
+      return new StaticFxRateProvider();
+    case "oracle":
+      return new OracleFxRateProvider();
+    case "feed":
+      return new FeedFxRateProvider();
+    default:
+      console.warn(`Unknown FX_RATE_PROVIDER "${name}", using the static table`);
+      return new StaticFxRateProvider();
+  }
+}
@@ -0,0 +1,624 @@
+/**
+ * Ledger Service
+ * Double-entry accounting for merchant balances: captures, fees, splits, refunds and payouts.
+ * Every business event is one ledger transaction whose debits and credits balance.
+ * Test and live funds are kept apart: every account is per merchant, currency and mode.
+ * treasury_balances is a projection of the live ledger and is re-derived after every posting.
+ */
+
+import { db } from "../db.js";
+import {
+  ledgerTransactions,
+  ledgerEntries,
+  payments,
+  refunds,
+  payouts,
+  treasuryBalances,
+  type LedgerTransaction,
+} from "../../shared/schema.js";
+import { eq, and, inArray, isNull, lte, sql } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+import { storage } from "../storage.js";
+import { BALANCE_AVAILABILITY_DELAY_MINUTES, BALANCE_RELEASE_INTERVAL } from "../config.js";
+
+/**
+ * Ledger accounts (per merchant, currency and mode)
+ * - external: money outside the gateway (payers, payout destinations)
+ * - merchant_pending: captured funds not yet available to the merchant
+ * - merchant_available: funds the merchant can pay out or refund from
+ * - platform_fees: fees earned by the platform
+ * - split_payable: amounts owed to split recipients
+ */
+export type LedgerAccount =
+  | "external"
+  | "merchant_pending"
+  | "merchant_available"
+  | "platform_fees"
+  | "split_payable";
+
+export type LedgerTransactionType = LedgerTransaction["type"];
+
+export interface LedgerPosting {
+  account: LedgerAccount;
+  direction: "debit" | "credit";
+  amount: string;
+  description?: string;
+  feeRuleId?: string;
+  splitRuleId?: string;
+}
+
+export interface PostLedgerTransactionRequest {
+  merchantId: string;
+  type: LedgerTransactionType;
+  currency: string;
+  isTest: boolean;
+  idempotencyKey: string;
+  paymentId?: string;
+  refundId?: string;
+  payoutId?: string;
+  description?: string;
+  metadata?: Record<string, any>;
+}
+
+export interface MerchantBalance {
+  currency: string;
+  available: string;
+  pending: string;
+  total: string;
+}
+
+export interface MerchantBalances {
+  live: MerchantBalance[];
+  test: MerchantBalance[];
+}
+
+// Matches decimal(18, 6) on ledger_entries.amount
+const LEDGER_SCALE = 6;
+
+/**
+ * Convert a decimal amount to integer ledger units (no float rounding)
+ */
+export function toLedgerUnits(amount: string): bigint {
+  const trimmed = amount.trim();
+  const negative = trimmed.startsWith("-");
+  const [whole, fraction = ""] = trimmed.replace(/^[-+]/, "").split(".");
+  const units = BigInt((whole || "0") + fraction.padEnd(LEDGER_SCALE, "0").slice(0, LEDGER_SCALE));
+  return negative ? -units : units;
+}
+
+/**
+ * Format integer ledger units as a decimal string
+ */
+export function fromLedgerUnits(units: bigint): string {
+  const negative = units < BigInt(0);
+  const digits = (negative ? -units : units).toString().padStart(LEDGER_SCALE + 1, "0");
+  const whole = digits.slice(0, digits.length - LEDGER_SCALE);
+  const fraction = digits.slice(digits.length - LEDGER_SCALE);
+  return `${negative ? "-" : ""}${whole}.${fraction}`;
+}
+
+/**
+ * Post a balanced ledger transaction.
+ * Returns null if a transaction with the same idempotency key was already posted.
+ */
+export async function postLedgerTransaction(
+  request: PostLedgerTransactionRequest,
+  postings: LedgerPosting[]
+): Promise<LedgerTransaction | null> {
+  let debits = BigInt(0);
+  let credits = BigInt(0);
+  for (const posting of postings) {
+    const units = toLedgerUnits(posting.amount);
+    if (units <= BigInt(0)) {
+      throw new Error(`Ledger posting amounts must be positive (got ${posting.amount})`);
+    }
+    if (posting.direction === "debit") {
+      debits += units;
+    } else {
+      credits += units;
+    }
+  }
+
+  if (postings.length < 2 || debits !== credits) {
+    throw new Error(
+      `Unbalanced ledger transaction ${request.idempotencyKey}: debits ${fromLedgerUnits(debits)} != credits ${fromLedgerUnits(credits)}`
+    );
+  }
+
+  const transaction = await db.transaction(async (tx) => {
+    const [created] = await tx
+      .insert(ledgerTransactions)
+      .values({
+        merchantId: request.merchantId,
+        type: request.type,
+        currency: request.currency,
+        paymentId: request.paymentId || null,
+        refundId: request.refundId || null,
+        payoutId: request.payoutId || null,
+        idempotencyKey: request.idempotencyKey,
+        description: request.description || null,
+        isTest: request.isTest,
+      })
+      .onConflictDoNothing({ target: ledgerTransactions.idempotencyKey })
+      .returning();
+
+    if (!created) {
+      return null; // Already posted
+    }
+
+    await tx.insert(ledgerEntries).values(
+      postings.map((posting) => ({
+        transactionId: created.id,
+        merchantId: request.merchantId,
+        paymentId: request.paymentId || null,
+        entryType: request.type,
+        account: posting.account,
+        direction: posting.direction,
+        amount: posting.amount,
+        currency: request.currency,
+        description: posting.description || request.description || null,
+        feeRuleId: posting.feeRuleId || null,
+        splitRuleId: posting.splitRuleId || null,
+        metadata: request.metadata ? JSON.stringify(request.metadata) : null,
+        isTest: request.isTest,
+      }))
+    );
+
+    return created;
+  });
+
+  if (transaction && !request.isTest) {
+    await syncTreasuryBalance(request.merchantId, request.currency).catch((error) => {
+      console.error("Failed to sync treasury balance:", error);
+    });
+  }
+
+  return transaction;
+}
+
+/**
+ * Balance of an account from the merchant's point of view (credits - debits), in ledger units
+ */
+async function getAccountBalanceUnits(
+  merchantId: string,
+  account: LedgerAccount,
+  filters: { currency?: string; paymentId?: string; isTest?: boolean } = {}
+): Promise<bigint> {
+  const [row] = await db
+    .select({
+      balance: sql<string>`coalesce(sum(case when ${ledgerEntries.direction} = 'credit' then ${ledgerEntries.amount} else -${ledgerEntries.amount} end), 0)`,
+    })
+    .from(ledgerEntries)
+    .where(
+      and(
+        eq(ledgerEntries.merchantId, merchantId),
+        eq(ledgerEntries.account, account),
+        filters.currency ? eq(ledgerEntries.currency, filters.currency) : undefined,
+        filters.paymentId ? eq(ledgerEntries.paymentId, filters.paymentId) : undefined,
+        filters.isTest !== undefined ? eq(ledgerEntries.isTest, filters.isTest) : undefined
+      )
+    );
+
+  return toLedgerUnits(String(row?.balance ?? "0"));
+}
+
+/**
+ * Available and pending balance per mode and currency, derived from the ledger
+ */
+export async function getMerchantBalances(merchantId: string): Promise<MerchantBalances> {
+  const rows = await db
+    .select({
+      isTest: ledgerEntries.isTest,
+      currency: ledgerEntries.currency,
+      account: ledgerEntries.account,
+      balance: sql<string>`sum(case when ${ledgerEntries.direction} = 'credit' then ${ledgerEntries.amount} else -${ledgerEntries.amount} end)`,
+    })
+    .from(ledgerEntries)
+    .where(
+      and(
+        eq(ledgerEntries.merchantId, merchantId),
+        inArray(ledgerEntries.account, ["merchant_pending", "merchant_available"])
+      )
+    )
+    .groupBy(ledgerEntries.isTest, ledgerEntries.currency, ledgerEntries.account);
+
+  const byMode = {
+    live: new Map<string, { available: bigint; pending: bigint }>(),
+    test: new Map<string, { available: bigint; pending: bigint }>(),
+  };
+  for (const row of rows) {
+    const byCurrency = row.isTest ? byMode.test : byMode.live;
+    const balance = byCurrency.get(row.currency) || { available: BigInt(0), pending: BigInt(0) };
+    const units = toLedgerUnits(String(row.balance ?? "0"));
+    if (row.account === "merchant_available") {
+      balance.available += units;
+    } else {
+      balance.pending += units;
+    }
+    byCurrency.set(row.currency, balance);
+  }
+
+  const toBalances = (byCurrency: Map<string, { available: bigint; pending: bigint }>): MerchantBalance[] =>
+    Array.from(byCurrency.entries()).map(([currency, balance]) => ({
+      currency,
+      available: fromLedgerUnits(balance.available),
+      pending: fromLedgerUnits(balance.pending),
+      total: fromLedgerUnits(balance.available + balance.pending),
+    }));
+
+  return { live: toBalances(byMode.live), test: toBalances(byMode.test) };
+}
+
+/**
+ * Available balance for a single currency and mode
+ */
+export async function getAvailableBalance(merchantId: string, currency: string, isTest: boolean): Promise<string> {
+  return fromLedgerUnits(await getAccountBalanceUnits(merchantId, "merchant_available", { currency, isTest }));
+}
+
+/**
+ * Re-derive the treasury balance (live available + pending) for a currency from the ledger
+ * Returns the balance before and after so callers can report drift.
+ */
+export async function syncTreasuryBalance(
+  merchantId: string,
+  currency: string
+): Promise<{ currency: string; previousBalance: string; ledgerBalance: string }> {
+  const available = await getAccountBalanceUnits(merchantId, "merchant_available", { currency, isTest: false });
+  const pending = await getAccountBalanceUnits(merchantId, "merchant_pending", { currency, isTest: false });
+  const ledgerBalance = fromLedgerUnits(available + pending);
+
+  const existing = await storage.getTreasuryBalance(merchantId, currency);
+  const previousBalance = existing ? fromLedgerUnits(toLedgerUnits(existing.balance)) : fromLedgerUnits(BigInt(0));
+
+  if (!existing) {
+    await storage.createTreasuryBalance({ merchantId, currency, balance: ledgerBalance });
+  } else if (previousBalance !== ledgerBalance) {
+    await storage.updateTreasuryBalance(existing.id, { balance: ledgerBalance });
+  }
+
+  return { currency, previousBalance, ledgerBalance };
+}
+
+/**
+ * Record a confirmed payment: capture into pending, apply fees and splits,
+ * then release to available once the availability delay has passed
+ */
+export async function recordPaymentCapture(paymentId: string): Promise<void> {
+  const [payment] = await db
+    .select()
+    .from(payments)
+    .where(eq(payments.id, paymentId))
+    .limit(1);
+
+  if (!payment || !["confirmed", "partially_refunded", "refunded"].includes(payment.status)) {
+    return; // Only captured payments are booked
+  }
+
+  await postLedgerTransaction(
+    {
+      merchantId: payment.merchantId,
+      type: "capture",
+      currency: payment.currency,
+      isTest: payment.isTest,
+      paymentId: payment.id,
+      idempotencyKey: `capture:${payment.id}`,
+      description: "Payment captured",
+    },
+    [
+      { account: "external", direction: "debit", amount: payment.amount },
+      { account: "merchant_pending", direction: "credit", amount: payment.amount },
+    ]
+  );
+
+  const { applyFeesAndSplits } = await import("./feeSplitService.js");
+  await applyFeesAndSplits(payment.id);
+
+  if (BALANCE_AVAILABILITY_DELAY_MINUTES <= 0) {
+    await releasePaymentFunds(payment.id);
+  }
+}
+
+/**
+ * Move a payment's remaining pending funds (gross minus fees and splits) to available
+ */
+export async function releasePaymentFunds(paymentId: string): Promise<void> {
+  const [payment] = await db
+    .select()
+    .from(payments)
+    .where(eq(payments.id, paymentId))
+    .limit(1);
+
+  if (!payment) {
+    throw new Error("Payment not found");
+  }
+
+  const pending = await getAccountBalanceUnits(payment.merchantId, "merchant_pending", { paymentId });
+  if (pending <= BigInt(0)) {
+    return;
+  }
+
+  const amount = fromLedgerUnits(pending);
+  await postLedgerTransaction(
+    {
+      merchantId: payment.merchantId,
+      type: "release",
+      currency: payment.currency,
+      isTest: payment.isTest,
+      paymentId: payment.id,
+      idempotencyKey: `release:${payment.id}`,
+      description: "Funds available",
+    },
+    [
+      { account: "merchant_pending", direction: "debit", amount },
+      { account: "merchant_available", direction: "credit", amount },
+    ]
+  );
+}
+
+/**
+ * Record a completed refund: the refund leaves the payment's pending funds first and the
+ * merchant's available balance for the rest, and the payment's fees and splits are reversed
+ * in proportion to the refunded share, so the merchant only bears its net share. The refund
+ * that completes the payment reverses whatever is left, so no rounding dust remains.
+ */
+export async function recordRefund(refundId: string): Promise<void> {
+  const [refund] = await db
+    .select()
+    .from(refunds)
+    .where(eq(refunds.id, refundId))
+    .limit(1);
+
+  if (!refund || refund.status !== "completed") {
+    return;
+  }
+
+  const [payment] = await db
+    .select()
+    .from(payments)
+    .where(eq(payments.id, refund.paymentId))
+    .limit(1);
+
+  if (!payment) {
+    throw new Error("Payment not found");
+  }
+
+  const entries = await db
+    .select()
+    .from(ledgerEntries)
+    .where(eq(ledgerEntries.paymentId, payment.id));
+
+  // Fees/splits charged on the payment minus what earlier refunds already reversed
+  let feeRemaining = BigInt(0);
+  let feeRuleId: string | undefined;
+  let refundedBefore = BigInt(0);
+  const splitRemaining = new Map<string, bigint>();
+
+  for (const entry of entries) {
+    const units = toLedgerUnits(entry.amount);
+    if (entry.account === "platform_fees") {
+      feeRemaining += entry.direction === "credit" ? units : -units;
+      feeRuleId = feeRuleId || entry.feeRuleId || undefined;
+    } else if (entry.account === "split_payable" && entry.splitRuleId) {
+      const current = splitRemaining.get(entry.splitRuleId) || BigInt(0);
+      splitRemaining.set(entry.splitRuleId, current + (entry.direction === "credit" ? units : -units));
+    } else if (entry.account === "external" && entry.entryType === "refund" && entry.direction === "credit") {
+      refundedBefore += units;
+    }
+  }
+
+  const paymentUnits = toLedgerUnits(payment.amount);
+  const refundUnits = toLedgerUnits(refund.amount);
+  const isFinalRefund = refundedBefore + refundUnits >= paymentUnits;
+
+  // Share of the original charge to reverse, capped at what's left to reverse
+  const reversal = (remaining: bigint, original: bigint): bigint => {
+    if (remaining <= BigInt(0)) return BigInt(0);
+    if (isFinalRefund) return remaining;
+    const share = (original * refundUnits) / paymentUnits;
+    return share < remaining ? share : remaining;
+  };
+
+  const originalFee = entries
+    .filter((e) => e.account === "platform_fees" && e.entryType === "fee" && e.direction === "credit")
+    .reduce((sum, e) => sum + toLedgerUnits(e.amount), BigInt(0));
+
+  // While the payment's funds are unreleased, reversals go back to pending and the refund
+  // is paid from there, so available funds from other payments aren't touched
+  const pending = await getAccountBalanceUnits(payment.merchantId, "merchant_pending", { paymentId: payment.id });
+  const reversalAccount: LedgerAccount = pending > BigInt(0) ? "merchant_pending" : "merchant_available";
+  let reversed = BigInt(0);
+
+  const postings: LedgerPosting[] = [
+    { account: "external", direction: "credit", amount: refund.amount },
+  ];
+
+  const feeReversal = reversal(feeRemaining, originalFee);
+  if (feeReversal > BigInt(0)) {
+    const amount = fromLedgerUnits(feeReversal);
+    reversed += feeReversal;
+    postings.push(
+      { account: "platform_fees", direction: "debit", amount, feeRuleId, description: "Fee reversed" },
+      { account: reversalAccount, direction: "credit", amount, feeRuleId, description: "Fee reversed" }
+    );
+  }
+
+  for (const [splitRuleId, remaining] of Array.from(splitRemaining.entries())) {
+    const originalSplit = entries
+      .filter((e) => e.account === "split_payable" && e.entryType === "split" && e.direction === "credit" && e.splitRuleId === splitRuleId)
+      .reduce((sum, e) => sum + toLedgerUnits(e.amount), BigInt(0));
+    const splitReversal = reversal(remaining, originalSplit);
+    if (splitReversal > BigInt(0)) {
+      const amount = fromLedgerUnits(splitReversal);
+      reversed += splitReversal;
+      postings.push(
+        { account: "split_payable", direction: "debit", amount, splitRuleId, description: "Split reversed" },
+        { account: reversalAccount, direction: "credit", amount, splitRuleId, description: "Split reversed" }
+      );
+    }
+  }
+
+  const pendingPool = pending > BigInt(0) ? pending + reversed : BigInt(0);
+  const fromPending = refundUnits < pendingPool ? refundUnits : pendingPool;
+  if (fromPending > BigInt(0)) {
+    postings.unshift({ account: "merchant_pending", direction: "debit", amount: fromLedgerUnits(fromPending) });
+  }
+  if (refundUnits > fromPending) {
+    postings.unshift({ account: "merchant_available", direction: "debit", amount: fromLedgerUnits(refundUnits - fromPending) });
+  }
+
+  await postLedgerTransaction(
+    {
+      merchantId: refund.merchantId,
+      type: "refund",
+      currency: refund.currency,
+      isTest: payment.isTest,
+      paymentId: refund.paymentId,
+      refundId: refund.id,
+      idempotencyKey: `refund:${refund.id}`,
+      description: isFinalRefund ? "Refund sent to payer" : "Partial refund sent to payer",
+    },
+    postings
+  );
+}
+
+/**
+ * Record a completed payout (funds leave the merchant's available balance)
+ */
+export async function recordPayout(payoutId: string): Promise<void> {
+  const [payout] = await db
+    .select()
+    .from(payouts)
+    .where(eq(payouts.id, payoutId))
+    .limit(1);
+
+  if (!payout || payout.status !== "completed") {
+    return;
+  }
+
+  await postLedgerTransaction(
+    {
+      merchantId: payout.merchantId,
+      type: "payout",
+      currency: payout.currency,
+      isTest: payout.isTest,
+      payoutId: payout.id,
+      idempotencyKey: `payout:${payout.id}`,
+      description: `Payout to ${payout.destinationWallet}`,
+    },
+    [
+      { account: "merchant_available", direction: "debit", amount: payout.amount },
+      { account: "external", direction: "credit", amount: payout.amount },
+    ]
+  );
+}
+
+/**
+ * Release pending funds whose availability delay has passed
+ */
+export async function releaseDueFunds(): Promise<number> {
+  const cutoff = new Date(Date.now() - BALANCE_AVAILABILITY_DELAY_MINUTES * 60 * 1000);
+  const releases = alias(ledgerTransactions, "releases");
+
+  const due = await db
+    .select({ paymentId: ledgerTransactions.paymentId })
+    .from(ledgerTransactions)
+    .leftJoin(
+      releases,
+      and(eq(releases.paymentId, ledgerTransactions.paymentId), eq(releases.type, "release"))
+    )
+    .where(
+      and(
+        eq(ledgerTransactions.type, "capture"),
+        lte(ledgerTransactions.createdAt, cutoff),
+        isNull(releases.id),
+        // A payment refunded in full before release has nothing left to release
+        sql`exists (
+          select 1 from ${ledgerEntries}
+          where ${ledgerEntries.paymentId} = ${ledgerTransactions.paymentId} and ${ledgerEntries.account} = 'merchant_pending'
+          having sum(case when ${ledgerEntries.direction} = 'credit' then ${ledgerEntries.amount} else -${ledgerEntries.amount} end) > 0
+        )`
+      )
+    )
+    .limit(100);
+
+  for (const { paymentId } of due) {
+    if (!paymentId) continue;
+    await releasePaymentFunds(paymentId).catch((error) => {
+      console.error(`Failed to release funds for payment ${paymentId}:`, error);
+    });
+  }
+
+  return due.length;
+}
+
+/**
+ * Start the balance release job (runs every minute)
+ */
+export function startBalanceReleaseJob(): void {
+  setInterval(() => {
+    releaseDueFunds().catch(console.error);
+  }, BALANCE_RELEASE_INTERVAL);
+
+  console.log(
+    `Balance release job started (funds available ${BALANCE_AVAILABILITY_DELAY_MINUTES} minutes after capture)`
+  );
+}
+
+/**
+ * Book any captured payments, completed refunds and completed payouts missing from the
+ * ledger (e.g. recorded before the ledger existed), then re-derive treasury balances.
+ * Returns the treasury balance before and after per currency.
+ */
+export async function reconcileMerchantLedger(merchantId: string) {
+  const merchantPayments = await db
+    .select()
+    .from(payments)
+    .where(and(eq(payments.merchantId, merchantId), inArray(payments.status, ["confirmed", "partially_refunded", "refunded"])));
+
+  for (const payment of merchantPayments) {
+    await recordPaymentCapture(payment.id);
+  }
+
+  const completedRefunds = await db
+    .select()
+    .from(refunds)
+    .where(and(eq(refunds.merchantId, merchantId), eq(refunds.status, "completed")));
+
+  for (const refund of completedRefunds) {
+    await recordRefund(refund.id);
+  }
+
+  const completedPayouts = await db
+    .select()
+    .from(payouts)
+    .where(and(eq(payouts.merchantId, merchantId), eq(payouts.status, "completed")));
+
+  for (const payout of completedPayouts) {
+    await recordPayout(payout.id);
+  }
+
+  const ledgerCurrencies = await db
+    .selectDistinct({ currency: ledgerEntries.currency })
+    .from(ledgerEntries)
+    .where(and(eq(ledgerEntries.merchantId, merchantId), eq(ledgerEntries.isTest, false)));
+  const treasuryCurrencies = await db
+    .select({ currency: treasuryBalances.currency })
+    .from(treasuryBalances)
+    .where(eq(treasuryBalances.merchantId, merchantId));
+
+  const currencies = Array.from(
+    new Set([...ledgerCurrencies, ...treasuryCurrencies].map((row) => row.currency))
+  );
+
+  const results = [];
+  for (const currency of currencies) {
+    const result = await syncTreasuryBalance(merchantId, currency);
+    results.push({
+      ...result,
+      difference: fromLedgerUnits(toLedgerUnits(result.ledgerBalance) - toLedgerUnits(result.previousBalance)),
+    });
+  }
+
+  return results;
+}
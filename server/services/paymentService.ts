@@ -4,12 +4,41 @@
  */
 
 import { db } from "../db.js";
-import { payments, paymentAuditLogs } from "../../shared/schema.js";
-import { eq, and, lt, isNotNull, or } from "drizzle-orm";
+import { payments, paymentAuditLogs, chainTransfers } from "../../shared/schema.js";
+import { eq, and, lt, isNotNull, or, ne, inArray, sql } from "drizzle-orm";
 import { dispatchWebhook } from "./webhookService.js";
-import { verifyTransaction, getExplorerLink, getBlockTimestamp } from "./arcService.js";
+import type { PaymentEventData } from "../../shared/webhookEvents.js";
+import { verifyTokenTransfer, getExplorerLink, getBlockTimestamp, type ExpectedTransfer, type TransferVerification } from "./arcService.js";
 import { recordPaymentProofOnChain } from "./contractService.js";
-import { DEMO_MODE } from "../config.js";
+import { getRequiredConfirmations } from "./confirmationPolicy.js";
+import { claimFxQuoteForPayment } from "./fxQuoteService.js";
+import { DEMO_MODE, USDC_TOKEN_ADDRESS, USDC_DECIMALS, EURC_TOKEN_ADDRESS, EURC_DECIMALS } from "../config.js";
+
+type Payment = typeof payments.$inferSelect;
+
+/**
+ * Shape a payment for webhook event data (same shape for every payment.* event)
+ */
+export function toPaymentEventData(payment: Payment): PaymentEventData {
+  return {
+    id: payment.id,
+    amount: payment.amount,
+    currency: payment.currency,
+    settlementCurrency: payment.settlementCurrency,
+    status: payment.status,
+    merchantWallet: payment.merchantWallet || "",
+    payerWallet: payment.payerWallet,
+    txHash: payment.txHash,
+    explorerLink: payment.txHash ? getExplorerLink(payment.txHash) : null,
+    expiresAt: payment.expiresAt,
+    idempotencyKey: payment.idempotencyKey,
+    settlementTime: payment.settlementTime,
+    refundedAmount: payment.refundedAmount,
+    fxQuoteId: payment.fxQuoteId,
+    fxRate: payment.fxRate,
+    convertedAmount: payment.convertedAmount,
+  };
+}
 
 export interface CreatePaymentRequest {
   merchantId: string;
@@ -27,11 +56,38 @@ export interface CreatePaymentRequest {
   isTest?: boolean;
   gasSponsored?: boolean; // Gas sponsorship preference
   idempotencyKey?: string; // Idempotency key for duplicate request prevention
+  fxQuoteId?: string; // Locks the currency → settlementCurrency rate
+  priceId?: string; // Catalog price the amount was taken from
+}
+
+/**
+ * An idempotency key reused for a payment with different parameters
+ */
+export class IdempotencyConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "IdempotencyConflictError";
+  }
+}
+
+/**
+ * Parameters of an existing payment that differ from a repeated create request
+ */
+function getIdempotencyMismatches(existing: Payment, request: CreatePaymentRequest): string[] {
+  const mismatches: string[] = [];
+  if (parseFloat(existing.amount) !== parseFloat(request.amount)) mismatches.push("amount");
+  if (existing.currency !== (request.currency || "USDC")) mismatches.push("currency");
+  if (existing.settlementCurrency !== (request.settlementCurrency || "USDC")) mismatches.push("settlementCurrency");
+  if ((request.fxQuoteId ?? null) !== existing.fxQuoteId) mismatches.push("fxQuoteId");
+  if ((request.priceId ?? null) !== existing.priceId) mismatches.push("priceId");
+  if (request.merchantWallet && request.merchantWallet.toLowerCase() !== existing.merchantWallet?.toLowerCase()) mismatches.push("merchantWallet");
+  return mismatches;
 }
 
 /**
  * Create a new payment (PaymentIntent)
- * Supports idempotency via idempotencyKey
+ * Supports idempotency via idempotencyKey; reusing a key with different parameters throws IdempotencyConflictError
+ * With fxQuoteId, the quote is validated and marked used in the same transaction as the insert.
  */
 export async function createPayment(request: CreatePaymentRequest) {
   // Check for existing payment with same idempotency key
@@ -48,6 +104,12 @@ export async function createPayment(request: CreatePaymentRequest) {
       .limit(1);
 
     if (existingPayment.length > 0) {
+      const mismatches = getIdempotencyMismatches(existingPayment[0], request);
+      if (mismatches.length > 0) {
+        throw new IdempotencyConflictError(
+          `idempotencyKey was already used for a payment with a different ${mismatches.join(", ")}`
+        );
+      }
       // Return existing payment (idempotent)
       return existingPayment[0];
     }
@@ -63,28 +125,49 @@ export async function createPayment(request: CreatePaymentRequest) {
     metadata = JSON.stringify({ gasSponsored: request.gasSponsored });
   }
 
-  const [payment] = await db
-    .insert(payments)
-    .values({
+  const payment = await db.transaction(async (tx) => {
+    const [created] = await tx
+      .insert(payments)
+      .values({
+        merchantId: request.merchantId,
+        amount: request.amount,
+        currency: request.currency || "USDC",
+        settlementCurrency: request.settlementCurrency || "USDC",
+        paymentAsset: request.paymentAsset,
+        paymentChainId: request.paymentChainId,
+        conversionPath: request.conversionPath,
+        estimatedFees: request.estimatedFees,
+        status: "created",
+        description: request.description,
+        customerEmail: request.customerEmail,
+        merchantWallet: request.merchantWallet,
+        isDemo: false, // Real payments only - no demo mode
+        isTest: request.isTest !== undefined ? request.isTest : true, // Default to test mode only if not provided
+        expiresAt,
+        metadata,
+        idempotencyKey: request.idempotencyKey || null,
+        priceId: request.priceId || null,
+      })
+      .returning();
+
+    if (!request.fxQuoteId) {
+      return created;
+    }
+
+    const quote = await claimFxQuoteForPayment(tx, request.fxQuoteId, created.id, {
       merchantId: request.merchantId,
-      amount: request.amount,
-      currency: request.currency || "USDC",
-      settlementCurrency: request.settlementCurrency || "USDC",
-      paymentAsset: request.paymentAsset,
-      paymentChainId: request.paymentChainId,
-      conversionPath: request.conversionPath,
-      estimatedFees: request.estimatedFees,
-      status: "created",
-      description: request.description,
-      customerEmail: request.customerEmail,
-      merchantWallet: request.merchantWallet,
-      isDemo: false, // Real payments only - no demo mode
-      isTest: request.isTest !== undefined ? request.isTest : true, // Default to test mode only if not provided
-      expiresAt,
-      metadata,
-      idempotencyKey: request.idempotencyKey || null,
-    })
-    .returning();
+      fromCurrency: created.currency,
+      toCurrency: created.settlementCurrency,
+      amount: created.amount,
+    });
+
+    const [withQuote] = await tx
+      .update(payments)
+      .set({ fxQuoteId: quote.id, fxRate: quote.rate, convertedAmount: quote.convertedAmount })
+      .where(eq(payments.id, created.id))
+      .returning();
+    return withQuote;
+  });
 
   // Create audit log
   await db.insert(paymentAuditLogs).values({
@@ -93,45 +176,253 @@ export async function createPayment(request: CreatePaymentRequest) {
     action: "created",
     fromStatus: null,
     toStatus: "created",
-    metadata: JSON.stringify({ idempotencyKey: request.idempotencyKey }),
-  }).catch(console.error);
-
-  // Dispatch webhooks (non-blocking)
-  // PaymentIntent events (new)
-  dispatchWebhook(request.merchantId, "payment.intent.created", {
-    type: "payment.intent.created",
-    data: {
-      id: payment.id,
-      amount: payment.amount,
-      currency: payment.currency,
-      settlementCurrency: payment.settlementCurrency,
-      status: payment.status,
-      merchantWallet: payment.merchantWallet,
-      expiresAt: payment.expiresAt,
-      idempotencyKey: payment.idempotencyKey,
-    },
+    metadata: JSON.stringify({ idempotencyKey: request.idempotencyKey, fxQuoteId: payment.fxQuoteId }),
   }).catch(console.error);
 
-  // Legacy event (backward compatibility)
-  dispatchWebhook(request.merchantId, "payment.created", {
-    type: "payment.created",
-    data: {
-      id: payment.id,
-      amount: payment.amount,
-      currency: payment.currency,
-      status: payment.status,
-      merchantWallet: payment.merchantWallet,
-      expiresAt: payment.expiresAt,
-    },
+  // Dispatch webhook (non-blocking); legacy payment.created is an alias of this event
+  dispatchWebhook(request.merchantId, "payment.intent.created", toPaymentEventData(payment), {
+    livemode: !payment.isTest,
   }).catch(console.error);
 
   return payment;
 }
 
+/**
+ * Build the transfer a payment expects to see on-chain (token, recipient, amount)
+ */
+export function getExpectedTransfer(payment: Payment): ExpectedTransfer {
+  const isEurc = payment.currency === "EURC";
+  return {
+    tokenAddress: isEurc ? EURC_TOKEN_ADDRESS : USDC_TOKEN_ADDRESS,
+    recipient: payment.merchantWallet || "",
+    amount: payment.amount,
+    decimals: isEurc ? EURC_DECIMALS : USDC_DECIMALS,
+  };
+}
+
+const SETTLED_PAYMENT_STATUSES: Payment["status"][] = ["confirmed", "partially_refunded", "refunded"];
+
+/**
+ * Check whether a tx hash is already used by another payment.
+ * A transfer can only settle one PaymentIntent. With settledOnly, payments that are
+ * still pending don't count, so the first payment to be verified (confirming) wins.
+ * Matches the statuses covered by the idx_payments_tx_hash_settled unique index.
+ */
+export async function isTxHashClaimed(
+  txHash: string,
+  excludePaymentId?: string,
+  settledOnly = false
+): Promise<boolean> {
+  const statuses: Payment["status"][] = settledOnly
+    ? ["confirming", ...SETTLED_PAYMENT_STATUSES]
+    : ["pending", "confirming", ...SETTLED_PAYMENT_STATUSES];
+  const conditions = [
+    sql`lower(${payments.txHash}) = ${txHash.toLowerCase()}`,
+    inArray(payments.status, statuses),
+  ];
+  if (excludePaymentId) {
+    conditions.push(ne(payments.id, excludePaymentId));
+  }
+
+  const [existing] = await db
+    .select({ id: payments.id })
+    .from(payments)
+    .where(and(...conditions))
+    .limit(1);
+
+  return !!existing;
+}
+
+/**
+ * Verify a payment's transaction against the receipt's ERC-20 Transfer logs.
+ * Records the verification outcome in the payment audit log once the tx is mined.
+ */
+export async function verifyPaymentTransfer(payment: Payment, txHash: string): Promise<TransferVerification> {
+  if (!payment.merchantWallet) {
+    return {
+      outcome: "wrong_recipient",
+      confirmed: false,
+      failed: true,
+      expectedValue: "0",
+      receivedValue: "0",
+      transfers: [],
+      error: "Payment has no merchant wallet to verify against",
+    };
+  }
+
+  const expected = getExpectedTransfer(payment);
+  const verification = await verifyTokenTransfer(txHash, expected);
+
+  // Nothing to record until the transaction is mined
+  if (verification.outcome !== "pending" && verification.outcome !== "error") {
+    await db.insert(paymentAuditLogs).values({
+      paymentId: payment.id,
+      merchantId: payment.merchantId,
+      action: `transfer_${verification.outcome}`,
+      fromStatus: payment.status,
+      toStatus: payment.status,
+      metadata: JSON.stringify({
+        txHash,
+        tokenAddress: expected.tokenAddress,
+        recipient: expected.recipient,
+        expectedValue: verification.expectedValue,
+        receivedValue: verification.receivedValue,
+        payerWallet: verification.payerWallet,
+        blockNumber: verification.blockNumber,
+      }),
+    }).catch(console.error);
+  }
+
+  return verification;
+}
+
+export interface PaymentSettlement extends TransferVerification {
+  confirming?: boolean; // Transfer verified, waiting for requiredConfirmations
+  requiredConfirmations?: number;
+}
+
+/**
+ * Verify a pending payment's transaction and confirm or fail it accordingly.
+ * A verified transfer only confirms the payment once it has the confirmations the
+ * confirmation policy requires; until then the payment is confirming.
+ * Returns the verification so callers can decide whether to keep polling.
+ */
+export async function settlePaymentTransaction(payment: Payment): Promise<PaymentSettlement | null> {
+  if (!payment.txHash) {
+    return null;
+  }
+
+  if (await isTxHashClaimed(payment.txHash, payment.id, true)) {
+    await db.insert(paymentAuditLogs).values({
+      paymentId: payment.id,
+      merchantId: payment.merchantId,
+      action: "transfer_tx_hash_reused",
+      fromStatus: payment.status,
+      toStatus: "failed",
+      metadata: JSON.stringify({ txHash: payment.txHash }),
+    }).catch(console.error);
+    await failPayment(payment.id, "Transaction already used by another payment");
+    return null;
+  }
+
+  const verification = await verifyPaymentTransfer(payment, payment.txHash);
+
+  if (verification.confirmed) {
+    const requiredConfirmations = await getRequiredConfirmations(payment);
+    const confirmations = verification.confirmations ?? 0;
+
+    if (confirmations < requiredConfirmations) {
+      await markPaymentConfirming(payment, verification, requiredConfirmations);
+      return { ...verification, confirmed: false, confirming: true, requiredConfirmations };
+    }
+
+    await confirmPayment(
+      payment.id,
+      payment.txHash,
+      payment.payerWallet || verification.payerWallet || "",
+      { ...verification, requiredConfirmations }
+    );
+  } else if (verification.outcome === "pending" && payment.status === "confirming") {
+    // The receipt is gone: the block was reorged out before reaching the threshold
+    await revertPaymentToPending(payment, "Transaction dropped from the canonical chain");
+  } else if (verification.failed) {
+    await failPayment(payment.id, verification.error || "Transaction failed");
+  }
+
+  return verification;
+}
+
+/**
+ * Record the block depth of a verified transfer that hasn't reached the threshold yet
+ */
+async function markPaymentConfirming(
+  payment: Payment,
+  verification: TransferVerification,
+  requiredConfirmations: number
+) {
+  const blockHash = verification.blockHash?.toLowerCase() ?? null;
+
+  await db
+    .update(payments)
+    .set({
+      status: "confirming",
+      payerWallet: payment.payerWallet || verification.payerWallet || null,
+      txBlockNumber: verification.blockNumber ?? null,
+      txBlockHash: blockHash,
+      confirmations: verification.confirmations ?? 0,
+      requiredConfirmations,
+      updatedAt: new Date(),
+    })
+    .where(and(eq(payments.id, payment.id), inArray(payments.status, ["created", "pending", "confirming"])));
+
+  // Log the first sighting and re-inclusion in a different block, not every depth update
+  if (payment.status !== "confirming" || payment.txBlockHash !== blockHash) {
+    await db.insert(paymentAuditLogs).values({
+      paymentId: payment.id,
+      merchantId: payment.merchantId,
+      action: payment.status === "confirming" ? "transfer_block_changed" : "status_changed",
+      fromStatus: payment.status,
+      toStatus: "confirming",
+      metadata: JSON.stringify({
+        txHash: payment.txHash,
+        blockNumber: verification.blockNumber,
+        blockHash,
+        previousBlockHash: payment.txBlockHash,
+        confirmations: verification.confirmations,
+        requiredConfirmations,
+      }),
+    }).catch(console.error);
+  }
+}
+
+/**
+ * Move a confirming payment back to pending after its transaction left the canonical chain.
+ * The tx hash is kept: the transaction may be mined again.
+ */
+async function revertPaymentToPending(payment: Payment, reason: string) {
+  await db
+    .update(payments)
+    .set({
+      status: "pending",
+      txBlockNumber: null,
+      txBlockHash: null,
+      confirmations: 0,
+      updatedAt: new Date(),
+    })
+    .where(and(eq(payments.id, payment.id), eq(payments.status, "confirming")));
+
+  // Let the chain indexer match the transfer again if it is re-included
+  await db
+    .update(chainTransfers)
+    .set({ status: "unconfirmed", paymentId: null, updatedAt: new Date() })
+    .where(and(eq(chainTransfers.paymentId, payment.id), eq(chainTransfers.status, "matched")));
+
+  await db.insert(paymentAuditLogs).values({
+    paymentId: payment.id,
+    merchantId: payment.merchantId,
+    action: "transfer_reorged_out",
+    fromStatus: "confirming",
+    toStatus: "pending",
+    metadata: JSON.stringify({
+      reason,
+      txHash: payment.txHash,
+      blockNumber: payment.txBlockNumber,
+      blockHash: payment.txBlockHash,
+      confirmations: payment.confirmations,
+    }),
+  }).catch(console.error);
+}
+
 /**
  * Confirm a payment (called when transaction is verified)
+ * If no verification is passed in, the transfer is verified on-chain before confirming.
  */
-export async function confirmPayment(paymentId: string, txHash: string, payerWallet: string) {
+export async function confirmPayment(
+  paymentId: string,
+  txHash: string,
+  payerWallet: string,
+  verification?: PaymentSettlement
+) {
   const [payment] = await db
     .select()
     .from(payments)
@@ -141,16 +432,24 @@ export async function confirmPayment(paymentId: string, txHash: string, payerWal
     throw new Error("Payment not found");
   }
 
-  if (payment.status !== "pending" && payment.status !== "created") {
+  if (payment.status !== "pending" && payment.status !== "created" && payment.status !== "confirming") {
     throw new Error(`Cannot confirm payment with status: ${payment.status}`);
   }
 
+  if (await isTxHashClaimed(txHash, paymentId, true)) {
+    throw new Error("Transaction already used by another payment");
+  }
+
+  const txStatus = verification ?? await verifyPaymentTransfer(payment, txHash);
+  if (!txStatus.confirmed) {
+    throw new Error(txStatus.error || `Transfer verification failed: ${txStatus.outcome}`);
+  }
+
   const settlementTime = payment.createdAt
     ? Math.floor((Date.now() - new Date(payment.createdAt).getTime()) / 1000)
     : 0;
 
   // Get block timestamp from transaction receipt if available
-  const txStatus = await verifyTransaction(txHash);
   let blockTimestamp = new Date();
   if (txStatus.blockNumber) {
     const timestamp = await getBlockTimestamp(txStatus.blockNumber);
@@ -168,6 +467,10 @@ export async function confirmPayment(paymentId: string, txHash: string, payerWal
       txHash,
       payerWallet,
       settlementTime,
+      txBlockNumber: txStatus.blockNumber ?? null,
+      txBlockHash: txStatus.blockHash?.toLowerCase() ?? null,
+      confirmations: txStatus.confirmations ?? 0,
+      requiredConfirmations: verification?.requiredConfirmations ?? payment.requiredConfirmations,
       updatedAt: blockTimestamp,
     })
     .where(eq(payments.id, paymentId));
@@ -185,38 +488,24 @@ export async function confirmPayment(paymentId: string, txHash: string, payerWal
       action: "status_changed",
       fromStatus: oldStatus,
       toStatus: "confirmed",
-      metadata: JSON.stringify({ txHash, payerWallet, settlementTime }),
+      metadata: JSON.stringify({
+        txHash,
+        payerWallet,
+        settlementTime,
+        transferOutcome: txStatus.outcome,
+        receivedValue: txStatus.receivedValue,
+        confirmations: txStatus.confirmations,
+      }),
     }).catch(console.error);
   }
 
-  // Update treasury balance when payment is confirmed
   if (updatedPayment) {
-    try {
-      const { storage } = await import("../storage.js");
-      const treasuryBalance = await storage.getTreasuryBalance(
-        updatedPayment.merchantId,
-        updatedPayment.currency
-      );
-
-      if (treasuryBalance) {
-        const newBalance = (
-          parseFloat(treasuryBalance.balance) + parseFloat(updatedPayment.amount)
-        ).toString();
-        await storage.updateTreasuryBalance(treasuryBalance.id, {
-          balance: newBalance,
-        });
-      } else {
-        // Create treasury balance if it doesn't exist
-        await storage.createTreasuryBalance({
-          merchantId: updatedPayment.merchantId,
-          currency: updatedPayment.currency,
-          balance: updatedPayment.amount,
-        });
-      }
-    } catch (error) {
-      console.error("Failed to update treasury balance:", error);
-      // Don't throw - balance update should not block payment confirmation
-    }
+    // Book the capture (plus fees and splits) in the ledger; the treasury balance is derived from it
+    const { recordPaymentCapture } = await import("./ledgerService.js");
+    await recordPaymentCapture(updatedPayment.id).catch((error) => {
+      console.error("Failed to record payment in ledger:", error);
+      // Don't throw - ledger posting should not block payment confirmation
+    });
 
     // Auto-create invoice from payment if customerEmail is provided
     if (updatedPayment.customerEmail) {
@@ -241,6 +530,7 @@ export async function confirmPayment(paymentId: string, txHash: string, payerWal
             customerName: null, // Can be extracted from metadata if available
             description: updatedPayment.description || `Payment for ${updatedPayment.amount} ${updatedPayment.currency}`,
             status: "paid", // Mark as paid since payment is confirmed
+            isTest: updatedPayment.isTest,
           });
         }
       } catch (error) {
@@ -252,47 +542,16 @@ export async function confirmPayment(paymentId: string, txHash: string, payerWal
 
   // Dispatch webhooks
   if (updatedPayment) {
-    const webhookPayload = {
-      type: "payment.intent.completed",
-      data: {
-        id: updatedPayment.id,
-        amount: updatedPayment.amount,
-        currency: updatedPayment.currency,
-        settlementCurrency: updatedPayment.settlementCurrency,
-        status: "confirmed",
-        txHash,
-        payerWallet,
-        explorerLink: getExplorerLink(txHash),
-        settlementTime,
-      },
-    };
-
-    // PaymentIntent events (new)
-    await Promise.all([
-      dispatchWebhook(payment.merchantId, "payment.intent.completed", webhookPayload),
-      // Legacy events (backward compatibility)
-      dispatchWebhook(payment.merchantId, "payment.succeeded", {
-        ...webhookPayload,
-        type: "payment.succeeded",
-      }),
-      dispatchWebhook(payment.merchantId, "payment.confirmed", {
-        ...webhookPayload,
-        type: "payment.confirmed",
-      }),
-    ]);
+    // Legacy payment.succeeded / payment.confirmed are aliases of this event
+    await dispatchWebhook(payment.merchantId, "payment.intent.completed", toPaymentEventData(updatedPayment), {
+      livemode: !updatedPayment.isTest,
+    });
 
     // Record payment proof on-chain (non-blocking)
     recordPaymentProofOnChain(updatedPayment).catch((error) => {
       console.error("Failed to record payment proof on-chain:", error);
       // Don't throw - proof recording should not block payment confirmation
     });
-
-    // Apply fees and splits (non-blocking, ledger-based)
-    const { applyFeesAndSplits } = await import("./feeSplitService.js");
-    applyFeesAndSplits(updatedPayment.id).catch((error) => {
-      console.error("Failed to apply fees and splits:", error);
-      // Don't throw - fee/split application should not block payment confirmation
-    });
   }
 
   return updatedPayment;
@@ -338,31 +597,13 @@ export async function failPayment(paymentId: string, reason?: string) {
       metadata: JSON.stringify({ reason }),
     }).catch(console.error);
 
-    // Dispatch webhooks
-    await Promise.all([
-      // PaymentIntent event (new)
-      dispatchWebhook(payment.merchantId, "payment.intent.failed", {
-        type: "payment.intent.failed",
-        data: {
-          id: updatedPayment.id,
-          amount: updatedPayment.amount,
-          currency: updatedPayment.currency,
-          status: "failed",
-          reason,
-        },
-      }),
-      // Legacy event (backward compatibility)
-      dispatchWebhook(payment.merchantId, "payment.failed", {
-        type: "payment.failed",
-        data: {
-          id: updatedPayment.id,
-          amount: updatedPayment.amount,
-          currency: updatedPayment.currency,
-          status: "failed",
-          reason,
-        },
-      }),
-    ]);
+    // Dispatch webhook; legacy payment.failed is an alias of this event
+    await dispatchWebhook(
+      payment.merchantId,
+      "payment.intent.failed",
+      { ...toPaymentEventData(updatedPayment), reason },
+      { livemode: !updatedPayment.isTest }
+    );
   }
 
   return updatedPayment;
@@ -381,8 +622,8 @@ export async function expirePayment(paymentId: string) {
     throw new Error("Payment not found");
   }
 
-  if (payment.status === "confirmed" || payment.status === "refunded") {
-    return payment; // Already final, don't expire
+  if (SETTLED_PAYMENT_STATUSES.includes(payment.status) || payment.status === "confirming") {
+    return payment; // Already final (or the transfer is already mined), don't expire
   }
 
   const oldStatus = payment.status;
@@ -496,18 +737,8 @@ export async function checkPendingPayments() {
       if (!payment.txHash) continue;
 
       try {
-        const txStatus = await verifyTransaction(payment.txHash);
-
-        if (txStatus.confirmed) {
-          await confirmPayment(
-            payment.id,
-            payment.txHash,
-            payment.payerWallet || ""
-          );
-        } else if (txStatus.failed) {
-          await failPayment(payment.id, txStatus.error);
-        }
-        // If still pending, leave it for next check
+        // Confirms, fails, or leaves the payment pending for the next check
+        await settlePaymentTransaction(payment);
       } catch (error) {
         console.error(`Error checking payment ${payment.id}:`, error);
       }
@@ -1,24 +1,29 @@
 /**
  * Payout Service
  * Handles merchant withdrawals (non-custodial)
- * Uses existing treasury balances
+ * Payouts draw on the merchant's available (ledger) balance
  */
 
 import { db } from "../db.js";
-import { payouts, payoutAttempts, treasuryBalances } from "../../shared/schema.js";
+import { payouts, payoutAttempts } from "../../shared/schema.js";
 import { eq, and } from "drizzle-orm";
 import { dispatchWebhook } from "./webhookService.js";
-import { storage } from "../storage.js";
+import { getAvailableBalance, recordPayout } from "./ledgerService.js";
+import type { PayoutEventData } from "../../shared/webhookEvents.js";
+import { ARC_CHAIN_ID } from "../config.js";
 
 export interface CreatePayoutRequest {
   merchantId: string;
   amount: string;
   currency: string;
   destinationWallet: string;
-  destinationChainId?: number; // Default: Arc (5042002)
+  destinationChainId?: number; // Default: the configured Arc chain
   metadata?: Record<string, any>;
+  isTest?: boolean; // From the API key mode; default live
 }
 
+export type PayoutMode = "test" | "live";
+
 export interface Payout {
   id: string;
   merchantId: string;
@@ -29,22 +34,42 @@ export interface Payout {
   status: "pending" | "processing" | "completed" | "failed";
   txHash: string | null;
   failureReason: string | null;
+  isTest: boolean;
   createdAt: Date;
   updatedAt: Date;
 }
 
+/**
+ * Shape a payout for webhook event data
+ */
+function toPayoutEventData(payout: typeof payouts.$inferSelect): PayoutEventData {
+  return {
+    id: payout.id,
+    amount: payout.amount,
+    currency: payout.currency,
+    destinationWallet: payout.destinationWallet,
+    destinationChainId: payout.destinationChainId,
+    status: payout.status,
+    txHash: payout.txHash,
+  };
+}
+
+/**
+ * Condition limiting payouts to one mode; none when the caller's mode is unknown
+ */
+function inMode(mode?: PayoutMode) {
+  return mode ? eq(payouts.isTest, mode === "test") : undefined;
+}
+
 /**
  * Create a payout request
  * Note: Actual transaction must be initiated by merchant's wallet (non-custodial)
  */
 export async function createPayout(request: CreatePayoutRequest): Promise<Payout> {
-  // Verify merchant has sufficient balance
-  const balance = await storage.getTreasuryBalance(request.merchantId, request.currency);
-  if (!balance) {
-    throw new Error(`No balance found for currency ${request.currency}`);
-  }
+  const isTest = request.isTest ?? false;
 
-  const balanceAmount = parseFloat(balance.balance);
+  // Verify merchant has sufficient available balance in the payout's mode (pending funds can't be paid out yet)
+  const balanceAmount = parseFloat(await getAvailableBalance(request.merchantId, request.currency, isTest));
   const payoutAmount = parseFloat(request.amount);
 
   if (payoutAmount > balanceAmount) {
@@ -67,9 +92,10 @@ export async function createPayout(request: CreatePayoutRequest): Promise<Payout
       amount: request.amount,
       currency: request.currency,
       destinationWallet: request.destinationWallet.toLowerCase(),
-      destinationChainId: request.destinationChainId || 5042002,
+      destinationChainId: request.destinationChainId || ARC_CHAIN_ID,
       status: "pending",
       metadata: request.metadata ? JSON.stringify(request.metadata) : null,
+      isTest,
     })
     .returning();
 
@@ -81,15 +107,8 @@ export async function createPayout(request: CreatePayoutRequest): Promise<Payout
   });
 
   // Dispatch webhook
-  await dispatchWebhook(request.merchantId, "payout.created", {
-    type: "payout.created",
-    data: {
-      id: payout.id,
-      amount: payout.amount,
-      currency: payout.currency,
-      destinationWallet: payout.destinationWallet,
-      status: payout.status,
-    },
+  await dispatchWebhook(request.merchantId, "payout.created", toPayoutEventData(payout), {
+    livemode: !payout.isTest,
   }).catch(console.error);
 
   return payout as Payout;
@@ -98,14 +117,15 @@ export async function createPayout(request: CreatePayoutRequest): Promise<Payout
 /**
  * Complete payout (called after merchant initiates transaction)
  */
-export async function completePayout(payoutId: string, txHash: string, merchantId: string): Promise<Payout> {
+export async function completePayout(payoutId: string, txHash: string, merchantId: string, mode?: PayoutMode): Promise<Payout> {
   const [payout] = await db
     .select()
     .from(payouts)
     .where(
       and(
         eq(payouts.id, payoutId),
-        eq(payouts.merchantId, merchantId)
+        eq(payouts.merchantId, merchantId),
+        inMode(mode)
       )
     )
     .limit(1);
@@ -144,14 +164,8 @@ export async function completePayout(payoutId: string, txHash: string, merchantI
       )
     );
 
-  // Deduct from treasury balance
-  const balance = await storage.getTreasuryBalance(merchantId, payout.currency);
-  if (balance) {
-    const newBalance = (parseFloat(balance.balance) - parseFloat(payout.amount)).toString();
-    await storage.updateTreasuryBalance(balance.id, {
-      balance: newBalance,
-    });
-  }
+  // Debit the available balance in the ledger
+  await recordPayout(payoutId);
 
   const [updated] = await db
     .select()
@@ -160,14 +174,8 @@ export async function completePayout(payoutId: string, txHash: string, merchantI
     .limit(1);
 
   // Dispatch webhook
-  await dispatchWebhook(merchantId, "payout.completed", {
-    type: "payout.completed",
-    data: {
-      id: updated.id,
-      amount: updated.amount,
-      currency: updated.currency,
-      txHash: updated.txHash,
-    },
+  await dispatchWebhook(merchantId, "payout.completed", toPayoutEventData(updated), {
+    livemode: !updated.isTest,
   }).catch(console.error);
 
   return updated as Payout;
@@ -176,14 +184,15 @@ export async function completePayout(payoutId: string, txHash: string, merchantI
 /**
  * Fail payout
  */
-export async function failPayout(payoutId: string, reason: string, merchantId: string): Promise<Payout> {
+export async function failPayout(payoutId: string, reason: string, merchantId: string, mode?: PayoutMode): Promise<Payout> {
   const [payout] = await db
     .select()
     .from(payouts)
     .where(
       and(
         eq(payouts.id, payoutId),
-        eq(payouts.merchantId, merchantId)
+        eq(payouts.merchantId, merchantId),
+        inMode(mode)
       )
     )
     .limit(1);
@@ -224,27 +233,21 @@ export async function failPayout(payoutId: string, reason: string, merchantId: s
     .limit(1);
 
   // Dispatch webhook
-  await dispatchWebhook(merchantId, "payout.failed", {
-    type: "payout.failed",
-    data: {
-      id: updated.id,
-      amount: updated.amount,
-      currency: updated.currency,
-      reason,
-    },
+  await dispatchWebhook(merchantId, "payout.failed", { ...toPayoutEventData(updated), reason }, {
+    livemode: !updated.isTest,
   }).catch(console.error);
 
   return updated as Payout;
 }
 
 /**
- * Get payouts for merchant
+ * Get payouts for merchant (only the caller's mode when known)
  */
-export async function getPayouts(merchantId: string): Promise<Payout[]> {
+export async function getPayouts(merchantId: string, mode?: PayoutMode): Promise<Payout[]> {
   const payoutList = await db
     .select()
     .from(payouts)
-    .where(eq(payouts.merchantId, merchantId))
+    .where(and(eq(payouts.merchantId, merchantId), inMode(mode)))
     .orderBy(payouts.createdAt);
 
   return payoutList as Payout[];
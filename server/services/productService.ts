@@ -0,0 +1,263 @@
+/**
+ * Product Service
+ * Catalog of products and their prices; subscriptions and payments can be created from a price
+ * instead of a raw amount. Price amounts are fixed once created, so archiving or replacing a
+ * price never changes what existing subscriptions are billed.
+ */
+
+import { db } from "../db.js";
+import { products, prices, type Product, type Price } from "../../shared/schema.js";
+import { eq, and, desc, inArray } from "drizzle-orm";
+import type { BillingInterval } from "../../shared/billingIntervals.js";
+
+export const PRICE_CURRENCIES = ["USDC", "EURC"] as const;
+export type PriceCurrency = (typeof PRICE_CURRENCIES)[number];
+
+export interface CreateProductRequest {
+  merchantId: string;
+  name: string;
+  description?: string;
+  metadata?: Record<string, any>;
+}
+
+export interface UpdateProductRequest {
+  name?: string;
+  description?: string | null;
+  active?: boolean;
+  metadata?: Record<string, any> | null;
+}
+
+export interface CreatePriceRequest {
+  merchantId: string;
+  productId: string;
+  nickname?: string;
+  type: "one_time" | "recurring";
+  interval?: BillingInterval;
+  intervalCount?: number;
+  unitAmounts: Partial<Record<PriceCurrency, string>>;
+  defaultCurrency?: PriceCurrency;
+}
+
+export interface UpdatePriceRequest {
+  nickname?: string | null;
+  active?: boolean;
+}
+
+// Price with unitAmounts parsed, as returned by the API
+export type PriceResponse = Omit<Price, "unitAmounts"> & { unitAmounts: Partial<Record<PriceCurrency, string>> };
+
+export type ProductWithPrices = Product & { prices: PriceResponse[] };
+
+/**
+ * A price that can't be used for the requested subscription or payment
+ */
+export class PriceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PriceError";
+  }
+}
+
+function toPriceResponse(price: Price): PriceResponse {
+  let unitAmounts: Partial<Record<PriceCurrency, string>> = {};
+  try {
+    unitAmounts = JSON.parse(price.unitAmounts);
+  } catch {
+    console.warn(`Price ${price.id} has invalid unit amounts`);
+  }
+  return { ...price, unitAmounts };
+}
+
+/**
+ * Create a product
+ */
+export async function createProduct(request: CreateProductRequest): Promise<Product> {
+  const [product] = await db
+    .insert(products)
+    .values({
+      merchantId: request.merchantId,
+      name: request.name,
+      description: request.description || null,
+      metadata: request.metadata ? JSON.stringify(request.metadata) : null,
+    })
+    .returning();
+
+  return product;
+}
+
+/**
+ * Update or archive (active: false) a product; its prices are left as they are
+ */
+export async function updateProduct(productId: string, merchantId: string, update: UpdateProductRequest): Promise<Product> {
+  const [product] = await db
+    .update(products)
+    .set({
+      name: update.name,
+      description: update.description,
+      active: update.active,
+      metadata: update.metadata !== undefined ? (update.metadata ? JSON.stringify(update.metadata) : null) : undefined,
+      updatedAt: new Date(),
+    })
+    .where(and(eq(products.id, productId), eq(products.merchantId, merchantId)))
+    .returning();
+
+  if (!product) {
+    throw new Error("Product not found");
+  }
+
+  return product;
+}
+
+/**
+ * Products for merchant with their prices, newest first; archived ones only when asked for
+ */
+export async function getProducts(merchantId: string, includeArchived = false): Promise<ProductWithPrices[]> {
+  const productRows = await db
+    .select()
+    .from(products)
+    .where(includeArchived ? eq(products.merchantId, merchantId) : and(eq(products.merchantId, merchantId), eq(products.active, true)))
+    .orderBy(desc(products.createdAt));
+
+  if (productRows.length === 0) {
+    return [];
+  }
+
+  const priceRows = await db
+    .select()
+    .from(prices)
+    .where(
+      and(
+        inArray(prices.productId, productRows.map((product) => product.id)),
+        includeArchived ? undefined : eq(prices.active, true)
+      )
+    )
+    .orderBy(desc(prices.createdAt));
+
+  return productRows.map((product) => ({
+    ...product,
+    prices: priceRows.filter((price) => price.productId === product.id).map(toPriceResponse),
+  }));
+}
+
+/**
+ * Create a price for one of the merchant's products
+ */
+export async function createPrice(request: CreatePriceRequest): Promise<PriceResponse> {
+  const [product] = await db
+    .select()
+    .from(products)
+    .where(and(eq(products.id, request.productId), eq(products.merchantId, request.merchantId)))
+    .limit(1);
+
+  if (!product) {
+    throw new Error("Product not found");
+  }
+  if (!product.active) {
+    throw new PriceError("Cannot add prices to an archived product");
+  }
+
+  if (request.type === "recurring" && !request.interval) {
+    throw new PriceError("Recurring prices need an interval");
+  }
+  if (request.type === "one_time" && (request.interval || request.intervalCount)) {
+    throw new PriceError("One-time prices can't have an interval");
+  }
+
+  const currencies = Object.keys(request.unitAmounts) as PriceCurrency[];
+  if (currencies.length === 0) {
+    throw new PriceError("A price needs an amount in at least one currency");
+  }
+  const defaultCurrency = request.defaultCurrency || (currencies.includes("USDC") ? "USDC" : currencies[0]);
+  if (!request.unitAmounts[defaultCurrency]) {
+    throw new PriceError(`No ${defaultCurrency} amount for the default currency`);
+  }
+
+  const [price] = await db
+    .insert(prices)
+    .values({
+      productId: product.id,
+      merchantId: request.merchantId,
+      nickname: request.nickname || null,
+      type: request.type,
+      interval: request.interval || null,
+      intervalCount: request.intervalCount || 1,
+      unitAmounts: JSON.stringify(request.unitAmounts),
+      defaultCurrency,
+    })
+    .returning();
+
+  return toPriceResponse(price);
+}
+
+/**
+ * Rename or archive (active: false) a price; amounts can't change
+ */
+export async function updatePrice(priceId: string, merchantId: string, update: UpdatePriceRequest): Promise<PriceResponse> {
+  const [price] = await db
+    .update(prices)
+    .set({
+      nickname: update.nickname,
+      active: update.active,
+      updatedAt: new Date(),
+    })
+    .where(and(eq(prices.id, priceId), eq(prices.merchantId, merchantId)))
+    .returning();
+
+  if (!price) {
+    throw new Error("Price not found");
+  }
+
+  return toPriceResponse(price);
+}
+
+/**
+ * Get a merchant's price
+ */
+export async function getPrice(priceId: string, merchantId: string): Promise<PriceResponse | null> {
+  const [price] = await db
+    .select()
+    .from(prices)
+    .where(and(eq(prices.id, priceId), eq(prices.merchantId, merchantId)))
+    .limit(1);
+
+  return price ? toPriceResponse(price) : null;
+}
+
+/**
+ * Amount to charge for a price in the requested currency (the price's default when not given).
+ * Archived prices and products can't start new subscriptions or payments.
+ */
+export async function resolvePrice(
+  priceId: string,
+  merchantId: string,
+  type: "one_time" | "recurring",
+  currency?: string
+): Promise<{ price: PriceResponse; product: Product; amount: string; currency: PriceCurrency }> {
+  const [row] = await db
+    .select({ price: prices, product: products })
+    .from(prices)
+    .innerJoin(products, eq(prices.productId, products.id))
+    .where(and(eq(prices.id, priceId), eq(prices.merchantId, merchantId)))
+    .limit(1);
+
+  if (!row) {
+    throw new PriceError("Price not found");
+  }
+  if (!row.price.active || !row.product.active) {
+    throw new PriceError("Price is archived");
+  }
+  if (row.price.type !== type) {
+    throw new PriceError(
+      type === "recurring" ? "Subscriptions need a recurring price" : "Payments need a one-time price"
+    );
+  }
+
+  const price = toPriceResponse(row.price);
+  const priceCurrency = (currency || price.defaultCurrency) as PriceCurrency;
+  const amount = price.unitAmounts[priceCurrency];
+  if (!amount) {
+    throw new PriceError(`Price has no ${priceCurrency} amount`);
+  }
+
+  return { price, product: row.product, amount, currency: priceCurrency };
+}
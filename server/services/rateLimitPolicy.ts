@@ -0,0 +1,88 @@
+/**
+ * Rate Limit Policy
+ * Request limits per route group: a merchant's own override, else the global config, else the defaults
+ */
+
+import { z } from "zod";
+import type { Merchant } from "../../shared/schema.js";
+import { storage } from "../storage.js";
+import { API_RATE_LIMIT_WINDOW, API_RATE_LIMIT_MAX_REQUESTS, RATE_LIMIT_POLICY_CACHE_TTL } from "../config.js";
+
+export const RATE_LIMIT_POLICY_CONFIG_KEY = "rate_limit_policy";
+
+// read: GET requests, write: other methods, payments_create: POST /api/payments/create
+export const RATE_LIMIT_GROUPS = ["read", "write", "payments_create"] as const;
+export type RateLimitGroup = (typeof RATE_LIMIT_GROUPS)[number];
+
+const groupLimitSchema = z.object({
+  limit: z.number().int().min(1).max(100000), // Bucket size: requests allowed in a burst
+  windowSeconds: z.number().int().min(1).max(24 * 60 * 60), // Time for an empty bucket to refill
+});
+
+export type GroupLimit = z.infer<typeof groupLimitSchema>;
+
+// Groups left out fall back to the next policy in line
+export const rateLimitPolicySchema = z
+  .object({
+    read: groupLimitSchema.optional(),
+    write: groupLimitSchema.optional(),
+    payments_create: groupLimitSchema.optional(),
+  })
+  .strict();
+
+export type RateLimitPolicy = z.infer<typeof rateLimitPolicySchema>;
+
+const DEFAULT_RATE_LIMIT_POLICY: Record<RateLimitGroup, GroupLimit> = {
+  read: { limit: API_RATE_LIMIT_MAX_REQUESTS * 3, windowSeconds: API_RATE_LIMIT_WINDOW / 1000 },
+  write: { limit: API_RATE_LIMIT_MAX_REQUESTS, windowSeconds: API_RATE_LIMIT_WINDOW / 1000 },
+  payments_create: { limit: 30, windowSeconds: 60 },
+};
+
+/**
+ * Parse a stored policy; invalid JSON is logged and ignored
+ */
+export function parseRateLimitPolicy(value: string | null | undefined): RateLimitPolicy | null {
+  if (!value) {
+    return null;
+  }
+
+  try {
+    const result = rateLimitPolicySchema.safeParse(JSON.parse(value));
+    if (result.success) {
+      return result.data;
+    }
+    console.warn("Invalid rate limit policy:", result.error.errors[0].message);
+  } catch {
+    console.warn("Rate limit policy is not valid JSON");
+  }
+  return null;
+}
+
+let cachedGlobalPolicy: { policy: RateLimitPolicy | null; expiresAt: number } | null = null;
+
+/**
+ * Global policy, re-read from global_config at most once per RATE_LIMIT_POLICY_CACHE_TTL
+ */
+async function getGlobalRateLimitPolicy(): Promise<RateLimitPolicy | null> {
+  if (cachedGlobalPolicy && cachedGlobalPolicy.expiresAt > Date.now()) {
+    return cachedGlobalPolicy.policy;
+  }
+
+  const config = await storage.getGlobalConfig(RATE_LIMIT_POLICY_CONFIG_KEY);
+  const policy = parseRateLimitPolicy(config?.value);
+  cachedGlobalPolicy = { policy, expiresAt: Date.now() + RATE_LIMIT_POLICY_CACHE_TTL };
+  return policy;
+}
+
+/**
+ * Limit for a route group; the merchant (when known) is the one already loaded by auth
+ */
+export async function getGroupLimit(group: RateLimitGroup, merchant?: Pick<Merchant, "rateLimitPolicy">): Promise<GroupLimit> {
+  const merchantPolicy = parseRateLimitPolicy(merchant?.rateLimitPolicy);
+  if (merchantPolicy?.[group]) {
+    return merchantPolicy[group]!;
+  }
+
+  const globalPolicy = await getGlobalRateLimitPolicy();
+  return globalPolicy?.[group] ?? DEFAULT_RATE_LIMIT_POLICY[group];
+}
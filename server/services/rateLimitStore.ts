@@ -0,0 +1,181 @@
+/**
+ * Rate Limit Stores
+ * Token buckets kept in Postgres, a Redis-compatible REST store (Upstash / Vercel KV) or process memory.
+ * A bucket holds up to `limit` tokens and refills at limit / window; each request takes one.
+ */
+
+import { sql, lt } from "drizzle-orm";
+import { db } from "../db.js";
+import { rateLimitBuckets } from "../../shared/schema.js";
+import { RATE_LIMIT_STORE, RATE_LIMIT_REDIS_URL, RATE_LIMIT_REDIS_TOKEN } from "../config.js";
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number; // Whole tokens left after this request
+  resetSeconds: number; // Until the bucket is full again
+  retryAfterSeconds: number; // Until the next token, when not allowed
+}
+
+export interface RateLimitStore {
+  readonly name: string;
+  consume(key: string, limit: number, windowMs: number): Promise<RateLimitResult>;
+}
+
+const IDLE_BUCKET_TTL = 60 * 60 * 1000; // Buckets untouched for an hour are full anyway and can be dropped
+
+function toResult(allowed: boolean, tokens: number, limit: number, windowMs: number): RateLimitResult {
+  const msPerToken = windowMs / limit;
+  return {
+    allowed,
+    limit,
+    remaining: Math.max(0, Math.floor(tokens)),
+    resetSeconds: Math.ceil(((limit - tokens) * msPerToken) / 1000),
+    retryAfterSeconds: allowed ? 0 : Math.max(1, Math.ceil(((1 - tokens) * msPerToken) / 1000)),
+  };
+}
+
+/**
+ * Single-process buckets; resets on restart and is not shared between instances
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  readonly name = "memory";
+  private buckets = new Map<string, { tokens: number; updatedAt: number }>();
+
+  async consume(key: string, limit: number, windowMs: number): Promise<RateLimitResult> {
+    const now = Date.now();
+
+    // Clean up idle buckets periodically
+    if (Math.random() < 0.01) {
+      this.buckets.forEach((bucket, key) => {
+        if (now - bucket.updatedAt > IDLE_BUCKET_TTL) {
+          this.buckets.delete(key);
+        }
+      });
+    }
+
+    const bucket = this.buckets.get(key) ?? { tokens: limit, updatedAt: now };
+    let tokens = Math.min(limit, bucket.tokens + ((now - bucket.updatedAt) * limit) / windowMs);
+    const allowed = tokens >= 1;
+    if (allowed) tokens -= 1;
+
+    this.buckets.set(key, { tokens, updatedAt: now });
+    return toResult(allowed, tokens, limit, windowMs);
+  }
+}
+
+/**
+ * Buckets in rate_limit_buckets; refill and take happen in one upsert, so concurrent instances agree
+ */
+export class PostgresRateLimitStore implements RateLimitStore {
+  readonly name = "postgres";
+
+  async consume(key: string, limit: number, windowMs: number): Promise<RateLimitResult> {
+    const now = Date.now();
+    const ratePerMs = limit / windowMs;
+
+    if (Math.random() < 0.001) {
+      db.delete(rateLimitBuckets)
+        .where(lt(rateLimitBuckets.updatedAt, now - IDLE_BUCKET_TTL))
+        .catch((error) => console.error("Rate limit bucket cleanup error:", error));
+    }
+
+    // Columns on the right-hand side are the row's values before this request
+    const refilled = sql`LEAST(${limit}::double precision, ${rateLimitBuckets.tokens} + GREATEST(${now}::bigint - ${rateLimitBuckets.updatedAt}, 0) * ${ratePerMs}::double precision)`;
+
+    const [bucket] = await db
+      .insert(rateLimitBuckets)
+      .values({ key, tokens: limit - 1, updatedAt: now, allowed: true })
+      .onConflictDoUpdate({
+        target: rateLimitBuckets.key,
+        set: {
+          tokens: sql`CASE WHEN ${refilled} >= 1 THEN ${refilled} - 1 ELSE ${refilled} END`,
+          allowed: sql`${refilled} >= 1`,
+          updatedAt: now,
+        },
+      })
+      .returning({ tokens: rateLimitBuckets.tokens, allowed: rateLimitBuckets.allowed });
+
+    return toResult(bucket.allowed, bucket.tokens, limit, windowMs);
+  }
+}
+
+// Same refill-and-take as the other stores, atomic inside Redis
+const TOKEN_BUCKET_SCRIPT = `
+local limit = tonumber(ARGV[1])
+local rate = tonumber(ARGV[2])
+local now = tonumber(ARGV[3])
+local bucket = redis.call('HMGET', KEYS[1], 'tokens', 'ts')
+local tokens = tonumber(bucket[1]) or limit
+local ts = tonumber(bucket[2]) or now
+tokens = math.min(limit, tokens + math.max(0, now - ts) * rate)
+local allowed = 0
+if tokens >= 1 then
+  tokens = tokens - 1
+  allowed = 1
+end
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'ts', tostring(now))
+redis.call('PEXPIRE', KEYS[1], ARGV[4])
+return {allowed, tostring(tokens)}
+`;
+
+/**
+ * Buckets in a Redis-compatible store reached over the Upstash REST protocol (also Vercel KV)
+ */
+export class RedisRateLimitStore implements RateLimitStore {
+  readonly name = "redis";
+
+  constructor(
+    private readonly url: string,
+    private readonly token: string
+  ) {}
+
+  async consume(key: string, limit: number, windowMs: number): Promise<RateLimitResult> {
+    const now = Date.now();
+    const response = await fetch(this.url, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${this.token}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify([
+        "EVAL",
+        TOKEN_BUCKET_SCRIPT,
+        "1",
+        `ratelimit:${key}`,
+        String(limit),
+        String(limit / windowMs),
+        String(now),
+        String(Math.max(windowMs, IDLE_BUCKET_TTL)),
+      ]),
+      signal: AbortSignal.timeout(2000),
+    });
+
+    const body = (await response.json()) as { result?: [number, string]; error?: string };
+    if (!response.ok || !body.result) {
+      throw new Error(`Redis rate limit store error: ${body.error ?? response.statusText}`);
+    }
+
+    const [allowed, tokens] = body.result;
+    return toResult(allowed === 1, parseFloat(tokens), limit, windowMs);
+  }
+}
+
+/**
+ * Store selected by RATE_LIMIT_STORE
+ */
+export function createRateLimitStore(name: string = RATE_LIMIT_STORE): RateLimitStore {
+  switch (name) {
+    case "memory":
+      return new MemoryRateLimitStore();
+    case "postgres":
+      return new PostgresRateLimitStore();
+    case "redis":
+      if (!RATE_LIMIT_REDIS_URL || !RATE_LIMIT_REDIS_TOKEN) {
+        throw new Error("RATE_LIMIT_STORE=redis requires RATE_LIMIT_REDIS_URL and RATE_LIMIT_REDIS_TOKEN (or KV_REST_API_URL/KV_REST_API_TOKEN)");
+      }
+      return new RedisRateLimitStore(RATE_LIMIT_REDIS_URL, RATE_LIMIT_REDIS_TOKEN);
+    default:
+      throw new Error(`Unknown RATE_LIMIT_STORE "${name}"; use postgres, redis or memory`);
+  }
+}
@@ -4,127 +4,371 @@
  */
 
 import { db } from "../db.js";
-import { refunds, payments } from "../../shared/schema.js";
-import { eq } from "drizzle-orm";
+import { refunds, payments, paymentAuditLogs, type Refund, type Payment } from "../../shared/schema.js";
+import { eq, and, ne, lt, inArray, sql } from "drizzle-orm";
 import { dispatchWebhook } from "./webhookService.js";
-import { getExplorerLink } from "./arcService.js";
+import { toPaymentEventData } from "./paymentService.js";
+import { recordRefund, toLedgerUnits, fromLedgerUnits } from "./ledgerService.js";
+import { getExplorerLink, verifyTokenTransfer, type ExpectedTransfer, type TransferVerification } from "./arcService.js";
+import { USDC_TOKEN_ADDRESS, USDC_DECIMALS, EURC_TOKEN_ADDRESS, EURC_DECIMALS, REFUND_INTENT_EXPIRY_HOURS } from "../config.js";
 
 export interface RefundRequest {
   paymentId: string;
   merchantId: string;
   amount: string;
-  currency: string;
+  currency?: string;
   reason?: string;
 }
 
+// Refunds that count against the payment's refundable amount
+const OPEN_REFUND_STATUSES = ["pending", "processing", "completed"];
+
+const REFUNDABLE_PAYMENT_STATUSES = ["confirmed", "partially_refunded"];
+
 /**
  * Create a refund intent
+ * Multiple partial refunds are allowed as long as pending and completed refunds
+ * together don't exceed the payment amount. Pending refunds older than
+ * REFUND_INTENT_EXPIRY_HOURS are canceled first, so an abandoned intent doesn't hold its amount.
  * Note: This creates the refund record, but the actual transaction
  * must be initiated by the merchant's wallet (non-custodial)
  */
 export async function createRefundIntent(request: RefundRequest) {
-  // Verify payment exists and belongs to merchant
+  return db.transaction(async (tx) => {
+    // Verify payment exists and belongs to merchant; the row lock serializes
+    // concurrent refunds so they can't jointly exceed the payment amount
+    const [payment] = await tx
+      .select()
+      .from(payments)
+      .where(
+        and(eq(payments.id, request.paymentId), eq(payments.merchantId, request.merchantId))
+      )
+      .for("update");
+
+    if (!payment) {
+      throw new Error("Payment not found");
+    }
+
+    if (payment.status === "refunded") {
+      throw new Error("Payment already refunded");
+    }
+
+    if (!REFUNDABLE_PAYMENT_STATUSES.includes(payment.status)) {
+      throw new Error("Can only refund confirmed payments");
+    }
+
+    const currency = request.currency || payment.currency;
+    if (currency !== payment.currency) {
+      throw new Error(`Refund currency must match payment currency (${payment.currency})`);
+    }
+
+    // Release abandoned intents: no transaction was submitted in time
+    await tx
+      .update(refunds)
+      .set({ status: "canceled", failureReason: "Refund intent expired", updatedAt: new Date() })
+      .where(
+        and(
+          eq(refunds.paymentId, payment.id),
+          eq(refunds.status, "pending"),
+          lt(refunds.createdAt, new Date(Date.now() - REFUND_INTENT_EXPIRY_HOURS * 60 * 60 * 1000))
+        )
+      );
+
+    // Check the refund fits in what hasn't been refunded (or reserved by a pending refund) yet
+    const [{ refunded }] = await tx
+      .select({ refunded: sql<string>`coalesce(sum(${refunds.amount}), 0)` })
+      .from(refunds)
+      .where(and(eq(refunds.paymentId, payment.id), inArray(refunds.status, OPEN_REFUND_STATUSES)));
+
+    const refundUnits = toLedgerUnits(request.amount);
+    const remainingUnits = toLedgerUnits(payment.amount) - toLedgerUnits(String(refunded));
+    if (refundUnits > remainingUnits) {
+      throw new Error(
+        `Refund amount exceeds refundable amount (${fromLedgerUnits(remainingUnits)} ${payment.currency} remaining)`
+      );
+    }
+
+    // Create refund record
+    const [refund] = await tx
+      .insert(refunds)
+      .values({
+        paymentId: request.paymentId,
+        merchantId: request.merchantId,
+        amount: request.amount,
+        currency,
+        status: "pending",
+        reason: request.reason,
+      })
+      .returning();
+
+    return refund;
+  });
+}
+
+/**
+ * Submit the merchant's refund transaction
+ * The refund moves to processing and is completed by the refund watcher once the
+ * transfer is verified on-chain.
+ */
+export async function submitRefundTransaction(refundId: string, txHash: string) {
+  return db.transaction(async (tx) => {
+    const [refund] = await tx
+      .select()
+      .from(refunds)
+      .where(eq(refunds.id, refundId))
+      .for("update");
+
+    if (!refund) {
+      throw new Error("Refund not found");
+    }
+
+    if (refund.status === "completed" || refund.status === "processing") {
+      if (refund.txHash?.toLowerCase() === txHash.toLowerCase()) {
+        return refund; // Same transaction submitted again
+      }
+      throw new Error(`Refund is already ${refund.status} with another transaction`);
+    }
+
+    if (refund.status === "failed") {
+      throw new Error("Refund has failed and cannot be completed");
+    }
+
+    if (refund.status === "canceled") {
+      throw new Error("Refund was canceled; create a new refund");
+    }
+
+    // A transfer can only settle one refund
+    const [claimed] = await tx
+      .select({ id: refunds.id })
+      .from(refunds)
+      .where(
+        and(
+          sql`lower(${refunds.txHash}) = ${txHash.toLowerCase()}`,
+          inArray(refunds.status, ["processing", "completed"]),
+          ne(refunds.id, refundId)
+        )
+      )
+      .limit(1);
+
+    if (claimed) {
+      throw new Error("Transaction hash is already used by another refund");
+    }
+
+    // The unique index on processing/completed tx hashes catches a concurrent claim
+    const [processing] = await tx
+      .update(refunds)
+      .set({
+        txHash,
+        status: "processing",
+        failureReason: null,
+        verificationAttempts: 0,
+        lastVerifiedAt: null,
+        updatedAt: new Date(),
+      })
+      .where(eq(refunds.id, refundId))
+      .returning()
+      .catch((error) => {
+        if (error?.code === "23505") {
+          throw new Error("Transaction hash is already used by another refund");
+        }
+        throw error;
+      });
+
+    return processing;
+  });
+}
+
+/**
+ * The transfer a refund must make: from the wallet that received the payment
+ * back to the payer, in the refund currency
+ */
+export function getExpectedRefundTransfer(refund: Refund, payment: Payment): ExpectedTransfer {
+  const isEurc = refund.currency === "EURC";
+  return {
+    tokenAddress: isEurc ? EURC_TOKEN_ADDRESS : USDC_TOKEN_ADDRESS,
+    recipient: payment.payerWallet || "",
+    sender: payment.merchantWallet || undefined,
+    amount: refund.amount,
+    decimals: isEurc ? EURC_DECIMALS : USDC_DECIMALS,
+  };
+}
+
+/**
+ * Verify a processing refund's transaction and complete or fail it accordingly.
+ * Returns the verification so callers can decide whether to keep polling.
+ */
+export async function settleRefundTransaction(refund: Refund): Promise<TransferVerification | null> {
+  if (refund.status !== "processing" || !refund.txHash) {
+    return null;
+  }
+
   const [payment] = await db
     .select()
     .from(payments)
-    .where(
-      and(eq(payments.id, request.paymentId), eq(payments.merchantId, request.merchantId))
-    );
+    .where(eq(payments.id, refund.paymentId));
 
   if (!payment) {
-    throw new Error("Payment not found");
+    await failRefund(refund.id, "Payment not found");
+    return null;
   }
 
-  if (payment.status === "refunded") {
-    throw new Error("Payment already refunded");
+  if (!payment.payerWallet || !payment.merchantWallet) {
+    await failRefund(refund.id, "Payment has no payer or merchant wallet to verify the refund against");
+    return null;
   }
 
-  if (payment.status !== "confirmed") {
-    throw new Error("Can only refund confirmed payments");
-  }
+  const expected = getExpectedRefundTransfer(refund, payment);
+  const verification = await verifyTokenTransfer(refund.txHash, expected);
 
-  // Check if refund amount is valid
-  const refundAmount = parseFloat(request.amount);
-  const paymentAmount = parseFloat(payment.amount);
-  if (refundAmount > paymentAmount) {
-    throw new Error("Refund amount cannot exceed payment amount");
+  // Nothing to record until the transaction is mined
+  if (verification.outcome !== "pending" && verification.outcome !== "error") {
+    await db.insert(paymentAuditLogs).values({
+      paymentId: payment.id,
+      merchantId: payment.merchantId,
+      action: `refund_transfer_${verification.outcome}`,
+      fromStatus: payment.status,
+      toStatus: payment.status,
+      metadata: JSON.stringify({
+        refundId: refund.id,
+        txHash: refund.txHash,
+        tokenAddress: expected.tokenAddress,
+        sender: expected.sender,
+        recipient: expected.recipient,
+        expectedValue: verification.expectedValue,
+        receivedValue: verification.receivedValue,
+        blockNumber: verification.blockNumber,
+      }),
+    }).catch(console.error);
   }
 
-  // Create refund record
-  const [refund] = await db
-    .insert(refunds)
-    .values({
-      paymentId: request.paymentId,
-      merchantId: request.merchantId,
-      amount: request.amount,
-      currency: request.currency || payment.currency,
-      status: "pending",
-      reason: request.reason,
-    })
-    .returning();
+  if (verification.confirmed) {
+    await completeRefund(refund.id);
+  } else if (verification.failed) {
+    await failRefund(refund.id, verification.error || `Transfer verification failed: ${verification.outcome}`);
+  }
 
-  return refund;
+  return verification;
 }
 
 /**
- * Complete a refund (called after merchant initiates transaction)
+ * Complete a verified refund
+ * Adds the refund to the payment's refunded amount and moves the payment to
+ * partially_refunded or refunded.
  */
-export async function completeRefund(refundId: string, txHash: string) {
-  const [refund] = await db
-    .select()
-    .from(refunds)
-    .where(eq(refunds.id, refundId));
+async function completeRefund(refundId: string) {
+  const result = await db.transaction(async (tx) => {
+    const [refund] = await tx
+      .select()
+      .from(refunds)
+      .where(eq(refunds.id, refundId))
+      .for("update");
+
+    if (!refund) {
+      throw new Error("Refund not found");
+    }
+
+    if (refund.status !== "processing") {
+      return { refund, payment: null }; // Already completed or failed
+    }
+
+    // Update refund status
+    const [completed] = await tx
+      .update(refunds)
+      .set({
+        status: "completed",
+        updatedAt: new Date(),
+      })
+      .where(eq(refunds.id, refundId))
+      .returning();
+
+    // Update payment's cumulative refunded amount and status
+    const [payment] = await tx
+      .select()
+      .from(payments)
+      .where(eq(payments.id, refund.paymentId))
+      .for("update");
+
+    const refundedUnits = toLedgerUnits(payment.refundedAmount) + toLedgerUnits(refund.amount);
+    const fullyRefunded = refundedUnits >= toLedgerUnits(payment.amount);
 
-  if (!refund) {
-    throw new Error("Refund not found");
+    const [updatedPayment] = await tx
+      .update(payments)
+      .set({
+        refundedAmount: fromLedgerUnits(refundedUnits),
+        status: fullyRefunded ? "refunded" : "partially_refunded",
+        updatedAt: new Date(),
+      })
+      .where(eq(payments.id, refund.paymentId))
+      .returning();
+
+    return { refund: completed, payment: updatedPayment };
+  });
+
+  const { refund, payment } = result;
+  if (!payment || !refund.txHash) {
+    return refund;
   }
 
-  // Update refund status
-  await db
+  // Post the reversing ledger transaction (refund out, fees/splits proportionally undone)
+  await recordRefund(refund.id).catch((error) => {
+    console.error("Failed to record refund in ledger:", error);
+  });
+
+  // Dispatch webhook
+  await dispatchWebhook(
+    refund.merchantId,
+    payment.status === "refunded" ? "payment.refunded" : "payment.partially_refunded",
+    {
+      ...toPaymentEventData(payment),
+      refund: {
+        id: refund.id,
+        amount: refund.amount,
+        txHash: refund.txHash,
+        explorerLink: getExplorerLink(refund.txHash),
+      },
+    },
+    { livemode: !payment.isTest }
+  );
+
+  return refund;
+}
+
+/**
+ * Fail a processing refund
+ * The refunded amount is released, so the merchant can create a new refund for it.
+ */
+export async function failRefund(refundId: string, reason: string) {
+  const [failed] = await db
     .update(refunds)
     .set({
-      txHash,
-      status: "completed",
+      status: "failed",
+      failureReason: reason,
       updatedAt: new Date(),
     })
-    .where(eq(refunds.id, refundId));
+    .where(and(eq(refunds.id, refundId), eq(refunds.status, "processing")))
+    .returning();
+
+  return failed;
+}
 
-  // Update payment status
-  await db
-    .update(payments)
+/**
+ * Cancel a pending refund intent, releasing its amount for new refunds
+ */
+export async function cancelRefundIntent(refundId: string) {
+  const [canceled] = await db
+    .update(refunds)
     .set({
-      status: "refunded",
+      status: "canceled",
       updatedAt: new Date(),
     })
-    .where(eq(payments.id, refund.paymentId));
-
-  // Dispatch webhook
-  const [payment] = await db
-    .select()
-    .from(payments)
-    .where(eq(payments.id, refund.paymentId));
+    .where(and(eq(refunds.id, refundId), eq(refunds.status, "pending")))
+    .returning();
 
-  if (payment) {
-    await dispatchWebhook(refund.merchantId, "payment.refunded", {
-      type: "payment.refunded",
-      data: {
-        payment: {
-          id: payment.id,
-          amount: payment.amount,
-          currency: payment.currency,
-          status: "refunded",
-        },
-        refund: {
-          id: refund.id,
-          amount: refund.amount,
-          txHash,
-          explorerLink: getExplorerLink(txHash),
-        },
-      },
-    });
+  if (!canceled) {
+    throw new Error("Only pending refunds can be canceled");
   }
 
-  return refund;
+  return canceled;
 }
 
 /**
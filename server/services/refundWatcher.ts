@@ -0,0 +1,98 @@
+/**
+ * Refund Watcher Service
+ * Polls ARC RPC for refund transactions and completes or fails processing refunds
+ */
+
+import { db } from "../db.js";
+import { refunds } from "../../shared/schema.js";
+import { eq, and, isNotNull } from "drizzle-orm";
+import { failRefund, settleRefundTransaction } from "./refundService.js";
+
+const POLL_INTERVAL = 10000; // 10 seconds
+const MAX_RETRIES = 20; // Checks that find no receipt before a refund times out
+const INITIAL_BACKOFF = 5000; // 5 seconds
+const MAX_BACKOFF = 60000; // 60 seconds
+
+/**
+ * Calculate exponential backoff delay
+ */
+function calculateBackoff(attempt: number): number {
+  const backoff = INITIAL_BACKOFF * Math.pow(2, attempt);
+  return Math.min(backoff, MAX_BACKOFF);
+}
+
+/**
+ * Check a single refund transaction
+ * Attempts are kept on the refund row; only checks that find no receipt count towards
+ * the timeout, so RPC errors are retried without failing the refund.
+ */
+async function checkRefundTransaction(refund: typeof refunds.$inferSelect): Promise<void> {
+  // Check if we should skip this check (backoff)
+  const now = new Date();
+  if (refund.lastVerifiedAt && now.getTime() - refund.lastVerifiedAt.getTime() < calculateBackoff(refund.verificationAttempts)) {
+    return;
+  }
+
+  let receiptMissing = false;
+  try {
+    // Verifies the Transfer logs and completes or fails the refund
+    const txStatus = await settleRefundTransaction(refund);
+
+    if (!txStatus || txStatus.confirmed || txStatus.failed) {
+      if (txStatus?.confirmed) {
+        console.log(`✅ Refund ${refund.id} completed (tx: ${refund.txHash})`);
+      } else {
+        console.log(`❌ Refund ${refund.id} failed (tx: ${refund.txHash}): ${txStatus?.error || "cannot be verified"}`);
+      }
+      return;
+    }
+
+    receiptMissing = txStatus.outcome === "pending";
+  } catch (error) {
+    console.error(`Error checking refund ${refund.id}:`, error);
+  }
+
+  // Still pending (or the check errored) - record the check for backoff
+  const attempts = refund.verificationAttempts + (receiptMissing ? 1 : 0);
+  await db
+    .update(refunds)
+    .set({ verificationAttempts: attempts, lastVerifiedAt: now })
+    .where(and(eq(refunds.id, refund.id), eq(refunds.status, "processing")));
+
+  if (attempts >= MAX_RETRIES) {
+    await failRefund(refund.id, "Transaction confirmation timeout").catch(console.error);
+    console.log(`⏱️ Refund ${refund.id} timed out after ${MAX_RETRIES} attempts`);
+  }
+}
+
+/**
+ * Watch processing refunds and poll for confirmations
+ */
+export async function watchProcessingRefunds(): Promise<void> {
+  try {
+    const processingRefunds = await db
+      .select()
+      .from(refunds)
+      .where(and(eq(refunds.status, "processing"), isNotNull(refunds.txHash)));
+
+    for (const refund of processingRefunds) {
+      await checkRefundTransaction(refund);
+    }
+  } catch (error) {
+    console.error("Error in refund watcher:", error);
+  }
+}
+
+/**
+ * Start the refund watcher (runs every N seconds)
+ */
+export function startRefundWatcher(): void {
+  // Initial check
+  watchProcessingRefunds().catch(console.error);
+
+  setInterval(() => {
+    watchProcessingRefunds().catch(console.error);
+  }, POLL_INTERVAL);
+
+  console.log(`Refund watcher started (polls every ${POLL_INTERVAL / 1000}s, max ${MAX_RETRIES} attempts)`);
+}
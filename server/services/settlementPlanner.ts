@@ -0,0 +1,152 @@
+/**
+ * Settlement Route Planner
+ * Works out how a payment asset reaches the merchant's settlement currency on Arc:
+ * bridge (CCTP) → settle, or rejects the route when no chain/currency can carry it.
+ * Routes only burn, attest and mint, so the payment must already be in the settlement currency.
+ */
+
+import { supportsCCTP, estimateCCTPBridge } from "./cctpService.js";
+import { getSupportedPaymentAssets } from "./bridgeService.js";
+import { chainRegistry } from "./chainRegistry.js";
+
+const STABLECOINS = ["USDC", "EURC"] as const;
+type Stablecoin = (typeof STABLECOINS)[number];
+
+export type SettlementStepType = "bridge" | "settle";
+
+export interface SettlementStep {
+  type: SettlementStepType;
+  chainId: number; // Chain the step runs on (the source chain for a bridge)
+  toChainId?: number; // Bridge destination
+  fromCurrency: string;
+  toCurrency: string;
+  description: string;
+  estimatedTime: number; // seconds
+  estimatedFees: string; // in the settlement currency
+}
+
+export interface SettlementPlan {
+  routeType: "same_chain" | "cctp";
+  isTestnet: boolean;
+  sourceChainId: number;
+  destinationChainId: number;
+  sourceCurrency: string;
+  destinationCurrency: string;
+  bridgeCurrency: Stablecoin | null; // Token burned and minted via CCTP
+  steps: SettlementStep[];
+  estimatedTime: number; // seconds, all steps
+  estimatedFees: string; // all steps
+}
+
+export interface PlanSettlementRequest {
+  sourceChainId?: number; // Defaults to the destination (same-chain payment)
+  destinationChainId: number;
+  sourceCurrency: string;
+  destinationCurrency: string;
+  amount: string;
+}
+
+/**
+ * No route can carry the payment; the message says why
+ */
+export class SettlementRouteRejectedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SettlementRouteRejectedError";
+  }
+}
+
+function isStablecoin(currency: string): currency is Stablecoin {
+  return (STABLECOINS as readonly string[]).includes(currency);
+}
+
+function chainName(chainId: number): string {
+  return chainRegistry.getChain(chainId)?.name ?? `chain ${chainId}`;
+}
+
+/**
+ * Is the asset payable from this chain when bridging in this stablecoin?
+ */
+function isSupportedSourceAsset(sourceCurrency: string, sourceChainId: number, via: Stablecoin, isTestnet: boolean): boolean {
+  return getSupportedPaymentAssets(via, isTestnet).some(
+    (asset) => asset.chainId === sourceChainId && asset.asset.split("_")[0] === sourceCurrency
+  );
+}
+
+/**
+ * Plan the steps that take sourceCurrency on the source chain to destinationCurrency on Arc
+ * Throws SettlementRouteRejectedError if CCTP can't carry the settlement currency from the source chain.
+ */
+export function planSettlementRoute(request: PlanSettlementRequest): SettlementPlan {
+  const { destinationChainId } = request;
+  const sourceChainId = request.sourceChainId ?? destinationChainId;
+  const sourceCurrency = request.sourceCurrency.toUpperCase();
+  const destinationCurrency = request.destinationCurrency.toUpperCase();
+
+  const destinationChain = chainRegistry.getChain(destinationChainId);
+  if (!destinationChain?.settlement) {
+    throw new SettlementRouteRejectedError(`Payments settle on Arc; chain ${destinationChainId} is not a settlement chain`);
+  }
+  if (!isStablecoin(destinationCurrency)) {
+    throw new SettlementRouteRejectedError(`Cannot settle in ${request.destinationCurrency}; use USDC or EURC`);
+  }
+  const isTestnet = destinationChain.testnet;
+
+  const steps: SettlementStep[] = [];
+  let bridgeCurrency: Stablecoin | null = null;
+
+  // Nothing swaps currencies, so the payment has to arrive in the settlement currency
+  if (sourceCurrency !== destinationCurrency) {
+    throw new SettlementRouteRejectedError(
+      `Cannot convert ${request.sourceCurrency} to ${destinationCurrency}; pay in ${destinationCurrency}`
+    );
+  }
+
+  if (sourceChainId !== destinationChainId) {
+    if (
+      !supportsCCTP(sourceChainId, destinationCurrency, isTestnet) ||
+      !supportsCCTP(destinationChainId, destinationCurrency, isTestnet) ||
+      !isSupportedSourceAsset(sourceCurrency, sourceChainId, destinationCurrency, isTestnet)
+    ) {
+      throw new SettlementRouteRejectedError(
+        `No CCTP route carries ${sourceCurrency} from chain ${sourceChainId} to ${destinationCurrency} on ${chainName(destinationChainId)}`
+      );
+    }
+    bridgeCurrency = destinationCurrency;
+
+    const bridge = estimateCCTPBridge(sourceChainId, destinationChainId, bridgeCurrency, isTestnet, true);
+    steps.push({
+      type: "bridge",
+      chainId: sourceChainId,
+      toChainId: destinationChainId,
+      fromCurrency: bridgeCurrency,
+      toCurrency: bridgeCurrency,
+      description: `Bridge ${bridgeCurrency} from ${chainName(sourceChainId)} to ${chainName(destinationChainId)} via CCTP`,
+      estimatedTime: bridge.estimatedTime,
+      estimatedFees: bridge.estimatedFees,
+    });
+  }
+
+  steps.push({
+    type: "settle",
+    chainId: destinationChainId,
+    fromCurrency: destinationCurrency,
+    toCurrency: destinationCurrency,
+    description: `Settle ${request.amount} ${destinationCurrency} to the merchant wallet on ${chainName(destinationChainId)}`,
+    estimatedTime: 1, // Sub-second finality on Arc
+    estimatedFees: "0",
+  });
+
+  return {
+    routeType: bridgeCurrency ? "cctp" : "same_chain",
+    isTestnet,
+    sourceChainId,
+    destinationChainId,
+    sourceCurrency,
+    destinationCurrency,
+    bridgeCurrency,
+    steps,
+    estimatedTime: steps.reduce((total, step) => total + step.estimatedTime, 0),
+    estimatedFees: steps.reduce((total, step) => total + parseFloat(step.estimatedFees), 0).toFixed(2),
+  };
+}
@@ -7,7 +7,7 @@
 import { db } from "../db.js";
 import { settlementRoutes, paymentAuditLogs } from "../../shared/schema.js";
 import { eq } from "drizzle-orm";
-import { supportsCCTP, estimateCCTPBridge } from "./cctpService.js";
+import { planSettlementRoute, type SettlementPlan } from "./settlementPlanner.js";
 
 export interface CreateSettlementRouteRequest {
   paymentId: string;
@@ -19,6 +19,8 @@ export interface CreateSettlementRouteRequest {
   amount: string;
 }
 
+export type SettlementRouteStatus = "pending" | "processing" | "attesting" | "minting" | "completed" | "failed";
+
 export interface SettlementRoute {
   id: string;
   paymentId: string;
@@ -29,47 +31,32 @@ export interface SettlementRoute {
   sourceCurrency: string;
   destinationCurrency: string;
   amount: string;
-  status: "pending" | "processing" | "completed" | "failed";
+  status: SettlementRouteStatus;
   cctpBurnTxHash: string | null;
   cctpMintTxHash: string | null;
   cctpAttestation: string | null;
+  cctpMessage: string | null;
+  cctpMessageHash: string | null;
+  cctpSourceDomain: number | null;
+  attempts: number;
+  nextAttemptAt: Date | null;
+  lastError: string | null;
+  plan: string | null; // JSON SettlementPlan chosen when the route was created
+  estimatedTime: number | null;
+  estimatedFees: string | null;
   createdAt: Date;
   updatedAt: Date;
 }
 
-/**
- * Determine settlement route type based on chain IDs
- */
-function determineRouteType(
-  sourceChainId: number | undefined,
-  destinationChainId: number
-): "same_chain" | "cctp" {
-  // Same chain if source is not provided or matches destination
-  if (!sourceChainId || sourceChainId === destinationChainId) {
-    return "same_chain";
-  }
-
-  // Check if CCTP is supported
-  const isTestnet = destinationChainId === 5042002;
-  const currency = "USDC"; // Default currency
-  if (supportsCCTP(sourceChainId, currency as "USDC" | "EURC", isTestnet)) {
-    return "cctp";
-  }
-
-  // Fallback to same-chain if CCTP not supported
-  return "same_chain";
-}
-
 /**
  * Create a settlement route for a payment
+ * Throws SettlementRouteRejectedError when no route can carry the payment.
  */
 export async function createSettlementRoute(
   request: CreateSettlementRouteRequest
 ): Promise<SettlementRoute> {
-  const routeType = determineRouteType(
-    request.sourceChainId,
-    request.destinationChainId
-  );
+  const plan = planSettlementRoute(request);
+  const routeType = plan.routeType;
 
   const [route] = await db
     .insert(settlementRoutes)
@@ -77,12 +64,15 @@ export async function createSettlementRoute(
       paymentId: request.paymentId,
       merchantId: request.merchantId,
       routeType,
-      sourceChainId: request.sourceChainId || null,
-      destinationChainId: request.destinationChainId,
-      sourceCurrency: request.sourceCurrency,
-      destinationCurrency: request.destinationCurrency,
+      sourceChainId: plan.sourceChainId,
+      destinationChainId: plan.destinationChainId,
+      sourceCurrency: plan.sourceCurrency,
+      destinationCurrency: plan.destinationCurrency,
       amount: request.amount,
       status: "pending",
+      plan: JSON.stringify(plan),
+      estimatedTime: plan.estimatedTime,
+      estimatedFees: plan.estimatedFees,
     })
     .returning();
 
@@ -95,8 +85,9 @@ export async function createSettlementRoute(
     toStatus: null,
     metadata: JSON.stringify({
       routeType,
-      sourceChainId: request.sourceChainId,
-      destinationChainId: request.destinationChainId,
+      sourceChainId: plan.sourceChainId,
+      destinationChainId: plan.destinationChainId,
+      steps: plan.steps.map((step) => step.type),
       routeId: route.id,
     }),
   }).catch(console.error);
@@ -125,10 +116,16 @@ export async function getSettlementRoute(
 export async function updateSettlementRoute(
   routeId: string,
   updates: {
-    status?: "pending" | "processing" | "completed" | "failed";
+    status?: SettlementRouteStatus;
     cctpBurnTxHash?: string;
-    cctpMintTxHash?: string;
+    cctpMintTxHash?: string | null;
     cctpAttestation?: string;
+    cctpMessage?: string;
+    cctpMessageHash?: string;
+    cctpSourceDomain?: number;
+    attempts?: number;
+    nextAttemptAt?: Date | null;
+    lastError?: string | null;
   }
 ): Promise<SettlementRoute | null> {
   const [route] = await db
@@ -153,6 +150,8 @@ export async function updateSettlementRoute(
         routeType: route.routeType,
         cctpBurnTxHash: updates.cctpBurnTxHash,
         cctpMintTxHash: updates.cctpMintTxHash,
+        cctpMessageHash: updates.cctpMessageHash,
+        error: updates.lastError,
       }),
     }).catch(console.error);
   }
@@ -161,42 +160,15 @@ export async function updateSettlementRoute(
 }
 
 /**
- * Estimate settlement route (same-chain or CCTP)
+ * Estimate settlement route (same-chain or CCTP) without persisting it
+ * Throws SettlementRouteRejectedError when no route can carry the payment.
  */
 export function estimateSettlementRoute(
   sourceChainId: number | undefined,
   destinationChainId: number,
-  currency: "USDC" | "EURC",
-  amount: string,
-  isTestnet: boolean
-): {
-  routeType: "same_chain" | "cctp";
-  estimatedTime: number;
-  estimatedFees: string;
-} {
-  const routeType = determineRouteType(sourceChainId, destinationChainId);
-
-  if (routeType === "same_chain") {
-    return {
-      routeType: "same_chain",
-      estimatedTime: 0, // Instant
-      estimatedFees: "0",
-    };
-  }
-
-  // CCTP route
-  const estimate = estimateCCTPBridge(
-    sourceChainId || destinationChainId,
-    destinationChainId,
-    currency,
-    isTestnet,
-    true // Use fast transfer
-  );
-
-  return {
-    routeType: "cctp",
-    estimatedTime: estimate.estimatedTime,
-    estimatedFees: estimate.estimatedFees,
-  };
+  sourceCurrency: string,
+  destinationCurrency: string,
+  amount: string
+): SettlementPlan {
+  return planSettlementRoute({ sourceChainId, destinationChainId, sourceCurrency, destinationCurrency, amount });
 }
-
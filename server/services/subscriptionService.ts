@@ -5,74 +5,205 @@
  */
 
 import { db } from "../db.js";
-import { subscriptions, subscriptionSchedules, subscriptionInvoices, invoices, payments } from "../../shared/schema.js";
-import { eq, and, lt, gte } from "drizzle-orm";
+import { subscriptions, subscriptionSchedules, subscriptionInvoices, invoices, payments, notifications } from "../../shared/schema.js";
+import { eq, and, lt, lte, gt, ne, desc, isNull } from "drizzle-orm";
 import { dispatchWebhook } from "./webhookService.js";
 import { createPayment } from "./paymentService.js";
+import { resolvePrice } from "./productService.js";
+import { getBillingPeriod, getNextAnchorDate, getPeriodBoundary, type BillingSchedule } from "./billingCycle.js";
+import { describeInterval, MONTH_BASED_INTERVALS, type BillingInterval } from "../../shared/billingIntervals.js";
 import { storage } from "../storage.js";
+import type { SubscriptionEventData } from "../../shared/webhookEvents.js";
+import {
+  SUBSCRIPTION_DUNNING_REMINDER_DAYS,
+  SUBSCRIPTION_PAYMENT_EXPIRY_HOURS,
+  SUBSCRIPTION_MAX_PAYMENT_ATTEMPTS,
+  SUBSCRIPTION_SCHEDULER_MODES,
+} from "../config.js";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
 
 export interface CreateSubscriptionRequest {
   merchantId: string;
   customerEmail: string;
   customerName?: string;
-  amount: string;
+  priceId?: string; // Catalog price; amount and interval come from it
+  amount?: string; // Required without priceId
   currency?: string;
-  interval: "monthly" | "yearly";
+  interval?: BillingInterval;
+  intervalCount?: number; // Every N intervals, e.g. interval "daily" with 30
+  trialDays?: number; // Billing starts when the trial ends
+  isTest?: boolean; // From the API key mode; default test
+  billingAnchorDay?: number; // Month-based intervals: day of month (1-31) billing happens on
   gracePeriodDays?: number;
   metadata?: Record<string, any>;
 }
 
+// next_invoice: carry the proration to the next invoice; immediate: invoice a charge now
+// (credits always go to the next invoice, as nothing is debited from the customer); none: no proration
+export const PRORATION_BEHAVIORS = ["next_invoice", "immediate", "none"] as const;
+export type ProrationBehavior = (typeof PRORATION_BEHAVIORS)[number];
+
+export interface ChangeSubscriptionRequest {
+  priceId?: string; // Recurring catalog price in the subscription's currency
+  amount?: string;
+  interval?: BillingInterval;
+  intervalCount?: number;
+  prorationBehavior?: ProrationBehavior;
+}
+
+export interface SubscriptionChangePreview {
+  subscriptionId: string;
+  currency: string;
+  previousAmount: string;
+  amount: string;
+  interval: BillingInterval;
+  intervalCount: number;
+  prorationBehavior: ProrationBehavior;
+  prorationDate: Date;
+  periodStart: Date | null; // Current invoiced period; null when nothing is billed yet (e.g. trialing)
+  periodEnd: Date | null;
+  unusedCredit: string; // Old plan, rest of the period
+  remainingCharge: string; // New plan, rest of the period
+  prorationAmount: string; // remainingCharge - unusedCredit; negative is a credit
+  billingCycleReset: boolean; // Interval changed: a new period on the new plan starts now
+  immediateInvoiceAmount: string | null; // Invoiced now
+  nextInvoiceAmount: string; // Next period's invoice, including carried prorations
+  nextBillingAt: Date;
+}
+
+/**
+ * A plan change that can't be applied to the subscription
+ */
+export class SubscriptionChangeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SubscriptionChangeError";
+  }
+}
+
 export interface Subscription {
   id: string;
   merchantId: string;
+  priceId: string | null;
   customerEmail: string;
   customerName: string | null;
   amount: string;
   currency: string;
-  interval: "monthly" | "yearly";
-  status: "active" | "paused" | "canceled" | "past_due";
+  interval: BillingInterval;
+  intervalCount: number;
+  status: "active" | "paused" | "canceled" | "past_due" | "trialing";
   nextBillingAt: Date;
+  trialEndsAt: Date | null;
+  billingAnchorAt: Date | null;
+  billingAnchorDay: number | null;
   gracePeriodDays: number;
+  prorationBalance: string;
+  pausedAt: Date | null;
+  resumeAt: Date | null;
   canceledAt: Date | null;
+  cancellationReason: string | null;
+  isTest: boolean;
   createdAt: Date;
   updatedAt: Date;
 }
 
+export type SubscriptionMode = "test" | "live";
+
 /**
- * Calculate next billing date
+ * Condition limiting subscriptions to one mode; none when the caller's mode is unknown
  */
-function calculateNextBillingDate(interval: "monthly" | "yearly"): Date {
-  const now = new Date();
-  const next = new Date(now);
-  
-  if (interval === "monthly") {
-    next.setMonth(next.getMonth() + 1);
-  } else {
-    next.setFullYear(next.getFullYear() + 1);
-  }
-  
-  return next;
+function inMode(mode?: SubscriptionMode) {
+  return mode ? eq(subscriptions.isTest, mode === "test") : undefined;
+}
+
+/**
+ * Shape a subscription for webhook event data
+ */
+function toSubscriptionEventData(subscription: typeof subscriptions.$inferSelect): SubscriptionEventData {
+  return {
+    id: subscription.id,
+    customerEmail: subscription.customerEmail,
+    amount: subscription.amount,
+    currency: subscription.currency,
+    interval: subscription.interval,
+    intervalCount: subscription.intervalCount,
+    status: subscription.status,
+    nextBillingAt: subscription.nextBillingAt,
+    trialEndsAt: subscription.trialEndsAt,
+    pausedAt: subscription.pausedAt,
+    resumeAt: subscription.resumeAt,
+    canceledAt: subscription.canceledAt,
+    cancellationReason: subscription.cancellationReason,
+  };
+}
+
+/**
+ * Billing schedule of a subscription; rows from before anchors existed are anchored on their next billing date
+ */
+export function getBillingSchedule(subscription: typeof subscriptions.$inferSelect): BillingSchedule {
+  return {
+    interval: subscription.interval,
+    intervalCount: subscription.intervalCount,
+    billingAnchorAt: subscription.billingAnchorAt ?? subscription.nextBillingAt,
+    billingAnchorDay: subscription.billingAnchorDay,
+  };
 }
 
 /**
  * Create a subscription
  */
 export async function createSubscription(request: CreateSubscriptionRequest): Promise<Subscription> {
-  const nextBillingAt = calculateNextBillingDate(request.interval);
+  let amount = request.amount;
+  let currency = request.currency || "USDC";
+  let interval = request.interval || "monthly";
+  let intervalCount = request.intervalCount || 1;
+
+  // The price's current terms are copied, so archiving it later doesn't change this subscription
+  if (request.priceId) {
+    const resolved = await resolvePrice(request.priceId, request.merchantId, "recurring", request.currency);
+    amount = resolved.amount;
+    currency = resolved.currency;
+    interval = resolved.price.interval ?? interval;
+    intervalCount = resolved.price.intervalCount;
+  }
+
+  if (!amount) {
+    throw new Error("Amount or priceId is required");
+  }
+
+  // The first period starts now, after the trial, or on the next anchor day (whichever is last);
+  // it is invoiced at its start, and so is every later period
+  const now = new Date();
+  const trialEndsAt = request.trialDays ? new Date(now.getTime() + request.trialDays * 24 * 60 * 60 * 1000) : null;
+  const isMonthBased = MONTH_BASED_INTERVALS.includes(interval);
+  const billingAnchorDay = isMonthBased ? (request.billingAnchorDay ?? null) : null;
+  const billingStartsAt = trialEndsAt ?? now;
+  const billingAnchorAt = billingAnchorDay ? getNextAnchorDate(billingStartsAt, billingAnchorDay) : billingStartsAt;
+  const nextBillingAt = billingAnchorAt;
   
   const [subscription] = await db
     .insert(subscriptions)
     .values({
       merchantId: request.merchantId,
+      priceId: request.priceId || null,
       customerEmail: request.customerEmail,
       customerName: request.customerName || null,
-      amount: request.amount,
-      currency: request.currency || "USDC",
-      interval: request.interval,
-      status: "active",
+      amount,
+      currency,
+      interval,
+      intervalCount,
+      status: trialEndsAt ? "trialing" : "active",
       nextBillingAt,
+      trialEndsAt,
+      billingAnchorAt,
+      billingAnchorDay: billingAnchorDay ?? (isMonthBased ? billingAnchorAt.getUTCDate() : null),
       gracePeriodDays: request.gracePeriodDays || 7,
       metadata: request.metadata ? JSON.stringify(request.metadata) : null,
+      isTest: request.isTest !== undefined ? request.isTest : true,
     })
     .returning();
 
@@ -84,257 +215,877 @@ export async function createSubscription(request: CreateSubscriptionRequest): Pr
   });
 
   // Dispatch webhook
-  await dispatchWebhook(request.merchantId, "subscription.created", {
-    type: "subscription.created",
-    data: {
-      id: subscription.id,
-      customerEmail: subscription.customerEmail,
-      amount: subscription.amount,
-      currency: subscription.currency,
-      interval: subscription.interval,
-      nextBillingAt: subscription.nextBillingAt,
-    },
+  await dispatchWebhook(request.merchantId, "subscription.created", toSubscriptionEventData(subscription), {
+    livemode: !subscription.isTest,
   }).catch(console.error);
 
   return subscription as Subscription;
 }
 
 /**
- * Generate invoice for subscription billing cycle
- * Called by background job
+ * Create an invoice (with a PaymentIntent to pay it, unless credits cover it) and link it to the subscription
+ * Pass the transaction holding the subscription's row lock, if any, so the link is written under it.
  */
-export async function generateSubscriptionInvoice(subscriptionId: string): Promise<void> {
-  const [subscription] = await db
-    .select()
-    .from(subscriptions)
-    .where(eq(subscriptions.id, subscriptionId))
-    .limit(1);
-
-  if (!subscription || subscription.status !== "active") {
-    return; // Skip inactive subscriptions
-  }
-
-  // Check if invoice already exists for this billing period
-  const now = new Date();
-  const billingPeriodStart = new Date(subscription.nextBillingAt);
-  billingPeriodStart.setDate(billingPeriodStart.getDate() - (subscription.interval === "monthly" ? 30 : 365));
-  
-  const existingInvoices = await db
-    .select()
-    .from(subscriptionInvoices)
-    .where(
-      and(
-        eq(subscriptionInvoices.subscriptionId, subscriptionId),
-        gte(subscriptionInvoices.billingPeriodStart, billingPeriodStart)
-      )
-    );
-
-  if (existingInvoices.length > 0) {
-    return; // Invoice already generated
-  }
-
+async function createSubscriptionInvoice(
+  subscription: typeof subscriptions.$inferSelect,
+  options: {
+    amount: string;
+    description: string;
+    kind: "cycle" | "proration";
+    billingPeriodStart: Date;
+    billingPeriodEnd: Date;
+    prorationAmount: string | null;
+  },
+  tx: DbTransaction | typeof db = db
+) {
   // Get merchant wallet
   const merchant = await storage.getMerchant(subscription.merchantId);
   if (!merchant || !merchant.walletAddress) {
     throw new Error("Merchant wallet address not found");
   }
 
+  const amountDue = parseFloat(options.amount) > 0;
+
   // Create invoice
   const invoiceNumber = `SUB-${Date.now().toString(36).toUpperCase()}-${subscription.id.slice(0, 8).toUpperCase()}`;
   const invoice = await storage.createInvoice({
     merchantId: subscription.merchantId,
     invoiceNumber,
-    amount: subscription.amount,
+    amount: options.amount,
     currency: subscription.currency,
     customerEmail: subscription.customerEmail,
     customerName: subscription.customerName || null,
-    description: `Subscription billing - ${subscription.interval}`,
-    status: "sent",
+    description: options.description,
+    status: amountDue ? "sent" : "paid",
+    isTest: subscription.isTest,
   });
 
-  // Create PaymentIntent for invoice
-  const payment = await createPayment({
+  let payment: Awaited<ReturnType<typeof createPayment>> | null = null;
+  if (amountDue) {
+    // Create PaymentIntent for invoice
+    const graceEndsAt = new Date(Date.now() + subscription.gracePeriodDays * DAY_MS);
+    payment = await createInvoicePayment(subscription, merchant.walletAddress, options.amount, invoiceNumber, graceEndsAt);
+
+    // Link invoice to payment
+    await storage.updateInvoice(invoice.id, {
+      paymentId: payment.id,
+    });
+  }
+
+  // Create subscription invoice record
+  await tx.insert(subscriptionInvoices).values({
+    subscriptionId: subscription.id,
+    invoiceId: invoice.id,
+    paymentId: payment?.id ?? null,
+    billingPeriodStart: options.billingPeriodStart,
+    billingPeriodEnd: options.billingPeriodEnd,
+    kind: options.kind,
+    prorationAmount: options.prorationAmount,
+    dunningClosedAt: amountDue ? null : new Date(), // Nothing to collect
+  });
+
+  return { invoice, payment };
+}
+
+/**
+ * PaymentIntent for a subscription invoice; it stays payable for SUBSCRIPTION_PAYMENT_EXPIRY_HOURS,
+ * but not past the end of the grace period
+ */
+async function createInvoicePayment(
+  subscription: typeof subscriptions.$inferSelect,
+  merchantWallet: string,
+  amount: string,
+  invoiceNumber: string,
+  graceEndsAt: Date
+) {
+  const expiresAt = Math.min(Date.now() + SUBSCRIPTION_PAYMENT_EXPIRY_HOURS * HOUR_MS, graceEndsAt.getTime());
+
+  return createPayment({
     merchantId: subscription.merchantId,
-    amount: subscription.amount,
+    amount,
     currency: subscription.currency,
     settlementCurrency: subscription.currency,
     description: `Subscription payment - ${invoiceNumber}`,
     customerEmail: subscription.customerEmail,
-    merchantWallet: merchant.walletAddress,
-    isTest: true, // Match subscription test mode if needed
+    merchantWallet,
+    expiresInMinutes: Math.max(Math.ceil((expiresAt - Date.now()) / (60 * 1000)), 1),
+    isTest: subscription.isTest,
   });
+}
 
-  // Link invoice to payment
-  await storage.updateInvoice(invoice.id, {
-    paymentId: payment.id,
-  });
+/**
+ * Generate invoice for subscription billing cycle
+ * Called by background job; with a mode, subscriptions of the other mode are left alone.
+ * The subscription row is locked while the invoice is created, so concurrent runs can't bill
+ * a period twice. A scheduled run passes its schedule: it skips a subscription another run
+ * has locked, and does nothing once the schedule is no longer pending.
+ */
+export async function generateSubscriptionInvoice(
+  subscriptionId: string,
+  mode?: SubscriptionMode,
+  scheduleId?: string
+): Promise<void> {
+  const generated = await db.transaction(async (tx) => {
+    const [subscription] = await tx
+      .select()
+      .from(subscriptions)
+      .where(and(eq(subscriptions.id, subscriptionId), inMode(mode)))
+      .for("update", scheduleId ? { skipLocked: true } : {});
 
-  // Create subscription invoice record
-  await db.insert(subscriptionInvoices).values({
-    subscriptionId: subscription.id,
-    invoiceId: invoice.id,
-    paymentId: payment.id,
-    billingPeriodStart,
-    billingPeriodEnd: new Date(subscription.nextBillingAt),
+    if (!subscription || (subscription.status !== "active" && subscription.status !== "trialing" && subscription.status !== "past_due")) {
+      return null; // Skip paused and canceled subscriptions (or one another run is billing)
+    }
+
+    if (scheduleId) {
+      const [schedule] = await tx
+        .select({ id: subscriptionSchedules.id })
+        .from(subscriptionSchedules)
+        .where(and(eq(subscriptionSchedules.id, scheduleId), eq(subscriptionSchedules.status, "pending")));
+
+      if (!schedule) {
+        return null; // Already executed by another run
+      }
+    }
+
+    // The period starting at nextBillingAt, with boundaries counted from the anchor
+    const now = new Date();
+    const period = getBillingPeriod(getBillingSchedule(subscription), subscription.nextBillingAt);
+    const billingPeriodStart = period.start;
+
+    // Check if invoice already exists for this billing period
+    const existingInvoices = await tx
+      .select()
+      .from(subscriptionInvoices)
+      .where(
+        and(
+          eq(subscriptionInvoices.subscriptionId, subscriptionId),
+          eq(subscriptionInvoices.kind, "cycle"),
+          eq(subscriptionInvoices.billingPeriodStart, billingPeriodStart)
+        )
+      );
+
+    if (existingInvoices.length > 0) {
+      return null; // Invoice already generated
+    }
+
+    // Prorations from plan changes are settled on this invoice; a credit larger than the
+    // period's amount covers it and the rest carries over
+    const prorationBalance = parseFloat(subscription.prorationBalance);
+    const total = parseFloat(subscription.amount) + prorationBalance;
+    const { invoice, payment } = await createSubscriptionInvoice(
+      subscription,
+      {
+        amount: Math.max(total, 0).toFixed(6),
+        description: `Subscription billing - every ${describeInterval(subscription.interval, subscription.intervalCount)}`,
+        kind: "cycle",
+        billingPeriodStart,
+        billingPeriodEnd: period.end,
+        prorationAmount: prorationBalance !== 0 ? prorationBalance.toFixed(6) : null,
+      },
+      tx
+    );
+
+    // Update schedule
+    await tx
+      .update(subscriptionSchedules)
+      .set({
+        executedAt: now,
+        invoiceId: invoice.id,
+        status: "executed",
+      })
+      .where(
+        and(
+          eq(subscriptionSchedules.subscriptionId, subscriptionId),
+          eq(subscriptionSchedules.status, "pending")
+        )
+      );
+
+    // Schedule next billing at the start of the following period (a trial ends with the first invoice)
+    const nextBillingAt = period.end;
+    const status = subscription.status === "trialing" ? "active" : subscription.status;
+    await tx
+      .update(subscriptions)
+      .set({
+        nextBillingAt,
+        status,
+        prorationBalance: Math.min(total, 0).toFixed(6),
+        updatedAt: now,
+      })
+      .where(eq(subscriptions.id, subscriptionId));
+
+    // Create next schedule
+    await tx.insert(subscriptionSchedules).values({
+      subscriptionId: subscription.id,
+      scheduledAt: nextBillingAt,
+      status: "pending",
+    });
+
+    return { subscription: { ...subscription, status, nextBillingAt }, invoice, payment };
   });
 
-  // Update schedule
-  await db
-    .update(subscriptionSchedules)
-    .set({
-      executedAt: now,
+  if (!generated) {
+    return;
+  }
+
+  // Dispatch webhook
+  const { subscription, invoice, payment } = generated;
+  await dispatchWebhook(
+    subscription.merchantId,
+    "subscription.invoice_generated",
+    {
+      ...toSubscriptionEventData(subscription),
       invoiceId: invoice.id,
-      status: "executed",
-    })
+      paymentId: payment?.id,
+    },
+    { livemode: !subscription.isTest }
+  ).catch(console.error);
+}
+
+// Payment statuses that settle a subscription invoice
+const PAID_PAYMENT_STATUSES = ["confirmed", "refunded", "partially_refunded"];
+
+/**
+ * Chase unpaid subscription invoices during the subscription's grace period (dunning).
+ * Reminders go out SUBSCRIPTION_DUNNING_REMINDER_DAYS after the invoice was issued; an expired or failed
+ * PaymentIntent is replaced (and the subscription marked past_due) until SUBSCRIPTION_MAX_PAYMENT_ATTEMPTS
+ * is reached. When the last attempt lapses, or the grace period ends, the subscription is canceled.
+ */
+export async function processSubscriptionDunning(mode?: SubscriptionMode): Promise<void> {
+  const openInvoices = await db
+    .select({ subscriptionInvoice: subscriptionInvoices, subscription: subscriptions })
+    .from(subscriptionInvoices)
+    .innerJoin(subscriptions, eq(subscriptionInvoices.subscriptionId, subscriptions.id))
+    .where(and(isNull(subscriptionInvoices.dunningClosedAt), inMode(mode)));
+
+  for (const { subscriptionInvoice, subscription } of openInvoices) {
+    try {
+      await dunSubscriptionInvoice(subscriptionInvoice, subscription);
+    } catch (error) {
+      console.error(`Dunning failed for subscription invoice ${subscriptionInvoice.id}:`, error);
+    }
+  }
+}
+
+async function dunSubscriptionInvoice(
+  subscriptionInvoice: typeof subscriptionInvoices.$inferSelect,
+  subscription: typeof subscriptions.$inferSelect
+): Promise<void> {
+  const now = new Date();
+  const closeDunning = () =>
+    db.update(subscriptionInvoices).set({ dunningClosedAt: now }).where(eq(subscriptionInvoices.id, subscriptionInvoice.id));
+
+  if (subscription.status === "canceled") {
+    await closeDunning();
+    return;
+  }
+
+  const invoice = await storage.getInvoice(subscriptionInvoice.invoiceId);
+  let payment = subscriptionInvoice.paymentId ? await storage.getPayment(subscriptionInvoice.paymentId) : undefined;
+
+  // Paid on-chain, or marked paid by the merchant
+  if (!invoice || invoice.status === "paid" || (payment && PAID_PAYMENT_STATUSES.includes(payment.status))) {
+    if (invoice && invoice.status !== "paid") {
+      await storage.updateInvoice(invoice.id, { status: "paid" });
+    }
+    await closeDunning();
+    await restoreIfSettled(subscription, subscriptionInvoice.id);
+    return;
+  }
+
+  // A submitted transfer is still being verified
+  if (payment && (payment.status === "pending" || payment.status === "confirming")) {
+    return;
+  }
+
+  const graceEndsAt = new Date(subscriptionInvoice.createdAt.getTime() + subscription.gracePeriodDays * DAY_MS);
+  const lapsed =
+    !payment ||
+    payment.status === "failed" ||
+    payment.status === "expired" ||
+    (payment.expiresAt !== null && payment.expiresAt <= now);
+  let attemptCount = subscriptionInvoice.attemptCount;
+
+  if (lapsed) {
+    if (now >= graceEndsAt || attemptCount >= SUBSCRIPTION_MAX_PAYMENT_ATTEMPTS) {
+      await storage.updateInvoice(invoice.id, { status: "overdue" });
+      await endSubscription(subscription, "payment_failed");
+      return;
+    }
+
+    const merchant = await storage.getMerchant(subscription.merchantId);
+    if (!merchant || !merchant.walletAddress) {
+      throw new Error("Merchant wallet address not found");
+    }
+
+    // The row lock lets only one run replace the lapsed PaymentIntent
+    const regenerated = await db.transaction(async (tx) => {
+      const [current] = await tx
+        .select()
+        .from(subscriptionInvoices)
+        .where(eq(subscriptionInvoices.id, subscriptionInvoice.id))
+        .for("update");
+
+      if (!current || current.dunningClosedAt || current.paymentId !== subscriptionInvoice.paymentId) {
+        return null; // Another run already replaced it (or closed dunning)
+      }
+
+      const replacement = await createInvoicePayment(subscription, merchant.walletAddress!, invoice.amount, invoice.invoiceNumber, graceEndsAt);
+      await tx
+        .update(subscriptionInvoices)
+        .set({ paymentId: replacement.id, attemptCount: current.attemptCount + 1 })
+        .where(eq(subscriptionInvoices.id, subscriptionInvoice.id));
+
+      return { payment: replacement, attemptCount: current.attemptCount + 1 };
+    });
+
+    if (!regenerated) {
+      return;
+    }
+
+    payment = regenerated.payment;
+    attemptCount = regenerated.attemptCount;
+    await storage.updateInvoice(invoice.id, { paymentId: payment.id });
+
+    if (subscription.status === "active") {
+      const [pastDue] = await db
+        .update(subscriptions)
+        .set({ status: "past_due", updatedAt: now })
+        .where(eq(subscriptions.id, subscription.id))
+        .returning();
+      subscription = pastDue;
+
+      // Dispatch webhook
+      await dispatchWebhook(
+        subscription.merchantId,
+        "subscription.past_due",
+        { ...toSubscriptionEventData(subscription), invoiceId: invoice.id, paymentId: payment.id },
+        { livemode: !subscription.isTest }
+      ).catch(console.error);
+    }
+  }
+
+  // Reminders that came due since the last run are sent as one
+  const reminderDays = SUBSCRIPTION_DUNNING_REMINDER_DAYS.filter((days) => days < subscription.gracePeriodDays);
+  const dueReminders = reminderDays.filter(
+    (days) => subscriptionInvoice.createdAt.getTime() + days * DAY_MS <= now.getTime()
+  ).length;
+
+  if (dueReminders > subscriptionInvoice.remindersSent) {
+    // Conditional, so a concurrent run doesn't send the same reminder again
+    const [reminded] = await db
+      .update(subscriptionInvoices)
+      .set({ remindersSent: dueReminders, lastReminderAt: now })
+      .where(and(eq(subscriptionInvoices.id, subscriptionInvoice.id), lt(subscriptionInvoices.remindersSent, dueReminders)))
+      .returning();
+
+    if (!reminded) {
+      return;
+    }
+
+    await db.insert(notifications).values({
+      merchantId: subscription.merchantId,
+      title: "Subscription payment overdue",
+      message: `Invoice ${invoice.invoiceNumber} (${invoice.amount} ${invoice.currency}) for ${subscription.customerEmail} is unpaid. The subscription is canceled if it isn't paid by ${graceEndsAt.toISOString()}.`,
+      type: "warning",
+      read: false,
+    });
+
+    // Dispatch webhook
+    await dispatchWebhook(
+      subscription.merchantId,
+      "subscription.payment_reminder",
+      {
+        ...toSubscriptionEventData(subscription),
+        invoiceId: invoice.id,
+        paymentId: payment?.id,
+        attemptCount,
+        graceEndsAt,
+      },
+      { livemode: !subscription.isTest }
+    ).catch(console.error);
+  }
+}
+
+/**
+ * Put a past_due subscription back to active once none of its invoices are outstanding
+ */
+async function restoreIfSettled(subscription: typeof subscriptions.$inferSelect, settledInvoiceId: string): Promise<void> {
+  if (subscription.status !== "past_due") {
+    return;
+  }
+
+  const [outstanding] = await db
+    .select({ id: subscriptionInvoices.id })
+    .from(subscriptionInvoices)
     .where(
       and(
-        eq(subscriptionSchedules.subscriptionId, subscriptionId),
-        eq(subscriptionSchedules.status, "pending")
+        eq(subscriptionInvoices.subscriptionId, subscription.id),
+        isNull(subscriptionInvoices.dunningClosedAt),
+        ne(subscriptionInvoices.id, settledInvoiceId)
       )
-    );
+    )
+    .limit(1);
 
-  // Schedule next billing
-  const nextBillingAt = calculateNextBillingDate(subscription.interval);
-  await db
+  if (outstanding) {
+    return;
+  }
+
+  const [restored] = await db
+    .update(subscriptions)
+    .set({ status: "active", updatedAt: new Date() })
+    .where(and(eq(subscriptions.id, subscription.id), eq(subscriptions.status, "past_due")))
+    .returning();
+
+  if (restored) {
+    await dispatchWebhook(restored.merchantId, "subscription.updated", toSubscriptionEventData(restored), {
+      livemode: !restored.isTest,
+    }).catch(console.error);
+  }
+}
+
+/**
+ * Cancel a subscription: no further invoices or dunning
+ */
+async function endSubscription(
+  subscription: typeof subscriptions.$inferSelect,
+  reason: "requested" | "payment_failed"
+): Promise<typeof subscriptions.$inferSelect> {
+  const now = new Date();
+  const [updated] = await db
     .update(subscriptions)
     .set({
-      nextBillingAt,
+      status: "canceled",
+      canceledAt: now,
+      cancellationReason: reason,
+      resumeAt: null,
       updatedAt: now,
     })
-    .where(eq(subscriptions.id, subscriptionId));
+    .where(eq(subscriptions.id, subscription.id))
+    .returning();
 
-  // Create next schedule
-  await db.insert(subscriptionSchedules).values({
-    subscriptionId: subscription.id,
-    scheduledAt: nextBillingAt,
-    status: "pending",
-  });
+  await db
+    .update(subscriptionSchedules)
+    .set({ status: "skipped" })
+    .where(and(eq(subscriptionSchedules.subscriptionId, subscription.id), eq(subscriptionSchedules.status, "pending")));
+  await db
+    .update(subscriptionInvoices)
+    .set({ dunningClosedAt: now })
+    .where(and(eq(subscriptionInvoices.subscriptionId, subscription.id), isNull(subscriptionInvoices.dunningClosedAt)));
 
   // Dispatch webhook
-  await dispatchWebhook(subscription.merchantId, "subscription.invoice_generated", {
-    type: "subscription.invoice_generated",
-    data: {
+  await dispatchWebhook(subscription.merchantId, "subscription.canceled", toSubscriptionEventData(updated), {
+    livemode: !subscription.isTest,
+  }).catch(console.error);
+
+  return updated;
+}
+
+/**
+ * Cancel subscription
+ */
+export async function cancelSubscription(subscriptionId: string, merchantId: string, mode?: SubscriptionMode): Promise<Subscription> {
+  const subscription = await getMerchantSubscription(subscriptionId, merchantId, mode);
+  if (subscription.status === "canceled") {
+    return subscription as Subscription;
+  }
+
+  return (await endSubscription(subscription, "requested")) as Subscription;
+}
+
+/**
+ * Invoiced billing period that `at` falls in, if any, and whether it has been paid
+ */
+async function getCurrentInvoicedPeriod(subscriptionId: string, at: Date) {
+  const [current] = await db
+    .select({ subscriptionInvoice: subscriptionInvoices, invoiceStatus: invoices.status })
+    .from(subscriptionInvoices)
+    .innerJoin(invoices, eq(subscriptionInvoices.invoiceId, invoices.id))
+    .where(
+      and(
+        eq(subscriptionInvoices.subscriptionId, subscriptionId),
+        eq(subscriptionInvoices.kind, "cycle"),
+        lte(subscriptionInvoices.billingPeriodStart, at),
+        gt(subscriptionInvoices.billingPeriodEnd, at)
+      )
+    )
+    .orderBy(desc(subscriptionInvoices.billingPeriodStart))
+    .limit(1);
+
+  if (!current) {
+    return null;
+  }
+
+  // Still in dunning (or closed unpaid) means the customer hasn't paid for the period
+  const paid = current.subscriptionInvoice.dunningClosedAt !== null && current.invoiceStatus === "paid";
+  return { ...current.subscriptionInvoice, paid };
+}
+
+/**
+ * Work out the new terms and proration of a plan change at `at`, without applying it.
+ * The unused part of the current period is credited at the old amount and the rest of the
+ * period charged at the new one. Changing the interval restarts the billing cycle instead:
+ * the credit is applied to a full period on the new plan, invoiced at once.
+ * A period whose invoice hasn't been paid is not prorated: there is nothing to credit.
+ */
+async function computeSubscriptionChange(
+  subscription: typeof subscriptions.$inferSelect,
+  change: ChangeSubscriptionRequest,
+  at: Date
+): Promise<{ preview: SubscriptionChangePreview; priceId: string | null; currentPeriodEnd: Date | null }> {
+  if (subscription.status !== "active" && subscription.status !== "trialing") {
+    throw new SubscriptionChangeError(`Cannot change a ${subscription.status} subscription`);
+  }
+
+  const prorationBehavior = change.prorationBehavior || "next_invoice";
+  let priceId = subscription.priceId;
+  let amount = change.amount ?? subscription.amount;
+  let interval = change.interval ?? subscription.interval;
+  let intervalCount = change.intervalCount ?? (interval !== subscription.interval ? 1 : subscription.intervalCount);
+
+  if (change.priceId) {
+    // The subscription keeps its currency; the price needs an amount in it
+    const resolved = await resolvePrice(change.priceId, subscription.merchantId, "recurring", subscription.currency);
+    priceId = resolved.price.id;
+    amount = resolved.amount;
+    interval = resolved.price.interval ?? interval;
+    intervalCount = resolved.price.intervalCount;
+  } else if (change.amount !== undefined || change.interval !== undefined || change.intervalCount !== undefined) {
+    priceId = null; // Custom terms no longer match the catalog price
+  }
+
+  const previousAmount = parseFloat(subscription.amount);
+  const newAmount = parseFloat(amount);
+  const intervalChanged = interval !== subscription.interval || intervalCount !== subscription.intervalCount;
+  if (newAmount === previousAmount && !intervalChanged && priceId === subscription.priceId) {
+    throw new SubscriptionChangeError("The subscription is already on these terms");
+  }
+
+  // Nothing has been billed during a trial, so there is nothing to prorate or restart
+  const billingCycleReset = intervalChanged && subscription.status === "active";
+  const current = subscription.status === "active" ? await getCurrentInvoicedPeriod(subscription.id, at) : null;
+
+  let unusedCredit = 0;
+  let remainingCharge = 0;
+  if (current?.paid && prorationBehavior !== "none") {
+    const periodStart = current.billingPeriodStart.getTime();
+    const periodEnd = current.billingPeriodEnd.getTime();
+    const remaining = (periodEnd - at.getTime()) / (periodEnd - periodStart);
+    unusedCredit = previousAmount * remaining;
+    remainingCharge = billingCycleReset ? 0 : newAmount * remaining;
+  }
+  const prorationAmount = parseFloat((remainingCharge - unusedCredit).toFixed(6));
+
+  // Balance left for later invoices once this change is settled
+  let balance = parseFloat(subscription.prorationBalance) + prorationAmount;
+  let immediateInvoiceAmount: number | null = null;
+  let nextBillingAt = subscription.nextBillingAt;
+
+  if (billingCycleReset) {
+    immediateInvoiceAmount = Math.max(newAmount + balance, 0);
+    balance = Math.min(newAmount + balance, 0);
+    nextBillingAt = getPeriodBoundary(
+      {
+        interval,
+        intervalCount,
+        billingAnchorAt: at,
+        billingAnchorDay: MONTH_BASED_INTERVALS.includes(interval) ? at.getUTCDate() : null,
+      },
+      1
+    );
+  } else if (prorationBehavior === "immediate" && balance > 0 && prorationAmount > 0) {
+    immediateInvoiceAmount = balance;
+    balance = 0;
+  }
+
+  return {
+    priceId,
+    currentPeriodEnd: current?.billingPeriodEnd ?? null,
+    preview: {
       subscriptionId: subscription.id,
-      invoiceId: invoice.id,
-      paymentId: payment.id,
-      amount: subscription.amount,
       currency: subscription.currency,
+      previousAmount: subscription.amount,
+      amount: newAmount.toFixed(6),
+      interval,
+      intervalCount,
+      prorationBehavior,
+      prorationDate: at,
+      periodStart: current?.billingPeriodStart ?? null,
+      periodEnd: current?.billingPeriodEnd ?? null,
+      unusedCredit: unusedCredit.toFixed(6),
+      remainingCharge: remainingCharge.toFixed(6),
+      prorationAmount: prorationAmount.toFixed(6),
+      billingCycleReset,
+      immediateInvoiceAmount: immediateInvoiceAmount !== null ? immediateInvoiceAmount.toFixed(6) : null,
+      nextInvoiceAmount: Math.max(newAmount + balance, 0).toFixed(6),
       nextBillingAt,
     },
-  }).catch(console.error);
+  };
 }
 
 /**
- * Check for past due subscriptions
+ * A merchant's subscription in the caller's mode, or "Subscription not found"
  */
-export async function checkPastDueSubscriptions(): Promise<void> {
-  const now = new Date();
-  
-  // Find subscriptions with unpaid invoices past grace period
-  const pastDueSubscriptions = await db
+async function getMerchantSubscription(subscriptionId: string, merchantId: string, mode?: SubscriptionMode) {
+  const [subscription] = await db
     .select()
     .from(subscriptions)
-    .where(
-      and(
-        eq(subscriptions.status, "active"),
-        lt(subscriptions.nextBillingAt, new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000)) // 7 days past due
-      )
-    );
+    .where(and(eq(subscriptions.id, subscriptionId), eq(subscriptions.merchantId, merchantId), inMode(mode)))
+    .limit(1);
+
+  if (!subscription) {
+    throw new Error("Subscription not found");
+  }
+
+  return subscription;
+}
 
-  for (const subscription of pastDueSubscriptions) {
-    // Check if invoice is paid
-    const recentInvoices = await db
+/**
+ * Proration a plan change would produce right now; nothing is saved
+ */
+export async function previewSubscriptionChange(
+  subscriptionId: string,
+  merchantId: string,
+  change: ChangeSubscriptionRequest,
+  mode?: SubscriptionMode
+): Promise<SubscriptionChangePreview> {
+  const subscription = await getMerchantSubscription(subscriptionId, merchantId, mode);
+  const { preview } = await computeSubscriptionChange(subscription, change, new Date());
+  return preview;
+}
+
+/**
+ * Upgrade or downgrade a subscription mid-period (see computeSubscriptionChange for the proration)
+ */
+export async function changeSubscription(
+  subscriptionId: string,
+  merchantId: string,
+  change: ChangeSubscriptionRequest,
+  mode?: SubscriptionMode
+): Promise<Subscription & { proration: SubscriptionChangePreview }> {
+  const now = new Date();
+  const { subscription, updated, preview, currentPeriodEnd, invoiceNow } = await db.transaction(async (tx) => {
+    // The row lock serializes concurrent changes, so each one prorates from the balance the last one left
+    const [subscription] = await tx
       .select()
-      .from(subscriptionInvoices)
-      .where(eq(subscriptionInvoices.subscriptionId, subscription.id))
-      .orderBy(subscriptionInvoices.createdAt)
-      .limit(1);
+      .from(subscriptions)
+      .where(and(eq(subscriptions.id, subscriptionId), eq(subscriptions.merchantId, merchantId), inMode(mode)))
+      .for("update");
 
-    if (recentInvoices.length > 0) {
-      const invoice = await storage.getInvoice(recentInvoices[0].invoiceId);
-      if (invoice && invoice.status === "paid") {
-        continue; // Invoice is paid, skip
-      }
+    if (!subscription) {
+      throw new Error("Subscription not found");
     }
 
-    // Mark as past_due
-    await db
+    const { preview, priceId, currentPeriodEnd } = await computeSubscriptionChange(subscription, change, now);
+
+    const prorationAmount = parseFloat(preview.prorationAmount);
+    const carriedBalance = parseFloat(subscription.prorationBalance) + prorationAmount;
+    const invoiceNow = !preview.billingCycleReset && preview.immediateInvoiceAmount !== null;
+
+    const [updated] = await tx
       .update(subscriptions)
       .set({
-        status: "past_due",
+        priceId,
+        amount: preview.amount,
+        interval: preview.interval,
+        intervalCount: preview.intervalCount,
+        // On a cycle reset the balance is settled by the invoice for the new period below
+        prorationBalance: invoiceNow ? "0" : carriedBalance.toFixed(6),
+        ...(preview.billingCycleReset
+          ? {
+              billingAnchorAt: now,
+              billingAnchorDay: MONTH_BASED_INTERVALS.includes(preview.interval) ? now.getUTCDate() : null,
+              nextBillingAt: now,
+            }
+          : {}),
         updatedAt: now,
       })
-      .where(eq(subscriptions.id, subscription.id));
+      .where(eq(subscriptions.id, subscriptionId))
+      .returning();
 
-    // Dispatch webhook
-    await dispatchWebhook(subscription.merchantId, "subscription.past_due", {
-      type: "subscription.past_due",
-      data: {
-        id: subscription.id,
-        customerEmail: subscription.customerEmail,
+    return { subscription, updated, preview, currentPeriodEnd, invoiceNow };
+  });
+
+  let invoiceId: string | undefined;
+  let paymentId: string | undefined;
+
+  if (invoiceNow && currentPeriodEnd) {
+    const { invoice, payment } = await createSubscriptionInvoice(updated, {
+      amount: preview.immediateInvoiceAmount!,
+      description: `Subscription proration - ${preview.previousAmount} to ${preview.amount} ${updated.currency} every ${describeInterval(updated.interval, updated.intervalCount)}`,
+      kind: "proration",
+      billingPeriodStart: now,
+      billingPeriodEnd: currentPeriodEnd,
+      prorationAmount: preview.immediateInvoiceAmount,
+    });
+    invoiceId = invoice.id;
+    paymentId = payment?.id;
+  }
+
+  if (preview.billingCycleReset) {
+    // The old schedule is replaced by the new cycle, which starts (and is invoiced) now
+    await db
+      .update(subscriptionSchedules)
+      .set({ status: "skipped" })
+      .where(and(eq(subscriptionSchedules.subscriptionId, subscriptionId), eq(subscriptionSchedules.status, "pending")));
+    await db.insert(subscriptionSchedules).values({
+      subscriptionId,
+      scheduledAt: now,
+      status: "pending",
+    });
+
+    // If this fails, the pending schedule is picked up by the background job
+    await generateSubscriptionInvoice(subscriptionId).catch((error) =>
+      console.error(`Failed to invoice new billing cycle for subscription ${subscriptionId}:`, error)
+    );
+  }
+
+  const [result] = await db.select().from(subscriptions).where(eq(subscriptions.id, subscriptionId)).limit(1);
+
+  // Dispatch webhook
+  await dispatchWebhook(
+    merchantId,
+    "subscription.updated",
+    {
+      ...toSubscriptionEventData(result),
+      previousAttributes: {
         amount: subscription.amount,
-        currency: subscription.currency,
+        interval: subscription.interval,
+        intervalCount: subscription.intervalCount,
       },
-    }).catch(console.error);
+      prorationAmount: preview.prorationAmount,
+      invoiceId,
+      paymentId,
+    },
+    { livemode: !result.isTest }
+  ).catch(console.error);
+
+  return { ...(result as Subscription), proration: preview };
+}
+
+/**
+ * Pause billing: no invoices are generated until the subscription is resumed (at resumeAt, if given).
+ * Invoices already issued stay payable and are still chased by dunning.
+ */
+export async function pauseSubscription(
+  subscriptionId: string,
+  merchantId: string,
+  resumeAt?: Date,
+  mode?: SubscriptionMode
+): Promise<Subscription> {
+  const subscription = await getMerchantSubscription(subscriptionId, merchantId, mode);
+  if (subscription.status !== "active" && subscription.status !== "trialing") {
+    throw new SubscriptionChangeError(`Cannot pause a ${subscription.status} subscription`);
+  }
+
+  const now = new Date();
+  if (resumeAt && resumeAt <= now) {
+    throw new SubscriptionChangeError("resumeAt must be in the future");
   }
+
+  const [paused] = await db
+    .update(subscriptions)
+    .set({ status: "paused", pausedAt: now, resumeAt: resumeAt ?? null, updatedAt: now })
+    .where(eq(subscriptions.id, subscriptionId))
+    .returning();
+
+  await db
+    .update(subscriptionSchedules)
+    .set({ status: "skipped" })
+    .where(and(eq(subscriptionSchedules.subscriptionId, subscriptionId), eq(subscriptionSchedules.status, "pending")));
+
+  // Dispatch webhook
+  await dispatchWebhook(merchantId, "subscription.updated", toSubscriptionEventData(paused), {
+    livemode: !paused.isTest,
+  }).catch(console.error);
+
+  return paused as Subscription;
 }
 
 /**
- * Cancel subscription
+ * Resume a paused subscription now
  */
-export async function cancelSubscription(subscriptionId: string, merchantId: string): Promise<Subscription> {
-  const [subscription] = await db
-    .select()
-    .from(subscriptions)
-    .where(
-      and(
-        eq(subscriptions.id, subscriptionId),
-        eq(subscriptions.merchantId, merchantId)
-      )
-    )
-    .limit(1);
+export async function resumeSubscription(subscriptionId: string, merchantId: string, mode?: SubscriptionMode): Promise<Subscription> {
+  const subscription = await getMerchantSubscription(subscriptionId, merchantId, mode);
+  if (subscription.status !== "paused") {
+    throw new SubscriptionChangeError(`Cannot resume a ${subscription.status} subscription`);
+  }
 
-  if (!subscription) {
-    throw new Error("Subscription not found");
+  const resumed = await resumePausedSubscription(subscription);
+
+  // Invoice the current period right away if it is due; otherwise the scheduler does it
+  if (resumed.nextBillingAt <= new Date()) {
+    await generateSubscriptionInvoice(subscriptionId).catch((error) =>
+      console.error(`Failed to invoice resumed subscription ${subscriptionId}:`, error)
+    );
   }
 
+  const [result] = await db.select().from(subscriptions).where(eq(subscriptions.id, subscriptionId)).limit(1);
+  return result as Subscription;
+}
+
+/**
+ * Periods that passed while paused aren't billed; billing picks up with the period the
+ * subscription resumes in (or after the trial, if that hasn't ended)
+ */
+async function resumePausedSubscription(subscription: typeof subscriptions.$inferSelect) {
   const now = new Date();
-  await db
+  const trialing = subscription.trialEndsAt !== null && subscription.trialEndsAt > now;
+  let nextBillingAt = subscription.nextBillingAt;
+
+  if (nextBillingAt < now) {
+    const period = getBillingPeriod(getBillingSchedule(subscription), now);
+    const [invoiced] = await db
+      .select({ id: subscriptionInvoices.id })
+      .from(subscriptionInvoices)
+      .where(
+        and(
+          eq(subscriptionInvoices.subscriptionId, subscription.id),
+          eq(subscriptionInvoices.kind, "cycle"),
+          eq(subscriptionInvoices.billingPeriodStart, period.start)
+        )
+      )
+      .limit(1);
+    nextBillingAt = invoiced ? period.end : period.start;
+  }
+
+  const [resumed] = await db
     .update(subscriptions)
     .set({
-      status: "canceled",
-      canceledAt: now,
+      status: trialing ? "trialing" : "active",
+      pausedAt: null,
+      resumeAt: null,
+      nextBillingAt,
       updatedAt: now,
     })
-    .where(eq(subscriptions.id, subscriptionId));
+    .where(and(eq(subscriptions.id, subscription.id), eq(subscriptions.status, "paused")))
+    .returning();
 
-  const [updated] = await db
-    .select()
-    .from(subscriptions)
-    .where(eq(subscriptions.id, subscriptionId))
-    .limit(1);
+  if (!resumed) {
+    return subscription; // Resumed or canceled concurrently
+  }
+
+  await db.insert(subscriptionSchedules).values({
+    subscriptionId: subscription.id,
+    scheduledAt: nextBillingAt,
+    status: "pending",
+  });
 
   // Dispatch webhook
-  await dispatchWebhook(merchantId, "subscription.canceled", {
-    type: "subscription.canceled",
-    data: {
-      id: updated.id,
-      customerEmail: updated.customerEmail,
-      canceledAt: updated.canceledAt,
-    },
+  await dispatchWebhook(resumed.merchantId, "subscription.updated", toSubscriptionEventData(resumed), {
+    livemode: !resumed.isTest,
   }).catch(console.error);
 
-  return updated as Subscription;
+  return resumed;
 }
 
 /**
- * Get subscriptions for merchant
+ * Get subscriptions for merchant (in the caller's mode, if known)
  */
-export async function getSubscriptions(merchantId: string): Promise<Subscription[]> {
+export async function getSubscriptions(merchantId: string, mode?: SubscriptionMode): Promise<Subscription[]> {
   const subs = await db
     .select()
     .from(subscriptions)
-    .where(eq(subscriptions.merchantId, merchantId))
+    .where(and(eq(subscriptions.merchantId, merchantId), inMode(mode)))
     .orderBy(subscriptions.createdAt);
 
   return subs as Subscription[];
@@ -342,24 +1093,39 @@ export async function getSubscriptions(merchantId: string): Promise<Subscription
 
 /**
  * Background job: Process subscription schedules
+ * Runs for one mode at a time, so a test-mode run never bills live subscriptions
  */
-export async function processSubscriptionSchedules(): Promise<void> {
+export async function processSubscriptionSchedules(mode: SubscriptionMode): Promise<void> {
   const now = new Date();
+
+  // Resume paused subscriptions whose resume date has come, so their billing is picked up below
+  const dueResumes = await db
+    .select()
+    .from(subscriptions)
+    .where(and(eq(subscriptions.status, "paused"), lte(subscriptions.resumeAt, now), inMode(mode)));
+
+  for (const subscription of dueResumes) {
+    await resumePausedSubscription(subscription).catch((error) =>
+      console.error(`Failed to resume subscription ${subscription.id}:`, error)
+    );
+  }
   
   // Find pending schedules that are due
   const dueSchedules = await db
-    .select()
+    .select({ id: subscriptionSchedules.id, subscriptionId: subscriptionSchedules.subscriptionId })
     .from(subscriptionSchedules)
+    .innerJoin(subscriptions, eq(subscriptionSchedules.subscriptionId, subscriptions.id))
     .where(
       and(
         eq(subscriptionSchedules.status, "pending"),
-        lt(subscriptionSchedules.scheduledAt, now)
+        lt(subscriptionSchedules.scheduledAt, now),
+        inMode(mode)
       )
     );
 
   for (const schedule of dueSchedules) {
     try {
-      await generateSubscriptionInvoice(schedule.subscriptionId);
+      await generateSubscriptionInvoice(schedule.subscriptionId, mode, schedule.id);
     } catch (error) {
       console.error(`Failed to generate invoice for subscription ${schedule.subscriptionId}:`, error);
       // Mark schedule as failed
@@ -370,7 +1136,7 @@ export async function processSubscriptionSchedules(): Promise<void> {
     }
   }
 
-  // Check for past due subscriptions
-  await checkPastDueSubscriptions();
+  // Chase unpaid invoices
+  await processSubscriptionDunning(mode);
 }
 
@@ -1,13 +1,13 @@
 /**
  * Transaction Watcher Service
- * Polls ARC RPC for transaction confirmations with exponential backoff
+ * Polls ARC RPC for transaction confirmations with exponential backoff and tracks
+ * block depth of confirming payments
  */
 
 import { db } from "../db.js";
 import { payments } from "../../shared/schema.js";
-import { eq, and, isNotNull } from "drizzle-orm";
-import { verifyTransaction } from "./arcService.js";
-import { confirmPayment, failPayment } from "./paymentService.js";
+import { and, inArray, isNotNull } from "drizzle-orm";
+import { failPayment, settlePaymentTransaction } from "./paymentService.js";
 import { ARC_CHAIN_ID } from "../config.js";
 
 const POLL_INTERVAL = 10000; // 10 seconds
@@ -54,28 +54,27 @@ async function checkPaymentTransaction(payment: typeof payments.$inferSelect): P
   }
 
   try {
-    const txStatus = await verifyTransaction(payment.txHash);
-
-    if (txStatus.confirmed) {
-      // Transaction confirmed - update payment
-      await confirmPayment(
-        payment.id,
-        payment.txHash,
-        payment.payerWallet || ""
+    // Verifies the Transfer logs and confirms or fails the payment
+    const txStatus = await settlePaymentTransaction(payment);
+
+    if (txStatus?.confirming) {
+      // Mined and verified, waiting for block depth - keep polling without timing out
+      state.attempts = 0;
+      state.lastCheck = now;
+      state.backoff = INITIAL_BACKOFF;
+      paymentStates.set(payment.id, state);
+      console.log(
+        `⏳ Payment ${payment.id} confirming (${txStatus.confirmations}/${txStatus.requiredConfirmations} confirmations)`
       );
-      
-      // Remove from watch list
-      paymentStates.delete(payment.id);
-      
-      console.log(`✅ Payment ${payment.id} confirmed (tx: ${payment.txHash})`);
-    } else if (txStatus.failed) {
-      // Transaction failed
-      await failPayment(payment.id, txStatus.error || "Transaction failed");
-      
-      // Remove from watch list
+    } else if (!txStatus || txStatus.confirmed || txStatus.failed) {
+      // Settled (or rejected) - remove from watch list
       paymentStates.delete(payment.id);
-      
-      console.log(`❌ Payment ${payment.id} failed (tx: ${payment.txHash}): ${txStatus.error}`);
+
+      if (txStatus?.confirmed) {
+        console.log(`✅ Payment ${payment.id} confirmed (tx: ${payment.txHash}, ${txStatus.outcome})`);
+      } else {
+        console.log(`❌ Payment ${payment.id} failed (tx: ${payment.txHash}): ${txStatus?.error || "tx hash already used"}`);
+      }
     } else {
       // Still pending - increment attempts and update backoff
       state.attempts += 1;
@@ -171,14 +170,17 @@ async function retryDbOperation<T>(
  */
 export async function watchPendingPayments(): Promise<void> {
   try {
-    // Get all pending payments with txHash (skip demo payments)
+    // Get all pending and confirming payments with txHash (skip demo payments).
+    // Submitted tx hashes are verified here even with the chain indexer running, so over/underpaid,
+    // misdirected and reverted transfers are settled or failed instead of waiting to expire.
+    const statuses: ("pending" | "confirming")[] = ["pending", "confirming"];
     const pendingPayments = await retryDbOperation(() =>
       db
         .select()
         .from(payments)
         .where(
           and(
-            eq(payments.status, "pending"),
+            inArray(payments.status, statuses),
             isNotNull(payments.txHash)
           )
         )
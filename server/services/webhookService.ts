@@ -1,43 +1,114 @@
 /**
  * Webhook Service
  * Handles webhook delivery with HMAC signatures, retries, and non-blocking dispatch
+ * Events are persisted to webhook_events (the outbox) and delivered by a polling worker
  */
 
-import { createHmac, timingSafeEqual } from "crypto";
+import { createHmac, timingSafeEqual, randomUUID } from "crypto";
 import { db } from "../db.js";
-import { webhookSubscriptions, webhookEvents } from "../../shared/schema.js";
-import { eq, and, inArray, desc } from "drizzle-orm";
-
-const MAX_RETRIES = 3;
-const RETRY_DELAYS = [1000, 5000, 15000]; // 1s, 5s, 15s
+import {
+  webhookSubscriptions,
+  webhookEvents,
+  webhookObjectSequences,
+  type WebhookEvent,
+  type WebhookSubscription,
+} from "../../shared/schema.js";
+import {
+  WEBHOOK_API_VERSION,
+  getLegacyAliases,
+  type WebhookEventType,
+  type WebhookEventDataMap,
+  type WebhookEventEnvelope,
+  type LegacyWebhookEventAlias,
+} from "../../shared/webhookEvents.js";
+import { eq, and, or, inArray, desc, asc, lt, lte, gte, isNull, sql } from "drizzle-orm";
+import {
+  WEBHOOK_RETRY_SCHEDULE_SECONDS,
+  WEBHOOK_WORKER_INTERVAL,
+  WEBHOOK_WORKER_BATCH_SIZE,
+  WEBHOOK_LOCK_TIMEOUT,
+  WEBHOOK_SIGNATURE_TOLERANCE_SECONDS,
+  WEBHOOK_SECRET_ROTATION_GRACE_HOURS,
+} from "../config.js";
 
 /**
  * Generate HMAC signature for webhook payload
+ * The signed content is "<timestamp>.<payload>" so a captured delivery can't be
+ * replayed outside the tolerance window.
  */
-export function generateWebhookSignature(payload: string, secret: string): string {
+export function generateWebhookSignature(payload: string, secret: string, timestamp: number): string {
   const hmac = createHmac("sha256", secret);
-  hmac.update(payload);
+  hmac.update(`${timestamp}.${payload}`);
   return hmac.digest("hex");
 }
 
+/**
+ * Build the x-arc-signature header: "t=<unix seconds>,v1=<hex>[,v1=<hex>...]"
+ * One v1 entry is added per secret, so receivers holding either the new or the
+ * previous secret can verify during a rotation grace period.
+ */
+export function buildWebhookSignatureHeader(
+  payload: string,
+  secrets: string[],
+  timestamp: number = Math.floor(Date.now() / 1000)
+): string {
+  const signatures = secrets.map((secret) => `v1=${generateWebhookSignature(payload, secret, timestamp)}`);
+  return [`t=${timestamp}`, ...signatures].join(",");
+}
+
+/**
+ * Parse an x-arc-signature header into its timestamp and v1 signatures
+ */
+export function parseWebhookSignatureHeader(header: string): { timestamp: number; signatures: string[] } | null {
+  let timestamp: number | null = null;
+  const signatures: string[] = [];
+
+  for (const part of header.split(",")) {
+    const [key, value] = part.trim().split("=", 2);
+    if (key === "t") {
+      timestamp = parseInt(value, 10);
+    } else if (key === "v1" && value) {
+      signatures.push(value);
+    }
+  }
+
+  if (timestamp === null || isNaN(timestamp) || signatures.length === 0) {
+    return null;
+  }
+
+  return { timestamp, signatures };
+}
+
 /**
  * Verify webhook signature
+ * Accepts the x-arc-signature header and one or more secrets (e.g. new and previous
+ * secret while rotating). Fails if the timestamp is outside the tolerance window.
  */
 export function verifyWebhookSignature(
   payload: string,
-  signature: string,
-  secret: string
+  signatureHeader: string,
+  secret: string | string[],
+  toleranceSeconds: number = WEBHOOK_SIGNATURE_TOLERANCE_SECONDS
 ): boolean {
   try {
-    const expectedSignature = generateWebhookSignature(payload, secret);
-    const expectedBuffer = Buffer.from(expectedSignature, "hex");
-    const receivedBuffer = Buffer.from(signature, "hex");
+    const parsed = parseWebhookSignatureHeader(signatureHeader);
+    if (!parsed) {
+      return false;
+    }
 
-    if (expectedBuffer.length !== receivedBuffer.length) {
+    const now = Math.floor(Date.now() / 1000);
+    if (Math.abs(now - parsed.timestamp) > toleranceSeconds) {
       return false;
     }
 
-    return timingSafeEqual(expectedBuffer, receivedBuffer);
+    const secrets = Array.isArray(secret) ? secret : [secret];
+    return secrets.some((candidate) => {
+      const expectedBuffer = Buffer.from(generateWebhookSignature(payload, candidate, parsed.timestamp), "hex");
+      return parsed.signatures.some((signature) => {
+        const receivedBuffer = Buffer.from(signature, "hex");
+        return expectedBuffer.length === receivedBuffer.length && timingSafeEqual(expectedBuffer, receivedBuffer);
+      });
+    });
   } catch (error) {
     console.error("Error verifying webhook signature:", error);
     return false;
@@ -45,55 +116,183 @@ export function verifyWebhookSignature(
 }
 
 /**
- * Dispatch webhook to a single subscription (non-blocking)
+ * Secrets that should sign deliveries for a subscription right now
+ */
+export function getSigningSecrets(subscription: WebhookSubscription): string[] {
+  const secrets = [subscription.secret];
+  if (
+    subscription.previousSecret &&
+    subscription.previousSecretExpiresAt &&
+    subscription.previousSecretExpiresAt > new Date()
+  ) {
+    secrets.push(subscription.previousSecret);
+  }
+  return secrets;
+}
+
+/**
+ * Rotate a subscription's signing secret
+ * The old secret keeps signing deliveries (alongside the new one) for the grace period.
  */
-async function dispatchToSubscription(
+export async function rotateWebhookSecret(
   subscriptionId: string,
-  url: string,
-  secret: string,
-  eventType: string,
-  payload: Record<string, any>
+  newSecret: string,
+  gracePeriodHours: number = WEBHOOK_SECRET_ROTATION_GRACE_HOURS
+): Promise<WebhookSubscription | undefined> {
+  const [subscription] = await db
+    .select()
+    .from(webhookSubscriptions)
+    .where(eq(webhookSubscriptions.id, subscriptionId));
+
+  if (!subscription) {
+    return undefined;
+  }
+
+  const now = new Date();
+  const [updated] = await db
+    .update(webhookSubscriptions)
+    .set({
+      secret: newSecret,
+      previousSecret: gracePeriodHours > 0 ? subscription.secret : null,
+      previousSecretExpiresAt: gracePeriodHours > 0
+        ? new Date(now.getTime() + gracePeriodHours * 60 * 60 * 1000)
+        : null,
+      secretRotatedAt: now,
+    })
+    .where(eq(webhookSubscriptions.id, subscriptionId))
+    .returning();
+
+  return updated;
+}
+
+/**
+ * Queue a webhook event for a single subscription
+ * The event is written to the outbox first, so delivery survives restarts.
+ * The row id is generated up front because it is also the envelope id.
+ */
+async function enqueueForSubscription<T extends WebhookEventType>(
+  subscriptionId: string,
+  eventType: T | LegacyWebhookEventAlias,
+  envelope: Omit<WebhookEventEnvelope<T>, "id" | "type">
 ): Promise<void> {
-  const payloadString = JSON.stringify(payload);
-  const signature = generateWebhookSignature(payloadString, secret);
+  const id = randomUUID();
+  const payload: WebhookEventEnvelope<T> = { id, type: eventType, ...envelope };
 
-  // Create webhook event record
-  const [event] = await db
+  // Create webhook event record (due immediately)
+  await db
     .insert(webhookEvents)
     .values({
+      id,
       endpointId: subscriptionId,
-      eventType: eventType as any,
-      payload: payloadString,
+      eventType,
+      payload: JSON.stringify(payload),
       status: "pending",
       attempts: 0,
+      nextAttemptAt: new Date(),
+    });
+}
+
+/**
+ * Allocate the next sequence number for an object's events
+ */
+async function nextObjectSequence(objectId: string): Promise<number> {
+  const [row] = await db
+    .insert(webhookObjectSequences)
+    .values({ objectId, lastSequence: 1 })
+    .onConflictDoUpdate({
+      target: webhookObjectSequences.objectId,
+      set: {
+        lastSequence: sql`${webhookObjectSequences.lastSequence} + 1`,
+        updatedAt: new Date(),
+      },
     })
     .returning();
 
-  // Dispatch asynchronously (don't block)
-  dispatchWithRetry(event.id, url, payloadString, signature, 0).catch((error) => {
-    console.error(`Failed to dispatch webhook ${event.id} after retries:`, error);
-  });
+  return row.lastSequence;
 }
 
 /**
- * Retry logic for webhook delivery
+ * Claim due webhook events for delivery.
+ * Rows are locked with FOR UPDATE SKIP LOCKED so concurrent workers (or serverless
+ * instances) never deliver the same event twice. Rows whose lock is older than
+ * WEBHOOK_LOCK_TIMEOUT are reclaimed - their worker crashed mid-delivery.
  */
-async function dispatchWithRetry(
-  eventId: string,
-  url: string,
-  payload: string,
-  signature: string,
-  attempt: number
-): Promise<void> {
+async function claimDueWebhookEvents(limit: number): Promise<WebhookEvent[]> {
+  const now = new Date();
+  const staleLockCutoff = new Date(now.getTime() - WEBHOOK_LOCK_TIMEOUT);
+
+  const dueEvents = db
+    .select({ id: webhookEvents.id })
+    .from(webhookEvents)
+    .where(
+      and(
+        eq(webhookEvents.status, "pending"),
+        lte(webhookEvents.nextAttemptAt, now),
+        or(isNull(webhookEvents.lockedAt), lt(webhookEvents.lockedAt, staleLockCutoff))
+      )
+    )
+    .orderBy(asc(webhookEvents.nextAttemptAt))
+    .limit(limit)
+    .for("update", { skipLocked: true });
+
+  return db
+    .update(webhookEvents)
+    .set({ lockedAt: now })
+    .where(inArray(webhookEvents.id, dueEvents))
+    .returning();
+}
+
+/**
+ * Schedule the next attempt, or mark the event failed once the retry schedule is exhausted
+ */
+function nextAttemptUpdate(attempts: number) {
+  const delaySeconds = WEBHOOK_RETRY_SCHEDULE_SECONDS[attempts - 1];
+  if (delaySeconds === undefined) {
+    return { status: "failed" as const, nextAttemptAt: null };
+  }
+  return {
+    status: "pending" as const,
+    nextAttemptAt: new Date(Date.now() + delaySeconds * 1000),
+  };
+}
+
+/**
+ * Deliver a claimed webhook event once and record the outcome
+ */
+async function deliverWebhookEvent(event: WebhookEvent): Promise<void> {
+  const attempts = event.attempts + 1;
+
+  const [subscription] = await db
+    .select()
+    .from(webhookSubscriptions)
+    .where(eq(webhookSubscriptions.id, event.endpointId));
+
+  if (!subscription || !subscription.active) {
+    await db
+      .update(webhookEvents)
+      .set({
+        status: "failed",
+        nextAttemptAt: null,
+        lockedAt: null,
+        responseBody: "Webhook subscription is inactive or was deleted",
+      })
+      .where(eq(webhookEvents.id, event.id));
+    return;
+  }
+
+  const signature = buildWebhookSignatureHeader(event.payload, getSigningSecrets(subscription));
+
   try {
-    const response = await fetch(url, {
+    const response = await fetch(subscription.url, {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
         "x-arc-signature": signature,
-        "x-arc-event-type": JSON.parse(payload).type || "unknown",
+        "x-arc-event-type": event.eventType,
+        "x-arc-event-id": event.id,
+        ...(event.replayedAt ? { "x-arc-replay": "true" } : {}),
       },
-      body: payload,
+      body: event.payload,
       signal: AbortSignal.timeout(10000), // 10s timeout
     });
 
@@ -104,64 +303,101 @@ async function dispatchWithRetry(
     await db
       .update(webhookEvents)
       .set({
-        status: isSuccess ? "delivered" : "failed",
-        attempts: attempt + 1,
+        ...(isSuccess ? { status: "delivered" as const, nextAttemptAt: null } : nextAttemptUpdate(attempts)),
+        attempts,
         lastAttempt: new Date(),
+        lockedAt: null,
         responseCode: response.status,
         responseBody: responseBody.substring(0, 1000), // Limit response body size
       })
-      .where(eq(webhookEvents.id, eventId));
-
-    if (!isSuccess && attempt < MAX_RETRIES - 1) {
-      // Retry with exponential backoff
-      const delay = RETRY_DELAYS[attempt] || RETRY_DELAYS[RETRY_DELAYS.length - 1];
-      setTimeout(() => {
-        dispatchWithRetry(eventId, url, payload, signature, attempt + 1).catch(console.error);
-      }, delay);
-    }
+      .where(eq(webhookEvents.id, event.id));
   } catch (error) {
-    console.error(`Webhook dispatch attempt ${attempt + 1} failed:`, error);
+    console.error(`Webhook ${event.id} delivery attempt ${attempts} failed:`, error);
 
     // Update event record
     await db
       .update(webhookEvents)
       .set({
-        attempts: attempt + 1,
+        ...nextAttemptUpdate(attempts),
+        attempts,
         lastAttempt: new Date(),
+        lockedAt: null,
         responseCode: 0,
         responseBody: error instanceof Error ? error.message : "Network error",
       })
-      .where(eq(webhookEvents.id, eventId));
-
-    // Retry if attempts remaining
-    if (attempt < MAX_RETRIES - 1) {
-      const delay = RETRY_DELAYS[attempt] || RETRY_DELAYS[RETRY_DELAYS.length - 1];
-      setTimeout(() => {
-        dispatchWithRetry(eventId, url, payload, signature, attempt + 1).catch(console.error);
-      }, delay);
-    } else {
-      // Mark as failed after max retries
-      await db
-        .update(webhookEvents)
-        .set({
-          status: "failed",
+      .where(eq(webhookEvents.id, event.id));
+  }
+}
+
+/**
+ * Claim and deliver every webhook event that is due
+ * Returns the number of events attempted
+ */
+export async function processDueWebhookEvents(batchSize: number = WEBHOOK_WORKER_BATCH_SIZE): Promise<number> {
+  let processed = 0;
+
+  while (true) {
+    const events = await claimDueWebhookEvents(batchSize);
+    if (events.length === 0) break;
+
+    await Promise.all(
+      events.map((event) =>
+        deliverWebhookEvent(event).catch((error) => {
+          // Lock expires after WEBHOOK_LOCK_TIMEOUT and the event is retried
+          console.error(`Failed to deliver webhook ${event.id}:`, error);
         })
-        .where(eq(webhookEvents.id, eventId));
-    }
+      )
+    );
+
+    processed += events.length;
+    if (events.length < batchSize) break;
   }
+
+  return processed;
+}
+
+/**
+ * Start the webhook delivery worker (runs every N seconds)
+ */
+export function startWebhookWorker(): void {
+  let running = false;
+
+  const tick = async () => {
+    // Skip the tick if the previous batch is still delivering
+    if (running) return;
+    running = true;
+    try {
+      await processDueWebhookEvents();
+    } catch (error) {
+      console.error("Error in webhook worker:", error);
+    } finally {
+      running = false;
+    }
+  };
+
+  // Initial run also recovers events left pending by a previous process
+  tick();
+  setInterval(tick, WEBHOOK_WORKER_INTERVAL);
+
+  console.log(
+    `Webhook worker started (polls every ${WEBHOOK_WORKER_INTERVAL / 1000}s, ${WEBHOOK_RETRY_SCHEDULE_SECONDS.length} retries)`
+  );
 }
 
 /**
  * Dispatch webhook event to all active subscriptions for a merchant
- * Non-blocking - returns immediately
+ * Subscriptions that opted in to a legacy alias of the event also receive it under
+ * the legacy name, with the same data and sequence.
+ * Returns once the events are in the outbox; delivery itself doesn't block the caller.
  */
-export async function dispatchWebhook(
+export async function dispatchWebhook<T extends WebhookEventType>(
   merchantId: string,
-  eventType: string,
-  payload: Record<string, any>
+  eventType: T,
+  data: WebhookEventDataMap[T],
+  options: { livemode: boolean; objectId?: string }
 ): Promise<void> {
   try {
-    // Find all active subscriptions for this merchant that listen to this event
+    // Find all active subscriptions for this merchant
     const subscriptions = await db
       .select()
       .from(webhookSubscriptions)
@@ -172,29 +408,127 @@ export async function dispatchWebhook(
         )
       );
 
-    // Filter subscriptions that listen to this event type
-    const relevantSubscriptions = subscriptions.filter((sub) =>
-      sub.events.includes(eventType)
+    const aliases = getLegacyAliases(eventType);
+    const deliveries = subscriptions.flatMap((sub) => [
+      ...(sub.events.includes(eventType) ? [{ subscriptionId: sub.id, type: eventType as T | LegacyWebhookEventAlias }] : []),
+      ...aliases
+        .filter((alias) => sub.legacyEventAliases.includes(alias))
+        .map((alias) => ({ subscriptionId: sub.id, type: alias as T | LegacyWebhookEventAlias })),
+    ]);
+
+    if (deliveries.length === 0) return;
+
+    const envelope = {
+      object: "event" as const,
+      api_version: WEBHOOK_API_VERSION,
+      created: Math.floor(Date.now() / 1000),
+      livemode: options.livemode,
+      sequence: await nextObjectSequence(options.objectId || data.id),
+      data,
+    };
+
+    await Promise.all(
+      deliveries.map((delivery) =>
+        enqueueForSubscription(delivery.subscriptionId, delivery.type, envelope).catch((error) => {
+          console.error(`Failed to dispatch to subscription ${delivery.subscriptionId}:`, error);
+        })
+      )
     );
 
-    // Dispatch to all relevant subscriptions (non-blocking)
-    for (const subscription of relevantSubscriptions) {
-      dispatchToSubscription(
-        subscription.id,
-        subscription.url,
-        subscription.secret,
-        eventType,
-        payload
-      ).catch((error) => {
-        console.error(`Failed to dispatch to subscription ${subscription.id}:`, error);
-      });
-    }
+    // Deliver right away instead of waiting for the next worker tick (don't block)
+    processDueWebhookEvents().catch((error) => {
+      console.error("Failed to process webhook queue:", error);
+    });
   } catch (error) {
     console.error("Error dispatching webhook:", error);
     // Don't throw - webhooks should never block the main flow
   }
 }
 
+/**
+ * Get a single webhook event, scoped to the merchant that owns its subscription
+ */
+export async function getWebhookEventForMerchant(eventId: string, merchantId: string) {
+  const [row] = await db
+    .select({ event: webhookEvents })
+    .from(webhookEvents)
+    .innerJoin(webhookSubscriptions, eq(webhookEvents.endpointId, webhookSubscriptions.id))
+    .where(and(eq(webhookEvents.id, eventId), eq(webhookSubscriptions.merchantId, merchantId)));
+
+  return row?.event;
+}
+
+/**
+ * Re-queue webhook events for manual redelivery.
+ * The original payload and event id are kept; deliveries carry an x-arc-replay header.
+ * Events currently being delivered by a worker are skipped.
+ */
+async function requeueWebhookEvents(eventIds: string[]): Promise<WebhookEvent[]> {
+  if (eventIds.length === 0) {
+    return [];
+  }
+
+  const now = new Date();
+  const staleLockCutoff = new Date(now.getTime() - WEBHOOK_LOCK_TIMEOUT);
+
+  const requeued = await db
+    .update(webhookEvents)
+    .set({
+      status: "pending",
+      attempts: 0, // Replays get a fresh retry schedule
+      nextAttemptAt: now,
+      lockedAt: null,
+      replayedAt: now,
+      replayCount: sql`${webhookEvents.replayCount} + 1`,
+    })
+    .where(
+      and(
+        inArray(webhookEvents.id, eventIds),
+        or(isNull(webhookEvents.lockedAt), lt(webhookEvents.lockedAt, staleLockCutoff))
+      )
+    )
+    .returning();
+
+  // Deliver right away instead of waiting for the next worker tick (don't block)
+  processDueWebhookEvents().catch((error) => {
+    console.error("Failed to process webhook queue:", error);
+  });
+
+  return requeued;
+}
+
+/**
+ * Redeliver a single webhook event
+ * Returns undefined if the event is currently being delivered
+ */
+export async function redeliverWebhookEvent(eventId: string): Promise<WebhookEvent | undefined> {
+  const [event] = await requeueWebhookEvents([eventId]);
+  return event;
+}
+
+/**
+ * Replay every failed event of a subscription created within [from, to]
+ */
+export async function replayFailedWebhookEvents(
+  subscriptionId: string,
+  from: Date,
+  to: Date
+): Promise<WebhookEvent[]> {
+  const failedEvents = await db
+    .select({ id: webhookEvents.id })
+    .from(webhookEvents)
+    .where(
+      and(
+        eq(webhookEvents.endpointId, subscriptionId),
+        eq(webhookEvents.status, "failed"),
+        gte(webhookEvents.createdAt, from),
+        lte(webhookEvents.createdAt, to)
+      )
+    );
+
+  return requeueWebhookEvents(failedEvents.map((e) => e.id));
+}
+
 /**
  * Get webhook events for a merchant
  */
@@ -1,6 +1,6 @@
 import { eq, desc, and, isNull } from "drizzle-orm";
 import { db } from "./db.js";
-import { scryptSync, timingSafeEqual } from "crypto";
+import { findApiKey, invalidateApiKeyCache } from "./services/apiKeyService.js";
 import {
   users,
   merchants,
@@ -129,57 +129,24 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getMerchantByApiKey(apiKey: string): Promise<Merchant | undefined> {
+    return (await this.authenticateApiKey(apiKey))?.merchant;
+  }
+
+  /**
+   * Resolve a presented key to its merchant and, for apiKeys-table keys, the key row (scopes, mode)
+   */
+  async authenticateApiKey(apiKey: string): Promise<{ merchant: Merchant; apiKey?: ApiKey } | undefined> {
     // First, try the old system (merchants.apiKey)
     const [merchant] = await db.select().from(merchants).where(eq(merchants.apiKey, apiKey));
     if (merchant) {
-      return merchant;
-    }
-
-    // Then, try the new apiKeys table
-    // Check if the key matches any keyPrefix (for publishable keys or MVP where full key is stored)
-    const matchingKey = await db
-      .select()
-      .from(apiKeys)
-      .where(
-        and(
-          eq(apiKeys.keyPrefix, apiKey),
-          isNull(apiKeys.revokedAt)
-        )
-      )
-      .limit(1);
-
-    if (matchingKey.length > 0) {
-      const apiKeyRecord = matchingKey[0];
-      // Get merchant by wallet address
-      return await this.getMerchantByWalletAddress(apiKeyRecord.walletAddress);
+      return { merchant };
     }
 
-    // For secret keys, we need to verify against hashedKey
-    // Get all non-revoked secret keys and check them
-    const allSecretKeys = await db
-      .select()
-      .from(apiKeys)
-      .where(
-        and(
-          eq(apiKeys.keyType, "secret"),
-          isNull(apiKeys.revokedAt)
-        )
-      );
-
-    for (const keyRecord of allSecretKeys) {
-      if (keyRecord.hashedKey) {
-        try {
-          const [salt, hash] = keyRecord.hashedKey.split(":");
-          const hashBuffer = Buffer.from(hash, "hex");
-          const testHash = scryptSync(apiKey, salt, 64);
-          if (timingSafeEqual(hashBuffer, testHash)) {
-            return await this.getMerchantByWalletAddress(keyRecord.walletAddress);
-          }
-        } catch (error) {
-          // Skip invalid hashes
-          continue;
-        }
-      }
+    // Then, the apiKeys table: one row by embedded key id (or key prefix for legacy keys)
+    const apiKeyRecord = await findApiKey(apiKey);
+    if (apiKeyRecord) {
+      const keyMerchant = await this.getMerchantByWalletAddress(apiKeyRecord.walletAddress);
+      return keyMerchant ? { merchant: keyMerchant, apiKey: apiKeyRecord } : undefined;
     }
 
     return undefined;
@@ -553,14 +520,17 @@ export class ExtendedStorage extends DatabaseStorage {
   }
 
   async revokeApiKey(id: string): Promise<void> {
-    await db
+    const [key] = await db
       .update(apiKeys)
       .set({ revokedAt: new Date() })
-      .where(eq(apiKeys.id, id));
+      .where(eq(apiKeys.id, id))
+      .returning();
+    if (key) invalidateApiKeyCache(key);
   }
 
   async deleteApiKey(id: string): Promise<void> {
-    await db.delete(apiKeys).where(eq(apiKeys.id, id));
+    const [key] = await db.delete(apiKeys).where(eq(apiKeys.id, id)).returning();
+    if (key) invalidateApiKeyCache(key);
   }
 
   async getApiKeyFullValue(id: string): Promise<string | null> {
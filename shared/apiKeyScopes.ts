@@ -0,0 +1,58 @@
+/**
+ * API Key Scopes
+ * Shared between the server (which enforces them per route) and the dashboard key editor
+ */
+
+// Permissions a secret key can be restricted to
+export const SECRET_KEY_SCOPES = [
+  "payments:read",
+  "payments:write",
+  "refunds:write",
+  "payouts:read",
+  "payouts:write",
+  "balance:read",
+  "subscriptions:read",
+  "subscriptions:write",
+  "products:read",
+  "products:write",
+  "fees:manage",
+  "webhooks:manage",
+] as const;
+
+// The only permission a publishable key has: checkout-safe calls (payment status, FX quotes for display)
+export const CHECKOUT_SCOPE = "checkout";
+
+export const API_KEY_SCOPES = [...SECRET_KEY_SCOPES, CHECKOUT_SCOPE] as const;
+
+export type SecretKeyScope = (typeof SECRET_KEY_SCOPES)[number];
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+export const API_KEY_SCOPE_DESCRIPTIONS: Record<ApiKeyScope, string> = {
+  "payments:read": "View payments, refunds, settlement routes and fee summaries",
+  "payments:write": "Create, fail and expire payments; lock FX quotes; report settlement transactions",
+  "refunds:write": "Create and complete refunds",
+  "payouts:read": "List payouts",
+  "payouts:write": "Create, complete and fail payouts",
+  "balance:read": "View available and pending balances",
+  "subscriptions:read": "List subscriptions",
+  "subscriptions:write": "Create and cancel subscriptions",
+  "products:read": "List products and prices",
+  "products:write": "Create, update and archive products and prices",
+  "fees:manage": "Manage fee rules, split rules and the FX spread",
+  "webhooks:manage": "Manage webhook subscriptions, events and replays",
+  checkout: "Check payment status and request FX quotes from a checkout page",
+};
+
+/**
+ * Scopes a key actually holds: publishable keys are checkout-only, and a secret key
+ * without a stored list (unrestricted, or issued before scopes existed) holds every secret scope
+ */
+export function getEffectiveScopes(keyType: "publishable" | "secret", scopes: readonly string[] | null | undefined): ApiKeyScope[] {
+  if (keyType === "publishable") {
+    return [CHECKOUT_SCOPE];
+  }
+  if (!scopes) {
+    return [...SECRET_KEY_SCOPES];
+  }
+  return SECRET_KEY_SCOPES.filter((scope) => scopes.includes(scope));
+}
@@ -0,0 +1,43 @@
+/**
+ * Billing Intervals
+ * Shared between the server (billing cycles, request validation) and the dashboard forms
+ */
+
+export const BILLING_INTERVALS = ["daily", "weekly", "monthly", "quarterly", "yearly"] as const;
+export type BillingInterval = (typeof BILLING_INTERVALS)[number];
+
+// Intervals whose periods start on a day of the month (the billing anchor day)
+export const MONTH_BASED_INTERVALS: readonly BillingInterval[] = ["monthly", "quarterly", "yearly"];
+
+// Longest period allowed for each interval, in intervalCount units (a year either way)
+export const MAX_INTERVAL_COUNT: Record<BillingInterval, number> = {
+  daily: 365,
+  weekly: 52,
+  monthly: 12,
+  quarterly: 4,
+  yearly: 1,
+};
+
+export const BILLING_INTERVAL_LABELS: Record<BillingInterval, string> = {
+  daily: "Daily",
+  weekly: "Weekly",
+  monthly: "Monthly",
+  quarterly: "Quarterly",
+  yearly: "Yearly",
+};
+
+const INTERVAL_UNITS: Record<BillingInterval, string> = {
+  daily: "day",
+  weekly: "week",
+  monthly: "month",
+  quarterly: "quarter",
+  yearly: "year",
+};
+
+/**
+ * Human readable period, e.g. "month", "2 weeks", "30 days"
+ */
+export function describeInterval(interval: BillingInterval, intervalCount = 1): string {
+  const unit = INTERVAL_UNITS[interval];
+  return intervalCount === 1 ? unit : `${intervalCount} ${unit}s`;
+}
@@ -0,0 +1,304 @@
+/**
+ * Chain & Asset Registry
+ * Shared between the server and the dashboard: chain ids, RPC/explorer URLs, token
+ * addresses, decimals and CCTP capability. Operators extend it through CHAIN_REGISTRY_CONFIG.
+ */
+
+import { z } from "zod";
+
+const addressSchema = z
+  .string()
+  .regex(/^0x[a-fA-F0-9]{40}$/, "must be a 0x-prefixed 20-byte address")
+  .transform((val) => val as `0x${string}`);
+
+export const chainDefinitionSchema = z.object({
+  id: z.number().int().positive(),
+  key: z.string().regex(/^[A-Z0-9_]+$/, "must be upper-case letters, digits and underscores"), // Asset id suffix, e.g. BASE_SEPOLIA
+  name: z.string().min(1),
+  testnet: z.boolean(),
+  rpcUrl: z.string().url(),
+  publicRpcUrl: z.string().url().optional(), // Served to browsers instead of rpcUrl, which may carry an API key
+  explorerUrl: z.string().url().optional(),
+  nativeCurrency: z.object({
+    name: z.string(),
+    symbol: z.string(),
+    decimals: z.number().int().min(0).max(36),
+  }),
+  settlement: z.boolean().optional(), // Merchants settle on this chain (Arc)
+  cctp: z
+    .object({
+      domain: z.number().int().min(0),
+      tokenMessenger: addressSchema,
+      messageTransmitter: addressSchema,
+    })
+    .optional(),
+});
+
+export const assetDefinitionSchema = z.object({
+  id: z.string(), // `${symbol}_${chain.key}`, e.g. USDC_BASE_SEPOLIA
+  symbol: z.string().regex(/^[A-Z0-9]+$/, "must be upper-case letters and digits"),
+  chainId: z.number().int().positive(),
+  address: addressSchema.nullable(), // null for the chain's native currency
+  decimals: z.number().int().min(0).max(36),
+  cctp: z.boolean().default(false), // Can be burned and minted via CCTP
+});
+
+// Operator extension: chains and assets are added, or replace the built-in entry with the same id
+export const chainRegistryConfigSchema = z.object({
+  chains: z.array(chainDefinitionSchema).default([]),
+  assets: z.array(assetDefinitionSchema).default([]),
+});
+
+export type ChainDefinition = z.infer<typeof chainDefinitionSchema>;
+export type PublicChainDefinition = Omit<ChainDefinition, "rpcUrl">; // As served by GET /api/chains
+export type AssetDefinition = z.infer<typeof assetDefinitionSchema>;
+export type ChainRegistryConfig = z.input<typeof chainRegistryConfigSchema>;
+
+export const ARC_TESTNET_CHAIN_ID = 5042002;
+export const ARC_MAINNET_CHAIN_ID = 5042001;
+
+const USDC_NATIVE = { name: "USDC", symbol: "USDC", decimals: 6 };
+const ETHER = { name: "Ether", symbol: "ETH", decimals: 18 };
+
+export const DEFAULT_CHAINS: ChainDefinition[] = [
+  {
+    id: ARC_TESTNET_CHAIN_ID,
+    key: "ARC",
+    name: "Arc Testnet",
+    testnet: true,
+    rpcUrl: "https://rpc.testnet.arc.network",
+    explorerUrl: "https://testnet.arcscan.app",
+    nativeCurrency: USDC_NATIVE, // USDC is the gas token on Arc
+    settlement: true,
+    cctp: {
+      domain: 26,
+      tokenMessenger: "0x8FE689990c688CcFDD58f7EB8974218be2542DAA",
+      messageTransmitter: "0xE737e5cEBEEBa77EFE34D4aa09875659861CE275",
+    },
+  },
+  {
+    id: ARC_MAINNET_CHAIN_ID,
+    key: "ARC_MAINNET",
+    name: "Arc Network",
+    testnet: false,
+    rpcUrl: "https://rpc.arc.network",
+    explorerUrl: "https://arcscan.app",
+    nativeCurrency: USDC_NATIVE,
+    settlement: true,
+    cctp: {
+      // Update if mainnet contracts differ from testnet
+      domain: 26,
+      tokenMessenger: "0x8FE689990c688CcFDD58f7EB8974218be2542DAA",
+      messageTransmitter: "0xE737e5cEBEEBa77EFE34D4aa09875659861CE275",
+    },
+  },
+  {
+    id: 84532,
+    key: "BASE_SEPOLIA",
+    name: "Base Sepolia",
+    testnet: true,
+    rpcUrl: "https://sepolia.base.org",
+    explorerUrl: "https://sepolia.basescan.org",
+    nativeCurrency: ETHER,
+    cctp: {
+      domain: 6,
+      tokenMessenger: "0x9f3B8679C73C2Fef8b59B4f3444d4e156fb70AA5",
+      messageTransmitter: "0x7865fAfC2db2093669d92c0F33AeEF291086BEFD",
+    },
+  },
+  {
+    id: 11155111,
+    key: "SEPOLIA",
+    name: "Sepolia",
+    testnet: true,
+    rpcUrl: "https://rpc.sepolia.org",
+    explorerUrl: "https://sepolia.etherscan.io",
+    nativeCurrency: ETHER,
+    cctp: {
+      domain: 0,
+      tokenMessenger: "0x9f3B8679C73C2Fef8b59B4f3444d4e156fb70AA5",
+      messageTransmitter: "0x7865fAfC2db2093669d92c0F33AeEF291086BEFD",
+    },
+  },
+  {
+    id: 8453,
+    key: "BASE",
+    name: "Base",
+    testnet: false,
+    rpcUrl: "https://mainnet.base.org",
+    explorerUrl: "https://basescan.org",
+    nativeCurrency: ETHER,
+    cctp: {
+      domain: 6,
+      tokenMessenger: "0x1682Ae6375C4E4A97e4B583BC4cB31Cc3a3b2c6e",
+      messageTransmitter: "0x1682Ae6375C4E4A97e4B583BC4cB31Cc3a3b2c6e",
+    },
+  },
+  {
+    id: 1,
+    key: "MAINNET",
+    name: "Ethereum",
+    testnet: false,
+    rpcUrl: "https://eth.llamarpc.com",
+    explorerUrl: "https://etherscan.io",
+    nativeCurrency: ETHER,
+    cctp: {
+      domain: 0,
+      tokenMessenger: "0xbd3fa81B58Ba92a82136038B25aDec7066af3155",
+      messageTransmitter: "0x0a992d191DEeC32aFe36203Ad87D7d289a738F81",
+    },
+  },
+];
+
+export const DEFAULT_ASSETS: AssetDefinition[] = [
+  // Arc Testnet
+  { id: "USDC_ARC", symbol: "USDC", chainId: ARC_TESTNET_CHAIN_ID, address: "0x3600000000000000000000000000000000000000", decimals: 6, cctp: true },
+  { id: "EURC_ARC", symbol: "EURC", chainId: ARC_TESTNET_CHAIN_ID, address: "0x89850855Aa3bE2F677c06383Cec88985F319072a", decimals: 6, cctp: true },
+  // Arc Mainnet (update if mainnet addresses differ)
+  { id: "USDC_ARC_MAINNET", symbol: "USDC", chainId: ARC_MAINNET_CHAIN_ID, address: "0x3600000000000000000000000000000000000000", decimals: 6, cctp: true },
+  { id: "EURC_ARC_MAINNET", symbol: "EURC", chainId: ARC_MAINNET_CHAIN_ID, address: "0x89850855Aa3bE2F677c06383Cec88985F319072a", decimals: 6, cctp: true },
+  // Base Sepolia
+  { id: "USDC_BASE_SEPOLIA", symbol: "USDC", chainId: 84532, address: "0x036CbD53842c5426634e7929541eC2318f3dCF7e", decimals: 6, cctp: true },
+  { id: "ETH_BASE_SEPOLIA", symbol: "ETH", chainId: 84532, address: null, decimals: 18, cctp: false },
+  // Sepolia
+  { id: "USDC_SEPOLIA", symbol: "USDC", chainId: 11155111, address: "0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238", decimals: 6, cctp: true },
+  { id: "ETH_SEPOLIA", symbol: "ETH", chainId: 11155111, address: null, decimals: 18, cctp: false },
+  // Base
+  { id: "USDC_BASE", symbol: "USDC", chainId: 8453, address: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913", decimals: 6, cctp: true },
+  { id: "EURC_BASE", symbol: "EURC", chainId: 8453, address: "0x1aBaEA1f7C830bD89Acc67eC4f5164b1b3905C3c", decimals: 6, cctp: true },
+  { id: "ETH_BASE", symbol: "ETH", chainId: 8453, address: null, decimals: 18, cctp: false },
+  // Ethereum
+  { id: "USDC_MAINNET", symbol: "USDC", chainId: 1, address: "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48", decimals: 6, cctp: true },
+  { id: "EURC_MAINNET", symbol: "EURC", chainId: 1, address: "0x1aBaEA1f7C830bD89Acc67eC4f5164b1b3905C3c", decimals: 6, cctp: true },
+  { id: "ETH_MAINNET", symbol: "ETH", chainId: 1, address: null, decimals: 18, cctp: false },
+];
+
+export class ChainRegistryError extends Error {
+  constructor(public problems: string[]) {
+    super(`Invalid chain registry:\n  - ${problems.join("\n  - ")}`);
+    this.name = "ChainRegistryError";
+  }
+}
+
+export interface ResolvedAsset extends AssetDefinition {
+  chain: ChainDefinition;
+}
+
+export interface ChainRegistry {
+  chains: ChainDefinition[];
+  assets: AssetDefinition[];
+  getChain(chainId: number): ChainDefinition | null;
+  getAsset(assetId: string): ResolvedAsset | null;
+  getChainAssets(chainId: number): AssetDefinition[];
+  getToken(chainId: number, symbol: string): AssetDefinition | null;
+  getSettlementChain(testnet: boolean): ChainDefinition;
+}
+
+/**
+ * Replace entries with the same id, append the rest
+ */
+function mergeById<T>(base: T[], overrides: T[], idOf: (item: T) => string | number): T[] {
+  const merged = new Map(base.map((item) => [idOf(item), item]));
+  for (const item of overrides) {
+    merged.set(idOf(item), item);
+  }
+  return Array.from(merged.values());
+}
+
+/**
+ * Cross-check chains and assets; every problem is collected so operators can fix them in one go
+ */
+function validateRegistry(chains: ChainDefinition[], assets: AssetDefinition[]): string[] {
+  const problems: string[] = [];
+  const chainsById = new Map<number, ChainDefinition>();
+  const chainKeys = new Set<string>();
+
+  for (const chain of chains) {
+    chainsById.set(chain.id, chain);
+    if (chainKeys.has(chain.key)) {
+      problems.push(`Chain key ${chain.key} is used by more than one chain`);
+    }
+    chainKeys.add(chain.key);
+  }
+
+  for (const network of [true, false]) {
+    const settlementChains = chains.filter((chain) => chain.settlement && chain.testnet === network);
+    if (settlementChains.length !== 1) {
+      problems.push(`Expected exactly one ${network ? "testnet" : "mainnet"} settlement chain, found ${settlementChains.length}`);
+    }
+  }
+
+  const tokens = new Set<string>();
+  for (const asset of assets) {
+    const chain = chainsById.get(asset.chainId);
+    if (!chain) {
+      problems.push(`Asset ${asset.id} references unknown chain ${asset.chainId}`);
+      continue;
+    }
+    if (asset.id !== `${asset.symbol}_${chain.key}`) {
+      problems.push(`Asset ${asset.id} should be named ${asset.symbol}_${chain.key}`);
+    }
+    if (asset.cctp && !chain.cctp) {
+      problems.push(`Asset ${asset.id} is marked CCTP but ${chain.name} has no CCTP contracts`);
+    }
+    if (asset.cctp && !asset.address) {
+      problems.push(`Asset ${asset.id} is marked CCTP but has no token address`);
+    }
+    if (!asset.address && asset.symbol !== chain.nativeCurrency.symbol) {
+      problems.push(`Asset ${asset.id} has no token address but is not ${chain.name}'s native currency`);
+    }
+
+    const token = `${asset.chainId}:${asset.symbol}`;
+    if (tokens.has(token)) {
+      problems.push(`${asset.symbol} is listed more than once on ${chain.name}`);
+    }
+    tokens.add(token);
+  }
+
+  return problems;
+}
+
+/**
+ * Build a registry from the built-in chains/assets plus an operator extension
+ * Throws ChainRegistryError listing every problem found.
+ */
+export function createChainRegistry(extension?: ChainRegistryConfig): ChainRegistry {
+  let config: z.infer<typeof chainRegistryConfigSchema> = { chains: [], assets: [] };
+  if (extension) {
+    const result = chainRegistryConfigSchema.safeParse(extension);
+    if (!result.success) {
+      throw new ChainRegistryError(
+        result.error.errors.map((error) => `${error.path.join(".")}: ${error.message}`)
+      );
+    }
+    config = result.data;
+  }
+
+  const chains = mergeById(DEFAULT_CHAINS, config.chains, (chain) => chain.id);
+  const assets = mergeById(DEFAULT_ASSETS, config.assets, (asset) => asset.id);
+
+  const problems = validateRegistry(chains, assets);
+  if (problems.length > 0) {
+    throw new ChainRegistryError(problems);
+  }
+
+  const chainsById = new Map(chains.map((chain) => [chain.id, chain]));
+  const assetsById = new Map(assets.map((asset) => [asset.id, asset]));
+
+  return {
+    chains,
+    assets,
+    getChain: (chainId) => chainsById.get(chainId) ?? null,
+    getAsset: (assetId) => {
+      const asset = assetsById.get(assetId.toUpperCase());
+      return asset ? { ...asset, chain: chainsById.get(asset.chainId)! } : null;
+    },
+    getChainAssets: (chainId) => assets.filter((asset) => asset.chainId === chainId),
+    getToken: (chainId, symbol) =>
+      assets.find((asset) => asset.chainId === chainId && asset.symbol === symbol.toUpperCase()) ?? null,
+    getSettlementChain: (testnet) => chains.find((chain) => chain.settlement && chain.testnet === testnet)!,
+  };
+}
+
+// Built-in registry; the server builds its own with the operator's extension applied
+export const defaultChainRegistry = createChainRegistry();
@@ -1,21 +1,24 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer, timestamp, boolean, decimal, pgEnum } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, bigint, doublePrecision, timestamp, boolean, decimal, pgEnum, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
-export const paymentStatusEnum = pgEnum("payment_status", ["created", "pending", "confirmed", "failed", "refunded", "expired"]);
+export const paymentStatusEnum = pgEnum("payment_status", ["created", "pending", "confirming", "confirmed", "failed", "refunded", "partially_refunded", "expired"]);
 export const invoiceStatusEnum = pgEnum("invoice_status", ["draft", "sent", "paid", "overdue", "cancelled"]);
 export const merchantStatusEnum = pgEnum("merchant_status", ["demo", "pending_verification", "verified"]);
-export const webhookEventTypeEnum = pgEnum("webhook_event_type", ["payment.created", "payment.confirmed", "payment.succeeded", "payment.failed", "payment.refunded", "payment.intent.created", "payment.intent.pending", "payment.intent.completed", "payment.intent.failed", "invoice.created", "invoice.paid", "subscription.created", "subscription.invoice_generated", "subscription.past_due", "subscription.canceled", "payout.created", "payout.completed", "payout.failed"]);
+export const webhookEventTypeEnum = pgEnum("webhook_event_type", ["payment.created", "payment.confirmed", "payment.succeeded", "payment.failed", "payment.refunded", "payment.partially_refunded", "payment.intent.created", "payment.intent.pending", "payment.intent.completed", "payment.intent.failed", "invoice.created", "invoice.paid", "subscription.created", "subscription.invoice_generated", "subscription.past_due", "subscription.canceled", "subscription.updated", "subscription.payment_reminder", "payout.created", "payout.completed", "payout.failed"]);
 export const webhookEventStatusEnum = pgEnum("webhook_event_status", ["pending", "delivered", "failed"]);
 export const settlementRouteTypeEnum = pgEnum("settlement_route_type", ["same_chain", "cctp"]);
-export const settlementRouteStatusEnum = pgEnum("settlement_route_status", ["pending", "processing", "completed", "failed"]);
+// CCTP routes: pending → processing (burn submitted) → attesting → minting → completed
+export const settlementRouteStatusEnum = pgEnum("settlement_route_status", ["pending", "processing", "attesting", "minting", "completed", "failed"]);
 export const fxQuoteStatusEnum = pgEnum("fx_quote_status", ["active", "expired", "used"]);
-export const subscriptionStatusEnum = pgEnum("subscription_status", ["active", "paused", "canceled", "past_due"]);
-export const subscriptionIntervalEnum = pgEnum("subscription_interval", ["monthly", "yearly"]);
+export const subscriptionStatusEnum = pgEnum("subscription_status", ["active", "paused", "canceled", "past_due", "trialing"]);
+export const subscriptionIntervalEnum = pgEnum("subscription_interval", ["monthly", "yearly", "daily", "weekly", "quarterly"]);
+export const priceTypeEnum = pgEnum("price_type", ["one_time", "recurring"]);
 export const payoutStatusEnum = pgEnum("payout_status", ["pending", "processing", "completed", "failed"]);
-export const ledgerEntryTypeEnum = pgEnum("ledger_entry_type", ["fee", "split", "payout", "refund"]);
+export const ledgerEntryTypeEnum = pgEnum("ledger_entry_type", ["fee", "split", "payout", "refund", "capture", "release"]);
+export const ledgerDirectionEnum = pgEnum("ledger_direction", ["debit", "credit"]);
 
 // Session table (managed by connect-pg-simple for Express sessions)
 // This is defined here so Drizzle knows about it and won't try to delete it during migrations
@@ -43,6 +46,9 @@ export const merchants = pgTable("merchants", {
   walletAddress: text("wallet_address"),
   logoUrl: text("logo_url"),
   status: merchantStatusEnum("status").notNull().default("demo"),
+  confirmationPolicy: text("confirmation_policy"), // JSON; overrides the global confirmation_policy config
+  fxSpreadBps: integer("fx_spread_bps"), // Overrides the global fx_spread_bps config
+  rateLimitPolicy: text("rate_limit_policy"), // JSON; per route group, overrides the global rate_limit_policy config
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -56,13 +62,22 @@ export const payments = pgTable("payments", {
   paymentChainId: integer("payment_chain_id"), // Chain ID where payment is made
   conversionPath: text("conversion_path"), // JSON string describing conversion path
   estimatedFees: decimal("estimated_fees", { precision: 18, scale: 6 }), // Estimated network/gas fees
+  fxQuoteId: varchar("fx_quote_id").unique().references((): AnyPgColumn => fxQuotes.id), // FX quote locked for the currency → settlementCurrency conversion
+  priceId: varchar("price_id").references((): AnyPgColumn => prices.id), // Catalog price the amount was taken from
+  fxRate: decimal("fx_rate", { precision: 18, scale: 8 }), // Locked rate from the FX quote
+  convertedAmount: decimal("converted_amount", { precision: 18, scale: 6 }), // Amount in settlementCurrency at the locked rate
   status: paymentStatusEnum("status").notNull().default("created"),
   description: text("description"),
   customerEmail: text("customer_email"),
   payerWallet: text("payer_wallet"),
   merchantWallet: text("merchant_wallet"),
   txHash: text("tx_hash"),
+  txBlockNumber: integer("tx_block_number"), // Block the transfer was mined in (cleared if it is reorged out)
+  txBlockHash: text("tx_block_hash"),
+  confirmations: integer("confirmations").notNull().default(0),
+  requiredConfirmations: integer("required_confirmations"), // From the confirmation policy when the transfer was mined
   settlementTime: integer("settlement_time"),
+  refundedAmount: decimal("refunded_amount", { precision: 18, scale: 6 }).notNull().default("0"), // Sum of completed refunds
   metadata: text("metadata"),
   idempotencyKey: text("idempotency_key"), // Idempotency key for payment creation
   isDemo: boolean("is_demo").default(false).notNull(), // Legacy field, keep for compatibility
@@ -84,6 +99,7 @@ export const invoices = pgTable("invoices", {
   customerName: text("customer_name"),
   dueDate: timestamp("due_date"),
   description: text("description"),
+  isTest: boolean("is_test").default(true).notNull(), // Same mode as the payment or subscription it belongs to
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -104,6 +120,10 @@ export const webhookEvents = pgTable("webhook_events", {
   status: webhookEventStatusEnum("status").notNull().default("pending"),
   attempts: integer("attempts").notNull().default(0),
   lastAttempt: timestamp("last_attempt"),
+  nextAttemptAt: timestamp("next_attempt_at"), // When the outbox worker should (re)try delivery; null once final
+  lockedAt: timestamp("locked_at"), // Set while a worker is delivering; stale locks are reclaimed
+  replayCount: integer("replay_count").notNull().default(0), // Manual redeliveries requested by the merchant
+  replayedAt: timestamp("replayed_at"), // Last manual redelivery; deliveries after this carry x-arc-replay
   responseCode: integer("response_code"),
   responseBody: text("response_body"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
@@ -116,8 +136,11 @@ export const refunds = pgTable("refunds", {
   amount: decimal("amount", { precision: 18, scale: 6 }).notNull(),
   currency: text("currency").notNull().default("USDC"),
   txHash: text("tx_hash"),
-  status: text("status").notNull().default("pending"), // pending, processing, completed, failed
+  status: text("status").notNull().default("pending"), // pending, processing, completed, failed, canceled
   reason: text("reason"),
+  failureReason: text("failure_reason"), // Why on-chain verification rejected the refund tx
+  verificationAttempts: integer("verification_attempts").notNull().default(0), // Checks that found no receipt yet; the watcher times out after its limit
+  lastVerifiedAt: timestamp("last_verified_at"), // Last watcher check, for backoff
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
@@ -128,10 +151,21 @@ export const webhookSubscriptions = pgTable("webhook_subscriptions", {
   url: text("url").notNull(),
   events: text("events").array().notNull(),
   secret: text("secret").notNull(),
+  previousSecret: text("previous_secret"), // Still used for signing until previousSecretExpiresAt (rotation grace period)
+  previousSecretExpiresAt: timestamp("previous_secret_expires_at"),
+  secretRotatedAt: timestamp("secret_rotated_at"),
+  legacyEventAliases: text("legacy_event_aliases").array().notNull().default(sql`'{}'::text[]`), // Legacy event names (e.g. payment.confirmed) delivered alongside canonical events
   active: boolean("active").notNull().default(true),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Per-object counter behind the webhook envelope's `sequence` field
+export const webhookObjectSequences = pgTable("webhook_object_sequences", {
+  objectId: varchar("object_id").primaryKey(),
+  lastSequence: integer("last_sequence").notNull().default(0),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
 export const treasuryBalances = pgTable("treasury_balances", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   merchantId: varchar("merchant_id").notNull().references(() => merchants.id),
@@ -214,9 +248,14 @@ export const apiKeys = pgTable("api_keys", {
   walletAddress: text("wallet_address").notNull(), // Wallet-scoped keys
   keyType: apiKeyTypeEnum("key_type").notNull(),
   mode: apiKeyModeEnum("mode").notNull(),
+  keyId: text("key_id").unique(), // Public id embedded in the key ("sk_arc_live_<keyId>_<secret>"); null for legacy keys
   keyPrefix: text("key_prefix").notNull(), // e.g., "pk_arc_test_" or "sk_arc_live_"
   hashedKey: text("hashed_key").notNull(), // Only for secret keys, publishable keys stored in plaintext prefix
   name: text("name"), // Optional name for the API key
+  scopes: text("scopes").array(), // Restricted secret keys only; null = every secret scope (see shared/apiKeyScopes.ts)
+  allowedIps: text("allowed_ips").array(), // CIDR allowlist for secret keys; null = any IP
+  expiresAt: timestamp("expires_at"), // Set explicitly, or by rotation (old key keeps working until then)
+  expiryNotifiedAt: timestamp("expiry_notified_at"), // Expiry warning notification sent
   lastUsedAt: timestamp("last_used_at"),
   revokedAt: timestamp("revoked_at"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
@@ -366,6 +405,7 @@ export const apiRequestLogs = pgTable("api_request_logs", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   requestId: text("request_id").notNull(), // Correlation ID
   merchantId: varchar("merchant_id").references(() => merchants.id),
+  apiKeyId: varchar("api_key_id"), // apiKeys row that authenticated the request (no FK: deleted keys keep their history)
   method: text("method").notNull(),
   path: text("path").notNull(),
   statusCode: integer("status_code").notNull(),
@@ -403,6 +443,15 @@ export const settlementRoutes = pgTable("settlement_routes", {
   cctpBurnTxHash: text("cctp_burn_tx_hash"), // CCTP burn transaction hash
   cctpMintTxHash: text("cctp_mint_tx_hash"), // CCTP mint transaction hash
   cctpAttestation: text("cctp_attestation"), // CCTP attestation message
+  cctpMessage: text("cctp_message"), // Message from the burn's MessageSent event (replaced by the attested message)
+  cctpMessageHash: text("cctp_message_hash"), // keccak256 of the MessageSent message
+  cctpSourceDomain: integer("cctp_source_domain"),
+  attempts: integer("attempts").notNull().default(0), // Checks in the current state
+  nextAttemptAt: timestamp("next_attempt_at"),
+  lastError: text("last_error"),
+  plan: text("plan"), // JSON settlement plan: ordered bridge/settle steps with estimates
+  estimatedTime: integer("estimated_time"), // Seconds, all steps of the plan
+  estimatedFees: decimal("estimated_fees", { precision: 18, scale: 6 }), // All steps of the plan
   metadata: text("metadata"), // JSON string for additional routing data
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
@@ -415,7 +464,11 @@ export const fxQuotes = pgTable("fx_quotes", {
   merchantId: varchar("merchant_id").references(() => merchants.id), // Optional: merchant-specific quote
   fromCurrency: text("from_currency").notNull(), // e.g., "USDC"
   toCurrency: text("to_currency").notNull(), // e.g., "EURC"
-  rate: decimal("rate", { precision: 18, scale: 8 }).notNull(), // Exchange rate
+  rate: decimal("rate", { precision: 18, scale: 8 }).notNull(), // Quoted rate (mid-rate less spread)
+  provider: text("provider"), // Rate provider that supplied the mid-rate (static, oracle, feed)
+  midRate: decimal("mid_rate", { precision: 18, scale: 8 }), // Raw mid-market rate from the provider
+  spreadBps: integer("spread_bps").notNull().default(0), // Spread applied to the mid-rate
+  rateAsOf: timestamp("rate_as_of"), // When the provider last updated the mid-rate
   amount: decimal("amount", { precision: 18, scale: 6 }).notNull(), // Amount in fromCurrency
   convertedAmount: decimal("converted_amount", { precision: 18, scale: 6 }).notNull(), // Amount in toCurrency
   status: fxQuoteStatusEnum("status").notNull().default("active"),
@@ -424,19 +477,57 @@ export const fxQuotes = pgTable("fx_quotes", {
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Product catalog: what a merchant sells, and the prices it can be bought or subscribed at
+export const products = pgTable("products", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  merchantId: varchar("merchant_id").notNull().references(() => merchants.id),
+  name: text("name").notNull(),
+  description: text("description"),
+  active: boolean("active").notNull().default(true), // false = archived: hidden from new checkouts and subscriptions
+  metadata: text("metadata"), // JSON string for additional data
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Amounts are fixed once created; change pricing by adding a price and archiving the old one
+export const prices = pgTable("prices", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  productId: varchar("product_id").notNull().references(() => products.id),
+  merchantId: varchar("merchant_id").notNull().references(() => merchants.id),
+  nickname: text("nickname"), // e.g. "Pro monthly"
+  type: priceTypeEnum("type").notNull(),
+  interval: subscriptionIntervalEnum("interval"), // Recurring prices only
+  intervalCount: integer("interval_count").notNull().default(1), // Bill every N intervals (e.g. daily + 14 = every 14 days)
+  unitAmounts: text("unit_amounts").notNull(), // JSON amount per currency, e.g. {"USDC": "10.00", "EURC": "9.20"}
+  defaultCurrency: text("default_currency").notNull().default("USDC"), // Used when a request doesn't name a currency
+  active: boolean("active").notNull().default(true), // false = archived; existing subscriptions keep billing
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
 // Phase 3A: Subscriptions (Non-custodial, Invoice-based)
 export const subscriptions = pgTable("subscriptions", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   merchantId: varchar("merchant_id").notNull().references(() => merchants.id),
+  priceId: varchar("price_id").references(() => prices.id), // Catalog price; amount/currency/interval are copied from it
   customerEmail: text("customer_email").notNull(),
   customerName: text("customer_name"),
   amount: decimal("amount", { precision: 18, scale: 6 }).notNull(),
   currency: text("currency").notNull().default("USDC"),
   interval: subscriptionIntervalEnum("interval").notNull().default("monthly"),
+  intervalCount: integer("interval_count").notNull().default(1), // Bill every N intervals (e.g. daily + 14 = every 14 days)
   status: subscriptionStatusEnum("status").notNull().default("active"),
-  nextBillingAt: timestamp("next_billing_at").notNull(),
+  nextBillingAt: timestamp("next_billing_at").notNull(), // Start of the next period to invoice
+  trialEndsAt: timestamp("trial_ends_at"), // No invoices before this; status is trialing until then
+  billingAnchorAt: timestamp("billing_anchor_at"), // Start of the first billed period; every period is counted from it
+  billingAnchorDay: integer("billing_anchor_day"), // Day of month (1-31) month-based periods start on, clamped in short months
   gracePeriodDays: integer("grace_period_days").notNull().default(7),
+  prorationBalance: decimal("proration_balance", { precision: 18, scale: 6 }).notNull().default("0"), // Prorated charge (+) or credit (-) added to the next invoice
+  pausedAt: timestamp("paused_at"),
+  resumeAt: timestamp("resume_at"), // Paused subscriptions resume automatically at this time
   canceledAt: timestamp("canceled_at"),
+  cancellationReason: text("cancellation_reason"), // requested, payment_failed
+  isTest: boolean("is_test").default(true).notNull(), // Mode of the API key that created it; its invoices and payments share it
   metadata: text("metadata"), // JSON string for additional data
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
@@ -459,6 +550,12 @@ export const subscriptionInvoices = pgTable("subscription_invoices", {
   paymentId: varchar("payment_id").references(() => payments.id), // PaymentIntent created for invoice
   billingPeriodStart: timestamp("billing_period_start").notNull(),
   billingPeriodEnd: timestamp("billing_period_end").notNull(),
+  kind: text("kind").notNull().default("cycle"), // cycle (a billing period), proration (mid-period plan change)
+  prorationAmount: decimal("proration_amount", { precision: 18, scale: 6 }), // Proration included in the amount; negative is a credit
+  attemptCount: integer("attempt_count").notNull().default(1), // PaymentIntents created for the invoice (dunning regenerates expired ones)
+  remindersSent: integer("reminders_sent").notNull().default(0),
+  lastReminderAt: timestamp("last_reminder_at"),
+  dunningClosedAt: timestamp("dunning_closed_at"), // Paid, or the subscription was canceled for non-payment
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -474,6 +571,7 @@ export const payouts = pgTable("payouts", {
   txHash: text("tx_hash"), // Transaction hash when completed
   failureReason: text("failure_reason"),
   metadata: text("metadata"), // JSON string for additional data
+  isTest: boolean("is_test").default(false).notNull(), // Mode of the API key that created it; draws on that mode's balance
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
@@ -512,17 +610,103 @@ export const splitRules = pgTable("split_rules", {
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// A balanced group of ledger entries (sum of debits = sum of credits)
+export const ledgerTransactions = pgTable("ledger_transactions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  merchantId: varchar("merchant_id").notNull().references(() => merchants.id),
+  type: ledgerEntryTypeEnum("type").notNull(),
+  currency: text("currency").notNull().default("USDC"),
+  paymentId: varchar("payment_id").references(() => payments.id),
+  refundId: varchar("refund_id").references(() => refunds.id),
+  payoutId: varchar("payout_id").references(() => payouts.id),
+  idempotencyKey: text("idempotency_key").notNull().unique(), // e.g. "capture:<paymentId>" - a business event is posted once
+  description: text("description"),
+  isTest: boolean("is_test").default(false).notNull(), // Test and live funds are booked to separate balances
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
 export const ledgerEntries = pgTable("ledger_entries", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  transactionId: varchar("transaction_id").references(() => ledgerTransactions.id),
   merchantId: varchar("merchant_id").notNull().references(() => merchants.id),
   paymentId: varchar("payment_id").references(() => payments.id),
   entryType: ledgerEntryTypeEnum("entry_type").notNull(),
-  amount: decimal("amount", { precision: 18, scale: 6 }).notNull(), // Positive = debit, Negative = credit
+  account: text("account").notNull(), // merchant_pending, merchant_available, platform_fees, split_payable, external
+  direction: ledgerDirectionEnum("direction").notNull(),
+  amount: decimal("amount", { precision: 18, scale: 6 }).notNull(), // Always positive; direction says which side
   currency: text("currency").notNull().default("USDC"),
   description: text("description"),
   feeRuleId: varchar("fee_rule_id").references(() => feeRules.id),
   splitRuleId: varchar("split_rule_id").references(() => splitRules.id),
   metadata: text("metadata"), // JSON string for additional data
+  isTest: boolean("is_test").default(false).notNull(), // Same mode as its transaction
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Single-sided fee/split entries the ledger migration couldn't convert (duplicates of a
+// converted entry), kept as recorded for audit; they don't count towards any balance
+export const legacyLedgerEntries = pgTable("legacy_ledger_entries", {
+  id: varchar("id").primaryKey(), // Original ledger_entries.id
+  merchantId: varchar("merchant_id").notNull(),
+  paymentId: varchar("payment_id"),
+  entryType: ledgerEntryTypeEnum("entry_type").notNull(),
+  amount: decimal("amount", { precision: 18, scale: 6 }).notNull(), // Signed, as originally recorded
+  currency: text("currency").notNull(),
+  description: text("description"),
+  feeRuleId: varchar("fee_rule_id"),
+  splitRuleId: varchar("split_rule_id"),
+  metadata: text("metadata"),
+  createdAt: timestamp("created_at").notNull(),
+  archivedAt: timestamp("archived_at").defaultNow().notNull(),
+});
+
+// Chain indexer: last block scanned per chain; blockHash detects reorgs below it
+export const chainIndexerCheckpoints = pgTable("chain_indexer_checkpoints", {
+  chainId: integer("chain_id").primaryKey(),
+  blockNumber: integer("block_number").notNull(),
+  blockHash: text("block_hash").notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// USDC/EURC Transfer logs to merchant wallets seen by the chain indexer
+export const chainTransfers = pgTable("chain_transfers", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  eventKey: text("event_key").notNull().unique(), // "<chainId>:<txHash>:<logIndex>"
+  chainId: integer("chain_id").notNull(),
+  txHash: text("tx_hash").notNull(),
+  logIndex: integer("log_index").notNull(),
+  blockNumber: integer("block_number").notNull(),
+  blockHash: text("block_hash").notNull(),
+  tokenAddress: text("token_address").notNull(),
+  currency: text("currency").notNull(), // USDC or EURC
+  fromAddress: text("from_address").notNull(),
+  toAddress: text("to_address").notNull(),
+  amount: decimal("amount", { precision: 18, scale: 6 }).notNull(),
+  status: text("status").notNull().default("unconfirmed"), // unconfirmed, matched, unmatched, orphaned
+  paymentId: varchar("payment_id").references(() => payments.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Token buckets for the Postgres rate limit store, one per merchant (or IP) and route group
+export const rateLimitBuckets = pgTable("rate_limit_buckets", {
+  key: text("key").primaryKey(), // "merchant:<id>:<group>" or "ip:<address>:<group>"
+  tokens: doublePrecision("tokens").notNull(),
+  updatedAt: bigint("updated_at", { mode: "number" }).notNull(), // ms since epoch of the last refill
+  allowed: boolean("allowed").notNull(), // Whether the last request took a token
+});
+
+// Responses to POST requests sent with an Idempotency-Key header, replayed when the key is reused
+export const idempotencyKeys = pgTable("idempotency_keys", {
+  key: text("key").primaryKey(), // "<merchantId>:<Idempotency-Key header>"
+  merchantId: varchar("merchant_id").notNull().references(() => merchants.id),
+  method: text("method").notNull(),
+  path: text("path").notNull(),
+  fingerprint: text("fingerprint").notNull(), // sha256 of method, path and canonical JSON body
+  responseStatus: integer("response_status"), // null while the first request is still being handled
+  responseBody: text("response_body"),
+  lockedUntil: timestamp("locked_until"), // While unanswered, another request may take the key over after this
+  expiresAt: timestamp("expires_at").notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -551,8 +735,19 @@ export const fxQuotesRelations = relations(fxQuotes, ({ one }) => ({
   merchant: one(merchants, { fields: [fxQuotes.merchantId], references: [merchants.id] }),
 }));
 
+export const productsRelations = relations(products, ({ one, many }) => ({
+  merchant: one(merchants, { fields: [products.merchantId], references: [merchants.id] }),
+  prices: many(prices),
+}));
+
+export const pricesRelations = relations(prices, ({ one, many }) => ({
+  product: one(products, { fields: [prices.productId], references: [products.id] }),
+  subscriptions: many(subscriptions),
+}));
+
 export const subscriptionsRelations = relations(subscriptions, ({ one, many }) => ({
   merchant: one(merchants, { fields: [subscriptions.merchantId], references: [merchants.id] }),
+  price: one(prices, { fields: [subscriptions.priceId], references: [prices.id] }),
   schedules: many(subscriptionSchedules),
   invoices: many(subscriptionInvoices),
 }));
@@ -587,7 +782,14 @@ export const splitRulesRelations = relations(splitRules, ({ one, many }) => ({
   ledgerEntries: many(ledgerEntries),
 }));
 
+export const ledgerTransactionsRelations = relations(ledgerTransactions, ({ one, many }) => ({
+  merchant: one(merchants, { fields: [ledgerTransactions.merchantId], references: [merchants.id] }),
+  payment: one(payments, { fields: [ledgerTransactions.paymentId], references: [payments.id] }),
+  entries: many(ledgerEntries),
+}));
+
 export const ledgerEntriesRelations = relations(ledgerEntries, ({ one }) => ({
+  transaction: one(ledgerTransactions, { fields: [ledgerEntries.transactionId], references: [ledgerTransactions.id] }),
   merchant: one(merchants, { fields: [ledgerEntries.merchantId], references: [merchants.id] }),
   payment: one(payments, { fields: [ledgerEntries.paymentId], references: [payments.id] }),
   feeRule: one(feeRules, { fields: [ledgerEntries.feeRuleId], references: [feeRules.id] }),
@@ -616,6 +818,8 @@ export const insertApiRequestLogSchema = createInsertSchema(apiRequestLogs).omit
 export const insertPaymentAuditLogSchema = createInsertSchema(paymentAuditLogs).omit({ id: true, createdAt: true });
 export const insertSettlementRouteSchema = createInsertSchema(settlementRoutes).omit({ id: true, createdAt: true, updatedAt: true });
 export const insertFxQuoteSchema = createInsertSchema(fxQuotes).omit({ id: true, createdAt: true });
+export const insertProductSchema = createInsertSchema(products).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertPriceSchema = createInsertSchema(prices).omit({ id: true, createdAt: true, updatedAt: true });
 export const insertSubscriptionSchema = createInsertSchema(subscriptions).omit({ id: true, createdAt: true, updatedAt: true });
 export const insertSubscriptionScheduleSchema = createInsertSchema(subscriptionSchedules).omit({ id: true, createdAt: true });
 export const insertSubscriptionInvoiceSchema = createInsertSchema(subscriptionInvoices).omit({ id: true, createdAt: true });
@@ -681,6 +885,10 @@ export type SettlementRoute = typeof settlementRoutes.$inferSelect;
 export type InsertSettlementRoute = typeof settlementRoutes.$inferInsert;
 export type FxQuote = typeof fxQuotes.$inferSelect;
 export type InsertFxQuote = typeof fxQuotes.$inferInsert;
+export type Product = typeof products.$inferSelect;
+export type InsertProduct = typeof products.$inferInsert;
+export type Price = typeof prices.$inferSelect;
+export type InsertPrice = typeof prices.$inferInsert;
 export type Subscription = typeof subscriptions.$inferSelect;
 export type InsertSubscription = typeof subscriptions.$inferInsert;
 export type SubscriptionSchedule = typeof subscriptionSchedules.$inferSelect;
@@ -695,5 +903,11 @@ export type FeeRule = typeof feeRules.$inferSelect;
 export type InsertFeeRule = typeof feeRules.$inferInsert;
 export type SplitRule = typeof splitRules.$inferSelect;
 export type InsertSplitRule = typeof splitRules.$inferInsert;
+export type LedgerTransaction = typeof ledgerTransactions.$inferSelect;
+export type InsertLedgerTransaction = typeof ledgerTransactions.$inferInsert;
 export type LedgerEntry = typeof ledgerEntries.$inferSelect;
 export type InsertLedgerEntry = typeof ledgerEntries.$inferInsert;
+export type ChainIndexerCheckpoint = typeof chainIndexerCheckpoints.$inferSelect;
+export type ChainTransfer = typeof chainTransfers.$inferSelect;
+export type InsertChainTransfer = typeof chainTransfers.$inferInsert;
+export type IdempotencyKey = typeof idempotencyKeys.$inferSelect;
@@ -0,0 +1,157 @@
+/**
+ * Webhook Event Envelope
+ * Shared between the server (which builds and signs events) and the dashboard
+ */
+
+// Bump when the envelope or event data shapes change in a breaking way
+export const WEBHOOK_API_VERSION = "2026-10-01";
+
+// Canonical event types emitted by the gateway
+export const WEBHOOK_EVENT_TYPES = [
+  "payment.intent.created",
+  "payment.intent.completed",
+  "payment.intent.failed",
+  "payment.refunded",
+  "payment.partially_refunded",
+  "invoice.paid",
+  "subscription.created",
+  "subscription.invoice_generated",
+  "subscription.past_due",
+  "subscription.canceled",
+  "subscription.updated",
+  "subscription.payment_reminder",
+  "payout.created",
+  "payout.completed",
+  "payout.failed",
+] as const;
+
+export type WebhookEventType = (typeof WEBHOOK_EVENT_TYPES)[number];
+
+// Legacy event names, delivered only to subscriptions that opt in to the alias.
+// An alias carries the same data, sequence and api_version as its canonical event.
+export const LEGACY_WEBHOOK_EVENT_ALIASES = {
+  "payment.created": "payment.intent.created",
+  "payment.succeeded": "payment.intent.completed",
+  "payment.confirmed": "payment.intent.completed",
+  "payment.failed": "payment.intent.failed",
+} as const satisfies Record<string, WebhookEventType>;
+
+export type LegacyWebhookEventAlias = keyof typeof LEGACY_WEBHOOK_EVENT_ALIASES;
+
+export const LEGACY_WEBHOOK_EVENT_ALIAS_NAMES = Object.keys(LEGACY_WEBHOOK_EVENT_ALIASES) as LegacyWebhookEventAlias[];
+
+export function isLegacyWebhookEventAlias(eventType: string): eventType is LegacyWebhookEventAlias {
+  return eventType in LEGACY_WEBHOOK_EVENT_ALIASES;
+}
+
+/**
+ * Legacy aliases emitted alongside a canonical event
+ */
+export function getLegacyAliases(eventType: WebhookEventType): LegacyWebhookEventAlias[] {
+  return LEGACY_WEBHOOK_EVENT_ALIAS_NAMES.filter((alias) => LEGACY_WEBHOOK_EVENT_ALIASES[alias] === eventType);
+}
+
+export interface PaymentEventData {
+  id: string;
+  amount: string;
+  currency: string;
+  settlementCurrency: string;
+  status: string;
+  merchantWallet: string;
+  payerWallet: string | null;
+  txHash: string | null;
+  explorerLink: string | null;
+  expiresAt: string | Date | null;
+  idempotencyKey: string | null;
+  settlementTime?: number | null;
+  refundedAmount: string;
+  fxQuoteId: string | null;
+  fxRate: string | null; // Locked currency → settlementCurrency rate
+  convertedAmount: string | null; // Amount in settlementCurrency at the locked rate
+  reason?: string;
+  refund?: {
+    id: string;
+    amount: string;
+    txHash: string;
+    explorerLink: string;
+  };
+}
+
+export interface InvoiceEventData {
+  id: string;
+  invoiceNumber: string;
+  amount: string;
+  currency: string;
+  status: string;
+  customerEmail: string;
+  customerName: string | null;
+  paymentId: string | null;
+}
+
+export interface SubscriptionEventData {
+  id: string;
+  customerEmail: string;
+  amount: string;
+  currency: string;
+  interval: string;
+  intervalCount: number;
+  status: string;
+  nextBillingAt: string | Date;
+  trialEndsAt: string | Date | null;
+  pausedAt: string | Date | null;
+  resumeAt: string | Date | null;
+  canceledAt: string | Date | null;
+  cancellationReason: string | null;
+  invoiceId?: string;
+  paymentId?: string;
+  previousAttributes?: { amount: string; interval: string; intervalCount: number }; // subscription.updated
+  prorationAmount?: string; // subscription.updated: charge (+) or credit (-) for the rest of the period
+  attemptCount?: number; // subscription.payment_reminder: PaymentIntents created for the unpaid invoice
+  graceEndsAt?: string | Date; // subscription.payment_reminder: canceled if still unpaid by then
+}
+
+export interface PayoutEventData {
+  id: string;
+  amount: string;
+  currency: string;
+  destinationWallet: string;
+  destinationChainId: number;
+  status: string;
+  txHash: string | null;
+  reason?: string;
+}
+
+export interface WebhookEventDataMap {
+  "payment.intent.created": PaymentEventData;
+  "payment.intent.completed": PaymentEventData;
+  "payment.intent.failed": PaymentEventData;
+  "payment.refunded": PaymentEventData;
+  "payment.partially_refunded": PaymentEventData;
+  "invoice.paid": InvoiceEventData;
+  "subscription.created": SubscriptionEventData;
+  "subscription.invoice_generated": SubscriptionEventData;
+  "subscription.past_due": SubscriptionEventData;
+  "subscription.canceled": SubscriptionEventData;
+  "subscription.updated": SubscriptionEventData;
+  "subscription.payment_reminder": SubscriptionEventData;
+  "payout.created": PayoutEventData;
+  "payout.completed": PayoutEventData;
+  "payout.failed": PayoutEventData;
+}
+
+/**
+ * Body of every webhook delivery.
+ * - id: stable across retries and redeliveries; use it to deduplicate
+ * - sequence: increases with every event about the same object (data.id); use it to
+ *   discard events that arrive after a newer one
+ */
+export interface WebhookEventEnvelope<T extends WebhookEventType = WebhookEventType> {
+  id: string;
+  object: "event";
+  type: T | LegacyWebhookEventAlias;
+  api_version: string;
+  created: number; // Unix timestamp (seconds)
+  livemode: boolean;
+  sequence: number;
+  data: WebhookEventDataMap[T];
+}